@@ -0,0 +1,45 @@
+/**
+ * Read-only lookups against claude.ai's own web API.
+ *
+ * The content script runs on the claude.ai origin, so its requests carry
+ * the user's session just like the page's own. This is only used where the
+ * rendered page gives no reliable answer — e.g. whether a conversation was
+ * deleted, which the empty chat view of a slow load can't tell apart.
+ *
+ * RISK: the endpoint is undocumented and may change. Anything other than a
+ * clear answer is reported as 'unknown', and callers must treat it that way.
+ */
+
+import { Logger } from './LoggerService';
+
+const TAG = 'ConversationApi';
+
+/** Whether a conversation exists; 'unknown' when the API gave no clear answer */
+export type ConversationStatus = 'exists' | 'missing' | 'unknown';
+
+class ConversationApiImpl {
+  /** The organization the user last worked in, from claude.ai's own cookie */
+  private getOrganizationId(): string | null {
+    const match = /(?:^|;\s*)lastActiveOrg=([^;]+)/.exec(document.cookie);
+    return match?.[1] ? decodeURIComponent(match[1]) : null;
+  }
+
+  /** Ask the API for a conversation; only an HTTP 404 counts as missing */
+  async getConversationStatus(conversationId: string): Promise<ConversationStatus> {
+    const orgId = this.getOrganizationId();
+    if (!orgId) return 'unknown';
+    const url = `${window.location.origin}/api/organizations/${encodeURIComponent(orgId)}`
+      + `/chat_conversations/${encodeURIComponent(conversationId)}`;
+    try {
+      const response = await fetch(url, { credentials: 'include', headers: { Accept: 'application/json' } });
+      if (response.status === 404) return 'missing';
+      return response.ok ? 'exists' : 'unknown';
+    } catch (err) {
+      Logger.warn(TAG, `Status lookup failed for ${conversationId.slice(0, 8)}`, err);
+      return 'unknown';
+    }
+  }
+}
+
+/** Singleton API client */
+export const ConversationApi = new ConversationApiImpl();
@@ -13,7 +13,8 @@
 
 import DOMPurify from 'dompurify';
 import { Logger } from './LoggerService';
-import type { ChatMessage, MessageRole } from '@core/types';
+import type { ChatMessage, MessageRole, SidebarConversation } from '@core/types';
+import { matchRanges } from '@core/utils';
 
 const TAG = 'DOM';
 
@@ -42,6 +43,9 @@ export const Selectors = {
   /** Individual conversation items in the sidebar */
   sidebarConversationItem: 'a[href^="/chat/"]',
 
+  /** Headings of the sidebar's conversation groups ("Starred", "Recents", ...) */
+  sidebarSectionHeading: 'h2, h3, h4, [role="heading"]',
+
   /**
    * The container holding all chat messages (the thread).
    * Direct children alternate between user turns, assistant turns, and separators.
@@ -82,6 +86,15 @@ export const Selectors = {
    */
   sendButton: '[data-testid="chat-input"] button[type="button"]:last-of-type, button[aria-label*="send" i], button[aria-label*="senden" i]',
 
+  /**
+   * The stop button shown in place of the send button while a reply streams.
+   * NOTE: aria-label is localized ("Stop response", "Antwort stoppen").
+   */
+  stopButton: '[data-testid="chat-input"] button[aria-label*="stop" i], fieldset button[aria-label*="stop" i]',
+
+  /** An assistant message that is still being written */
+  streamingMessage: '[data-is-streaming="true"]',
+
   /**
    * The conversation title element.
    * Verified 2025-02: [data-testid="chat-title-button"]
@@ -99,6 +112,9 @@ export const Selectors = {
    * Verified 2025-02: [data-testid="page-header"] — sticky header bar
    */
   toolbar: '[data-testid="page-header"]',
+
+  /** Link back to the project a conversation belongs to, in the page header */
+  projectLink: '[data-testid="page-header"] a[href^="/project/"]',
 } as const;
 
 /** Selector keys type for external references */
@@ -114,6 +130,11 @@ interface ObserverEntry {
 /** Managed observer registry — allows cleanup on teardown */
 const observers = new Map<string, ObserverEntry>();
 
+/** Incremented per revealMessage() call — a newer call cancels a pending one */
+let revealSeq = 0;
+const REVEAL_TIMEOUT_MS = 10_000;
+const REVEAL_POLL_MS = 250;
+
 // ─── DOMService Implementation ──────────────────────────────────
 
 class DOMServiceImpl {
@@ -284,6 +305,26 @@ class DOMServiceImpl {
     });
   }
 
+  /**
+   * Sanitize rendered message HTML for persistence (snapshots, exports).
+   * Broader than `sanitize()`: keeps tables, classes (code language hints)
+   * and the KaTeX MathML annotation carrying the TeX source.
+   * Injected Voyager UI is stripped.
+   */
+  sanitizeMessageHtml(html: string): string {
+    const clean = DOMPurify.sanitize(html, {
+      USE_PROFILES: { html: true, mathMl: true },
+      ADD_TAGS: ['semantics', 'annotation'],
+      ADD_ATTR: ['encoding'],
+      FORBID_TAGS: ['button', 'input', 'form', 'style'],
+      RETURN_DOM: true,
+    }) as HTMLElement;
+    for (const el of Array.from(clean.querySelectorAll('[data-voyager], .voyager-formula-copy'))) {
+      el.remove();
+    }
+    return clean.innerHTML;
+  }
+
   /**
    * Safely inject an HTML string into a parent element.
    * The HTML is sanitized via DOMPurify before insertion.
@@ -371,6 +412,22 @@ class DOMServiceImpl {
     return () => container.removeEventListener(event, listener);
   }
 
+  /**
+   * Text as a node sequence with every occurrence of `terms` (lower-cased)
+   * wrapped in <mark>, for highlighting search hits in injected UI.
+   */
+  highlightMatches(text: string, terms: string[]): Node[] {
+    const nodes: Node[] = [];
+    let cursor = 0;
+    for (const [start, end] of matchRanges(text, terms)) {
+      if (start > cursor) nodes.push(document.createTextNode(text.slice(cursor, start)));
+      nodes.push(this.createElement('mark', {}, [text.slice(start, end)]));
+      cursor = end;
+    }
+    if (cursor < text.length) nodes.push(document.createTextNode(text.slice(cursor)));
+    return nodes;
+  }
+
   // ─── Chat-specific helpers ──────────────────────────────────
 
   /** Get the current conversation ID from the URL */
@@ -384,12 +441,108 @@ class DOMServiceImpl {
     return /^\/chat\/[a-f0-9-]+$/i.test(window.location.pathname);
   }
 
+  /**
+   * Navigate to a conversation without a full page reload.
+   * Prefers clicking the native sidebar link (React Router handles it),
+   * falling back to the History API which our pushState hook picks up.
+   */
+  navigateToConversation(conversationId: string): void {
+    const url = `/chat/${conversationId}`;
+    const nativeLink = document.querySelector(`a[href="${url}"]`) as HTMLAnchorElement | null;
+    if (nativeLink) {
+      nativeLink.click();
+      return;
+    }
+    history.pushState(null, '', url);
+    window.dispatchEvent(new PopStateEvent('popstate'));
+  }
+
+  /**
+   * Conversation links in the sidebar, in order, each with the heading of
+   * the section it is listed under. A chat listed twice (e.g. starred and
+   * recent) appears once per section.
+   */
+  getSidebarConversations(): SidebarConversation[] {
+    const sidebar = this.query('sidebar');
+    if (!sidebar) return [];
+    const nodes = sidebar.querySelectorAll(
+      `${Selectors.sidebarSectionHeading}, ${Selectors.sidebarConversationItem}`,
+    );
+    const conversations: SidebarConversation[] = [];
+    let section: string | null = null;
+    for (const node of nodes) {
+      if (!node.matches(Selectors.sidebarConversationItem)) {
+        section = node.textContent?.trim() || null;
+        continue;
+      }
+      const id = /\/chat\/([a-f0-9-]+)/i.exec(node.getAttribute('href') ?? '')?.[1];
+      if (!id) continue;
+      conversations.push({ id, title: node.textContent?.trim() || id, section });
+    }
+    return conversations;
+  }
+
   /** Get the conversation title from the DOM */
   getConversationTitle(): string | null {
     const titleEl = this.query('conversationTitle');
     return titleEl?.textContent?.trim() ?? null;
   }
 
+  /** Name of the project the open conversation belongs to, if any */
+  getConversationProject(): string | null {
+    return this.query('projectLink')?.textContent?.trim() || null;
+  }
+
+  /** Smooth-scroll a chat message into the centre of the viewport */
+  scrollMessageIntoView(element: Element): void {
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }
+
+  /**
+   * Open a conversation and scroll to one of its messages once it has
+   * rendered, briefly outlining it. Resolves with the message element, or
+   * null if it did not render in time or a newer reveal superseded this one.
+   */
+  async revealMessage(conversationId: string, messageIndex: number): Promise<Element | null> {
+    const seq = ++revealSeq;
+    const previousElements = new Set<Element>();
+    if (this.getConversationId() !== conversationId) {
+      for (const msg of this.getChatMessages()) previousElements.add(msg.element);
+      this.navigateToConversation(conversationId);
+    }
+
+    const deadline = Date.now() + REVEAL_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      if (seq !== revealSeq) return null;
+      if (this.getConversationId() === conversationId) {
+        const messages = this.getChatMessages();
+        // The previous thread can linger briefly after the URL changes
+        const first = messages[0];
+        const target = messages[messageIndex];
+        if (first && !previousElements.has(first.element) && target) {
+          this.scrollMessageIntoView(target.element);
+          target.element.animate(
+            [
+              { boxShadow: '0 0 0 2px rgba(217, 170, 90, 0.6)', offset: 0.6 },
+              { boxShadow: '0 0 0 2px transparent' },
+            ],
+            { duration: 2000, easing: 'ease-out' },
+          );
+          return target.element;
+        }
+      }
+      await new Promise((resolve) => setTimeout(resolve, REVEAL_POLL_MS));
+    }
+
+    Logger.warn(TAG, `Message ${messageIndex} of ${conversationId.slice(0, 8)} did not render in time`);
+    return null;
+  }
+
+  /** Whether an assistant reply is still being generated */
+  isResponseStreaming(): boolean {
+    return this.query('streamingMessage') !== null || this.query('stopButton') !== null;
+  }
+
   /** Get the current user's display name from the sidebar profile area */
   getUserName(): string | null {
     // claude.ai shows the username in the profile button at the bottom of the sidebar nav.
@@ -429,6 +582,11 @@ class DOMServiceImpl {
     return null;
   }
 
+  /** Text of a message as displayed, line breaks included */
+  getMessageText(element: Element): string {
+    return ((element as HTMLElement).innerText ?? element.textContent ?? '').trim();
+  }
+
   /**
    * Parse all visible chat messages from the DOM.
    * Returns an ordered array of ChatMessage objects.
@@ -14,7 +14,14 @@ export type MessageType =
   | 'UPDATE_SETTINGS'
   | 'SETTINGS_CHANGED'
   | 'GET_TAB_INFO'
-  | 'FEATURE_TOGGLE';
+  | 'FEATURE_TOGGLE'
+  | 'SNAPSHOT_SAVE'
+  | 'SNAPSHOT_GET'
+  | 'SNAPSHOT_LIST'
+  | 'SNAPSHOT_DELETE'
+  | 'SNAPSHOT_SEARCH'
+  | 'SNAPSHOT_CLEAR'
+  | 'OPEN_TABS';
 
 /** Message payload structure */
 export interface ExtensionMessage {
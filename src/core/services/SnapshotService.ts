@@ -0,0 +1,318 @@
+/**
+ * Local conversation snapshot cache backed by IndexedDB.
+ *
+ * Every time a conversation's messages change, the content script sends the
+ * parsed messages here so they survive navigation. Export, search and other
+ * features can then work on conversations that are not currently open.
+ *
+ * The database lives in the background script (extension origin) so claude.ai
+ * page scripts cannot read it. Content scripts talk to it through the
+ * `Snapshots` client, which forwards calls via MessageService.
+ *
+ * Limits:
+ * - A single snapshot is capped at MAX_SNAPSHOT_BYTES — HTML is dropped
+ *   from the oldest messages first, plain text is always kept.
+ * - The cache holds at most MAX_SNAPSHOTS entries / MAX_TOTAL_BYTES; the
+ *   least recently captured snapshots are evicted first.
+ *
+ * Full-text search runs inside the background so message text never has to
+ * be shipped to the content script in bulk.
+ */
+
+import { Logger } from './LoggerService';
+import { Messaging } from './MessageService';
+import { buildSnippet, scoreText, tokenizeQuery } from '@core/utils';
+import type { ConversationSnapshot, MessageRole, SnapshotMessage, SnapshotMeta } from '@core/types';
+
+const TAG = 'Snapshots';
+
+const DB_NAME = 'claude-voyager';
+const DB_VERSION = 1;
+const SNAPSHOT_STORE = 'snapshots';
+const META_STORE = 'snapshotMeta';
+
+export const MAX_SNAPSHOT_BYTES = 2 * 1024 * 1024;
+export const MAX_TOTAL_BYTES = 64 * 1024 * 1024;
+export const MAX_SNAPSHOTS = 1000;
+
+/** Title matches rank above single message matches */
+const TITLE_WEIGHT = 3;
+
+/** Payload accepted by `save` — timestamps and size are filled in by the store */
+export interface SnapshotInput {
+  conversationId: string;
+  title: string;
+  messages: SnapshotMessage[];
+}
+
+/** A ranked search match — a message, or the conversation title if `messageIndex` is null */
+export interface SnapshotSearchHit {
+  conversationId: string;
+  title: string;
+  messageIndex: number | null;
+  role: MessageRole | null;
+  snippet: string;
+  score: number;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
+
+function measure(messages: SnapshotMessage[]): number {
+  return JSON.stringify(messages).length;
+}
+
+/** Drop HTML from the oldest messages until the snapshot fits its budget */
+function fitToBudget(messages: SnapshotMessage[]): { messages: SnapshotMessage[]; size: number } {
+  const fitted = messages.map((m) => ({ ...m }));
+  let size = measure(fitted);
+  for (const msg of fitted) {
+    if (size <= MAX_SNAPSHOT_BYTES) break;
+    size -= msg.contentHtml.length;
+    msg.contentHtml = '';
+  }
+  return { messages: fitted, size: measure(fitted) };
+}
+
+function toMeta(snapshot: ConversationSnapshot): SnapshotMeta {
+  const { messages: _messages, ...meta } = snapshot;
+  return meta;
+}
+
+// ─── IndexedDB Store (background) ───────────────────────────────
+
+class SnapshotStoreImpl {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'conversationId' });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          const meta = db.createObjectStore(META_STORE, { keyPath: 'conversationId' });
+          meta.createIndex('capturedAt', 'capturedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((err: unknown) => {
+      this.dbPromise = null;
+      Logger.error(TAG, 'Failed to open snapshot database', err);
+      throw err;
+    });
+
+    return this.dbPromise;
+  }
+
+  /** Insert or replace the snapshot for a conversation */
+  async save(input: SnapshotInput): Promise<SnapshotMeta> {
+    const db = await this.open();
+    const { messages, size } = fitToBudget(input.messages);
+    const now = Date.now();
+
+    const tx = db.transaction([SNAPSHOT_STORE, META_STORE], 'readwrite');
+    const metaStore = tx.objectStore(META_STORE);
+    const previous = await requestToPromise(
+      metaStore.get(input.conversationId) as IDBRequest<SnapshotMeta | undefined>,
+    );
+
+    const snapshot: ConversationSnapshot = {
+      conversationId: input.conversationId,
+      title: input.title,
+      messageCount: messages.length,
+      size,
+      firstCapturedAt: previous?.firstCapturedAt ?? now,
+      capturedAt: now,
+      messages,
+    };
+    tx.objectStore(SNAPSHOT_STORE).put(snapshot);
+    metaStore.put(toMeta(snapshot));
+    await transactionDone(tx);
+
+    await this.evict();
+    return toMeta(snapshot);
+  }
+
+  /** Load a full snapshot */
+  async get(conversationId: string): Promise<ConversationSnapshot | null> {
+    const db = await this.open();
+    const tx = db.transaction(SNAPSHOT_STORE, 'readonly');
+    const result = await requestToPromise(
+      tx.objectStore(SNAPSHOT_STORE).get(conversationId) as IDBRequest<ConversationSnapshot | undefined>,
+    );
+    return result ?? null;
+  }
+
+  /** List metadata for all snapshots, newest first */
+  async list(): Promise<SnapshotMeta[]> {
+    const db = await this.open();
+    const tx = db.transaction(META_STORE, 'readonly');
+    const all = await requestToPromise(tx.objectStore(META_STORE).getAll() as IDBRequest<SnapshotMeta[]>);
+    return all.sort((a, b) => b.capturedAt - a.capturedAt);
+  }
+
+  /** Iterate all full snapshots (oldest captured first) */
+  async forEach(visit: (snapshot: ConversationSnapshot) => void): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(SNAPSHOT_STORE, 'readonly');
+    const request = tx.objectStore(SNAPSHOT_STORE).openCursor();
+    await new Promise<void>((resolve, reject) => {
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        visit(cursor.value as ConversationSnapshot);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /** Ranked full-text search over all cached conversations */
+  async search(query: string, limit: number): Promise<SnapshotSearchHit[]> {
+    const terms = tokenizeQuery(query);
+    if (terms.length === 0) return [];
+
+    const hits: SnapshotSearchHit[] = [];
+    await this.forEach((snapshot) => {
+      const titleScore = scoreText(snapshot.title, terms);
+      if (titleScore > 0) {
+        hits.push({
+          conversationId: snapshot.conversationId,
+          title: snapshot.title,
+          messageIndex: null,
+          role: null,
+          snippet: snapshot.title,
+          score: titleScore * TITLE_WEIGHT,
+        });
+      }
+      for (const msg of snapshot.messages) {
+        const score = scoreText(msg.contentText, terms);
+        if (score === 0) continue;
+        hits.push({
+          conversationId: snapshot.conversationId,
+          title: snapshot.title,
+          messageIndex: msg.index,
+          role: msg.role,
+          snippet: buildSnippet(msg.contentText, terms),
+          score,
+        });
+      }
+    });
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /** Remove a single snapshot */
+  async delete(conversationId: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([SNAPSHOT_STORE, META_STORE], 'readwrite');
+    tx.objectStore(SNAPSHOT_STORE).delete(conversationId);
+    tx.objectStore(META_STORE).delete(conversationId);
+    await transactionDone(tx);
+  }
+
+  /** Remove all snapshots */
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([SNAPSHOT_STORE, META_STORE], 'readwrite');
+    tx.objectStore(SNAPSHOT_STORE).clear();
+    tx.objectStore(META_STORE).clear();
+    await transactionDone(tx);
+  }
+
+  /** Drop the least recently captured snapshots until limits are met */
+  private async evict(): Promise<void> {
+    const metas = await this.list();
+    let totalBytes = metas.reduce((sum, m) => sum + m.size, 0);
+    let count = metas.length;
+    if (count <= MAX_SNAPSHOTS && totalBytes <= MAX_TOTAL_BYTES) return;
+
+    const victims: string[] = [];
+    // list() is newest first — walk from the end
+    for (let i = metas.length - 1; i >= 0; i--) {
+      if (count <= MAX_SNAPSHOTS && totalBytes <= MAX_TOTAL_BYTES) break;
+      const meta = metas[i];
+      if (!meta) continue;
+      victims.push(meta.conversationId);
+      totalBytes -= meta.size;
+      count -= 1;
+    }
+
+    const db = await this.open();
+    const tx = db.transaction([SNAPSHOT_STORE, META_STORE], 'readwrite');
+    for (const id of victims) {
+      tx.objectStore(SNAPSHOT_STORE).delete(id);
+      tx.objectStore(META_STORE).delete(id);
+    }
+    await transactionDone(tx);
+    Logger.info(TAG, `Evicted ${victims.length} snapshots to stay within cache limits`);
+  }
+}
+
+/** Singleton IndexedDB store — use only in the background script */
+export const SnapshotStore = new SnapshotStoreImpl();
+
+// ─── Messaging Client (content scripts) ─────────────────────────
+
+class SnapshotClientImpl {
+  /** Persist a snapshot; resolves false if the background could not store it */
+  async save(input: SnapshotInput): Promise<boolean> {
+    const res = await Messaging.send({ type: 'SNAPSHOT_SAVE', payload: input });
+    return res.success;
+  }
+
+  /** Load a cached conversation, or null if it was never captured */
+  async get(conversationId: string): Promise<ConversationSnapshot | null> {
+    const res = await Messaging.send({ type: 'SNAPSHOT_GET', payload: { conversationId } });
+    return res.success ? ((res.data as ConversationSnapshot | null) ?? null) : null;
+  }
+
+  /** List metadata for all cached conversations, newest first */
+  async list(): Promise<SnapshotMeta[]> {
+    const res = await Messaging.send({ type: 'SNAPSHOT_LIST' });
+    return res.success && Array.isArray(res.data) ? (res.data as SnapshotMeta[]) : [];
+  }
+
+  /** Remove a cached conversation */
+  async delete(conversationId: string): Promise<void> {
+    await Messaging.send({ type: 'SNAPSHOT_DELETE', payload: { conversationId } });
+  }
+
+  /** Remove every cached conversation */
+  async clear(): Promise<boolean> {
+    const res = await Messaging.send({ type: 'SNAPSHOT_CLEAR' });
+    return res.success;
+  }
+
+  /** Ranked full-text search over cached conversations */
+  async search(query: string, limit: number): Promise<SnapshotSearchHit[]> {
+    const res = await Messaging.send({ type: 'SNAPSHOT_SEARCH', payload: { query, limit } });
+    return res.success && Array.isArray(res.data) ? (res.data as SnapshotSearchHit[]) : [];
+  }
+}
+
+/** Singleton snapshot client — forwards to SnapshotStore in the background */
+export const Snapshots = new SnapshotClientImpl();
@@ -10,21 +10,48 @@ import {
   type FeatureToggles,
   type Folder,
   type SavedPrompt,
+  type PromptChain,
   type StarredMessage,
+  type MessageAnnotation,
+  type TagColor,
   DEFAULT_SETTINGS,
   CURRENT_SCHEMA_VERSION,
+  STAR_PREVIEW_LENGTH,
   STORAGE_KEYS,
 } from '@core/types';
+import { FINGERPRINT_PREFIX_LENGTH, normalizeForFingerprint, textFingerprint } from '@core/utils';
 
 const TAG = 'Storage';
 
-/** Migration function signature */
-type MigrationFn = (data: Record<string, unknown>) => Record<string, unknown>;
+/**
+ * Migration function signature.
+ * Receives the settings record; may also rewrite other keys (async).
+ */
+type MigrationFn = (
+  data: Record<string, unknown>,
+) => Record<string, unknown> | Promise<Record<string, unknown>>;
 
 /** Registry of migrations indexed by target schema version */
 const migrations: Record<number, MigrationFn> = {
-  // Example: version 2 migration would go here
-  // 2: (data) => { ... return data; }
+  // v2: anchor stars by content fingerprint instead of message index alone.
+  // The fingerprint is derived from the stored preview when it covers the
+  // whole fingerprint prefix; other stars are fingerprinted on next visit.
+  2: async (data) => {
+    try {
+      const starred = await Storage.getStarred();
+      const anchored = starred.map((star) => {
+        if (star.fingerprint) return star;
+        const complete = star.preview.length < STAR_PREVIEW_LENGTH ||
+          normalizeForFingerprint(star.preview).length >= FINGERPRINT_PREFIX_LENGTH;
+        return complete ? { ...star, fingerprint: textFingerprint(star.preview) } : star;
+      });
+      await Storage.setStarred(anchored);
+    } catch (err) {
+      // Unanchored stars still resolve by index and are fingerprinted on next visit
+      Logger.warn(TAG, 'Star fingerprint migration failed', err);
+    }
+    return data;
+  },
 };
 
 class StorageServiceImpl {
@@ -161,6 +188,26 @@ class StorageServiceImpl {
     await this.setLocal(STORAGE_KEYS.PROMPTS, prompts);
   }
 
+  /** Get chosen prompt tag colors, keyed by lower-cased tag */
+  async getPromptTagColors(): Promise<Record<string, TagColor>> {
+    return this.getLocal<Record<string, TagColor>>(STORAGE_KEYS.PROMPT_TAG_COLORS, {});
+  }
+
+  /** Save prompt tag colors */
+  async setPromptTagColors(colors: Record<string, TagColor>): Promise<void> {
+    await this.setLocal(STORAGE_KEYS.PROMPT_TAG_COLORS, colors);
+  }
+
+  /** Get prompt chains */
+  async getPromptChains(): Promise<PromptChain[]> {
+    return this.getLocal<PromptChain[]>(STORAGE_KEYS.PROMPT_CHAINS, []);
+  }
+
+  /** Save prompt chains */
+  async setPromptChains(chains: PromptChain[]): Promise<void> {
+    await this.setLocal(STORAGE_KEYS.PROMPT_CHAINS, chains);
+  }
+
   // ─── Starred Messages ─────────────────────────────────────────
 
   /** Get starred messages */
@@ -173,6 +220,18 @@ class StorageServiceImpl {
     await this.setLocal(STORAGE_KEYS.STARRED, starred);
   }
 
+  // ─── Annotations ──────────────────────────────────────────────
+
+  /** Get message annotations */
+  async getAnnotations(): Promise<MessageAnnotation[]> {
+    return this.getLocal<MessageAnnotation[]>(STORAGE_KEYS.ANNOTATIONS, []);
+  }
+
+  /** Save message annotations */
+  async setAnnotations(annotations: MessageAnnotation[]): Promise<void> {
+    await this.setLocal(STORAGE_KEYS.ANNOTATIONS, annotations);
+  }
+
   // ─── Migration ────────────────────────────────────────────────
 
   private async migrateIfNeeded(settings: VoyagerSettings): Promise<VoyagerSettings> {
@@ -190,7 +249,7 @@ class StorageServiceImpl {
     for (let v = settings.schemaVersion + 1; v <= CURRENT_SCHEMA_VERSION; v++) {
       const migrateFn = migrations[v];
       if (migrateFn) {
-        data = migrateFn(data);
+        data = await migrateFn(data);
       }
     }
 
@@ -13,7 +13,8 @@ export type FeatureKey =
   | 'export'
   | 'widthAdjust'
   | 'tabTitleSync'
-  | 'formulaCopy';
+  | 'formulaCopy'
+  | 'search';
 
 /** Feature toggle map */
 export type FeatureToggles = Record<FeatureKey, boolean>;
@@ -27,6 +28,7 @@ export const DEFAULT_FEATURE_TOGGLES: FeatureToggles = {
   widthAdjust: false,
   tabTitleSync: false,
   formulaCopy: false,
+  search: false,
 };
 
 /** Global extension settings persisted in storage */
@@ -38,7 +40,7 @@ export interface VoyagerSettings {
 }
 
 /** Current schema version — increment when storage shape changes */
-export const CURRENT_SCHEMA_VERSION = 1;
+export const CURRENT_SCHEMA_VERSION = 2;
 
 /** Default settings */
 export const DEFAULT_SETTINGS: VoyagerSettings = {
@@ -57,12 +59,72 @@ export interface SavedPrompt {
   category: string;
   createdAt: number;
   updatedAt: number;
+  /** Last insertion into the chat input — ranks slash-command suggestions */
+  lastUsedAt?: number;
+  /** Earlier versions, oldest first, capped at PROMPT_HISTORY_LIMIT */
+  history?: PromptRevision[];
+  /** Insertion statistics */
+  usage?: PromptUsage;
+  /** Conversation the prompt was saved from, when taken from a message */
+  source?: PromptSource;
+}
+
+/** Conversation a prompt was saved from */
+export interface PromptSource {
+  conversationId: string | null;
+  conversationTitle: string | null;
+}
+
+/** Insertions kept in a prompt's usage log; older ones only count */
+export const PROMPT_USAGE_LOG_LIMIT = 50;
+
+/** One insertion of a prompt into the chat input */
+export interface PromptUse {
+  at: number;
+  /** Conversation open at the time, null on a new chat */
+  conversationId: string | null;
+  conversationTitle: string | null;
+}
+
+/** How often and where a prompt has been used */
+export interface PromptUsage {
+  /** Total insertions, including those dropped from `log` */
+  count: number;
+  /** Most recent insertions, oldest first */
+  log: PromptUse[];
+}
+
+/** An ordered sequence of saved prompts, run one step per assistant reply */
+export interface PromptChain {
+  id: string;
+  title: string;
+  /** Prompt ids in run order; a prompt may appear more than once */
+  steps: string[];
+  /** Insert the next step as soon as a reply finishes instead of offering it */
+  autoInsert: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Versions kept per prompt; the oldest is dropped first */
+export const PROMPT_HISTORY_LIMIT = 20;
+
+/** A previous version of a saved prompt */
+export interface PromptRevision {
+  title: string;
+  content: string;
+  tags: string[];
+  category: string;
+  /** When this version was saved (its `updatedAt` at the time) */
+  savedAt: number;
 }
 
 /** A conversation reference stored inside a folder */
 export interface FolderConversation {
   id: string;
   title: string;
+  /** Set when the chat showed claude.ai's not-found view on a visit */
+  missing?: boolean;
 }
 
 /** A folder for organizing conversations */
@@ -70,18 +132,108 @@ export interface Folder {
   id: string;
   name: string;
   parentId: string | null;
+  /** Filed conversations; unused by smart folders, whose contents come from `smart` */
   conversations: FolderConversation[];
   createdAt: number;
   order: number;
+  /** Set on smart folders */
+  smart?: SmartFolderRules;
+  /** Rules that file new conversations into this folder */
+  filing?: FolderFilingRules;
+  color?: FolderColor;
+  /** Emoji shown before the name */
+  icon?: string;
+  /** Listed in the claude.ai sidebar below the folder nav item */
+  pinned?: boolean;
 }
 
-/** A starred message reference */
+/**
+ * Rules that add new conversations to a folder. A title keyword or the
+ * pattern must match; the project, when set, must match as well.
+ */
+export interface FolderFilingRules {
+  /** Title keywords (case-insensitive) */
+  keywords: string[];
+  /** Title regex (case-insensitive); '' = none */
+  pattern: string;
+  /** Name of the project the chat was started in; '' = any */
+  project: string;
+}
+
+/** A condition a conversation must meet to appear in a smart folder */
+export type SmartFolderRule =
+  | { kind: 'titleRegex'; pattern: string }
+  | { kind: 'starred' }
+  | { kind: 'hasNotes' }
+  | { kind: 'openedWithin'; days: number }
+  | { kind: 'sidebarSection'; section: string };
+
+export type SmartFolderRuleKind = SmartFolderRule['kind'];
+
+/** Membership rules of a smart folder */
+export interface SmartFolderRules {
+  /** Whether a conversation must meet all rules or any of them */
+  match: 'all' | 'any';
+  rules: SmartFolderRule[];
+}
+
+/** A conversation link in the native sidebar */
+export interface SidebarConversation {
+  id: string;
+  title: string;
+  /** Heading of the sidebar section the link sits in (e.g. "Starred", "Recents") */
+  section: string | null;
+}
+
+/** Characters of message text kept as a star's preview */
+export const STAR_PREVIEW_LENGTH = 100;
+
+/**
+ * A starred message reference.
+ * Anchored by `fingerprint` (hash of the normalized text prefix); `messageIndex`
+ * breaks ties between identical messages and is the fallback for stars without one.
+ */
 export interface StarredMessage {
   conversationId: string;
   messageIndex: number;
   preview: string;
   starredAt: number;
   level: 1 | 2 | 3;
+  fingerprint?: string;
+  /** Set when the message could not be found in the fully loaded conversation */
+  orphaned?: boolean;
+  /** Free-text note added from the starred dashboard */
+  note?: string;
+}
+
+/** Color label of a message annotation */
+export type AnnotationLabel = 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple';
+
+/** All annotation labels, in display order */
+export const ANNOTATION_LABELS: readonly AnnotationLabel[] = [
+  'red', 'orange', 'yellow', 'green', 'blue', 'purple',
+];
+
+/** Chip color of a prompt tag — same palette as annotation labels */
+export type TagColor = AnnotationLabel;
+
+/** Color of a folder — same palette as annotation labels */
+export type FolderColor = AnnotationLabel;
+
+/**
+ * A private note and/or color label attached to a message.
+ * Anchored the same way as starred messages.
+ */
+export interface MessageAnnotation {
+  conversationId: string;
+  messageIndex: number;
+  fingerprint?: string;
+  /** Set when the message could not be found in the fully loaded conversation */
+  orphaned?: boolean;
+  note: string;
+  label: AnnotationLabel | null;
+  createdAt: number;
+  updatedAt: number;
 }
 
 /** Message role in a conversation */
@@ -96,10 +248,38 @@ export interface ChatMessage {
   element: Element;
 }
 
+/** A message as persisted in a conversation snapshot (no DOM reference) */
+export interface SnapshotMessage {
+  role: MessageRole;
+  contentText: string;
+  /** Sanitized message HTML (may be emptied when the snapshot exceeds its size budget) */
+  contentHtml: string;
+  index: number;
+}
+
+/** Lightweight snapshot metadata — used for listing without loading messages */
+export interface SnapshotMeta {
+  conversationId: string;
+  title: string;
+  messageCount: number;
+  /** Approximate serialized size in bytes */
+  size: number;
+  firstCapturedAt: number;
+  capturedAt: number;
+}
+
+/** A locally cached copy of a conversation's parsed messages */
+export interface ConversationSnapshot extends SnapshotMeta {
+  messages: SnapshotMessage[];
+}
+
 /** Storage key constants */
 export const STORAGE_KEYS = {
   SETTINGS: 'voyager_settings',
   FOLDERS: 'voyager_folders',
   PROMPTS: 'voyager_prompts',
   STARRED: 'voyager_starred',
+  ANNOTATIONS: 'voyager_annotations',
+  PROMPT_TAG_COLORS: 'voyager_prompt_tag_colors',
+  PROMPT_CHAINS: 'voyager_prompt_chains',
 } as const;
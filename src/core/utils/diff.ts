@@ -0,0 +1,54 @@
+/**
+ * Line-level text diff (longest common subsequence).
+ */
+
+export type DiffOp = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+}
+
+/**
+ * Diff `before` against `after` line by line. Removed lines come before the
+ * added lines that replace them. Quadratic in the line count — meant for
+ * prompt-sized texts, not whole documents.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const n = a.length;
+  const m = b.length;
+
+  // lcs[i * width + j] = length of the LCS of a[i..] and b[j..]
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? (lcs[(i + 1) * width + j + 1] ?? 0) + 1
+        : Math.max(lcs[(i + 1) * width + j] ?? 0, lcs[i * width + j + 1] ?? 0);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    const line = a[i] ?? '';
+    if (line === b[j]) {
+      result.push({ op: 'same', text: line });
+      i++;
+      j++;
+    } else if ((lcs[(i + 1) * width + j] ?? 0) >= (lcs[i * width + j + 1] ?? 0)) {
+      result.push({ op: 'removed', text: line });
+      i++;
+    } else {
+      result.push({ op: 'added', text: b[j] ?? '' });
+      j++;
+    }
+  }
+  for (; i < n; i++) result.push({ op: 'removed', text: a[i] ?? '' });
+  for (; j < m; j++) result.push({ op: 'added', text: b[j] ?? '' });
+  return result;
+}
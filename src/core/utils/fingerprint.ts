@@ -0,0 +1,22 @@
+/**
+ * Content fingerprints for anchoring data (e.g. stars) to chat messages.
+ */
+
+/** Normalized characters that make up a fingerprint — shorter than the stored star preview */
+export const FINGERPRINT_PREFIX_LENGTH = 80;
+
+/** Collapse whitespace and case so cosmetic re-rendering does not change the fingerprint */
+export function normalizeForFingerprint(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/** 32-bit FNV-1a hash (hex) of the normalized text prefix */
+export function textFingerprint(text: string): string {
+  const prefix = normalizeForFingerprint(text).slice(0, FINGERPRINT_PREFIX_LENGTH);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < prefix.length; i++) {
+    hash ^= prefix.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
@@ -4,3 +4,6 @@
 
 export { debounce, throttle } from './debounce';
 export { generateId, uuid } from './id';
+export { tokenizeQuery, scoreText, matchRanges, buildSnippet, editDistance } from './search';
+export { textFingerprint, normalizeForFingerprint, FINGERPRINT_PREFIX_LENGTH } from './fingerprint';
+export { diffLines, type DiffLine, type DiffOp } from './diff';
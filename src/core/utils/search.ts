@@ -0,0 +1,108 @@
+/**
+ * Plain-text search helpers shared by the search overlay and the snapshot store.
+ */
+
+/** Occurrences counted per term — more adds nothing to the score */
+const MAX_COUNTED_OCCURRENCES = 10;
+
+/** Split a query into unique, lower-cased terms */
+export function tokenizeQuery(query: string): string[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return [...new Set(terms)];
+}
+
+/**
+ * Score how well `text` matches all `terms`. Returns 0 unless every term occurs.
+ * Repeated hits, matches at word starts and the full phrase raise the score;
+ * long texts are dampened so a short exact hit outranks a passing mention.
+ */
+export function scoreText(text: string, terms: string[]): number {
+  if (terms.length === 0 || !text) return 0;
+  const lower = text.toLowerCase();
+  let score = 0;
+
+  for (const term of terms) {
+    let count = 0;
+    let wordStart = false;
+    let pos = lower.indexOf(term);
+    while (pos !== -1 && count < MAX_COUNTED_OCCURRENCES) {
+      count++;
+      if (pos === 0 || !/[\p{L}\p{N}]/u.test(lower.charAt(pos - 1))) wordStart = true;
+      pos = lower.indexOf(term, pos + term.length);
+    }
+    if (count === 0) return 0;
+    score += 1 + Math.log(count) + (wordStart ? 0.5 : 0);
+  }
+
+  if (terms.length > 1 && lower.includes(terms.join(' '))) score += 2;
+  return score / (1 + Math.log10(1 + lower.length / 500));
+}
+
+/** Character ranges of every term occurrence, sorted and merged */
+export function matchRanges(text: string, terms: string[]): [number, number][] {
+  const lower = text.toLowerCase();
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    let pos = lower.indexOf(term);
+    while (pos !== -1) {
+      ranges.push([pos, pos + term.length]);
+      pos = lower.indexOf(term, pos + term.length);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const merged: [number, number][] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
+
+/** Single-line excerpt of `text` centred on the first match */
+export function buildSnippet(text: string, terms: string[], radius = 60): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const first = matchRanges(flat, terms)[0];
+  if (!first) return flat.slice(0, radius * 2) + (flat.length > radius * 2 ? '…' : '');
+
+  const start = Math.max(0, first[0] - radius);
+  const end = Math.min(flat.length, first[1] + radius);
+  return (start > 0 ? '…' : '') + flat.slice(start, end) + (end < flat.length ? '…' : '');
+}
+
+/**
+ * Edit distance between `a` and `b` counting insertions, deletions,
+ * substitutions and adjacent transpositions. Stops early and returns
+ * `max + 1` once the distance is known to exceed `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        (prev[j] ?? Infinity) + 1,
+        (row[j - 1] ?? Infinity) + 1,
+        (prev[j - 1] ?? Infinity) + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, (prevPrev[j - 2] ?? Infinity) + 1);
+      }
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return Math.min(prev[b.length] ?? max + 1, max + 1);
+}
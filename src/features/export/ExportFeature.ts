@@ -5,15 +5,28 @@
  * in the page header, matching claude.ai's Button_secondary style.
  * Supports export as:
  * - Structured JSON (full conversation data)
- * - Markdown (clean formatting)
+ * - Markdown (GFM converted from the rendered message HTML)
  * - PDF (via Blob URL print approach — Firefox compatible)
+ * - ZIP bundle (all formats, per-message files, extracted code, manifest)
  */
 
 import type { FeatureModule } from '@pages/content/index';
-import type { VoyagerSettings, ChatMessage, Locale } from '@core/types';
+import type { VoyagerSettings, Locale } from '@core/types';
 import { DOM } from '@core/services/DOMService';
 import { Logger } from '@core/services/LoggerService';
 import { t } from '@i18n/index';
+import {
+  type ExportConversation,
+  annotationsFor,
+  buildHtmlDocument,
+  buildJsonExport,
+  buildMarkdownDocument,
+  downloadBlob,
+  downloadFile,
+  loadAnnotations,
+  sanitizeFilename,
+} from './ExportFormats';
+import { buildConversationBundle } from './ZipBundle';
 
 let locale: Locale = 'en';
 
@@ -137,9 +150,10 @@ function toggleMenu(): void {
   }
 
   const options: Array<{ icon: string; label: string; handler: () => void }> = [
-    { icon: '{ }', label: t(locale).exportAsJson, handler: exportJSON },
-    { icon: '#', label: t(locale).exportAsMarkdown, handler: exportMarkdown },
+    { icon: '{ }', label: t(locale).exportAsJson, handler: () => void exportJSON() },
+    { icon: '#', label: t(locale).exportAsMarkdown, handler: () => void exportMarkdown() },
     { icon: '\u{1F5B6}', label: t(locale).exportAsPdf, handler: exportPDF },
+    { icon: '\u{1F5C2}', label: t(locale).exportAsZip, handler: () => void exportZipBundle() },
   ];
 
   for (const opt of options) {
@@ -183,49 +197,35 @@ function removeMenu(): void {
 
 // ─── Export Functions ───────────────────────────────────────────
 
-function getConversationData(): { title: string; id: string; messages: ChatMessage[] } {
+function getConversationData(): ExportConversation {
   const messages = DOM.getChatMessages();
   const title = DOM.getConversationTitle() ?? t(locale).untitledConversation;
   const id = DOM.getConversationId() ?? 'unknown';
   return { title, id, messages };
 }
 
-function exportJSON(): void {
+/** Conversation data with the user's notes attached */
+async function getAnnotatedConversationData(): Promise<ExportConversation> {
   const data = getConversationData();
+  return { ...data, annotations: annotationsFor(await loadAnnotations(), data.id) };
+}
 
-  const exportObj = {
-    title: data.title,
-    conversationId: data.id,
-    exportedAt: new Date().toISOString(),
-    messageCount: data.messages.length,
-    messages: data.messages.map((m) => ({
-      role: m.role,
-      content: m.contentText,
-      index: m.index,
-    })),
-  };
+async function exportJSON(): Promise<void> {
+  const data = await getAnnotatedConversationData();
 
   downloadFile(
-    JSON.stringify(exportObj, null, 2),
+    JSON.stringify(buildJsonExport(data), null, 2),
     `${sanitizeFilename(data.title)}.json`,
     'application/json',
   );
   Logger.info(TAG, `Exported ${data.messages.length} messages as JSON`);
 }
 
-function exportMarkdown(): void {
-  const data = getConversationData();
-
-  let md = `# ${data.title}\n\n`;
-  md += `*Exported on ${new Date().toLocaleString()}*\n\n---\n\n`;
-
-  for (const msg of data.messages) {
-    const label = msg.role === 'human' ? `**${t(locale).you}:**` : `**${t(locale).claudeRole}:**`;
-    md += `${label}\n\n${msg.contentText}\n\n---\n\n`;
-  }
+async function exportMarkdown(): Promise<void> {
+  const data = await getAnnotatedConversationData();
 
   downloadFile(
-    md,
+    buildMarkdownDocument(data, locale),
     `${sanitizeFilename(data.title)}.md`,
     'text/markdown',
   );
@@ -234,36 +234,7 @@ function exportMarkdown(): void {
 
 function exportPDF(): void {
   const data = getConversationData();
-
-  let html = `<!DOCTYPE html>
-<html><head><meta charset="UTF-8">
-<title>${escapeHtml(data.title)}</title>
-<style>
-  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px; color: #333; }
-  h1 { font-size: 24px; border-bottom: 2px solid #6366f1; padding-bottom: 8px; }
-  .meta { color: #888; font-size: 12px; margin-bottom: 20px; }
-  .message { margin: 16px 0; padding: 12px; border-radius: 8px; }
-  .human { background: #f0f0f5; }
-  .assistant { background: #f5f0ff; }
-  .role { font-weight: 700; font-size: 13px; margin-bottom: 6px; color: #6366f1; }
-  .content { white-space: pre-wrap; font-size: 14px; line-height: 1.6; }
-  pre { background: #f5f5f5; padding: 12px; border-radius: 6px; overflow-x: auto; }
-  code { font-family: 'SF Mono', Consolas, monospace; font-size: 13px; }
-</style></head><body>`;
-
-  html += `<h1>${escapeHtml(data.title)}</h1>`;
-  html += `<div class="meta">Exported on ${new Date().toLocaleString()} | ${data.messages.length} messages</div>`;
-
-  for (const msg of data.messages) {
-    const roleLabel = msg.role === 'human' ? t(locale).you : t(locale).claudeRole;
-    html += `<div class="message ${msg.role}">`;
-    html += `<div class="role">${roleLabel}</div>`;
-    html += `<div class="content">${escapeHtml(msg.contentText)}</div>`;
-    html += `</div>`;
-  }
-
-  html += `<script>window.onload = function() { window.print(); };<\/script>`;
-  html += `</body></html>`;
+  const html = buildHtmlDocument(data, locale, { autoPrint: true });
 
   // Use Blob URL instead of window.open('', '_blank') — Firefox compatible
   const blob = new Blob([html], { type: 'text/html' });
@@ -283,28 +254,17 @@ function exportPDF(): void {
   Logger.info(TAG, 'Opened print dialog for PDF export');
 }
 
-// ─── Helpers ────────────────────────────────────────────────────
-
-function downloadFile(content: string, filename: string, mimeType: string): void {
-  const blob = new Blob([content], { type: mimeType });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = filename;
-  a.click();
-  URL.revokeObjectURL(url);
-}
+async function exportZipBundle(): Promise<void> {
+  const data = await getAnnotatedConversationData();
 
-function sanitizeFilename(name: string): string {
-  return name.replace(/[^a-zA-Z0-9\-_ ]/g, '').trim().slice(0, 60) || 'conversation';
-}
-
-function escapeHtml(text: string): string {
-  return text
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;');
+  try {
+    const blob = await buildConversationBundle(data, locale);
+    downloadBlob(blob, `${sanitizeFilename(data.title)}.zip`);
+    Logger.info(TAG, `Exported ${data.messages.length} messages as ZIP bundle`);
+  } catch (err) {
+    Logger.error(TAG, 'ZIP bundle export failed', err);
+    window.alert(t(locale).exportZipFailed);
+  }
 }
 
 // ─── Cleanup ────────────────────────────────────────────────────
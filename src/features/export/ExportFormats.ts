@@ -0,0 +1,208 @@
+/**
+ * Document builders shared by all export paths.
+ *
+ * Each builder takes a plain conversation snapshot (no live DOM elements),
+ * so the same output can be produced for the open chat, a ZIP bundle,
+ * or conversations captured elsewhere.
+ */
+
+import type { ChatMessage, Locale, MessageAnnotation } from '@core/types';
+import { DOM } from '@core/services/DOMService';
+import { Logger } from '@core/services/LoggerService';
+import { Storage } from '@core/services/StorageService';
+import { t } from '@i18n/index';
+import { htmlToMarkdown } from './MarkdownConverter';
+
+const TAG = 'Export';
+
+/** Message fields needed for export — ChatMessage without its DOM element */
+export type ExportMessage = Pick<ChatMessage, 'role' | 'contentHtml' | 'contentText' | 'index'>;
+
+/** Annotation fields included in exports */
+export type ExportAnnotation = Pick<MessageAnnotation, 'messageIndex' | 'note' | 'label'>;
+
+/** A conversation prepared for export */
+export interface ExportConversation {
+  id: string;
+  title: string;
+  messages: ExportMessage[];
+  /** Private notes per message, if any */
+  annotations?: ExportAnnotation[];
+}
+
+// ─── Builders ───────────────────────────────────────────────────
+
+/** Structured JSON export object */
+export function buildJsonExport(conv: ExportConversation): Record<string, unknown> {
+  return {
+    title: conv.title,
+    conversationId: conv.id,
+    exportedAt: new Date().toISOString(),
+    messageCount: conv.messages.length,
+    messages: conv.messages.map((m) => {
+      const annotation = annotationOf(conv, m);
+      return {
+        role: m.role,
+        content: m.contentText,
+        index: m.index,
+        ...(annotation ? { annotation: { note: annotation.note, label: annotation.label } } : {}),
+      };
+    }),
+  };
+}
+
+/** Full Markdown document with title, export date and all messages */
+export function buildMarkdownDocument(
+  conv: ExportConversation,
+  locale: Locale,
+  headingLevel = 1,
+): string {
+  let md = `${'#'.repeat(headingLevel)} ${conv.title}\n\n`;
+  md += `*Exported on ${new Date().toLocaleString()}*\n\n---\n\n`;
+
+  for (const msg of conv.messages) {
+    md += `${roleLabelMarkdown(msg, locale)}\n\n${annotationMarkdown(conv, msg, locale)}`;
+    md += `${messageToMarkdown(msg)}\n\n---\n\n`;
+  }
+
+  return md;
+}
+
+/** Bold role label used as the per-message Markdown header */
+export function roleLabelMarkdown(msg: ExportMessage, locale: Locale): string {
+  return msg.role === 'human' ? `**${t(locale).you}:**` : `**${t(locale).claudeRole}:**`;
+}
+
+/** The message's note as a Markdown blockquote (with trailing blank line), or '' */
+export function annotationMarkdown(
+  conv: ExportConversation,
+  msg: ExportMessage,
+  locale: Locale,
+): string {
+  const annotation = annotationOf(conv, msg);
+  if (!annotation) return '';
+  const heading = `**${t(locale).annotationExportHeading}**` +
+    (annotation.label ? ` [${annotation.label}]` : '');
+  const lines = annotation.note ? [heading, ...annotation.note.split('\n')] : [heading];
+  return lines.map((line) => (line ? `> ${line}` : '>')).join('\n') + '\n\n';
+}
+
+/** Convert a message to Markdown, falling back to plain text if the HTML yields nothing */
+export function messageToMarkdown(msg: ExportMessage): string {
+  try {
+    const md = htmlToMarkdown(msg.contentHtml);
+    if (md) return md;
+  } catch (err) {
+    Logger.warn(TAG, `Markdown conversion failed for message ${msg.index}`, err);
+  }
+  return msg.contentText;
+}
+
+/**
+ * Standalone HTML document. Messages keep their formatting (code blocks,
+ * lists, tables, formulas) from the sanitized message HTML.
+ * With `autoPrint` the page opens the print dialog on load (PDF export).
+ */
+export function buildHtmlDocument(
+  conv: ExportConversation,
+  locale: Locale,
+  options: { autoPrint?: boolean } = {},
+): string {
+  let html = `<!DOCTYPE html>
+<html><head><meta charset="UTF-8">
+<title>${escapeHtml(conv.title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px; color: #333; }
+  h1 { font-size: 24px; border-bottom: 2px solid #6366f1; padding-bottom: 8px; }
+  .meta { color: #888; font-size: 12px; margin-bottom: 20px; }
+  .message { margin: 16px 0; padding: 12px; border-radius: 8px; }
+  .human { background: #f0f0f5; }
+  .assistant { background: #f5f0ff; }
+  .role { font-weight: 700; font-size: 13px; margin-bottom: 6px; color: #6366f1; }
+  .content { font-size: 14px; line-height: 1.6; overflow-wrap: break-word; }
+  .content > :first-child { margin-top: 0; }
+  .content > :last-child { margin-bottom: 0; }
+  .content.plain { white-space: pre-wrap; }
+  pre { background: #f5f5f5; padding: 12px; border-radius: 6px; overflow-x: auto; }
+  code { font-family: 'SF Mono', Consolas, monospace; font-size: 13px; }
+  table { border-collapse: collapse; margin: 8px 0; }
+  th, td { border: 1px solid #ddd; padding: 4px 8px; text-align: left; }
+  blockquote { margin: 8px 0; padding-left: 12px; border-left: 3px solid #ddd; color: #555; }
+  img { max-width: 100%; }
+  /* Formulas render from their MathML; KaTeX's own markup needs its stylesheet */
+  .katex-html { display: none; }
+</style></head><body>`;
+
+  html += `<h1>${escapeHtml(conv.title)}</h1>`;
+  html += `<div class="meta">Exported on ${new Date().toLocaleString()} | ${conv.messages.length} messages</div>`;
+
+  for (const msg of conv.messages) {
+    const roleLabel = msg.role === 'human' ? t(locale).you : t(locale).claudeRole;
+    html += `<div class="message ${msg.role}">`;
+    html += `<div class="role">${roleLabel}</div>`;
+    html += messageToHtml(msg);
+    html += `</div>`;
+  }
+
+  if (options.autoPrint) {
+    html += `<script>window.onload = function() { window.print(); };<\/script>`;
+  }
+  html += `</body></html>`;
+  return html;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+/** A message's content block — sanitized HTML, or its plain text if the HTML holds nothing */
+function messageToHtml(msg: ExportMessage): string {
+  const html = DOM.sanitizeMessageHtml(msg.contentHtml);
+  if (html.trim()) return `<div class="content">${html}</div>`;
+  return `<div class="content plain">${escapeHtml(msg.contentText)}</div>`;
+}
+
+function annotationOf(conv: ExportConversation, msg: ExportMessage): ExportAnnotation | undefined {
+  return conv.annotations?.find((a) => a.messageIndex === msg.index);
+}
+
+/** A conversation's annotations in export form — orphaned ones have no message to sit on */
+export function annotationsFor(annotations: MessageAnnotation[], conversationId: string): ExportAnnotation[] {
+  return annotations
+    .filter((a) => a.conversationId === conversationId && !a.orphaned)
+    .map(({ messageIndex, note, label }) => ({ messageIndex, note, label }));
+}
+
+/** All stored annotations; an export goes ahead without them if storage fails */
+export async function loadAnnotations(): Promise<MessageAnnotation[]> {
+  try {
+    return await Storage.getAnnotations();
+  } catch (err) {
+    Logger.warn(TAG, 'Could not load annotations for export', err);
+    return [];
+  }
+}
+
+export function downloadFile(content: string, filename: string, mimeType: string): void {
+  downloadBlob(new Blob([content], { type: mimeType }), filename);
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Revoke asynchronously — large blobs may not be picked up synchronously
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function sanitizeFilename(name: string): string {
+  return name.replace(/[^a-zA-Z0-9\-_ ]/g, '').trim().slice(0, 60) || 'conversation';
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,309 @@
+/**
+ * Bulk export of a folder's conversations.
+ *
+ * Walks a folder and all of its subfolders, captures every conversation
+ * and writes them into either
+ * - one ZIP (folder tree mirrored as directories, .md + .json per chat), or
+ * - one combined Markdown file with a table of contents.
+ *
+ * Conversations are read from the snapshot cache when available. Anything
+ * not cached is captured by navigating the current tab to it (SPA
+ * navigation), waiting for the thread to render and reading it via
+ * DOM.getChatMessages(). The tab returns to the original conversation when
+ * the export finishes.
+ */
+
+import JSZip from 'jszip';
+import type { Folder, Locale } from '@core/types';
+import { DOM } from '@core/services/DOMService';
+import { Logger } from '@core/services/LoggerService';
+import { Snapshots } from '@core/services/SnapshotService';
+import { t } from '@i18n/index';
+import {
+  type ExportConversation,
+  annotationsFor,
+  buildJsonExport,
+  buildMarkdownDocument,
+  downloadBlob,
+  downloadFile,
+  loadAnnotations,
+  sanitizeFilename,
+} from './ExportFormats';
+import { folderPath } from './ZipBundle';
+
+const TAG = 'FolderExport';
+
+/** Give up on a conversation that has not rendered after this long */
+const CAPTURE_TIMEOUT_MS = 15_000;
+/** Poll interval while waiting for a conversation to render */
+const CAPTURE_POLL_MS = 300;
+/** Message count must stay unchanged this long before we capture */
+const CAPTURE_SETTLE_MS = 900;
+
+export type FolderExportFormat = 'zip' | 'markdown';
+
+/** A conversation to export, with the folder path it was found under */
+interface FolderExportEntry {
+  id: string;
+  title: string;
+  path: string[];
+}
+
+/** Progress callback — `done` of `total` conversations processed */
+export type FolderExportProgress = (done: number, total: number, title: string) => void;
+
+/** Cancellation token shared with the caller's UI */
+export interface FolderExportToken {
+  cancelled: boolean;
+}
+
+/** Result summary for the caller */
+export interface FolderExportResult {
+  exported: number;
+  failed: string[];
+  cancelled: boolean;
+}
+
+// ─── Collection ─────────────────────────────────────────────────
+
+/**
+ * Collect conversations of a folder and all subfolders (depth-first, ordered).
+ * Entry paths are relative to `root` and start with its name.
+ */
+export function collectFolderConversations(root: Folder, folders: Folder[]): FolderExportEntry[] {
+  const entries: FolderExportEntry[] = [];
+  const seenConversations = new Set<string>();
+  const visited = new Set<string>();
+  const rootDepth = folderPath(root, folders).length;
+
+  const walk = (folder: Folder): void => {
+    if (visited.has(folder.id)) return;
+    visited.add(folder.id);
+
+    const path = folderPath(folder, folders).slice(rootDepth - 1);
+    for (const conv of folder.conversations) {
+      if (seenConversations.has(conv.id)) continue;
+      seenConversations.add(conv.id);
+      entries.push({ id: conv.id, title: conv.title, path });
+    }
+
+    const children = folders
+      .filter((f) => f.parentId === folder.id)
+      .sort((a, b) => a.order - b.order);
+    for (const child of children) walk(child);
+  };
+
+  walk(root);
+  return entries;
+}
+
+// ─── Capture ────────────────────────────────────────────────────
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Load a conversation from the snapshot cache, or null if not cached */
+async function captureFromSnapshot(entry: FolderExportEntry): Promise<ExportConversation | null> {
+  try {
+    const snapshot = await Snapshots.get(entry.id);
+    if (!snapshot || snapshot.messages.length === 0) return null;
+    return { id: entry.id, title: snapshot.title || entry.title, messages: snapshot.messages };
+  } catch (err) {
+    Logger.warn(TAG, `Snapshot lookup failed for ${entry.id.slice(0, 8)}`, err);
+    return null;
+  }
+}
+
+/**
+ * Navigate to a conversation and capture its messages once rendered.
+ * Returns null if the thread did not render in time.
+ */
+async function captureByNavigation(entry: FolderExportEntry): Promise<ExportConversation | null> {
+  const previousElements = new Set(DOM.getChatMessages().map((m) => m.element));
+  if (DOM.getConversationId() !== entry.id) {
+    DOM.navigateToConversation(entry.id);
+  } else {
+    previousElements.clear();
+  }
+
+  const deadline = Date.now() + CAPTURE_TIMEOUT_MS;
+  let lastCount = -1;
+  let stableSince = Date.now();
+
+  while (Date.now() < deadline) {
+    await delay(CAPTURE_POLL_MS);
+    if (DOM.getConversationId() !== entry.id) continue;
+
+    const messages = DOM.getChatMessages();
+    // The previous thread can linger briefly after the URL changes
+    const first = messages[0];
+    if (!first || previousElements.has(first.element)) continue;
+
+    if (messages.length !== lastCount) {
+      lastCount = messages.length;
+      stableSince = Date.now();
+      continue;
+    }
+    if (Date.now() - stableSince < CAPTURE_SETTLE_MS) continue;
+
+    return {
+      id: entry.id,
+      title: DOM.getConversationTitle() ?? entry.title,
+      messages: messages.map(({ role, contentHtml, contentText, index }) => ({
+        role,
+        contentHtml,
+        contentText,
+        index,
+      })),
+    };
+  }
+
+  Logger.warn(TAG, `Timed out capturing conversation ${entry.id.slice(0, 8)}`);
+  return null;
+}
+
+// ─── Writers ────────────────────────────────────────────────────
+
+/** GitHub-style heading anchor */
+function headingAnchor(text: string, used: Map<string, number>): string {
+  const base = text
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .replace(/\s/g, '-') || 'conversation';
+  const count = used.get(base) ?? 0;
+  used.set(base, count + 1);
+  return count === 0 ? base : `${base}-${count}`;
+}
+
+function buildCombinedMarkdown(
+  root: Folder,
+  captured: { entry: FolderExportEntry; conv: ExportConversation }[],
+  locale: Locale,
+): string {
+  const anchors = new Map<string, number>();
+  const sections = captured.map(({ entry, conv }) => ({
+    entry,
+    conv,
+    anchor: headingAnchor(conv.title, anchors),
+  }));
+
+  let md = `# ${root.name}\n\n`;
+  md += `*Exported on ${new Date().toLocaleString()} | ${captured.length} ${t(locale).conversations}*\n\n`;
+  md += `## ${t(locale).tableOfContents}\n\n`;
+  for (const { entry, conv, anchor } of sections) {
+    const location = entry.path.length > 1 ? ` — ${entry.path.slice(1).join(' / ')}` : '';
+    md += `- [${conv.title}](#${anchor})${location}\n`;
+  }
+  md += '\n---\n\n';
+
+  for (const { conv } of sections) {
+    md += buildMarkdownDocument(conv, locale, 2);
+  }
+  return md;
+}
+
+async function buildFolderZip(
+  root: Folder,
+  captured: { entry: FolderExportEntry; conv: ExportConversation }[],
+  failed: FolderExportEntry[],
+  locale: Locale,
+): Promise<Blob> {
+  const zip = new JSZip();
+  const usedPaths = new Set<string>();
+
+  const files = captured.map(({ entry, conv }) => {
+    const dir = entry.path.map((segment) => sanitizeFilename(segment)).join('/');
+    let base = `${dir}/${sanitizeFilename(conv.title)}`;
+    for (let n = 2; usedPaths.has(base); n++) {
+      base = `${dir}/${sanitizeFilename(conv.title)} (${n})`;
+    }
+    usedPaths.add(base);
+
+    zip.file(`${base}.md`, buildMarkdownDocument(conv, locale));
+    zip.file(`${base}.json`, JSON.stringify(buildJsonExport(conv), null, 2));
+    return { id: conv.id, title: conv.title, folder: entry.path, markdown: `${base}.md`, json: `${base}.json` };
+  });
+
+  zip.file('README.md', buildZipIndex(root, files, locale));
+  zip.file('manifest.json', JSON.stringify({
+    folder: root.name,
+    exportedAt: new Date().toISOString(),
+    conversations: files,
+    failed: failed.map((entry) => ({ id: entry.id, title: entry.title, folder: entry.path })),
+  }, null, 2));
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+function buildZipIndex(
+  root: Folder,
+  files: { title: string; folder: string[]; markdown: string }[],
+  locale: Locale,
+): string {
+  let md = `# ${root.name}\n\n## ${t(locale).tableOfContents}\n\n`;
+  for (const file of files) {
+    const link = file.markdown.split('/').map(encodeURIComponent).join('/');
+    md += `- [${file.title}](${link}) — ${file.folder.join(' / ')}\n`;
+  }
+  return md;
+}
+
+// ─── Entry Point ────────────────────────────────────────────────
+
+/** Capture every conversation under `root` and download the result */
+export async function exportFolder(
+  root: Folder,
+  folders: Folder[],
+  format: FolderExportFormat,
+  locale: Locale,
+  options: { onProgress?: FolderExportProgress; token?: FolderExportToken } = {},
+): Promise<FolderExportResult> {
+  const entries = collectFolderConversations(root, folders);
+  const token = options.token ?? { cancelled: false };
+  const originalConversation = DOM.getConversationId();
+  const annotations = await loadAnnotations();
+
+  const captured: { entry: FolderExportEntry; conv: ExportConversation }[] = [];
+  const failed: FolderExportEntry[] = [];
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (!entry) continue;
+    if (token.cancelled) break;
+
+    options.onProgress?.(i, entries.length, entry.title);
+    const conv = (await captureFromSnapshot(entry)) ?? (await captureByNavigation(entry));
+    if (conv) {
+      captured.push({ entry, conv: { ...conv, annotations: annotationsFor(annotations, entry.id) } });
+    } else {
+      failed.push(entry);
+    }
+  }
+  options.onProgress?.(entries.length, entries.length, '');
+
+  if (originalConversation && DOM.getConversationId() !== originalConversation) {
+    DOM.navigateToConversation(originalConversation);
+  }
+
+  if (token.cancelled) {
+    Logger.info(TAG, `Folder export of "${root.name}" cancelled`);
+    return { exported: 0, failed: failed.map((e) => e.title), cancelled: true };
+  }
+
+  if (captured.length > 0) {
+    const filename = sanitizeFilename(root.name);
+    if (format === 'zip') {
+      downloadBlob(await buildFolderZip(root, captured, failed, locale), `${filename}.zip`);
+    } else {
+      downloadFile(buildCombinedMarkdown(root, captured, locale), `${filename}.md`, 'text/markdown');
+    }
+  }
+
+  Logger.info(
+    TAG,
+    `Folder export "${root.name}": exported=${captured.length}, failed=${failed.length}, format=${format}`,
+  );
+  return { exported: captured.length, failed: failed.map((e) => e.title), cancelled: false };
+}
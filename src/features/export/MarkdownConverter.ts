@@ -0,0 +1,251 @@
+/**
+ * HTML → Markdown converter for chat exports.
+ *
+ * Walks the rendered message DOM (ChatMessage.contentHtml) and emits
+ * GitHub-flavored Markdown:
+ * - Headings, paragraphs, emphasis, links, images, blockquotes, rules
+ * - Nested ordered/unordered lists
+ * - Fenced code blocks with a language hint taken from `language-*` classes
+ * - KaTeX formulas restored to `$...$` / `$$...$$` from their TeX annotation
+ * - GFM tables
+ *
+ * Injected Voyager UI and claude.ai chrome (copy buttons etc.) is skipped.
+ */
+
+const LANGUAGE_CLASS_PATTERN = /(?:^|\s)(?:language|lang)-([\w+#.-]+)/i;
+
+/** Elements whose content never belongs in an export */
+const SKIPPED_TAGS = new Set(['BUTTON', 'SCRIPT', 'STYLE', 'SVG', 'TEMPLATE', 'NOSCRIPT']);
+
+interface ConvertContext {
+  /** Current list nesting depth (0 = not inside a list) */
+  listDepth: number;
+}
+
+/** Convert a message's HTML into Markdown */
+export function htmlToMarkdown(html: string): string {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  const md = convertChildren(doc.body, { listDepth: 0 });
+  return md
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** Extract the language hint for a code element (or its <pre> parent) */
+export function detectCodeLanguage(code: Element): string {
+  const candidates: (Element | null)[] = [code, code.closest('pre'), code.closest('pre')?.parentElement ?? null];
+  for (const el of candidates) {
+    const match = el ? LANGUAGE_CLASS_PATTERN.exec(el.getAttribute('class') ?? '') : null;
+    if (match?.[1]) return match[1].toLowerCase();
+  }
+  return '';
+}
+
+// ─── Node Walking ───────────────────────────────────────────────
+
+function convertChildren(parent: Node, ctx: ConvertContext): string {
+  let out = '';
+  for (const child of Array.from(parent.childNodes)) {
+    out += convertNode(child, ctx);
+  }
+  return out;
+}
+
+function convertNode(node: Node, ctx: ConvertContext): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return escapeInline(collapseWhitespace(node.textContent ?? ''));
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  if (SKIPPED_TAGS.has(el.tagName.toUpperCase())) return '';
+  if (el.hasAttribute('data-voyager') || el.classList.contains('voyager-formula-copy')) return '';
+  if (el.getAttribute('aria-hidden') === 'true' && !el.closest('.katex')) return '';
+
+  // KaTeX must be handled before generic span/div processing
+  if (el.classList.contains('katex-display') || el.classList.contains('math-display')) {
+    const tex = findTexSource(el);
+    if (tex !== null) return `\n\n$$\n${tex}\n$$\n\n`;
+  }
+  if (el.classList.contains('katex')) {
+    const tex = findTexSource(el);
+    if (tex !== null) return `$${tex}$`;
+  }
+
+  switch (el.tagName.toLowerCase()) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      const level = Number(el.tagName.slice(1));
+      return `\n\n${'#'.repeat(level)} ${convertInline(el, ctx)}\n\n`;
+    }
+    case 'p':
+      return `\n\n${convertChildren(el, ctx).trim()}\n\n`;
+    case 'br':
+      return '  \n';
+    case 'hr':
+      return '\n\n---\n\n';
+    case 'strong':
+    case 'b':
+      return wrapInline(convertChildren(el, ctx), '**');
+    case 'em':
+    case 'i':
+      return wrapInline(convertChildren(el, ctx), '*');
+    case 'del':
+    case 's':
+      return wrapInline(convertChildren(el, ctx), '~~');
+    case 'code':
+      return el.closest('pre') ? (el.textContent ?? '') : inlineCode(el.textContent ?? '');
+    case 'pre':
+      return convertCodeBlock(el);
+    case 'a':
+      return convertLink(el, ctx);
+    case 'img':
+      return convertImage(el);
+    case 'blockquote':
+      return convertBlockquote(el, ctx);
+    case 'ul':
+    case 'ol':
+      return convertList(el, ctx);
+    case 'table':
+      return convertTable(el, ctx);
+    default:
+      return convertChildren(el, ctx);
+  }
+}
+
+function convertInline(el: Element, ctx: ConvertContext): string {
+  return convertChildren(el, ctx).replace(/\s*\n\s*/g, ' ').trim();
+}
+
+// ─── Block Elements ─────────────────────────────────────────────
+
+function convertCodeBlock(pre: Element): string {
+  const code = pre.querySelector('code') ?? pre;
+  const language = detectCodeLanguage(code);
+  const text = (code.textContent ?? '').replace(/\n$/, '');
+
+  // Use a fence longer than any backtick run inside the code
+  const longestRun = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  return `\n\n${fence}${language}\n${text}\n${fence}\n\n`;
+}
+
+function convertBlockquote(el: Element, ctx: ConvertContext): string {
+  const inner = convertChildren(el, ctx).trim();
+  const quoted = inner
+    .split('\n')
+    .map((line) => (line ? `> ${line}` : '>'))
+    .join('\n');
+  return `\n\n${quoted}\n\n`;
+}
+
+function convertList(list: Element, ctx: ConvertContext): string {
+  const ordered = list.tagName.toLowerCase() === 'ol';
+  const start = Number(list.getAttribute('start') ?? '1') || 1;
+  const indent = '   '.repeat(ctx.listDepth);
+  const childCtx: ConvertContext = { ...ctx, listDepth: ctx.listDepth + 1 };
+
+  const items = Array.from(list.children).filter((child) => child.tagName.toLowerCase() === 'li');
+  const lines = items.map((item, i) => {
+    const marker = ordered ? `${start + i}.` : '-';
+    const body = convertChildren(item, childCtx)
+      .replace(/\n{2,}/g, '\n')
+      .trim()
+      .split('\n')
+      // Nested lists arrive pre-indented; other continuation lines align under the marker
+      .map((line, lineIdx) => (lineIdx === 0 || /^\s/.test(line) ? line : `${indent}   ${line}`))
+      .join('\n');
+    return `${indent}${marker} ${body}`;
+  });
+
+  const block = lines.join('\n');
+  return ctx.listDepth === 0 ? `\n\n${block}\n\n` : `\n${block}\n`;
+}
+
+function convertTable(table: Element, ctx: ConvertContext): string {
+  const rows = Array.from(table.querySelectorAll('tr'));
+  if (rows.length === 0) return '';
+
+  const matrix = rows.map((row) =>
+    Array.from(row.querySelectorAll('th, td')).map((cell) =>
+      convertInline(cell, ctx).replace(/\|/g, '\\|'),
+    ),
+  );
+  const columnCount = Math.max(...matrix.map((cells) => cells.length));
+  if (columnCount === 0) return '';
+
+  const pad = (cells: string[]): string[] => {
+    const padded = [...cells];
+    while (padded.length < columnCount) padded.push('');
+    return padded;
+  };
+
+  const header = pad(matrix[0] ?? []);
+  const alignRow = header.map((_, col) => {
+    const firstCell = rows[0]?.querySelectorAll('th, td')[col];
+    const align = (firstCell?.getAttribute('align') ?? (firstCell as HTMLElement | undefined)?.style.textAlign ?? '').toLowerCase();
+    if (align === 'center') return ':---:';
+    if (align === 'right') return '---:';
+    return '---';
+  });
+
+  const lines = [
+    `| ${header.join(' | ')} |`,
+    `| ${alignRow.join(' | ')} |`,
+    ...matrix.slice(1).map((cells) => `| ${pad(cells).join(' | ')} |`),
+  ];
+  return `\n\n${lines.join('\n')}\n\n`;
+}
+
+// ─── Inline Elements ────────────────────────────────────────────
+
+function convertLink(el: Element, ctx: ConvertContext): string {
+  const text = convertInline(el, ctx);
+  const href = el.getAttribute('href') ?? '';
+  if (!href || href.startsWith('javascript:')) return text;
+  if (!text) return `<${href}>`;
+  return `[${text}](${href.replace(/\)/g, '%29')})`;
+}
+
+function convertImage(el: Element): string {
+  const src = el.getAttribute('src') ?? '';
+  if (!src) return '';
+  const alt = (el.getAttribute('alt') ?? '').replace(/[[\]]/g, '');
+  return `![${alt}](${src})`;
+}
+
+function findTexSource(el: Element): string | null {
+  const annotation = el.querySelector('annotation[encoding="application/x-tex"]');
+  const tex = annotation?.textContent?.trim();
+  return tex ? tex : null;
+}
+
+function inlineCode(text: string): string {
+  if (!text) return '';
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  const padded = text.startsWith('`') || text.endsWith('`') ? ` ${text} ` : text;
+  return `${fence}${padded}${fence}`;
+}
+
+function wrapInline(inner: string, marker: string): string {
+  const trimmed = inner.trim();
+  if (!trimmed) return inner;
+  // Keep surrounding whitespace outside the markers so emphasis stays valid
+  const leading = inner.match(/^\s*/)?.[0] ?? '';
+  const trailing = inner.match(/\s*$/)?.[0] ?? '';
+  return `${leading}${marker}${trimmed}${marker}${trailing}`;
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ');
+}
+
+function escapeInline(text: string): string {
+  return text.replace(/([\\`*_[\]])/g, '\\$1');
+}
@@ -0,0 +1,176 @@
+/**
+ * ZIP bundle export.
+ *
+ * Packages a conversation into a single archive:
+ *
+ *   conversation.md / .json / .html   — full conversation in every format
+ *   messages/001-human.md, ...        — one Markdown file per message
+ *   code/003-1.py, ...                — every code block as its own file
+ *   manifest.json                     — messages, stars and folder membership
+ */
+
+import JSZip from 'jszip';
+import type { Folder, Locale, StarredMessage } from '@core/types';
+import { Storage } from '@core/services/StorageService';
+import { Logger } from '@core/services/LoggerService';
+import {
+  type ExportConversation,
+  buildHtmlDocument,
+  buildJsonExport,
+  annotationMarkdown,
+  buildMarkdownDocument,
+  messageToMarkdown,
+  roleLabelMarkdown,
+} from './ExportFormats';
+import { detectCodeLanguage } from './MarkdownConverter';
+
+const TAG = 'Export';
+
+/** Bump when the manifest shape changes */
+const BUNDLE_MANIFEST_VERSION = 1;
+
+/** Language hint → file extension. Unknown languages fall back to .txt */
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+  javascript: 'js', js: 'js', jsx: 'jsx',
+  typescript: 'ts', ts: 'ts', tsx: 'tsx',
+  python: 'py', py: 'py',
+  java: 'java', kotlin: 'kt', scala: 'scala', groovy: 'groovy',
+  c: 'c', cpp: 'cpp', 'c++': 'cpp', csharp: 'cs', 'c#': 'cs', cs: 'cs',
+  go: 'go', golang: 'go', rust: 'rs', rs: 'rs', swift: 'swift',
+  ruby: 'rb', rb: 'rb', php: 'php', perl: 'pl', lua: 'lua', r: 'r', dart: 'dart',
+  bash: 'sh', sh: 'sh', shell: 'sh', zsh: 'sh', powershell: 'ps1', ps1: 'ps1', bat: 'bat',
+  html: 'html', xml: 'xml', svg: 'svg', css: 'css', scss: 'scss', sass: 'sass', less: 'less',
+  json: 'json', yaml: 'yaml', yml: 'yml', toml: 'toml', ini: 'ini',
+  sql: 'sql', graphql: 'graphql', markdown: 'md', md: 'md',
+  latex: 'tex', tex: 'tex', dockerfile: 'Dockerfile', makefile: 'mk',
+  vue: 'vue', svelte: 'svelte', haskell: 'hs', elixir: 'ex', erlang: 'erl',
+  clojure: 'clj', ocaml: 'ml', fsharp: 'fs', julia: 'jl', matlab: 'm',
+};
+
+/** Manifest entry for a single message */
+interface BundleManifestMessage {
+  index: number;
+  role: string;
+  file: string;
+  codeFiles: string[];
+  starLevel: 1 | 2 | 3 | null;
+}
+
+/** Manifest entry for a folder the conversation belongs to */
+interface BundleManifestFolder {
+  id: string;
+  name: string;
+  path: string[];
+}
+
+/** Infer a file extension for a code block language hint */
+export function extensionForLanguage(language: string): string {
+  return LANGUAGE_EXTENSIONS[language.toLowerCase()] ?? 'txt';
+}
+
+/** Extract all fenced code blocks from a message's HTML */
+export function extractCodeBlocks(html: string): { language: string; code: string }[] {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  const blocks: { language: string; code: string }[] = [];
+  for (const pre of Array.from(doc.body.querySelectorAll('pre'))) {
+    const code = pre.querySelector('code') ?? pre;
+    const text = code.textContent ?? '';
+    if (!text.trim()) continue;
+    blocks.push({ language: detectCodeLanguage(code), code: text });
+  }
+  return blocks;
+}
+
+/** Resolve the folder names from root to `folder` */
+export function folderPath(folder: Folder, folders: Folder[]): string[] {
+  const byId = new Map(folders.map((f) => [f.id, f]));
+  const path: string[] = [];
+  const seen = new Set<string>();
+  let current: Folder | undefined = folder;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current.name);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+/** Build the ZIP archive for a conversation */
+export async function buildConversationBundle(
+  conv: ExportConversation,
+  locale: Locale,
+): Promise<Blob> {
+  const [starred, folders] = await Promise.all([
+    Storage.getStarred().catch((err: unknown): StarredMessage[] => {
+      Logger.warn(TAG, 'Could not load stars for bundle manifest', err);
+      return [];
+    }),
+    Storage.getFolders().catch((err: unknown): Folder[] => {
+      Logger.warn(TAG, 'Could not load folders for bundle manifest', err);
+      return [];
+    }),
+  ]);
+
+  const zip = new JSZip();
+  zip.file('conversation.md', buildMarkdownDocument(conv, locale));
+  zip.file('conversation.json', JSON.stringify(buildJsonExport(conv), null, 2));
+  zip.file('conversation.html', buildHtmlDocument(conv, locale));
+
+  // Orphaned stars lost their message; their index may now point at another one
+  const stars = starred.filter((s) => s.conversationId === conv.id && !s.orphaned);
+  const padWidth = Math.max(3, String(conv.messages.length).length);
+  const manifestMessages: BundleManifestMessage[] = [];
+
+  for (const msg of conv.messages) {
+    const prefix = String(msg.index + 1).padStart(padWidth, '0');
+    const file = `messages/${prefix}-${msg.role}.md`;
+    zip.file(
+      file,
+      `${roleLabelMarkdown(msg, locale)}\n\n${annotationMarkdown(conv, msg, locale)}${messageToMarkdown(msg)}\n`,
+    );
+
+    const codeFiles: string[] = [];
+    extractCodeBlocks(msg.contentHtml).forEach((block, blockIdx) => {
+      const codeFile = `code/${prefix}-${blockIdx + 1}.${extensionForLanguage(block.language)}`;
+      zip.file(codeFile, block.code);
+      codeFiles.push(codeFile);
+    });
+
+    manifestMessages.push({
+      index: msg.index,
+      role: msg.role,
+      file,
+      codeFiles,
+      starLevel: stars.find((s) => s.messageIndex === msg.index)?.level ?? null,
+    });
+  }
+
+  const memberships: BundleManifestFolder[] = folders
+    .filter((f) => f.conversations.some((c) => c.id === conv.id))
+    .map((f) => ({ id: f.id, name: f.name, path: folderPath(f, folders) }));
+
+  const manifest = {
+    manifestVersion: BUNDLE_MANIFEST_VERSION,
+    conversationId: conv.id,
+    title: conv.title,
+    exportedAt: new Date().toISOString(),
+    messageCount: conv.messages.length,
+    files: {
+      markdown: 'conversation.md',
+      json: 'conversation.json',
+      html: 'conversation.html',
+    },
+    messages: manifestMessages,
+    stars: stars.map((s) => ({
+      messageIndex: s.messageIndex,
+      level: s.level,
+      preview: s.preview,
+      note: s.note ?? null,
+      starredAt: new Date(s.starredAt).toISOString(),
+    })),
+    folders: memberships,
+  };
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
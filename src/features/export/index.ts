@@ -1,6 +1,6 @@
 /**
  * Chat Export feature.
- * Export conversations as JSON, Markdown, or PDF.
+ * Export conversations as JSON, Markdown, PDF, or a ZIP bundle.
  */
 
 export { ExportFeature } from './ExportFeature';
@@ -0,0 +1,83 @@
+/**
+ * Auto-filing: rules that add new conversations to a folder.
+ *
+ * A folder's filing rules name title keywords, a title pattern and the
+ * project a chat was started in. Keywords and the pattern are alternatives
+ * — either may match the title — while a project, when set, must match as
+ * well. A conversation that already sits in a folder is never filed again.
+ * Everything here is pure; the folder feature decides which conversations
+ * are new and undoes filings on request.
+ */
+
+import type { Folder, FolderFilingRules } from '@core/types';
+import { flattenFolderTree } from './FolderTree';
+import { compileTitlePattern } from './SmartFolders';
+
+/** What filing rules test about a new conversation */
+export interface FilingCandidate {
+  id: string;
+  title: string;
+  /** Name of the project the chat was started in, if known */
+  project: string | null;
+}
+
+// ─── Rules ──────────────────────────────────────────────────────
+
+/** Whether `rules` test anything at all */
+export function hasFilingRules(rules: FolderFilingRules | undefined): rules is FolderFilingRules {
+  return !!rules && (rules.keywords.length > 0 || rules.pattern !== '' || rules.project !== '');
+}
+
+/** A pattern that is set but not a valid regex */
+export function isFilingPatternInvalid(pattern: string): boolean {
+  return pattern !== '' && compileTitlePattern(pattern) === null;
+}
+
+/** Keywords from comma-separated input, trimmed and without duplicates */
+export function parseFilingKeywords(text: string): string[] {
+  const keywords: string[] = [];
+  for (const part of text.split(',')) {
+    const keyword = part.trim();
+    if (keyword && !keywords.some((k) => k.toLowerCase() === keyword.toLowerCase())) keywords.push(keyword);
+  }
+  return keywords;
+}
+
+export function matchesFilingRules(rules: FolderFilingRules | undefined, candidate: FilingCandidate): boolean {
+  if (!hasFilingRules(rules)) return false;
+  if (rules.project && candidate.project?.trim().toLowerCase() !== rules.project.toLowerCase()) return false;
+  if (rules.keywords.length === 0 && !rules.pattern) return true;
+
+  const title = candidate.title.toLowerCase();
+  if (rules.keywords.some((keyword) => title.includes(keyword.toLowerCase()))) return true;
+  return rules.pattern !== '' && (compileTitlePattern(rules.pattern)?.test(candidate.title) ?? false);
+}
+
+// ─── Filing ─────────────────────────────────────────────────────
+
+/**
+ * The folder a new conversation belongs in: the first one in panel order
+ * whose rules match. Null if none match or the conversation is filed already.
+ */
+export function findFilingFolder(folders: Folder[], candidate: FilingCandidate): Folder | null {
+  if (folders.some((folder) => folder.conversations.some((c) => c.id === candidate.id))) return null;
+  return flattenFolderTree(folders).find(
+    ({ folder }) => !folder.smart && matchesFilingRules(folder.filing, candidate),
+  )?.folder ?? null;
+}
+
+// ─── Import ─────────────────────────────────────────────────────
+
+/** Rules read from an import, or null if `value` holds none that are usable */
+export function normalizeFilingRules(value: unknown): FolderFilingRules | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const data = value as Record<string, unknown>;
+
+  const keywords = Array.isArray(data.keywords)
+    ? parseFilingKeywords(data.keywords.filter((k): k is string => typeof k === 'string').join(','))
+    : [];
+  const pattern = typeof data.pattern === 'string' && !isFilingPatternInvalid(data.pattern) ? data.pattern : '';
+  const project = typeof data.project === 'string' ? data.project.trim() : '';
+  const rules: FolderFilingRules = { keywords, pattern, project };
+  return hasFilingRules(rules) ? rules : null;
+}
@@ -0,0 +1,67 @@
+/**
+ * Folder colors, icons and pinning.
+ *
+ * Colors use the annotation label palette. An icon is a single emoji (one
+ * grapheme, so flags and ZWJ sequences stay whole). Pinned folders are
+ * listed in the claude.ai sidebar below the folder nav item, in panel order,
+ * and claude.ai's own chat links get a badge per folder they are filed in.
+ */
+
+import type { Folder, FolderColor } from '@core/types';
+import { ANNOTATION_LABELS } from '@core/types';
+import { flattenFolderTree, folderAncestors } from './FolderTree';
+
+/** A folder a conversation is filed in, as its sidebar badge shows it */
+export interface FolderBadge {
+  color: FolderColor | null;
+  /** Folder names from the top level down, joined by chevrons */
+  path: string;
+}
+
+// ─── Colors & Icons ─────────────────────────────────────────────
+
+/** First grapheme of `value`, or null if there is none */
+export function normalizeFolderIcon(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const segments = new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(trimmed);
+  for (const { segment } of segments) return segment;
+  return null;
+}
+
+export function normalizeFolderColor(value: unknown): FolderColor | null {
+  return ANNOTATION_LABELS.find((label) => label === value) ?? null;
+}
+
+// ─── Sidebar ────────────────────────────────────────────────────
+
+/** Pinned folders in panel order */
+export function pinnedFolders(folders: Folder[]): Folder[] {
+  return flattenFolderTree(folders).map(({ folder }) => folder).filter((folder) => folder.pinned);
+}
+
+/**
+ * Badges per conversation id, in panel order. Smart folders are left out:
+ * their contents follow from rules, so they say nothing about where a chat
+ * was filed.
+ */
+export function folderBadges(folders: Folder[]): Map<string, FolderBadge[]> {
+  const badges = new Map<string, FolderBadge[]>();
+  for (const { folder } of flattenFolderTree(folders)) {
+    if (folder.smart || folder.conversations.length === 0) continue;
+    const badge: FolderBadge = {
+      color: folder.color ?? null,
+      path: [...folderAncestors(folder.id, folders), folder].map((f) => f.name).join(' \u203A '),
+    };
+    for (const conv of folder.conversations) {
+      const list = badges.get(conv.id);
+      if (list) {
+        if (list[list.length - 1] !== badge) list.push(badge);
+      } else {
+        badges.set(conv.id, [badge]);
+      }
+    }
+  }
+  return badges;
+}
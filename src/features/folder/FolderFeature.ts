@@ -4,39 +4,170 @@
  * Injects a native-looking sidebar nav item between "Projekte" and "Artefakte".
  * Clicking it opens a floating overlay folder panel.
  * Supports:
- * - Two-level hierarchy (folders and subfolders)
+ * - Folders nested to any depth, with a breadcrumb to focus on one
+ *   subtree and a collapse-all control
  * - Drag-and-drop conversations into folders
+ * - Drag-and-drop folders to reorder them or move them into another
+ *   folder (or a breadcrumb level); moves into their own subtree are refused
  * - Double-click to rename
  * - Long-press for multi-select
  * - Import/Export as JSON
+ * - Bulk export of a folder's conversations (ZIP or combined Markdown)
+ * - Smart folders whose contents follow from rules (title regex, starred,
+ *   notes, recently opened, sidebar section) and update on their own
+ * - Auto-filing rules (title keywords or regex, project) that add new
+ *   conversations to a folder, with a notice to undo it
+ * - Filed titles follow renames (sidebar links, visited chats); deleted
+ *   chats are flagged on a visit and can be cleaned up
+ * - Checkbox / shift-click selection of conversations across folders for
+ *   bulk move, copy, remove, export and opening in tabs; dragging a
+ *   selected conversation carries the whole selection
+ * - Per-folder color, emoji icon and pinning; pinned folders are listed in
+ *   the claude.ai sidebar below the nav item and expand in place
+ * - While sidebar pinning is active, colored badges next to claude.ai's own
+ *   chat links for the folders a chat is filed in, with the folder paths on
+ *   hover, and "Add to folder..." on right-click or from a hover button
  * - Resizable panel via drag handle
  */
 
 import type { FeatureModule } from '@pages/content/index';
-import type { VoyagerSettings, Folder, FolderConversation, Locale } from '@core/types';
-import { DOM } from '@core/services/DOMService';
+import type {
+  VoyagerSettings,
+  Folder,
+  FolderColor,
+  FolderConversation,
+  FolderFilingRules,
+  Locale,
+  MessageAnnotation,
+  SmartFolderRule,
+  SmartFolderRuleKind,
+  SmartFolderRules,
+  SnapshotMeta,
+  StarredMessage,
+} from '@core/types';
+import { ANNOTATION_LABELS } from '@core/types';
+import { DOM, Selectors } from '@core/services/DOMService';
 import { Storage } from '@core/services/StorageService';
+import { Snapshots } from '@core/services/SnapshotService';
 import { Logger } from '@core/services/LoggerService';
-import { uuid } from '@core/utils';
+import { Messaging } from '@core/services/MessageService';
+import { ConversationApi } from '@core/services/ConversationApiService';
+import { debounce, uuid } from '@core/utils';
 import { t } from '@i18n/index';
+import {
+  type FolderExportFormat,
+  type FolderExportToken,
+  collectFolderConversations,
+  exportFolder,
+} from '@features/export/FolderExport';
+import { labelName } from '@features/timeline/AnnotationEditor';
 import { FOLDER_CSS } from './FolderStyles';
+import { folderBadges, normalizeFolderColor, normalizeFolderIcon, pinnedFolders } from './FolderAppearance';
+import {
+  findFilingFolder,
+  hasFilingRules,
+  isFilingPatternInvalid,
+  normalizeFilingRules,
+  parseFilingKeywords,
+} from './AutoFiling';
+import {
+  applyConversationTitles,
+  countMissingConversations,
+  isFiled,
+  removeMissingConversations,
+  setConversationMissing,
+} from './FolderReconcile';
+import {
+  canReparent,
+  childFolders,
+  flattenFolderTree,
+  folderAncestors,
+  moveFolder,
+  normalizeFolderTree,
+} from './FolderTree';
+import {
+  type ConversationFacts,
+  SMART_RULE_KINDS,
+  collectConversationFacts,
+  createRule,
+  evaluateSmartFolder,
+  isRuleIncomplete,
+  normalizeSmartRules,
+} from './SmartFolders';
 
 let locale: Locale = 'en';
 
 const TAG = 'Folders';
 const LONG_PRESS_MS = 500;
+const HOUR_MS = 60 * 60 * 1000;
+/** Sidebar links seen this long after the first one are part of the baseline, not new */
+const FILING_BASELINE_MS = 5000;
+/** How long a new conversation waits for a title that a filing rule matches */
+const FILING_WATCH_MS = 2 * 60 * 1000;
+const FILING_NOTICE_MS = 10_000;
+/** The page a new chat is started from */
+const NEW_CHAT_PATH = /^\/new\/?$/;
+/**
+ * A project page. It lists the project's existing chats as well, so a chat
+ * reached from it only counts as new if its composer was submitted.
+ */
+const PROJECT_PAGE_PATH = /^\/project\/[^/]+\/?$/;
+/**
+ * When a visited chat is checked for its title after navigation. A chat
+ * that still shows nothing is looked up in claude.ai's API; it is only
+ * flagged as deleted if every check got a 404.
+ */
+const VISIT_CHECK_DELAYS_MS = [1500, 4000];
+/** Badges shown on a sidebar link; the tooltip lists every folder */
+const SIDEBAR_BADGE_LIMIT = 4;
+/** Set on a sidebar badge overlay to what it shows */
+const SIDEBAR_BADGE_SIGNATURE = 'data-voyager-signature';
 
 /** Module-level drag state — shared between setupFolderReorder and setupDragDrop
  *  to avoid Firefox's dataTransfer.types security restrictions. */
 let activeFolderDragId: string | null = null;
+/** Conversations dragged out of the panel; same reason as above */
+let activeConversationDrag: ConversationSelection[] | null = null;
 
 // SVG icon for the folder nav item (matches claude.ai's 20x20 icon style)
 const FOLDER_SVG = `<svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor" xmlns="http://www.w3.org/2000/svg" style="flex-shrink:0" aria-hidden="true"><path d="M2 5.5C2 4.11929 3.11929 3 4.5 3H7.17157C7.70201 3 8.21071 3.21071 8.58579 3.58579L9.91421 4.91421C10.0391 5.03914 10.2087 5.10957 10.3856 5.10957H15.5C16.8807 5.10957 18 6.22886 18 7.60957V14.5C18 15.8807 16.8807 17 15.5 17H4.5C3.11929 17 2 15.8807 2 14.5V5.5ZM4.5 4C3.67157 4 3 4.67157 3 5.5V14.5C3 15.3284 3.67157 16 4.5 16H15.5C16.3284 16 17 15.3284 17 14.5V7.60957C17 6.78114 16.3284 6.10957 15.5 6.10957H10.3856C9.94314 6.10957 9.51886 5.93386 9.20711 5.62211L7.87868 4.29368C7.69114 4.10614 7.437 4 7.17157 4H4.5Z"/></svg>`;
 
+/** A smart folder being created (`folderId` null) or edited */
+interface SmartFolderDraft {
+  folderId: string | null;
+  name: string;
+  rules: SmartFolderRules;
+}
+
+/** A selected conversation, in the folder it was selected in */
+interface ConversationSelection {
+  folderId: string;
+  convId: string;
+}
+
+/** Filing rules being edited, as typed */
+interface FilingDraft {
+  folderId: string;
+  /** Comma-separated */
+  keywords: string;
+  pattern: string;
+  project: string;
+}
+
+/** A conversation added by a filing rule, kept for undo */
+interface FiledConversation {
+  folderId: string;
+  conversation: FolderConversation;
+}
+
 interface FolderState {
   folders: Folder[];
   openFolders: Set<string>;
   selectedFolders: Set<string>;
+  /** Keyed by `selectionKey()`; conversations in smart folders can't be selected */
+  selectedConversations: Map<string, ConversationSelection>;
+  /** Last conversation clicked without shift, where a shift-click range starts */
+  selectionAnchor: ConversationSelection | null;
   renamingId: string | null;
   panelOpen: boolean;
   panel: HTMLElement | null;
@@ -47,6 +178,39 @@ interface FolderState {
   cleanups: (() => void)[];
   longPressTimer: ReturnType<typeof setTimeout> | null;
   sidebarObserver: MutationObserver | null;
+  /** Open popup menu (export formats, folder picker) */
+  menu: HTMLElement | null;
+  exportProgress: HTMLElement | null;
+  exportToken: FolderExportToken | null;
+  /** Folder the panel is narrowed to via the breadcrumb; null = all folders */
+  focusId: string | null;
+  /** What smart folder rules are evaluated against */
+  facts: ConversationFacts[];
+  factsSignature: string;
+  smartEditor: SmartFolderDraft | null;
+  filingEditor: FilingDraft | null;
+  /** Conversations that existed when the page loaded or were seen since */
+  knownConversations: Set<string>;
+  /** End of the baseline window; null until the sidebar first lists chats */
+  baselineUntil: number | null;
+  /** New conversations waiting to be filed, with when they were first seen */
+  watched: Map<string, number>;
+  /** Project names of conversations opened this session */
+  projects: Map<string, string>;
+  lastPath: string;
+  /** Project page whose composer was submitted; the next chat opened from it is new */
+  composerSubmittedOn: string | null;
+  filingNotice: HTMLElement | null;
+  filingNoticeTimer: ReturnType<typeof setTimeout> | null;
+  /** Filings the notice offers to undo */
+  recentlyFiled: FiledConversation[];
+  visitTimers: ReturnType<typeof setTimeout>[];
+  /** Visit checks of the open chat that got a 404 for it */
+  visitNotFound: number;
+  /** Pinned folders listed in the claude.ai sidebar */
+  pinnedEl: HTMLElement | null;
+  /** Pinned folders expanded in the sidebar */
+  pinnedOpen: Set<string>;
 }
 
 function createState(): FolderState {
@@ -54,6 +218,8 @@ function createState(): FolderState {
     folders: [],
     openFolders: new Set(),
     selectedFolders: new Set(),
+    selectedConversations: new Map(),
+    selectionAnchor: null,
     renamingId: null,
     panelOpen: false,
     panel: null,
@@ -64,6 +230,27 @@ function createState(): FolderState {
     cleanups: [],
     longPressTimer: null,
     sidebarObserver: null,
+    menu: null,
+    exportProgress: null,
+    exportToken: null,
+    focusId: null,
+    facts: [],
+    factsSignature: '',
+    smartEditor: null,
+    filingEditor: null,
+    knownConversations: new Set(),
+    baselineUntil: null,
+    watched: new Map(),
+    projects: new Map(),
+    lastPath: window.location.pathname,
+    composerSubmittedOn: null,
+    filingNotice: null,
+    filingNoticeTimer: null,
+    recentlyFiled: [],
+    visitTimers: [],
+    visitNotFound: 0,
+    pinnedEl: null,
+    pinnedOpen: new Set(),
   };
 }
 
@@ -340,6 +527,7 @@ function renderToggleButton(): void {
   state.toggleCleanups.push(() => window.removeEventListener('scroll', onWindowLayoutChange, true));
 
   state.toggleBtn = navItem;
+  renderPinnedFolders();
   // Beim Hovern/Fokus den Collapsed-Zustand frisch prüfen.
   updateToggleActive();
   syncFolderTooltipState();
@@ -348,6 +536,7 @@ function renderToggleButton(): void {
 
 function removeToggleButton(): void {
   teardownToggleInteractions();
+  removePinnedFolders();
   if (state.toggleBtn) {
     state.toggleBtn.remove();
     state.toggleBtn = null;
@@ -364,6 +553,7 @@ function isSidebarCollapsed(): boolean {
 }
 
 function syncFolderTooltipState(): void {
+  state.pinnedEl?.classList.toggle('voyager-folder-pinned-collapsed', isSidebarCollapsed());
   if (!isSidebarCollapsed()) {
     hideNativeTooltip();
     return;
@@ -383,11 +573,17 @@ function observeSidebarMutations(): void {
   const sidebar = DOM.query('sidebar');
   if (!sidebar) return;
   state.sidebarObserver = new MutationObserver(() => {
+    debouncedRefreshSmartFacts();
+    debouncedAutoFile();
+    debouncedSyncTitlesFromSidebar();
+    debouncedRenderSidebarBadges();
     const hasToggle = !!document.querySelector('[data-voyager="folder-nav-item"]');
     if (!hasToggle) {
       ensureToggleButtonInjected(3);
       return;
     }
+    // A sidebar rebuild drops the pinned list along with claude.ai's own nodes
+    if (!state.pinnedEl?.isConnected && pinnedFolders(state.folders).length > 0) renderPinnedFolders();
     syncFolderTooltipState();
   });
   state.sidebarObserver.observe(sidebar, {
@@ -425,22 +621,31 @@ function handleToggle(): void {
 
   if (state.panelOpen) {
     renderPanel();
+    void refreshSmartFacts();
   } else {
+    state.smartEditor = null;
+    state.filingEditor = null;
     removePanel();
   }
 }
 
 // ─── Panel Rendering ────────────────────────────────────────────
 
+/** Whether the panel shows a rules editor instead of the folder list */
+function editorOpen(): boolean {
+  return state.smartEditor !== null || state.filingEditor !== null;
+}
+
 /** Render the floating overlay panel */
 function renderPanel(): void {
   removePanel();
 
   if (!state.panelOpen) return;
 
+  pruneSelection();
   const panel = DOM.createElement('div', {
     'data-voyager': 'folder-panel',
-    class: 'voyager-folder-panel',
+    class: `voyager-folder-panel${state.selectedConversations.size > 0 ? ' voyager-folder-selecting' : ''}`,
   });
 
   // Header
@@ -454,6 +659,24 @@ function renderPanel(): void {
     'aria-label': t(locale).newFolder,
   }, ['+']);
 
+  const smartBtn = DOM.createElement('button', {
+    class: 'voyager-folder-btn',
+    title: t(locale).newSmartFolder,
+    'aria-label': t(locale).newSmartFolder,
+  }, ['\u26A1']);
+
+  const refreshBtn = DOM.createElement('button', {
+    class: 'voyager-folder-btn',
+    title: t(locale).refreshTitles,
+    'aria-label': t(locale).refreshTitles,
+  }, ['\u21BB']);
+
+  const cleanupBtn = DOM.createElement('button', {
+    class: 'voyager-folder-btn',
+    title: t(locale).cleanUpMissing,
+    'aria-label': t(locale).cleanUpMissing,
+  }, ['\u{1F9F9}']);
+
   const importBtn = DOM.createElement('button', {
     class: 'voyager-folder-btn',
     title: t(locale).importBtn,
@@ -472,23 +695,34 @@ function renderPanel(): void {
     'aria-label': t(locale).closeBtn,
   }, ['\u00D7']);
 
-  actions.append(addBtn, importBtn, exportBtn, closeBtn);
+  actions.append(addBtn, smartBtn, refreshBtn, cleanupBtn, importBtn, exportBtn, closeBtn);
   header.append(title, actions);
   panel.appendChild(header);
 
+  // A focused folder is shown alone and open, below its breadcrumb
+  const focus = state.focusId ? state.folders.find((f) => f.id === state.focusId) : undefined;
+  if (!focus) state.focusId = null;
+  if (focus) state.openFolders.add(focus.id);
+  const roots = focus ? [focus] : childFolders(null, state.folders);
+
+  const breadcrumb = !editorOpen() && state.folders.length > 0 ? renderBreadcrumb(focus ?? null) : null;
+  if (breadcrumb) panel.appendChild(breadcrumb);
+  if (!editorOpen() && state.selectedConversations.size > 0) panel.appendChild(renderBulkBar());
+
   // Folder list
   const list = DOM.createElement('div', { class: 'voyager-folder-list' });
-  const topLevel = state.folders
-    .filter((f) => f.parentId === null)
-    .sort((a, b) => a.order - b.order);
 
-  if (topLevel.length === 0) {
+  if (state.smartEditor) {
+    list.appendChild(renderSmartEditor(state.smartEditor));
+  } else if (state.filingEditor) {
+    list.appendChild(renderFilingEditor(state.filingEditor));
+  } else if (roots.length === 0) {
     const empty = DOM.createElement('div', { class: 'voyager-folder-empty' }, [
       t(locale).noFoldersYet,
     ]);
     list.appendChild(empty);
   } else {
-    for (const folder of topLevel) {
+    for (const folder of roots) {
       list.appendChild(renderFolder(folder));
     }
   }
@@ -516,6 +750,16 @@ function renderPanel(): void {
   addBtn.addEventListener('click', handleAddFolder);
   state.cleanups.push(() => addBtn.removeEventListener('click', handleAddFolder));
 
+  const onSmartClick = () => openSmartEditor(null);
+  smartBtn.addEventListener('click', onSmartClick);
+  state.cleanups.push(() => smartBtn.removeEventListener('click', onSmartClick));
+
+  refreshBtn.addEventListener('click', handleRefreshTitles);
+  state.cleanups.push(() => refreshBtn.removeEventListener('click', handleRefreshTitles));
+
+  cleanupBtn.addEventListener('click', handleCleanUpMissing);
+  state.cleanups.push(() => cleanupBtn.removeEventListener('click', handleCleanUpMissing));
+
   importBtn.addEventListener('click', handleImport);
   state.cleanups.push(() => importBtn.removeEventListener('click', handleImport));
 
@@ -542,6 +786,19 @@ function renderPanel(): void {
   );
   state.cleanups.push(dblClickCleanup);
 
+  const contextMenuCleanup = DOM.delegate<MouseEvent>(
+    list,
+    '.voyager-folder-row',
+    'contextmenu',
+    (target, evt) => {
+      const folder = state.folders.find((f) => f.id === target.getAttribute('data-voyager-id'));
+      if (!folder) return;
+      evt.preventDefault();
+      showFolderStyleEditor(folder, target as HTMLElement);
+    },
+  );
+  state.cleanups.push(contextMenuCleanup);
+
   const convClickCleanup = DOM.delegate<MouseEvent>(
     list,
     '.voyager-folder-conv',
@@ -575,11 +832,14 @@ function renderPanel(): void {
   document.addEventListener('mouseup', upHandler);
   state.cleanups.push(() => document.removeEventListener('mouseup', upHandler));
 
-  // Drag-and-drop from sidebar conversations
-  setupDragDrop(list);
+  if (!editorOpen()) {
+    // Drag-and-drop from sidebar conversations
+    setupDragDrop(list);
 
-  // Folder reorder via drag & drop
-  setupFolderReorder(list);
+    // Folder reorder and reparenting via drag & drop
+    setupFolderReorder(list, breadcrumb);
+  }
+  updateSmartPreview();
 
   // Resize handling
   setupResize(panel, resizeHandle);
@@ -590,6 +850,50 @@ function renderPanel(): void {
   Logger.debug(TAG, `Folder panel rendered with ${state.folders.length} folders`);
 }
 
+/**
+ * Path from "All folders" down to the focused folder; each crumb focuses
+ * its level and takes dropped folders. Also holds the collapse-all button.
+ */
+function renderBreadcrumb(focus: Folder | null): HTMLElement {
+  const bar = DOM.createElement('div', { class: 'voyager-folder-breadcrumb' });
+  const trail = DOM.createElement('div', { class: 'voyager-folder-crumbs', title: t(locale).breadcrumbHint });
+
+  const levels: Array<{ id: string; name: string }> = [{ id: '', name: t(locale).allFolders }];
+  if (focus) {
+    for (const folder of [...folderAncestors(focus.id, state.folders), focus]) {
+      levels.push({ id: folder.id, name: folder.name });
+    }
+  }
+  levels.forEach((level, index) => {
+    if (index > 0) {
+      trail.appendChild(DOM.createElement('span', { class: 'voyager-folder-crumb-sep' }, ['\u203A']));
+    }
+    const current = index === levels.length - 1;
+    const crumb = DOM.createElement('button', {
+      class: 'voyager-folder-crumb' + (current ? ' voyager-folder-crumb-current' : ''),
+      'data-voyager-id': level.id,
+    }, [level.name]);
+    crumb.addEventListener('click', () => {
+      state.focusId = level.id || null;
+      renderPanel();
+    });
+    trail.appendChild(crumb);
+  });
+
+  const collapseBtn = DOM.createElement('button', {
+    class: 'voyager-folder-btn',
+    title: t(locale).collapseAll,
+    'aria-label': t(locale).collapseAll,
+  }, ['\u229F']);
+  collapseBtn.addEventListener('click', () => {
+    state.openFolders.clear();
+    renderPanel();
+  });
+
+  bar.append(trail, collapseBtn);
+  return bar;
+}
+
 /** Render a single folder element */
 function renderFolder(folder: Folder): HTMLElement {
   const el = DOM.createElement('div', {
@@ -599,12 +903,16 @@ function renderFolder(folder: Folder): HTMLElement {
 
   const isOpen = state.openFolders.has(folder.id);
   const isSelected = state.selectedFolders.has(folder.id);
-  const subfolders = state.folders.filter((f) => f.parentId === folder.id);
-  const hasChildren = subfolders.length > 0 || folder.conversations.length > 0;
+  const subfolders = childFolders(folder.id, state.folders);
+  const conversations = smartContents(folder);
+  const hasChildren = subfolders.length > 0 || conversations.length > 0;
 
   // Row
+  let rowClass = 'voyager-folder-row';
+  if (isSelected) rowClass += ' voyager-folder-selected';
+  if (folder.color) rowClass += ` voyager-folder-colored voyager-folder-color-${folder.color}`;
   const row = DOM.createElement('div', {
-    class: `voyager-folder-row${isSelected ? ' voyager-folder-selected' : ''}`,
+    class: rowClass,
     'data-voyager-id': folder.id,
     draggable: 'true',
   });
@@ -661,8 +969,17 @@ function renderFolder(folder: Folder): HTMLElement {
     });
   } else {
     const name = DOM.createElement('span', { class: 'voyager-folder-name' }, [folder.name]);
+    if (folder.icon) {
+      name.prepend(DOM.createElement('span', { class: 'voyager-folder-emoji' }, [folder.icon]));
+    }
+    if (folder.smart) {
+      name.prepend(DOM.createElement('span', {
+        class: 'voyager-folder-smart-icon',
+        title: t(locale).smartFolderHint,
+      }, ['\u26A1']));
+    }
     const count = DOM.createElement('span', { class: 'voyager-folder-count' }, [
-      String(folder.conversations.length),
+      String(conversations.length),
     ]);
     const delBtn = DOM.createElement('button', {
       class: 'voyager-folder-del',
@@ -673,8 +990,57 @@ function renderFolder(folder: Folder): HTMLElement {
       e.stopPropagation();
       void handleDeleteFolder(folder.id);
     });
-    // Subfolder add button — only on root folders (max 2 levels)
-    if (folder.parentId === null) {
+    const exportFolderBtn = DOM.createElement('button', {
+      class: 'voyager-folder-export',
+      title: t(locale).exportFolder,
+      'aria-label': t(locale).exportFolder,
+    }, ['\u21E9']);
+    exportFolderBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      showFolderExportMenu(exportFolderBtn, (format) => {
+        void runFolderExport(folder.id, format);
+      });
+    });
+    const focusBtn = DOM.createElement('button', {
+      class: 'voyager-folder-focus',
+      title: t(locale).focusFolder,
+      'aria-label': t(locale).focusFolder,
+    }, ['\u2192']);
+    focusBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      state.focusId = folder.id;
+      renderPanel();
+    });
+    const styleBtn = DOM.createElement('button', {
+      class: 'voyager-folder-style',
+      title: t(locale).folderAppearance,
+      'aria-label': t(locale).folderAppearance,
+    }, ['\u{1F3A8}']);
+    styleBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      showFolderStyleEditor(folder, styleBtn);
+    });
+    const rowButtons = folder.id === state.focusId ? [styleBtn] : [focusBtn, styleBtn];
+    const pinMark = folder.pinned
+      ? [DOM.createElement('span', {
+        class: 'voyager-folder-pin',
+        title: t(locale).pinnedFolder,
+        'aria-label': t(locale).pinnedFolder,
+      }, ['\u{1F4CC}'])]
+      : [];
+
+    if (folder.smart) {
+      const editRulesBtn = DOM.createElement('button', {
+        class: 'voyager-folder-edit-rules',
+        title: t(locale).editSmartFolder,
+        'aria-label': t(locale).editSmartFolder,
+      }, ['\u270E']);
+      editRulesBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        openSmartEditor(folder);
+      });
+      row.append(icon, name, ...pinMark, count, ...rowButtons, editRulesBtn, exportFolderBtn, delBtn);
+    } else {
       const addSubBtn = DOM.createElement('button', {
         class: 'voyager-folder-add-sub',
         title: t(locale).newSubfolder,
@@ -684,9 +1050,17 @@ function renderFolder(folder: Folder): HTMLElement {
         e.stopPropagation();
         void handleAddSubfolder(folder.id);
       });
-      row.append(icon, name, count, addSubBtn, delBtn);
-    } else {
-      row.append(icon, name, count, delBtn);
+      const hasRules = hasFilingRules(folder.filing);
+      const filingBtn = DOM.createElement('button', {
+        class: `voyager-folder-filing${hasRules ? ' voyager-folder-filing-active' : ''}`,
+        title: t(locale).filingRules,
+        'aria-label': t(locale).filingRules,
+      }, ['\u21AA']);
+      filingBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        openFilingEditor(folder);
+      });
+      row.append(icon, name, ...pinMark, count, ...rowButtons, addSubBtn, filingBtn, exportFolderBtn, delBtn);
     }
   }
 
@@ -696,14 +1070,26 @@ function renderFolder(folder: Folder): HTMLElement {
   if (isOpen && hasChildren) {
     const children = DOM.createElement('div', { class: 'voyager-folder-children' });
 
-    for (const sub of subfolders.sort((a, b) => a.order - b.order)) {
+    for (const sub of subfolders) {
       children.appendChild(renderFolder(sub));
     }
 
-    for (const convRef of folder.conversations) {
+    if (folder.smart && conversations.length === 0) {
+      children.appendChild(DOM.createElement('div', { class: 'voyager-folder-empty' }, [
+        t(locale).smartFolderEmpty,
+      ]));
+    }
+
+    for (const convRef of conversations) {
+      const selected = state.selectedConversations.has(selectionKey(folder.id, convRef.id));
+      let convClass = 'voyager-folder-conv';
+      if (convRef.missing) convClass += ' voyager-folder-conv-missing';
+      if (selected) convClass += ' voyager-folder-conv-selected';
       const conv = DOM.createElement('div', {
-        class: 'voyager-folder-conv',
+        class: convClass,
         'data-voyager-id': convRef.id,
+        ...(convRef.missing ? { title: t(locale).conversationMissing } : {}),
+        ...(folder.smart ? {} : { draggable: 'true' }),
       });
       const convIcon = DOM.createElement('span', { class: 'voyager-folder-conv-icon' }, ['\u{1F4AC}']);
       const convName = DOM.createElement('span', { class: 'voyager-folder-conv-name' }, [convRef.title]);
@@ -716,7 +1102,19 @@ function renderFolder(folder: Folder): HTMLElement {
         e.stopPropagation();
         void handleRemoveConversation(folder.id, convRef.id);
       });
-      conv.append(convIcon, convName, convDel);
+      // Smart folder contents follow the rules; there is nothing to remove
+      if (folder.smart) {
+        conv.append(convIcon, convName);
+      } else {
+        const check = DOM.createElement('input', {
+          class: 'voyager-folder-conv-check',
+          type: 'checkbox',
+          title: t(locale).selectionHint,
+          'aria-label': t(locale).selectConversation,
+        });
+        check.checked = selected;
+        conv.append(check, convIcon, convName, convDel);
+      }
       children.appendChild(conv);
     }
 
@@ -726,180 +1124,1352 @@ function renderFolder(folder: Folder): HTMLElement {
   return el;
 }
 
-// ─── Resize Handling ────────────────────────────────────────────
+// ─── Smart Folders ──────────────────────────────────────────────
+
+function ruleKindLabel(kind: SmartFolderRuleKind): string {
+  const tr = t(locale);
+  switch (kind) {
+    case 'titleRegex':
+      return tr.smartRuleTitleRegex;
+    case 'starred':
+      return tr.smartRuleStarred;
+    case 'hasNotes':
+      return tr.smartRuleHasNotes;
+    case 'openedWithin':
+      return tr.smartRuleOpenedWithin;
+    case 'sidebarSection':
+      return tr.smartRuleSidebarSection;
+  }
+}
 
-function setupResize(panel: HTMLElement, handle: HTMLElement): void {
-  let startY = 0;
-  let startHeight = 0;
+/** Current contents of a smart folder */
+function smartContents(folder: Folder): FolderConversation[] {
+  return folder.smart ? evaluateSmartFolder(folder.smart, state.facts, Date.now()) : folder.conversations;
+}
 
-  const onMouseMove = (e: MouseEvent) => {
-    const delta = e.clientY - startY;
-    const newHeight = Math.max(200, startHeight + delta);
-    panel.style.maxHeight = newHeight + 'px';
-    panel.style.height = newHeight + 'px';
-  };
+/** Folders with smart folder contents filled in, for code that reads `conversations` */
+function resolvedFolders(): Folder[] {
+  return cloneFolders(state.folders).map((folder) =>
+    folder.smart ? { ...folder, conversations: smartContents(folder) } : folder,
+  );
+}
 
-  const onMouseUp = () => {
-    handle.classList.remove('voyager-resizing');
-    document.removeEventListener('mousemove', onMouseMove);
-    document.removeEventListener('mouseup', onMouseUp);
-  };
+/**
+ * Re-read what smart folder rules test: sidebar links, snapshot metadata,
+ * stars and notes. Skipped while no smart folder exists.
+ */
+async function refreshSmartFacts(): Promise<void> {
+  if (!state.smartEditor && !state.folders.some((f) => f.smart)) return;
+
+  const [snapshots, starred, annotations] = await Promise.all([
+    Snapshots.list().catch((err: unknown): SnapshotMeta[] => {
+      Logger.warn(TAG, 'Failed to list snapshots for smart folders', err);
+      return [];
+    }),
+    Storage.getStarred().catch((): StarredMessage[] => []),
+    Storage.getAnnotations().catch((): MessageAnnotation[] => []),
+  ]);
+  const facts = collectConversationFacts({
+    sidebar: DOM.getSidebarConversations(),
+    snapshots,
+    starred,
+    annotations,
+    folders: state.folders,
+    currentId: DOM.getConversationId(),
+    now: Date.now(),
+  });
+  // The open chat counts as opened just now; compare by the hour so that alone doesn't re-render
+  const signature = JSON.stringify(facts.map((fact) => ({
+    ...fact,
+    lastOpenedAt: fact.lastOpenedAt === null ? null : Math.floor(fact.lastOpenedAt / HOUR_MS),
+  })));
+  const changed = signature !== state.factsSignature;
+  state.facts = facts;
+  state.factsSignature = signature;
+  if (changed && state.folders.some((f) => f.smart && f.pinned)) renderPinnedFolders();
+
+  if (!state.panelOpen || !changed) return;
+  // Don't rebuild the panel under an input the user is typing in
+  if (state.smartEditor) {
+    updateSmartPreview();
+  } else if (!state.filingEditor && !state.renamingId) {
+    renderPanel();
+  }
+}
 
-  const onMouseDown = (e: MouseEvent) => {
-    e.preventDefault();
-    startY = e.clientY;
-    startHeight = panel.getBoundingClientRect().height;
-    handle.classList.add('voyager-resizing');
-    document.addEventListener('mousemove', onMouseMove);
-    document.addEventListener('mouseup', onMouseUp);
+const debouncedRefreshSmartFacts = debounce(() => {
+  void refreshSmartFacts();
+}, 500);
+
+function openSmartEditor(folder: Folder | null): void {
+  state.smartEditor = {
+    folderId: folder?.id ?? null,
+    name: folder?.name ?? t(locale).newSmartFolder,
+    rules: folder?.smart
+      ? { match: folder.smart.match, rules: folder.smart.rules.map((rule) => ({ ...rule })) }
+      : { match: 'all', rules: [createRule('titleRegex')] },
   };
+  renderPanel();
+  void refreshSmartFacts();
+}
 
-  handle.addEventListener('mousedown', onMouseDown);
-  state.cleanups.push(() => {
-    handle.removeEventListener('mousedown', onMouseDown);
-    document.removeEventListener('mousemove', onMouseMove);
-    document.removeEventListener('mouseup', onMouseUp);
-  });
+/** Sidebar section names seen so far, for the section rule's suggestions */
+function knownSections(): string[] {
+  return [...new Set(state.facts.flatMap((fact) => fact.sections))].sort((a, b) => a.localeCompare(b));
 }
 
-// ─── Event Handlers ─────────────────────────────────────────────
+function renderSmartEditor(draft: SmartFolderDraft): HTMLElement {
+  const tr = t(locale);
+  const editor = DOM.createElement('div', { class: 'voyager-folder-smart-editor' });
+
+  const nameInput = DOM.createElement('input', {
+    class: 'voyager-folder-smart-input',
+    type: 'text',
+    placeholder: tr.smartFolderName,
+    'aria-label': tr.smartFolderName,
+    value: draft.name,
+  }) as HTMLInputElement;
+  nameInput.addEventListener('input', () => {
+    draft.name = nameInput.value;
+  });
 
-function handleFolderClick(target: Element): void {
-  const folderId = target.getAttribute('data-voyager-id');
-  if (!folderId) return;
+  const matchSelect = DOM.createElement('select', {
+    class: 'voyager-folder-smart-select',
+    'aria-label': tr.smartMatchAll,
+  }) as HTMLSelectElement;
+  matchSelect.append(
+    DOM.createElement('option', { value: 'all' }, [tr.smartMatchAll]),
+    DOM.createElement('option', { value: 'any' }, [tr.smartMatchAny]),
+  );
+  matchSelect.value = draft.rules.match;
+  matchSelect.addEventListener('change', () => {
+    draft.rules.match = matchSelect.value === 'any' ? 'any' : 'all';
+    updateSmartPreview();
+  });
 
-  // Toggle open/closed
-  if (state.openFolders.has(folderId)) {
-    state.openFolders.delete(folderId);
-  } else {
-    state.openFolders.add(folderId);
+  const sectionOptions = DOM.createElement('datalist', { id: 'voyager-folder-section-options' });
+  for (const section of knownSections()) {
+    sectionOptions.appendChild(DOM.createElement('option', { value: section }));
   }
-  renderPanel();
-}
 
-function handleFolderDblClick(target: Element): void {
-  const folderId = target.getAttribute('data-voyager-id');
-  if (!folderId) return;
-  state.renamingId = folderId;
-  renderPanel();
-}
+  const rulesEl = DOM.createElement('div', { class: 'voyager-folder-smart-rules' });
+  draft.rules.rules.forEach((rule, index) => {
+    rulesEl.appendChild(renderSmartRule(draft, rule, index));
+  });
 
-function handleConvClick(target: Element): void {
-  const convId = target.getAttribute('data-voyager-id');
-  if (!convId) return;
+  const addRuleBtn = DOM.createElement('button', { class: 'voyager-folder-smart-add' }, [`+ ${tr.smartAddRule}`]);
+  addRuleBtn.addEventListener('click', () => {
+    draft.rules.rules.push(createRule('titleRegex'));
+    renderPanel();
+  });
 
-  const url = `/chat/${convId}`;
+  const preview = DOM.createElement('div', { class: 'voyager-folder-smart-preview' });
 
-  // Close the folder panel before navigating
-  state.panelOpen = false;
-  updateToggleActive();
-  removePanel();
+  const btns = DOM.createElement('div', { class: 'voyager-folder-smart-btns' });
+  const cancelBtn = DOM.createElement('button', { class: 'voyager-folder-smart-cancel' }, [tr.cancel]);
+  cancelBtn.addEventListener('click', () => {
+    state.smartEditor = null;
+    renderPanel();
+  });
+  const saveBtn = DOM.createElement('button', { class: 'voyager-folder-smart-save' }, [tr.save]);
+  saveBtn.addEventListener('click', () => {
+    void saveSmartFolder(draft);
+  });
+  btns.append(cancelBtn, saveBtn);
+
+  editor.append(
+    nameInput,
+    matchSelect,
+    rulesEl,
+    sectionOptions,
+    addRuleBtn,
+    DOM.createElement('div', { class: 'voyager-folder-smart-hint' }, [tr.smartFolderHint]),
+    preview,
+    btns,
+  );
+  return editor;
+}
 
-  // Try clicking the native sidebar link first (perfect SPA navigation via React Router)
-  const nativeLink = document.querySelector(`a[href="${url}"]`) as HTMLAnchorElement | null;
-  if (nativeLink) {
-    nativeLink.click();
-    return;
+function renderSmartRule(draft: SmartFolderDraft, rule: SmartFolderRule, index: number): HTMLElement {
+  const tr = t(locale);
+  const row = DOM.createElement('div', {
+    class: 'voyager-folder-smart-rule',
+    'data-voyager-id': String(index),
+  });
+
+  const kindSelect = DOM.createElement('select', {
+    class: 'voyager-folder-smart-select',
+    'aria-label': tr.smartAddRule,
+  }) as HTMLSelectElement;
+  for (const kind of SMART_RULE_KINDS) {
+    kindSelect.appendChild(DOM.createElement('option', { value: kind }, [ruleKindLabel(kind)]));
+  }
+  kindSelect.value = rule.kind;
+  kindSelect.addEventListener('change', () => {
+    const kind = SMART_RULE_KINDS.find((k) => k === kindSelect.value);
+    if (!kind) return;
+    draft.rules.rules[index] = createRule(kind);
+    renderPanel();
+  });
+  row.appendChild(kindSelect);
+
+  if (rule.kind === 'titleRegex' || rule.kind === 'sidebarSection') {
+    const input = DOM.createElement('input', {
+      class: 'voyager-folder-smart-input',
+      type: 'text',
+      placeholder: rule.kind === 'titleRegex' ? tr.smartRulePatternPlaceholder : tr.smartRuleSectionPlaceholder,
+      value: rule.kind === 'titleRegex' ? rule.pattern : rule.section,
+      ...(rule.kind === 'sidebarSection' ? { list: 'voyager-folder-section-options' } : {}),
+    }) as HTMLInputElement;
+    input.addEventListener('input', () => {
+      draft.rules.rules[index] = rule.kind === 'titleRegex'
+        ? { kind: 'titleRegex', pattern: input.value }
+        : { kind: 'sidebarSection', section: input.value };
+      updateSmartPreview();
+    });
+    row.appendChild(input);
+  } else if (rule.kind === 'openedWithin') {
+    const input = DOM.createElement('input', {
+      class: 'voyager-folder-smart-input voyager-folder-smart-days',
+      type: 'number',
+      min: '1',
+      value: String(rule.days),
+    }) as HTMLInputElement;
+    input.addEventListener('input', () => {
+      draft.rules.rules[index] = { kind: 'openedWithin', days: Number(input.value) };
+      updateSmartPreview();
+    });
+    row.appendChild(input);
   }
 
-  // Fallback: SPA navigation via History API (triggers our pushState hook → checkNavigation)
-  history.pushState(null, '', url);
-  window.dispatchEvent(new PopStateEvent('popstate'));
+  const removeBtn = DOM.createElement('button', {
+    class: 'voyager-folder-smart-remove',
+    title: tr.smartRemoveRule,
+    'aria-label': tr.smartRemoveRule,
+  }, ['\u2715']);
+  removeBtn.addEventListener('click', () => {
+    draft.rules.rules.splice(index, 1);
+    renderPanel();
+  });
+  row.appendChild(removeBtn);
+  return row;
 }
 
-function toggleSelect(folderId: string): void {
-  if (state.selectedFolders.has(folderId)) {
-    state.selectedFolders.delete(folderId);
-  } else {
-    state.selectedFolders.add(folderId);
+/** Refresh the editor's match count, rule validity marks and save button in place */
+function updateSmartPreview(): void {
+  const draft = state.smartEditor;
+  const panel = state.panel;
+  if (!draft || !panel) return;
+  const tr = t(locale);
+
+  let incomplete = false;
+  draft.rules.rules.forEach((rule, index) => {
+    const invalid = isRuleIncomplete(rule);
+    incomplete ||= invalid;
+    panel.querySelector(`.voyager-folder-smart-rule[data-voyager-id="${index}"]`)
+      ?.classList.toggle('voyager-folder-smart-invalid', invalid);
+  });
+
+  const preview = panel.querySelector('.voyager-folder-smart-preview');
+  if (preview) {
+    preview.textContent = incomplete
+      ? tr.smartRulesIncomplete
+      : `${evaluateSmartFolder(draft.rules, state.facts, Date.now()).length} ${tr.smartMatches}`;
   }
-  renderPanel();
+  const saveBtn = panel.querySelector('.voyager-folder-smart-save') as HTMLButtonElement | null;
+  if (saveBtn) saveBtn.disabled = incomplete || draft.rules.rules.length === 0;
 }
 
-async function handleDeleteFolder(folderId: string): Promise<void> {
-  if (!window.confirm(t(locale).deleteFolderConfirm)) return;
+async function saveSmartFolder(draft: SmartFolderDraft): Promise<void> {
+  if (draft.rules.rules.length === 0 || draft.rules.rules.some(isRuleIncomplete)) return;
 
   const previousFolders = cloneFolders(state.folders);
-  const idsToDelete = new Set<string>();
-  function collectIds(id: string): void {
-    idsToDelete.add(id);
-    for (const f of state.folders) {
-      if (f.parentId === id) collectIds(f.id);
-    }
-  }
-  collectIds(folderId);
+  const name = draft.name.trim() || t(locale).newSmartFolder;
+  const smart: SmartFolderRules = {
+    match: draft.rules.match,
+    rules: draft.rules.rules.map((rule) =>
+      rule.kind === 'sidebarSection' ? { ...rule, section: rule.section.trim() } : { ...rule },
+    ),
+  };
 
-  state.folders = state.folders.filter((f) => !idsToDelete.has(f.id));
-  state.openFolders = new Set([...state.openFolders].filter((id) => !idsToDelete.has(id)));
-  state.selectedFolders = new Set([...state.selectedFolders].filter((id) => !idsToDelete.has(id)));
+  const existing = draft.folderId ? state.folders.find((f) => f.id === draft.folderId) : undefined;
+  if (existing) {
+    existing.name = name;
+    existing.smart = smart;
+  } else {
+    state.folders.push({
+      id: uuid(),
+      name,
+      parentId: null,
+      conversations: [],
+      createdAt: Date.now(),
+      order: state.folders.filter((f) => f.parentId === null).length,
+      smart,
+    });
+  }
 
-  const saved = await persistFoldersWithRollback(previousFolders, 'Failed to delete folder');
+  const saved = await persistFoldersWithRollback(previousFolders, 'Failed to save smart folder');
   if (!saved) return;
+  state.smartEditor = null;
   renderPanel();
 }
 
-async function handleRemoveConversation(folderId: string, convId: string): Promise<void> {
-  const folder = state.folders.find((f) => f.id === folderId);
-  if (!folder) return;
-
-  const previousFolders = cloneFolders(state.folders);
-  folder.conversations = folder.conversations.filter((c) => c.id !== convId);
+// ─── Auto-Filing ────────────────────────────────────────────────
 
-  const saved = await persistFoldersWithRollback(previousFolders, 'Failed to remove conversation');
-  if (!saved) return;
+function openFilingEditor(folder: Folder): void {
+  state.filingEditor = {
+    folderId: folder.id,
+    keywords: folder.filing?.keywords.join(', ') ?? '',
+    pattern: folder.filing?.pattern ?? '',
+    project: folder.filing?.project ?? '',
+  };
   renderPanel();
 }
 
-async function handleAddFolder(): Promise<void> {
-  const previousFolders = cloneFolders(state.folders);
-  const folder: Folder = {
-    id: uuid(),
-    name: t(locale).newFolder,
-    parentId: null,
-    conversations: [],
-    createdAt: Date.now(),
-    order: state.folders.filter((f) => f.parentId === null).length,
+/** Project names seen on opened chats or used by rules, for the project field's suggestions */
+function knownProjects(): string[] {
+  const names = new Set(state.projects.values());
+  for (const folder of state.folders) {
+    if (folder.filing?.project) names.add(folder.filing.project);
+  }
+  return [...names].sort((a, b) => a.localeCompare(b));
+}
+
+function renderFilingEditor(draft: FilingDraft): HTMLElement {
+  const tr = t(locale);
+  const folder = state.folders.find((f) => f.id === draft.folderId);
+  const editor = DOM.createElement('div', { class: 'voyager-folder-smart-editor' });
+
+  const heading = DOM.createElement('div', { class: 'voyager-folder-filing-heading' }, [
+    `${tr.filingRules}: ${folder?.name ?? ''}`,
+  ]);
+
+  const keywordsInput = DOM.createElement('input', {
+    class: 'voyager-folder-smart-input',
+    type: 'text',
+    placeholder: tr.filingKeywordsPlaceholder,
+    'aria-label': tr.filingKeywordsPlaceholder,
+    value: draft.keywords,
+  }) as HTMLInputElement;
+  keywordsInput.addEventListener('input', () => {
+    draft.keywords = keywordsInput.value;
+  });
+
+  const patternInput = DOM.createElement('input', {
+    class: 'voyager-folder-smart-input',
+    type: 'text',
+    placeholder: tr.smartRulePatternPlaceholder,
+    'aria-label': tr.smartRuleTitleRegex,
+    value: draft.pattern,
+  }) as HTMLInputElement;
+
+  const projectOptions = DOM.createElement('datalist', { id: 'voyager-folder-project-options' });
+  for (const project of knownProjects()) {
+    projectOptions.appendChild(DOM.createElement('option', { value: project }));
+  }
+  const projectInput = DOM.createElement('input', {
+    class: 'voyager-folder-smart-input',
+    type: 'text',
+    placeholder: tr.filingProjectPlaceholder,
+    'aria-label': tr.filingProjectPlaceholder,
+    list: 'voyager-folder-project-options',
+    value: draft.project,
+  }) as HTMLInputElement;
+  projectInput.addEventListener('input', () => {
+    draft.project = projectInput.value;
+  });
+
+  const status = DOM.createElement('div', { class: 'voyager-folder-smart-preview' });
+
+  const btns = DOM.createElement('div', { class: 'voyager-folder-smart-btns' });
+  if (hasFilingRules(folder?.filing)) {
+    const removeBtn = DOM.createElement('button', { class: 'voyager-folder-smart-cancel' }, [tr.filingRemoveRules]);
+    removeBtn.addEventListener('click', () => {
+      void saveFilingRules(draft, true);
+    });
+    btns.appendChild(removeBtn);
+  }
+  const cancelBtn = DOM.createElement('button', { class: 'voyager-folder-smart-cancel' }, [tr.cancel]);
+  cancelBtn.addEventListener('click', () => {
+    state.filingEditor = null;
+    renderPanel();
+  });
+  const saveBtn = DOM.createElement('button', { class: 'voyager-folder-smart-save' }, [tr.save]) as HTMLButtonElement;
+  saveBtn.addEventListener('click', () => {
+    void saveFilingRules(draft);
+  });
+  btns.append(cancelBtn, saveBtn);
+
+  const updateValidity = () => {
+    const invalid = isFilingPatternInvalid(draft.pattern);
+    patternInput.classList.toggle('voyager-folder-smart-invalid', invalid);
+    status.textContent = invalid ? tr.filingInvalidPattern : '';
+    saveBtn.disabled = invalid;
   };
-  state.folders.push(folder);
-  state.renamingId = folder.id;
-  const saved = await persistFoldersWithRollback(previousFolders, 'Failed to create folder');
-  if (!saved) return;
-  renderPanel();
+  patternInput.addEventListener('input', () => {
+    draft.pattern = patternInput.value;
+    updateValidity();
+  });
+  updateValidity();
+
+  editor.append(
+    heading,
+    keywordsInput,
+    patternInput,
+    projectInput,
+    projectOptions,
+    DOM.createElement('div', { class: 'voyager-folder-smart-hint' }, [tr.filingHint]),
+    status,
+    btns,
+  );
+  return editor;
 }
 
-async function handleAddSubfolder(parentId: string): Promise<void> {
+/** Save the draft's rules, or drop the folder's rules when `clear` is set or nothing is left */
+async function saveFilingRules(draft: FilingDraft, clear = false): Promise<void> {
+  const folder = state.folders.find((f) => f.id === draft.folderId);
+  if (!folder) {
+    state.filingEditor = null;
+    renderPanel();
+    return;
+  }
+  if (!clear && isFilingPatternInvalid(draft.pattern)) return;
+
   const previousFolders = cloneFolders(state.folders);
-  const subfolder: Folder = {
-    id: uuid(),
-    name: t(locale).newSubfolder,
-    parentId,
-    conversations: [],
-    createdAt: Date.now(),
-    order: state.folders.filter((f) => f.parentId === parentId).length,
+  const rules: FolderFilingRules = {
+    keywords: parseFilingKeywords(draft.keywords),
+    pattern: draft.pattern,
+    project: draft.project.trim(),
   };
-  state.folders.push(subfolder);
-  state.renamingId = subfolder.id;
-  // Auto-open parent so the new subfolder is visible
-  state.openFolders.add(parentId);
-  const saved = await persistFoldersWithRollback(previousFolders, 'Failed to create subfolder');
+  if (!clear && hasFilingRules(rules)) {
+    folder.filing = rules;
+  } else {
+    delete folder.filing;
+  }
+
+  const saved = await persistFoldersWithRollback(previousFolders, 'Failed to save filing rules');
   if (!saved) return;
+  state.filingEditor = null;
   renderPanel();
 }
 
-// ─── Drag & Drop ────────────────────────────────────────────────
+/** Start watching a conversation not seen before */
+function watchConversation(id: string, now: number): void {
+  if (state.knownConversations.has(id)) return;
+  state.knownConversations.add(id);
+  state.watched.set(id, now);
+}
 
-function setupDragDrop(list: HTMLElement): void {
-  // Make sidebar conversation items draggable
-  const convItems = DOM.queryAll('sidebarConversationItem');
-  for (const item of convItems) {
-    (item as HTMLElement).draggable = true;
-    const dragStartHandler = (e: Event) => {
-      const de = e as DragEvent;
-      const href = item.getAttribute('href') ?? '';
-      const convId = /\/chat\/([a-f0-9-]+)/i.exec(href)?.[1];
-      if (convId && de.dataTransfer) {
-        de.dataTransfer.setData('text/plain', convId);
-        de.dataTransfer.effectAllowed = 'move';
+/**
+ * File conversations that are new since the page loaded. Chats the sidebar
+ * lists in its first few seconds are the baseline; links that show up
+ * later and chats created from /new or a project's composer are watched
+ * for a while, so a
+ * rule can still match once the chat has its real title.
+ */
+async function autoFileNewConversations(): Promise<void> {
+  const sidebar = DOM.getSidebarConversations();
+  const currentId = DOM.getConversationId();
+  const now = Date.now();
+  if (currentId) {
+    const project = DOM.getConversationProject();
+    if (project) state.projects.set(currentId, project);
+  }
+
+  if (state.baselineUntil === null && sidebar.length > 0) state.baselineUntil = now + FILING_BASELINE_MS;
+  if (state.baselineUntil === null || now < state.baselineUntil) {
+    for (const link of sidebar) state.knownConversations.add(link.id);
+    if (currentId) state.knownConversations.add(currentId);
+  } else {
+    for (const link of sidebar) watchConversation(link.id, now);
+  }
+  for (const [id, since] of state.watched) {
+    if (now - since > FILING_WATCH_MS) state.watched.delete(id);
+  }
+  if (state.watched.size === 0 || !state.folders.some((f) => hasFilingRules(f.filing))) return;
+
+  const titles = new Map(sidebar.map((link) => [link.id, link.title]));
+  const previousFolders = cloneFolders(state.folders);
+  const filed: FiledConversation[] = [];
+  for (const id of state.watched.keys()) {
+    const title = titles.get(id) ?? (id === currentId ? DOM.getConversationTitle() : null);
+    // Not titled yet; the next sidebar change tries again
+    if (!title || title === id) continue;
+    const folder = findFilingFolder(state.folders, { id, title, project: state.projects.get(id) ?? null });
+    if (!folder) continue;
+    const conversation = { id, title };
+    folder.conversations.push(conversation);
+    filed.push({ folderId: folder.id, conversation });
+  }
+  if (filed.length === 0) return;
+  for (const entry of filed) state.watched.delete(entry.conversation.id);
+
+  const saved = await persistFoldersWithRollback(previousFolders, 'Failed to auto-file conversations');
+  if (!saved) return;
+  Logger.info(TAG, `Auto-filed ${filed.length} conversation(s)`);
+  showFilingNotice(filed);
+  if (state.panelOpen && !editorOpen() && !state.renamingId) renderPanel();
+}
+
+const debouncedAutoFile = debounce(() => {
+  void autoFileNewConversations();
+}, 800);
+
+/** Note a message sent from a project page's composer (Enter or the send button) */
+function handleComposerSubmit(e: Event): void {
+  const path = window.location.pathname;
+  if (!PROJECT_PAGE_PATH.test(path) || !(e.target instanceof Element)) return;
+  if (e instanceof KeyboardEvent) {
+    if (e.key !== 'Enter' || e.shiftKey || e.isComposing || !e.target.closest(Selectors.inputField)) return;
+  } else if (!e.target.closest(Selectors.sendButton)) {
+    return;
+  }
+  if (!DOM.query('inputField')?.textContent?.trim()) return;
+  state.composerSubmittedOn = path;
+}
+
+/** Whether a chat reached from `previousPath` was created there */
+function isNewChatNavigation(previousPath: string): boolean {
+  return NEW_CHAT_PATH.test(previousPath) || state.composerSubmittedOn === previousPath;
+}
+
+/** Tell the user what was filed, with an undo; filings while it shows add up */
+function showFilingNotice(filed: FiledConversation[]): void {
+  const all = [...state.recentlyFiled, ...filed];
+  removeFilingNotice();
+  state.recentlyFiled = all;
+  const tr = t(locale);
+
+  const first = all[0];
+  const folderName = state.folders.find((f) => f.id === first?.folderId)?.name ?? '';
+  const text = all.length === 1
+    ? `${tr.autoFiledInto} ${folderName}: ${first?.conversation.title ?? ''}`
+    : `${all.length} ${tr.autoFiledCount}`;
+
+  const box = DOM.createElement('div', {
+    'data-voyager': 'folder-filing-notice',
+    class: 'voyager-folder-progress voyager-folder-filing-notice',
+    role: 'status',
+  });
+  const label = DOM.createElement('span', { class: 'voyager-folder-progress-label', title: text }, [text]);
+  const undoBtn = DOM.createElement('button', { class: 'voyager-folder-progress-cancel' }, [tr.undoFiling]);
+  undoBtn.addEventListener('click', () => {
+    removeFilingNotice();
+    void undoFiling(all);
+  });
+  const closeBtn = DOM.createElement('button', {
+    class: 'voyager-folder-progress-cancel',
+    title: tr.closeBtn,
+    'aria-label': tr.closeBtn,
+  }, ['\u00D7']);
+  closeBtn.addEventListener('click', removeFilingNotice);
+
+  box.append(label, undoBtn, closeBtn);
+  document.body.appendChild(box);
+  state.filingNotice = box;
+  state.filingNoticeTimer = setTimeout(removeFilingNotice, FILING_NOTICE_MS);
+}
+
+function removeFilingNotice(): void {
+  if (state.filingNoticeTimer) clearTimeout(state.filingNoticeTimer);
+  state.filingNoticeTimer = null;
+  state.filingNotice?.remove();
+  state.filingNotice = null;
+  state.recentlyFiled = [];
+}
+
+/** Take auto-filed conversations back out of their folders */
+async function undoFiling(filed: FiledConversation[]): Promise<void> {
+  const previousFolders = cloneFolders(state.folders);
+  for (const { folderId, conversation } of filed) {
+    const folder = state.folders.find((f) => f.id === folderId);
+    if (folder) folder.conversations = folder.conversations.filter((c) => c.id !== conversation.id);
+  }
+  const saved = await persistFoldersWithRollback(previousFolders, 'Failed to undo auto-filing');
+  if (!saved) return;
+  if (state.panelOpen && !editorOpen() && !state.renamingId) renderPanel();
+}
+
+// ─── Title Refresh & Missing Chats ──────────────────────────────
+
+/** Save reconciled folders and show the result, unless the user is busy in the panel */
+async function persistReconciled(previousFolders: Folder[], context: string): Promise<boolean> {
+  const saved = await persistFoldersWithRollback(previousFolders, context);
+  if (saved && state.panelOpen && !editorOpen() && !state.renamingId) renderPanel();
+  return saved;
+}
+
+/** Take titles from sidebar links; a listed chat exists, so it isn't missing either */
+async function syncTitlesFromSidebar(): Promise<void> {
+  const sidebar = DOM.getSidebarConversations();
+  if (sidebar.length === 0 || !state.folders.some((f) => f.conversations.length > 0)) return;
+
+  const previousFolders = cloneFolders(state.folders);
+  let changed = applyConversationTitles(state.folders, new Map(sidebar.map((link) => [link.id, link.title]))) > 0;
+  for (const link of sidebar) {
+    changed = setConversationMissing(state.folders, link.id, false) || changed;
+  }
+  if (changed) await persistReconciled(previousFolders, 'Failed to refresh conversation titles');
+}
+
+const debouncedSyncTitlesFromSidebar = debounce(() => {
+  void syncTitlesFromSidebar();
+}, 1000);
+
+function clearVisitTimers(): void {
+  for (const timer of state.visitTimers) clearTimeout(timer);
+  state.visitTimers = [];
+}
+
+/** Check the open chat once it had time to render */
+function scheduleVisitCheck(): void {
+  clearVisitTimers();
+  state.visitNotFound = 0;
+  state.visitTimers = VISIT_CHECK_DELAYS_MS.map((delay) =>
+    setTimeout(() => {
+      void checkVisitedConversation();
+    }, delay),
+  );
+}
+
+/** A filed chat the API reports as deleted is flagged; one that loads gets its current title */
+async function checkVisitedConversation(): Promise<void> {
+  const id = DOM.getConversationId();
+  if (!id || !isFiled(state.folders, id)) return;
+
+  const title = DOM.getConversationTitle();
+  if (!title && DOM.getChatMessages().length === 0) {
+    // Still loading, or deleted: only the API can tell
+    if ((await ConversationApi.getConversationStatus(id)) !== 'missing' || DOM.getConversationId() !== id) return;
+    if (++state.visitNotFound < VISIT_CHECK_DELAYS_MS.length) return;
+    const previousFolders = cloneFolders(state.folders);
+    if (setConversationMissing(state.folders, id, true)) {
+      await persistReconciled(previousFolders, 'Failed to update visited conversation');
+    }
+    return;
+  }
+
+  const previousFolders = cloneFolders(state.folders);
+  let changed = setConversationMissing(state.folders, id, false);
+  if (title) changed = applyConversationTitles(state.folders, new Map([[id, title]])) > 0 || changed;
+  if (changed) await persistReconciled(previousFolders, 'Failed to update visited conversation');
+}
+
+async function handleRefreshTitles(): Promise<void> {
+  const titles = new Map(DOM.getSidebarConversations().map((link) => [link.id, link.title]));
+  const currentId = DOM.getConversationId();
+  const currentTitle = DOM.getConversationTitle();
+  if (currentId && currentTitle) titles.set(currentId, currentTitle);
+
+  const previousFolders = cloneFolders(state.folders);
+  const changed = applyConversationTitles(state.folders, titles);
+  if (changed > 0 && !(await persistReconciled(previousFolders, 'Failed to refresh conversation titles'))) return;
+  window.alert(`${t(locale).titlesRefreshed}: ${changed}`);
+}
+
+async function handleCleanUpMissing(): Promise<void> {
+  const tr = t(locale);
+  const count = countMissingConversations(state.folders);
+  if (count === 0) {
+    window.alert(tr.noMissingConversations);
+    return;
+  }
+  if (!window.confirm(`${count} ${tr.missingConversations}\n${tr.cleanUpMissingConfirm}`)) return;
+
+  const previousFolders = cloneFolders(state.folders);
+  removeMissingConversations(state.folders);
+  const saved = await persistFoldersWithRollback(previousFolders, 'Failed to clean up missing conversations');
+  if (!saved) return;
+  renderPanel();
+}
+
+// ─── Folder Appearance ──────────────────────────────────────────
+
+/** Popup for a folder's color, icon and pin */
+function showFolderStyleEditor(folder: Folder, anchor: HTMLElement): void {
+  removeFolderMenu();
+  const tr = t(locale);
+  let color: FolderColor | null = folder.color ?? null;
+
+  const editor = DOM.createElement('div', {
+    'data-voyager': 'folder-style-editor',
+    class: 'voyager-folder-menu voyager-folder-style-editor',
+    role: 'dialog',
+    'aria-label': tr.folderAppearance,
+  });
+
+  const swatches = DOM.createElement('div', { class: 'voyager-folder-swatches' });
+  const choices: (FolderColor | null)[] = [null, ...ANNOTATION_LABELS];
+  const swatchEls: HTMLElement[] = [];
+  const syncSwatches = () => {
+    choices.forEach((choice, i) => {
+      swatchEls[i]?.classList.toggle('voyager-folder-swatch-selected', choice === color);
+      swatchEls[i]?.setAttribute('aria-pressed', String(choice === color));
+    });
+  };
+  for (const choice of choices) {
+    const name = choice ? labelName(locale, choice) : tr.folderNoColor;
+    const swatch = DOM.createElement('button', {
+      type: 'button',
+      class: `voyager-folder-swatch voyager-folder-color-${choice ?? 'none'}`,
+      title: name,
+      'aria-label': name,
+    });
+    swatch.addEventListener('click', () => {
+      color = choice;
+      syncSwatches();
+    });
+    swatchEls.push(swatch);
+    swatches.appendChild(swatch);
+  }
+  syncSwatches();
+
+  const iconInput = DOM.createElement('input', {
+    class: 'voyager-folder-smart-input',
+    type: 'text',
+    placeholder: tr.folderIconPlaceholder,
+    'aria-label': tr.folderIconPlaceholder,
+    value: folder.icon ?? '',
+  });
+
+  const pinCheck = DOM.createElement('input', { type: 'checkbox' });
+  pinCheck.checked = !!folder.pinned;
+  const pinLabel = DOM.createElement('label', { class: 'voyager-folder-style-pin' }, [pinCheck, tr.pinFolder]);
+
+  const save = () => {
+    removeFolderMenu();
+    void saveFolderStyle(folder.id, color, normalizeFolderIcon(iconInput.value), pinCheck.checked);
+  };
+  const btns = DOM.createElement('div', { class: 'voyager-folder-smart-btns' });
+  const cancelBtn = DOM.createElement('button', { class: 'voyager-folder-smart-cancel' }, [tr.cancel]);
+  cancelBtn.addEventListener('click', () => removeFolderMenu());
+  const saveBtn = DOM.createElement('button', { class: 'voyager-folder-smart-save' }, [tr.save]);
+  saveBtn.addEventListener('click', save);
+  btns.append(cancelBtn, saveBtn);
+
+  editor.append(swatches, iconInput, pinLabel, btns);
+  editor.addEventListener('keydown', (e) => {
+    // Keep claude.ai's global shortcuts out of the popup
+    e.stopPropagation();
+    if (e.key === 'Escape') removeFolderMenu();
+    else if (e.key === 'Enter') save();
+  });
+  openFolderPopup(editor, anchor);
+}
+
+async function saveFolderStyle(
+  folderId: string,
+  color: FolderColor | null,
+  icon: string | null,
+  pinned: boolean,
+): Promise<void> {
+  const folder = state.folders.find((f) => f.id === folderId);
+  if (!folder) return;
+
+  const previousFolders = cloneFolders(state.folders);
+  if (color) folder.color = color;
+  else delete folder.color;
+  if (icon) folder.icon = icon;
+  else delete folder.icon;
+  if (pinned) folder.pinned = true;
+  else delete folder.pinned;
+
+  const saved = await persistFoldersWithRollback(previousFolders, 'Failed to save folder appearance');
+  if (!saved) return;
+  renderPanel();
+}
+
+// ─── Pinned Folders ─────────────────────────────────────────────
+
+/**
+ * List pinned folders below the nav item. Each expands in place to its
+ * conversations, so they can be opened without the panel. Conversations
+ * are buttons, not links, so they don't pass for claude.ai's own.
+ */
+function renderPinnedFolders(): void {
+  removePinnedFolders();
+  const pinned = pinnedFolders(state.folders);
+  if (pinned.length === 0 || !state.toggleBtn?.isConnected) return;
+  const tr = t(locale);
+  const currentId = DOM.getConversationId();
+
+  const container = DOM.createElement('div', {
+    'data-voyager': 'folder-pinned',
+    class: 'voyager-folder-pinned',
+    role: 'group',
+    'aria-label': tr.pinnedFolders,
+  });
+  for (const folder of pinned) {
+    const conversations = smartContents(folder);
+    const open = state.pinnedOpen.has(folder.id);
+
+    const item = DOM.createElement('button', {
+      class: `voyager-folder-pinned-item${folder.color ? ` voyager-folder-color-${folder.color}` : ''}`,
+      title: folder.name,
+      'aria-expanded': String(open),
+    }, [
+      DOM.createElement('span', { class: 'voyager-folder-pinned-icon' }, [
+        folder.icon ?? (folder.smart ? '\u26A1' : '\u{1F4C1}'),
+      ]),
+      DOM.createElement('span', { class: 'voyager-folder-pinned-name' }, [folder.name]),
+      DOM.createElement('span', { class: 'voyager-folder-count' }, [String(conversations.length)]),
+    ]);
+    item.addEventListener('click', () => {
+      if (state.pinnedOpen.has(folder.id)) state.pinnedOpen.delete(folder.id);
+      else state.pinnedOpen.add(folder.id);
+      renderPinnedFolders();
+    });
+    container.appendChild(item);
+    if (!open) continue;
+
+    const list = DOM.createElement('div', { class: 'voyager-folder-pinned-convs' });
+    if (conversations.length === 0) {
+      list.appendChild(DOM.createElement('div', { class: 'voyager-folder-pinned-empty' }, [
+        folder.smart ? tr.smartFolderEmpty : tr.folderEmpty,
+      ]));
+    }
+    for (const conv of conversations) {
+      const convBtn = DOM.createElement('button', {
+        class: `voyager-folder-pinned-conv${conv.id === currentId ? ' voyager-folder-pinned-current' : ''}`,
+        title: conv.missing ? tr.conversationMissing : conv.title,
+      }, [conv.title]);
+      convBtn.addEventListener('click', (e) => {
+        if (e.ctrlKey || e.metaKey) {
+          window.open(`/chat/${conv.id}`, '_blank', 'noopener');
+        } else {
+          DOM.navigateToConversation(conv.id);
+        }
+      });
+      list.appendChild(convBtn);
+    }
+    container.appendChild(list);
+  }
+
+  state.toggleBtn.after(container);
+  state.pinnedEl = container;
+  container.classList.toggle('voyager-folder-pinned-collapsed', isSidebarCollapsed());
+}
+
+function removePinnedFolders(): void {
+  state.pinnedEl?.remove();
+  state.pinnedEl = null;
+  for (const stale of document.querySelectorAll('[data-voyager="folder-pinned"]')) stale.remove();
+}
+
+// ─── Sidebar Badges ─────────────────────────────────────────────
+
+/** The claude.ai sidebar while sidebar pinning is applied to it, else null */
+function pinnedSidebar(): Element | null {
+  return document.querySelector('nav[data-voyager-sidebar-pinned]');
+}
+
+/**
+ * While sidebar pinning is active, give each claude.ai chat link an overlay
+ * with a colored dot per folder the chat is filed in and a hover button to
+ * add it to one. The overlay is inserted as a sibling right after the link,
+ * the same way the nav item and pinned list join the sidebar: the links
+ * themselves and the titles read from them stay as they are, but the list
+ * around them is claude.ai's React DOM and gains our nodes. A rebuild of
+ * that list drops them, and the sidebar observer renders them again.
+ * Overlays that are up to date are left alone, which keeps the observer
+ * from firing on our own changes.
+ */
+function renderSidebarBadges(): void {
+  const sidebar = pinnedSidebar();
+  if (!sidebar) {
+    removeSidebarBadges();
+    return;
+  }
+  const badges = folderBadges(state.folders);
+  const tr = t(locale);
+
+  for (const link of sidebar.querySelectorAll(Selectors.sidebarConversationItem)) {
+    const id = sidebarConversationId(link);
+    if (!id || !(link instanceof HTMLElement)) continue;
+    const entries = badges.get(id) ?? [];
+    const canAdd = state.folders.some((folder) => !folder.smart && canFileInto(folder, id));
+    const signature = [canAdd ? '+' : '', ...entries.map((badge) => `${badge.color ?? ''}:${badge.path}`)].join('|');
+    const existing = link.nextElementSibling;
+    const current = existing?.getAttribute('data-voyager') === 'folder-badges' ? existing : null;
+    if (current?.getAttribute(SIDEBAR_BADGE_SIGNATURE) === signature) continue;
+
+    current?.remove();
+    if (!signature) continue;
+    const overlay = DOM.createElement('span', {
+      'data-voyager': 'folder-badges',
+      class: 'voyager-folder-badges',
+      [SIDEBAR_BADGE_SIGNATURE]: signature,
+    });
+    if (entries.length > 0) {
+      const tooltip = [tr.inFolders, ...entries.map((badge) => badge.path)].join('\n');
+      overlay.appendChild(DOM.createElement('span', {
+        class: 'voyager-folder-badge-dots',
+        title: tooltip,
+        role: 'img',
+        'aria-label': tooltip,
+      }, entries.slice(0, SIDEBAR_BADGE_LIMIT).map((badge) => DOM.createElement('span', {
+        class: `voyager-folder-badge voyager-folder-color-${badge.color ?? 'none'}`,
+      }))));
+    }
+    if (canAdd) {
+      const addBtn = DOM.createElement('button', {
+        class: 'voyager-folder-badge-add',
+        title: tr.addToFolder,
+        'aria-label': tr.addToFolder,
+      }, ['+']);
+      addBtn.addEventListener('click', (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const title = link.textContent?.trim() || id.slice(0, 12) + '...';
+        showFolderPicker(
+          addBtn,
+          (folderId) => void addSidebarConversation(folderId, { id, title }),
+          (folder) => canFileInto(folder, id),
+        );
+      });
+      overlay.appendChild(addBtn);
+    }
+    link.after(overlay);
+  }
+}
+
+const debouncedRenderSidebarBadges = debounce(() => {
+  renderSidebarBadges();
+}, 300);
+
+function removeSidebarBadges(): void {
+  for (const overlay of document.querySelectorAll('[data-voyager="folder-badges"]')) overlay.remove();
+}
+
+function sidebarConversationId(link: Element): string | null {
+  return /\/chat\/([a-f0-9-]+)/i.exec(link.getAttribute('href') ?? '')?.[1] ?? null;
+}
+
+function canFileInto(folder: Folder, conversationId: string): boolean {
+  return !folder.conversations.some((c) => c.id === conversationId);
+}
+
+/**
+ * Right-click on a claude.ai chat link offers to file it. Shift+right-click
+ * and chats that are already in every folder keep the browser's menu.
+ */
+function handleSidebarContextMenu(e: MouseEvent): void {
+  if (e.shiftKey || !(e.target instanceof Element)) return;
+  const link = e.target.closest(Selectors.sidebarConversationItem);
+  if (!(link instanceof HTMLElement) || !pinnedSidebar()?.contains(link)) return;
+  const id = sidebarConversationId(link);
+  if (!id) return;
+  const canFile = (folder: Folder) => canFileInto(folder, id);
+  if (!state.folders.some((folder) => !folder.smart && canFile(folder))) return;
+
+  e.preventDefault();
+  const title = link.textContent?.trim() || id.slice(0, 12) + '...';
+  showFolderMenu(link, [{
+    label: t(locale).addToFolder,
+    onSelect: () => showFolderPicker(link, (folderId) => void addSidebarConversation(folderId, { id, title }), canFile),
+  }]);
+}
+
+async function addSidebarConversation(folderId: string, conversation: FolderConversation): Promise<void> {
+  const folder = state.folders.find((f) => f.id === folderId);
+  if (!folder || folder.smart || folder.conversations.some((c) => c.id === conversation.id)) return;
+
+  const previousFolders = cloneFolders(state.folders);
+  folder.conversations.push(conversation);
+  const saved = await persistFoldersWithRollback(previousFolders, 'Failed to add conversation to folder');
+  if (saved) {
+    state.openFolders.add(folder.id);
+    Logger.info(TAG, `Conversation ${conversation.id.slice(0, 8)} added to folder "${folder.name}"`);
+  }
+  if (state.panelOpen && !editorOpen()) renderPanel();
+}
+
+// ─── Resize Handling ────────────────────────────────────────────
+
+function setupResize(panel: HTMLElement, handle: HTMLElement): void {
+  let startY = 0;
+  let startHeight = 0;
+
+  const onMouseMove = (e: MouseEvent) => {
+    const delta = e.clientY - startY;
+    const newHeight = Math.max(200, startHeight + delta);
+    panel.style.maxHeight = newHeight + 'px';
+    panel.style.height = newHeight + 'px';
+  };
+
+  const onMouseUp = () => {
+    handle.classList.remove('voyager-resizing');
+    document.removeEventListener('mousemove', onMouseMove);
+    document.removeEventListener('mouseup', onMouseUp);
+  };
+
+  const onMouseDown = (e: MouseEvent) => {
+    e.preventDefault();
+    startY = e.clientY;
+    startHeight = panel.getBoundingClientRect().height;
+    handle.classList.add('voyager-resizing');
+    document.addEventListener('mousemove', onMouseMove);
+    document.addEventListener('mouseup', onMouseUp);
+  };
+
+  handle.addEventListener('mousedown', onMouseDown);
+  state.cleanups.push(() => {
+    handle.removeEventListener('mousedown', onMouseDown);
+    document.removeEventListener('mousemove', onMouseMove);
+    document.removeEventListener('mouseup', onMouseUp);
+  });
+}
+
+// ─── Event Handlers ─────────────────────────────────────────────
+
+function handleFolderClick(target: Element): void {
+  const folderId = target.getAttribute('data-voyager-id');
+  if (!folderId) return;
+
+  // Toggle open/closed
+  if (state.openFolders.has(folderId)) {
+    state.openFolders.delete(folderId);
+  } else {
+    state.openFolders.add(folderId);
+  }
+  renderPanel();
+}
+
+function handleFolderDblClick(target: Element): void {
+  const folderId = target.getAttribute('data-voyager-id');
+  if (!folderId) return;
+  state.renamingId = folderId;
+  renderPanel();
+}
+
+function handleConvClick(target: Element, evt: MouseEvent): void {
+  const convId = target.getAttribute('data-voyager-id');
+  if (!convId) return;
+
+  // The checkbox, shift- and ctrl/cmd-click select instead of opening the chat
+  const folderId = target.closest('.voyager-folder')?.getAttribute('data-voyager-id');
+  const onCheckbox = !!(evt.target as Element | null)?.closest('.voyager-folder-conv-check');
+  if (folderId && !isSmartFolder(folderId) && (onCheckbox || evt.shiftKey || evt.ctrlKey || evt.metaKey)) {
+    if (evt.shiftKey) {
+      selectConversationRange(folderId, convId);
+    } else {
+      toggleConversationSelection(folderId, convId);
+    }
+    renderPanel();
+    return;
+  }
+
+  // Close the folder panel before navigating
+  state.panelOpen = false;
+  updateToggleActive();
+  removePanel();
+
+  DOM.navigateToConversation(convId);
+}
+
+function toggleSelect(folderId: string): void {
+  if (state.selectedFolders.has(folderId)) {
+    state.selectedFolders.delete(folderId);
+  } else {
+    state.selectedFolders.add(folderId);
+  }
+  renderPanel();
+}
+
+async function handleDeleteFolder(folderId: string): Promise<void> {
+  if (!window.confirm(t(locale).deleteFolderConfirm)) return;
+
+  const previousFolders = cloneFolders(state.folders);
+  const idsToDelete = new Set<string>();
+  function collectIds(id: string): void {
+    if (idsToDelete.has(id)) return;
+    idsToDelete.add(id);
+    for (const f of state.folders) {
+      if (f.parentId === id) collectIds(f.id);
+    }
+  }
+  collectIds(folderId);
+
+  state.folders = state.folders.filter((f) => !idsToDelete.has(f.id));
+  if (state.focusId && idsToDelete.has(state.focusId)) state.focusId = null;
+  state.openFolders = new Set([...state.openFolders].filter((id) => !idsToDelete.has(id)));
+  state.selectedFolders = new Set([...state.selectedFolders].filter((id) => !idsToDelete.has(id)));
+
+  const saved = await persistFoldersWithRollback(previousFolders, 'Failed to delete folder');
+  if (!saved) return;
+  renderPanel();
+}
+
+async function handleRemoveConversation(folderId: string, convId: string): Promise<void> {
+  const folder = state.folders.find((f) => f.id === folderId);
+  if (!folder) return;
+
+  const previousFolders = cloneFolders(state.folders);
+  folder.conversations = folder.conversations.filter((c) => c.id !== convId);
+
+  const saved = await persistFoldersWithRollback(previousFolders, 'Failed to remove conversation');
+  if (!saved) return;
+  renderPanel();
+}
+
+async function handleAddFolder(): Promise<void> {
+  const previousFolders = cloneFolders(state.folders);
+  const folder: Folder = {
+    id: uuid(),
+    name: t(locale).newFolder,
+    parentId: null,
+    conversations: [],
+    createdAt: Date.now(),
+    order: state.folders.filter((f) => f.parentId === null).length,
+  };
+  state.folders.push(folder);
+  state.renamingId = folder.id;
+  const saved = await persistFoldersWithRollback(previousFolders, 'Failed to create folder');
+  if (!saved) return;
+  renderPanel();
+}
+
+async function handleAddSubfolder(parentId: string): Promise<void> {
+  const previousFolders = cloneFolders(state.folders);
+  const subfolder: Folder = {
+    id: uuid(),
+    name: t(locale).newSubfolder,
+    parentId,
+    conversations: [],
+    createdAt: Date.now(),
+    order: state.folders.filter((f) => f.parentId === parentId).length,
+  };
+  state.folders.push(subfolder);
+  state.renamingId = subfolder.id;
+  // Auto-open parent so the new subfolder is visible
+  state.openFolders.add(parentId);
+  const saved = await persistFoldersWithRollback(previousFolders, 'Failed to create subfolder');
+  if (!saved) return;
+  renderPanel();
+}
+
+// ─── Conversation Selection ─────────────────────────────────────
+
+function selectionKey(folderId: string, convId: string): string {
+  return `${folderId}/${convId}`;
+}
+
+/** Forget selected conversations that were removed, moved or ended up in a smart folder */
+function pruneSelection(): void {
+  for (const [key, { folderId, convId }] of state.selectedConversations) {
+    const folder = state.folders.find((f) => f.id === folderId);
+    if (!folder || folder.smart || !folder.conversations.some((c) => c.id === convId)) {
+      state.selectedConversations.delete(key);
+    }
+  }
+}
+
+function toggleConversationSelection(folderId: string, convId: string): void {
+  const key = selectionKey(folderId, convId);
+  if (state.selectedConversations.has(key)) {
+    state.selectedConversations.delete(key);
+  } else {
+    state.selectedConversations.set(key, { folderId, convId });
+  }
+  state.selectionAnchor = { folderId, convId };
+}
+
+/** Select from the anchor to `convId`; without an anchor in the same folder, just toggle */
+function selectConversationRange(folderId: string, convId: string): void {
+  const anchor = state.selectionAnchor;
+  const folder = state.folders.find((f) => f.id === folderId);
+  const from = anchor?.folderId === folderId
+    ? folder?.conversations.findIndex((c) => c.id === anchor.convId) ?? -1
+    : -1;
+  const to = folder?.conversations.findIndex((c) => c.id === convId) ?? -1;
+  if (!folder || from < 0 || to < 0) {
+    toggleConversationSelection(folderId, convId);
+    return;
+  }
+  for (const conv of folder.conversations.slice(Math.min(from, to), Math.max(from, to) + 1)) {
+    state.selectedConversations.set(selectionKey(folderId, conv.id), { folderId, convId: conv.id });
+  }
+}
+
+function clearConversationSelection(): void {
+  state.selectedConversations.clear();
+  state.selectionAnchor = null;
+}
+
+/** Selected conversations in panel order */
+function selectedEntries(): ConversationSelection[] {
+  const entries: ConversationSelection[] = [];
+  for (const { folder } of flattenFolderTree(state.folders)) {
+    for (const conv of folder.conversations) {
+      if (state.selectedConversations.has(selectionKey(folder.id, conv.id))) {
+        entries.push({ folderId: folder.id, convId: conv.id });
+      }
+    }
+  }
+  return entries;
+}
+
+/** Selected conversations without duplicates (the same chat can sit in several folders) */
+function selectedConversations(): FolderConversation[] {
+  const byId = new Map<string, FolderConversation>();
+  for (const { folderId, convId } of selectedEntries()) {
+    const conv = state.folders.find((f) => f.id === folderId)?.conversations.find((c) => c.id === convId);
+    if (conv && !byId.has(conv.id)) byId.set(conv.id, conv);
+  }
+  return [...byId.values()];
+}
+
+function renderBulkBar(): HTMLElement {
+  const tr = t(locale);
+  const bar = DOM.createElement('div', { class: 'voyager-folder-bulk' });
+  const count = DOM.createElement('span', { class: 'voyager-folder-bulk-count', title: tr.selectionHint }, [
+    `${state.selectedConversations.size} ${tr.selectedCount}`,
+  ]);
+
+  const button = (label: string, onClick: (btn: HTMLElement) => void): HTMLElement => {
+    const btn = DOM.createElement('button', { class: 'voyager-folder-bulk-btn' }, [label]);
+    btn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      onClick(btn);
+    });
+    return btn;
+  };
+
+  const clearBtn = DOM.createElement('button', {
+    class: 'voyager-folder-bulk-btn',
+    title: tr.clearSelection,
+    'aria-label': tr.clearSelection,
+  }, ['\u2715']);
+  clearBtn.addEventListener('click', () => {
+    clearConversationSelection();
+    renderPanel();
+  });
+
+  bar.append(
+    count,
+    button(tr.bulkMove, (btn) => showFolderPicker(btn, (folderId) => {
+      void fileConversations(selectedEntries(), folderId, 'move');
+    })),
+    button(tr.bulkCopy, (btn) => showFolderPicker(btn, (folderId) => {
+      void fileConversations(selectedEntries(), folderId, 'copy');
+    })),
+    button(tr.bulkRemove, () => {
+      void removeSelectedConversations();
+    }),
+    button(tr.bulkExport, (btn) => showFolderExportMenu(btn, (format) => {
+      void exportSelectedConversations(format);
+    })),
+    button(tr.bulkOpenTabs, () => {
+      void openSelectedInTabs();
+    }),
+    clearBtn,
+  );
+  return bar;
+}
+
+/** Menu of all regular folders (or those `include` accepts), indented by depth */
+function showFolderPicker(
+  anchor: HTMLElement,
+  onPick: (folderId: string) => void,
+  include: (folder: Folder) => boolean = () => true,
+): void {
+  const items = flattenFolderTree(state.folders)
+    .filter(({ folder }) => !folder.smart && include(folder))
+    .map(({ folder, depth }) => ({ label: folder.name, depth, onSelect: () => onPick(folder.id) }));
+  showFolderMenu(anchor, items);
+}
+
+/**
+ * Put conversations into a folder. Moving takes them out of the folder
+ * they were picked from; copying leaves them there as well.
+ */
+async function fileConversations(
+  entries: ConversationSelection[],
+  targetId: string,
+  mode: 'move' | 'copy',
+): Promise<void> {
+  const target = state.folders.find((f) => f.id === targetId);
+  if (!target || target.smart || entries.length === 0) return;
+
+  const previousFolders = cloneFolders(state.folders);
+  for (const { folderId, convId } of entries) {
+    const source = state.folders.find((f) => f.id === folderId);
+    const conv = source?.conversations.find((c) => c.id === convId);
+    if (!source || !conv) continue;
+    if (mode === 'move' && source.id !== target.id) {
+      source.conversations = source.conversations.filter((c) => c.id !== convId);
+    }
+    if (!target.conversations.some((c) => c.id === convId)) target.conversations.push({ ...conv });
+  }
+
+  const saved = await persistFoldersWithRollback(
+    previousFolders,
+    mode === 'move' ? 'Failed to move conversations' : 'Failed to copy conversations',
+  );
+  if (saved) {
+    clearConversationSelection();
+    state.openFolders.add(target.id);
+    Logger.info(TAG, `${entries.length} conversation(s) ${mode === 'move' ? 'moved' : 'copied'} to "${target.name}"`);
+  }
+  renderPanel();
+}
+
+async function removeSelectedConversations(): Promise<void> {
+  const entries = selectedEntries();
+  if (entries.length === 0 || !window.confirm(t(locale).bulkRemoveConfirm)) return;
+
+  const previousFolders = cloneFolders(state.folders);
+  for (const { folderId, convId } of entries) {
+    const folder = state.folders.find((f) => f.id === folderId);
+    if (folder) folder.conversations = folder.conversations.filter((c) => c.id !== convId);
+  }
+  const saved = await persistFoldersWithRollback(previousFolders, 'Failed to remove conversations');
+  if (saved) clearConversationSelection();
+  renderPanel();
+}
+
+/** Export the selection as if it were one folder */
+async function exportSelectedConversations(format: FolderExportFormat): Promise<void> {
+  const root: Folder = {
+    id: uuid(),
+    name: t(locale).selectedConversations,
+    parentId: null,
+    conversations: selectedConversations(),
+    createdAt: Date.now(),
+    order: 0,
+  };
+  await runExport(root, [root], format);
+}
+
+/** Open the selection in background tabs, next to this one */
+async function openSelectedInTabs(): Promise<void> {
+  const ids = selectedConversations().map((conv) => conv.id);
+  if (ids.length === 0) return;
+  if (ids.length > 10 && !window.confirm(`${ids.length} ${t(locale).openTabsConfirm}`)) return;
+
+  const urls = ids.map((id) => `${window.location.origin}/chat/${id}`);
+  const res = await Messaging.send({ type: 'OPEN_TABS', payload: { urls } });
+  if (!res.success) {
+    // Without the background worker, popup blocking may let only the first through
+    Logger.warn(TAG, 'Opening tabs via the background worker failed', res.error);
+    for (const url of urls) window.open(url, '_blank', 'noopener');
+  }
+}
+
+// ─── Drag & Drop ────────────────────────────────────────────────
+
+function setupDragDrop(list: HTMLElement): void {
+  // Make sidebar conversation items draggable
+  const convItems = DOM.queryAll('sidebarConversationItem');
+  for (const item of convItems) {
+    (item as HTMLElement).draggable = true;
+    const dragStartHandler = (e: Event) => {
+      const de = e as DragEvent;
+      const href = item.getAttribute('href') ?? '';
+      const convId = /\/chat\/([a-f0-9-]+)/i.exec(href)?.[1];
+      if (convId && de.dataTransfer) {
+        de.dataTransfer.setData('text/plain', convId);
+        de.dataTransfer.effectAllowed = 'move';
         (item as HTMLElement).classList.add('voyager-folder-dragging');
       }
     };
@@ -913,13 +2483,41 @@ function setupDragDrop(list: HTMLElement): void {
     state.cleanups.push(() => item.removeEventListener('dragend', dragEndHandler));
   }
 
+  // Conversations in the panel carry the whole selection when dragged from it
+  const panelConvs = list.querySelectorAll('.voyager-folder-conv[draggable="true"]');
+  for (const conv of panelConvs) {
+    const convId = conv.getAttribute('data-voyager-id');
+    const folderId = conv.closest('.voyager-folder')?.getAttribute('data-voyager-id');
+    if (!convId || !folderId) continue;
+
+    const onDragStart = (e: Event) => {
+      const de = e as DragEvent;
+      activeConversationDrag = state.selectedConversations.has(selectionKey(folderId, convId))
+        ? selectedEntries()
+        : [{ folderId, convId }];
+      if (de.dataTransfer) {
+        de.dataTransfer.setData('text/plain', convId);
+        de.dataTransfer.effectAllowed = 'move';
+      }
+      conv.classList.add('voyager-folder-dragging');
+    };
+    const onDragEnd = () => {
+      conv.classList.remove('voyager-folder-dragging');
+      activeConversationDrag = null;
+    };
+    conv.addEventListener('dragstart', onDragStart);
+    conv.addEventListener('dragend', onDragEnd);
+    state.cleanups.push(() => conv.removeEventListener('dragstart', onDragStart));
+    state.cleanups.push(() => conv.removeEventListener('dragend', onDragEnd));
+  }
+
   // Drop targets on folders (only for conversation drops, not folder reorder)
   const dragOverHandler = (e: Event) => {
     const de = e as DragEvent;
     // Skip if a folder reorder drag is active (use module-level var, not dataTransfer.types)
     if (activeFolderDragId) return;
     const target = (de.target as Element | null)?.closest('.voyager-folder-row');
-    if (target) {
+    if (target && !isSmartFolder(target.getAttribute('data-voyager-id'))) {
       de.preventDefault();
       if (de.dataTransfer) de.dataTransfer.dropEffect = 'move';
       target.classList.add('voyager-folder-drop-target');
@@ -943,10 +2541,16 @@ function setupDragDrop(list: HTMLElement): void {
 
     const convId = de.dataTransfer?.getData('text/plain');
     const folderId = target?.getAttribute('data-voyager-id');
+    const panelDrag = activeConversationDrag;
+    activeConversationDrag = null;
+    if (panelDrag && folderId) {
+      await fileConversations(panelDrag, folderId, 'move');
+      return;
+    }
     if (!convId || !folderId) return;
 
     const folder = state.folders.find((f) => f.id === folderId);
-    if (folder && !folder.conversations.some((c) => c.id === convId)) {
+    if (folder && !folder.smart && !folder.conversations.some((c) => c.id === convId)) {
       const previousFolders = cloneFolders(state.folders);
       // Remove from other folders first
       for (const f of state.folders) {
@@ -974,9 +2578,74 @@ function setupDragDrop(list: HTMLElement): void {
   state.cleanups.push(() => list.removeEventListener('drop', dropHandler));
 }
 
+function isSmartFolder(folderId: string | null): boolean {
+  return state.folders.some((f) => f.id === folderId && f.smart);
+}
+
 // ─── Folder Reorder (Drag & Drop) ───────────────────────────────
 
-function setupFolderReorder(list: HTMLElement): void {
+/** Where a dragged folder lands relative to the row under the pointer */
+type FolderDropPosition = 'before' | 'inside' | 'after';
+
+const DROP_CLASSES = ['voyager-folder-reorder-target', 'voyager-folder-drop-before', 'voyager-folder-drop-after'];
+
+/** Top and bottom quarter of a row reorder, the middle nests */
+function folderDropPosition(row: Element, clientY: number): FolderDropPosition {
+  const rect = row.getBoundingClientRect();
+  const offset = rect.height > 0 ? (clientY - rect.top) / rect.height : 0.5;
+  if (offset < 0.25) return 'before';
+  if (offset > 0.75) return 'after';
+  return 'inside';
+}
+
+/** New parent and sibling index for dropping `sourceId` at `position` of `targetId` */
+function folderDropTarget(
+  sourceId: string,
+  targetId: string,
+  position: FolderDropPosition,
+): { parentId: string | null; index: number } | null {
+  const target = state.folders.find((f) => f.id === targetId);
+  if (!target || targetId === sourceId) return null;
+
+  if (position === 'inside') {
+    if (!canReparent(sourceId, target.id, state.folders)) return null;
+    return { parentId: target.id, index: childFolders(target.id, state.folders).length };
+  }
+  if (!canReparent(sourceId, target.parentId, state.folders)) return null;
+  const siblings = childFolders(target.parentId, state.folders).filter((f) => f.id !== sourceId);
+  const targetIndex = siblings.findIndex((f) => f.id === targetId);
+  return { parentId: target.parentId, index: position === 'before' ? targetIndex : targetIndex + 1 };
+}
+
+function clearDropIndicators(root: Element): void {
+  for (const cls of DROP_CLASSES) {
+    root.querySelectorAll(`.${cls}`).forEach((el) => el.classList.remove(cls));
+  }
+}
+
+async function applyFolderMove(sourceId: string, parentId: string | null, index: number): Promise<void> {
+  const source = state.folders.find((f) => f.id === sourceId);
+  if (!source) return;
+
+  const previousFolders = cloneFolders(state.folders);
+  if (!moveFolder(state.folders, sourceId, parentId, index)) return;
+
+  const saved = await persistFoldersWithRollback(previousFolders, 'Failed to move folder');
+  if (!saved) return;
+
+  activeFolderDragId = null;
+  if (parentId !== null) state.openFolders.add(parentId);
+  renderPanel();
+  Logger.info(TAG, `Moved folder "${source.name}" to position ${index} of ${parentId ?? 'top level'}`);
+}
+
+/**
+ * Folder drag & drop: drop on the upper or lower edge of a row to place the
+ * folder before or after it, on the middle to nest it inside, or on a
+ * breadcrumb to move it into that level. Moves into the folder's own
+ * subtree are refused.
+ */
+function setupFolderReorder(list: HTMLElement, breadcrumb: HTMLElement | null): void {
   const rows = list.querySelectorAll('.voyager-folder-row[draggable="true"]');
   for (const row of rows) {
     const htmlRow = row as HTMLElement;
@@ -996,10 +2665,8 @@ function setupFolderReorder(list: HTMLElement): void {
     const onDragEnd = () => {
       htmlRow.classList.remove('voyager-folder-dragging-row');
       activeFolderDragId = null;
-      // Remove all reorder indicators
-      list.querySelectorAll('.voyager-folder-reorder-target').forEach((el) =>
-        el.classList.remove('voyager-folder-reorder-target'),
-      );
+      clearDropIndicators(list);
+      if (breadcrumb) clearDropIndicators(breadcrumb);
     };
 
     htmlRow.addEventListener('dragstart', onDragStart);
@@ -1008,7 +2675,6 @@ function setupFolderReorder(list: HTMLElement): void {
     state.cleanups.push(() => htmlRow.removeEventListener('dragend', onDragEnd));
   }
 
-  // Dragover on folder rows — show reorder indicator
   // Uses module-level activeFolderDragId instead of dataTransfer.types
   // (Firefox restricts dataTransfer.types access after ~1s in dragover events)
   const onDragOver = (e: Event) => {
@@ -1016,16 +2682,20 @@ function setupFolderReorder(list: HTMLElement): void {
     if (!activeFolderDragId) return;
 
     const target = (de.target as Element | null)?.closest('.voyager-folder-row') as HTMLElement | null;
-    if (!target || target.getAttribute('data-voyager-id') === activeFolderDragId) return;
+    const targetId = target?.getAttribute('data-voyager-id');
+    if (!target || !targetId) return;
+
+    const position = folderDropPosition(target, de.clientY);
+    clearDropIndicators(list);
+    if (!folderDropTarget(activeFolderDragId, targetId, position)) return;
 
     de.preventDefault();
     if (de.dataTransfer) de.dataTransfer.dropEffect = 'move';
-
-    // Clear previous indicators
-    list.querySelectorAll('.voyager-folder-reorder-target').forEach((el) =>
-      el.classList.remove('voyager-folder-reorder-target'),
+    target.classList.add(
+      position === 'inside'
+        ? 'voyager-folder-reorder-target'
+        : position === 'before' ? 'voyager-folder-drop-before' : 'voyager-folder-drop-after',
     );
-    target.classList.add('voyager-folder-reorder-target');
   };
 
   const onDragLeave = (e: Event) => {
@@ -1035,7 +2705,7 @@ function setupFolderReorder(list: HTMLElement): void {
     // Only remove highlight if we're actually leaving the row (not moving to a child element)
     const related = de.relatedTarget as Element | null;
     if (related && row.contains(related)) return;
-    row.classList.remove('voyager-folder-reorder-target');
+    row.classList.remove(...DROP_CLASSES);
   };
 
   const onDrop = async (e: Event) => {
@@ -1043,46 +2713,15 @@ function setupFolderReorder(list: HTMLElement): void {
     if (!activeFolderDragId) return;
 
     const sourceFolderId = activeFolderDragId;
-
-    de.preventDefault();
     const targetRow = (de.target as Element | null)?.closest('.voyager-folder-row');
-    targetRow?.classList.remove('voyager-folder-reorder-target');
-
     const targetFolderId = targetRow?.getAttribute('data-voyager-id');
-    if (!targetFolderId || targetFolderId === sourceFolderId) return;
+    clearDropIndicators(list);
+    if (!targetRow || !targetFolderId) return;
 
-    const sourceFolder = state.folders.find((f) => f.id === sourceFolderId);
-    const targetFolder = state.folders.find((f) => f.id === targetFolderId);
-    if (!sourceFolder || !targetFolder) return;
-
-    // Only reorder within the same parent level
-    if (sourceFolder.parentId !== targetFolder.parentId) return;
-
-    const previousFolders = cloneFolders(state.folders);
-    const siblings = state.folders
-      .filter((f) => f.parentId === sourceFolder.parentId)
-      .sort((a, b) => a.order - b.order);
-
-    // Determine drag direction and insert accordingly
-    const sourceIdx = siblings.findIndex((f) => f.id === sourceFolderId);
-    const targetIdx = siblings.findIndex((f) => f.id === targetFolderId);
-    const withoutSource = siblings.filter((f) => f.id !== sourceFolderId);
-    const newTargetIdx = withoutSource.findIndex((f) => f.id === targetFolderId);
-    // Dragging down → insert after target; dragging up → insert before target
-    const insertAt = sourceIdx < targetIdx ? newTargetIdx + 1 : newTargetIdx;
-    withoutSource.splice(insertAt, 0, sourceFolder);
-
-    // Update order values
-    withoutSource.forEach((f, i) => {
-      f.order = i;
-    });
-
-    const saved = await persistFoldersWithRollback(previousFolders, 'Failed to reorder folders');
-    if (!saved) return;
-
-    activeFolderDragId = null;
-    renderPanel();
-    Logger.info(TAG, `Reordered folder "${sourceFolder.name}" after "${targetFolder.name}"`);
+    const drop = folderDropTarget(sourceFolderId, targetFolderId, folderDropPosition(targetRow, de.clientY));
+    if (!drop) return;
+    de.preventDefault();
+    await applyFolderMove(sourceFolderId, drop.parentId, drop.index);
   };
 
   list.addEventListener('dragover', onDragOver);
@@ -1091,6 +2730,198 @@ function setupFolderReorder(list: HTMLElement): void {
   state.cleanups.push(() => list.removeEventListener('dragover', onDragOver));
   state.cleanups.push(() => list.removeEventListener('dragleave', onDragLeave));
   state.cleanups.push(() => list.removeEventListener('drop', onDrop));
+
+  if (!breadcrumb) return;
+
+  // Breadcrumbs take a folder as last child of that level ('' = top level)
+  const crumbParent = (el: Element | null): { crumb: Element; parentId: string | null } | null => {
+    const crumb = el?.closest('.voyager-folder-crumb');
+    if (!crumb) return null;
+    const id = crumb.getAttribute('data-voyager-id');
+    return { crumb, parentId: id ? id : null };
+  };
+
+  const onCrumbDragOver = (e: Event) => {
+    const de = e as DragEvent;
+    if (!activeFolderDragId) return;
+    const hit = crumbParent(de.target as Element | null);
+    clearDropIndicators(breadcrumb);
+    if (!hit || !canReparent(activeFolderDragId, hit.parentId, state.folders)) return;
+    de.preventDefault();
+    if (de.dataTransfer) de.dataTransfer.dropEffect = 'move';
+    hit.crumb.classList.add('voyager-folder-reorder-target');
+  };
+
+  const onCrumbDragLeave = (e: Event) => {
+    crumbParent(e.target as Element | null)?.crumb.classList.remove('voyager-folder-reorder-target');
+  };
+
+  const onCrumbDrop = async (e: Event) => {
+    const de = e as DragEvent;
+    if (!activeFolderDragId) return;
+    const sourceFolderId = activeFolderDragId;
+    const hit = crumbParent(de.target as Element | null);
+    clearDropIndicators(breadcrumb);
+    if (!hit || !canReparent(sourceFolderId, hit.parentId, state.folders)) return;
+    de.preventDefault();
+    await applyFolderMove(sourceFolderId, hit.parentId, childFolders(hit.parentId, state.folders).length);
+  };
+
+  breadcrumb.addEventListener('dragover', onCrumbDragOver);
+  breadcrumb.addEventListener('dragleave', onCrumbDragLeave);
+  breadcrumb.addEventListener('drop', onCrumbDrop);
+  state.cleanups.push(() => breadcrumb.removeEventListener('dragover', onCrumbDragOver));
+  state.cleanups.push(() => breadcrumb.removeEventListener('dragleave', onCrumbDragLeave));
+  state.cleanups.push(() => breadcrumb.removeEventListener('drop', onCrumbDrop));
+}
+
+// ─── Folder Export ──────────────────────────────────────────────
+
+/** One entry of a popup menu */
+interface FolderMenuItem {
+  label: string;
+  /** Indentation level, for folder pickers */
+  depth?: number;
+  onSelect: () => void;
+}
+
+/** Popup menu below `anchor`; closes on a pick or a click elsewhere */
+function showFolderMenu(anchor: HTMLElement, items: FolderMenuItem[]): void {
+  removeFolderMenu();
+
+  const menu = DOM.createElement('div', {
+    'data-voyager': 'folder-menu',
+    class: 'voyager-folder-menu',
+  });
+  for (const entry of items) {
+    const item = DOM.createElement('div', { class: 'voyager-folder-menu-item' }, [entry.label]);
+    if (entry.depth) item.style.paddingLeft = `${10 + entry.depth * 12}px`;
+    item.addEventListener('click', (e) => {
+      e.stopPropagation();
+      removeFolderMenu();
+      entry.onSelect();
+    });
+    menu.appendChild(item);
+  }
+
+  openFolderPopup(menu, anchor);
+}
+
+/** Show a popup below `anchor` as the open menu; a click elsewhere closes it */
+function openFolderPopup(popup: HTMLElement, anchor: HTMLElement): void {
+  const rect = anchor.getBoundingClientRect();
+  popup.style.top = `${rect.bottom + 4}px`;
+  popup.style.left = `${rect.left}px`;
+  document.body.appendChild(popup);
+  state.menu = popup;
+
+  const outsideClick = (e: Event) => {
+    if (!popup.contains(e.target as Node)) {
+      if (state.menu === popup) removeFolderMenu();
+      document.removeEventListener('click', outsideClick);
+    }
+  };
+  setTimeout(() => document.addEventListener('click', outsideClick), 0);
+  state.cleanups.push(() => document.removeEventListener('click', outsideClick));
+}
+
+function removeFolderMenu(): void {
+  state.menu?.remove();
+  state.menu = null;
+}
+
+function showFolderExportMenu(anchor: HTMLElement, onFormat: (format: FolderExportFormat) => void): void {
+  showFolderMenu(anchor, [
+    { label: t(locale).exportFolderZip, onSelect: () => onFormat('zip') },
+    { label: t(locale).exportFolderMarkdown, onSelect: () => onFormat('markdown') },
+  ]);
+}
+
+async function runFolderExport(folderId: string, format: FolderExportFormat): Promise<void> {
+  const folders = resolvedFolders();
+  const folder = folders.find((f) => f.id === folderId);
+  if (folder) await runExport(folder, folders, format);
+}
+
+/** Export `root` and its subfolders, with the progress toast */
+async function runExport(root: Folder, folders: Folder[], format: FolderExportFormat): Promise<void> {
+  if (state.exportToken) return;
+  if (collectFolderConversations(root, folders).length === 0) {
+    window.alert(t(locale).exportFolderEmpty);
+    return;
+  }
+
+  const token: FolderExportToken = { cancelled: false };
+  state.exportToken = token;
+  renderExportProgress(token);
+
+  try {
+    const result = await exportFolder(root, folders, format, locale, {
+      token,
+      onProgress: updateExportProgress,
+    });
+    if (!result.cancelled) {
+      const tr = t(locale);
+      const failedLines = result.failed.length > 0 ? `\n- ${result.failed.join('\n- ')}` : '';
+      window.alert(
+        `${tr.exportFolderDone}\n${tr.exportFolderExported}: ${result.exported}`
+        + `\n${tr.exportFolderFailedCount}: ${result.failed.length}${failedLines}`,
+      );
+    }
+  } catch (err) {
+    Logger.error(TAG, 'Folder export failed', err);
+    window.alert(t(locale).exportFolderFailed);
+  } finally {
+    if (state.exportToken === token) {
+      state.exportToken = null;
+      removeExportProgress();
+    }
+  }
+}
+
+function renderExportProgress(token: FolderExportToken): void {
+  removeExportProgress();
+
+  const box = DOM.createElement('div', {
+    'data-voyager': 'folder-export-progress',
+    class: 'voyager-folder-progress',
+  });
+  const label = DOM.createElement('span', { class: 'voyager-folder-progress-label' }, [
+    t(locale).exportFolderRunning,
+  ]);
+  const bar = DOM.createElement('div', { class: 'voyager-folder-progress-bar' });
+  const fill = DOM.createElement('div', { class: 'voyager-folder-progress-fill' });
+  bar.appendChild(fill);
+  const cancelBtn = DOM.createElement('button', { class: 'voyager-folder-progress-cancel' }, [
+    t(locale).cancel,
+  ]);
+  cancelBtn.addEventListener('click', () => {
+    token.cancelled = true;
+    label.textContent = t(locale).exportFolderCancelling;
+    (cancelBtn as HTMLButtonElement).disabled = true;
+  });
+
+  box.append(label, bar, cancelBtn);
+  document.body.appendChild(box);
+  state.exportProgress = box;
+}
+
+function updateExportProgress(done: number, total: number, title: string): void {
+  const box = state.exportProgress;
+  if (!box || state.exportToken?.cancelled) return;
+  const label = box.querySelector('.voyager-folder-progress-label');
+  const fill = box.querySelector('.voyager-folder-progress-fill') as HTMLElement | null;
+  if (label) {
+    label.textContent = title
+      ? `${t(locale).exportFolderRunning} ${done + 1}/${total} — ${title}`
+      : t(locale).exportFolderRunning;
+  }
+  if (fill) fill.style.width = `${total > 0 ? Math.round((done / total) * 100) : 0}%`;
+}
+
+function removeExportProgress(): void {
+  state.exportProgress?.remove();
+  state.exportProgress = null;
 }
 
 // ─── Import / Export ────────────────────────────────────────────
@@ -1133,9 +2964,10 @@ function normalizeConversationList(conversations: unknown, legacyIds: unknown):
         const title = typeof (item as Record<string, unknown>).title === 'string'
           ? ((item as Record<string, unknown>).title as string).trim()
           : id.slice(0, 12) + '...';
+        const missing = (item as Record<string, unknown>).missing === true;
         if (id && !seen.has(id)) {
           seen.add(id);
-          result.push({ id, title });
+          result.push({ id, title, ...(missing ? { missing } : {}) });
         }
       }
     }
@@ -1166,6 +2998,10 @@ function normalizeOrder(value: unknown, fallback: number): number {
   return fallback;
 }
 
+/**
+ * One folder of an import. `parentId` is taken as is, so trees of any
+ * depth survive; `normalizeFolderTree` then repairs links across the set.
+ */
 function normalizeImportedFolder(raw: unknown, fallbackOrder: number): Folder | null {
   if (typeof raw !== 'object' || raw === null) return null;
   const data = raw as Record<string, unknown>;
@@ -1175,13 +3011,22 @@ function normalizeImportedFolder(raw: unknown, fallbackOrder: number): Folder |
   if (!parsedId && !parsedName) return null;
 
   const now = Date.now();
+  const smart = normalizeSmartRules(data.smart);
+  const filing = smart ? null : normalizeFilingRules(data.filing);
+  const color = normalizeFolderColor(data.color);
+  const icon = normalizeFolderIcon(data.icon);
   return {
     id: parsedId ?? uuid(),
     name: parsedName ?? t(locale).importedFolder,
     parentId: normalizeNonEmptyString(data.parentId),
-    conversations: normalizeConversationList(data.conversations, data.conversationIds),
+    conversations: smart ? [] : normalizeConversationList(data.conversations, data.conversationIds),
     createdAt: normalizeTimestamp(data.createdAt, now),
     order: normalizeOrder(data.order, fallbackOrder),
+    ...(smart ? { smart } : {}),
+    ...(filing ? { filing } : {}),
+    ...(color ? { color } : {}),
+    ...(icon ? { icon } : {}),
+    ...(data.pinned === true ? { pinned: true } : {}),
   };
 }
 
@@ -1221,33 +3066,12 @@ function handleImport(): void {
           normalized.push(folder);
         });
 
-        const validIds = new Set(normalized.map((f) => f.id));
-        for (const folder of normalized) {
-          if (folder.parentId === folder.id) {
-            folder.parentId = null;
-            continue;
-          }
-          if (folder.parentId !== null && !validIds.has(folder.parentId)) {
-            folder.parentId = null;
-          }
-        }
-
-        const byParent = new Map<string | null, Folder[]>();
-        for (const folder of normalized) {
-          const siblings = byParent.get(folder.parentId) ?? [];
-          siblings.push(folder);
-          byParent.set(folder.parentId, siblings);
-        }
-        for (const siblings of byParent.values()) {
-          siblings
-            .sort((a, b) => a.order - b.order || a.createdAt - b.createdAt)
-            .forEach((folder, index) => {
-              folder.order = index;
-            });
-        }
+        // Keeps nesting at any depth; only broken parent links are cut
+        normalizeFolderTree(normalized);
 
         const previousFolders = cloneFolders(state.folders);
         state.folders = normalized;
+        state.focusId = null;
         state.openFolders.clear();
         state.selectedFolders.clear();
         try {
@@ -1283,6 +3107,10 @@ function cloneFolders(folders: Folder[]): Folder[] {
   return folders.map((folder) => ({
     ...folder,
     conversations: folder.conversations.map((c) => ({ ...c })),
+    ...(folder.smart
+      ? { smart: { ...folder.smart, rules: folder.smart.rules.map((rule) => ({ ...rule })) } }
+      : {}),
+    ...(folder.filing ? { filing: { ...folder.filing, keywords: [...folder.filing.keywords] } } : {}),
   }));
 }
 
@@ -1292,6 +3120,8 @@ async function persistFoldersWithRollback(previousFolders: Folder[], context: st
     return true;
   } catch (err) {
     state.folders = previousFolders;
+    renderPinnedFolders();
+    renderSidebarBadges();
     Logger.error(TAG, context, err);
     window.alert(t(locale).failedSaveFolders);
     return false;
@@ -1300,6 +3130,8 @@ async function persistFoldersWithRollback(previousFolders: Folder[], context: st
 
 async function saveFolders(): Promise<void> {
   await Storage.setFolders(state.folders);
+  renderPinnedFolders();
+  renderSidebarBadges();
 }
 
 // ─── Cleanup ────────────────────────────────────────────────────
@@ -1309,6 +3141,7 @@ function removePanel(): void {
     cleanup();
   }
   state.cleanups = [];
+  removeFolderMenu();
   state.panel?.remove();
   state.panel = null;
 }
@@ -1327,6 +3160,9 @@ export const FolderFeature: FeatureModule = {
     // Bei langsamen Sidebar-Rebuilds mehrfach versuchen.
     ensureToggleButtonInjected(12);
     observeSidebarMutations();
+    document.addEventListener('contextmenu', handleSidebarContextMenu);
+    document.addEventListener('keydown', handleComposerSubmit, true);
+    document.addEventListener('click', handleComposerSubmit, true);
 
     Storage.getFolders().then((folders) => {
       // Migrate legacy conversationIds format to conversations
@@ -1356,6 +3192,12 @@ export const FolderFeature: FeatureModule = {
       if (state.panelOpen) {
         renderPanel();
       }
+      renderPinnedFolders();
+      renderSidebarBadges();
+      void refreshSmartFacts();
+      void autoFileNewConversations();
+      void syncTitlesFromSidebar();
+      scheduleVisitCheck();
       Logger.debug(TAG, `Loaded ${folders.length} folders from storage`);
     }).catch((err) => {
       Logger.error(TAG, 'Failed to load folders', err);
@@ -1365,21 +3207,42 @@ export const FolderFeature: FeatureModule = {
   destroy() {
     Logger.info(TAG, 'Destroying folder feature');
     stopSidebarObserver();
+    document.removeEventListener('contextmenu', handleSidebarContextMenu);
+    document.removeEventListener('keydown', handleComposerSubmit, true);
+    document.removeEventListener('click', handleComposerSubmit, true);
+    clearVisitTimers();
+    if (state.exportToken) state.exportToken.cancelled = true;
+    removeExportProgress();
+    removeFilingNotice();
     removePanel();
     removeToggleButton();
+    removeSidebarBadges();
     DOM.removeStyles('voyager-folders');
     state = createState();
   },
 
-  onNavigate() {
+  onNavigate(conversationId: string | null) {
+    const previousPath = state.lastPath;
+    state.lastPath = window.location.pathname;
+    // A chat reached from /new or a submitted project composer was just created
+    if (conversationId && isNewChatNavigation(previousPath)) {
+      watchConversation(conversationId, Date.now());
+    }
+    state.composerSubmittedOn = null;
+
     // Re-inject sidebar item if it was removed (SPA navigation can rebuild the nav)
     ensureToggleButtonInjected(8);
     observeSidebarMutations();
     syncFolderTooltipState();
     setTimeout(syncFolderTooltipState, 250);
     // Re-render panel to update drag targets (new sidebar items may have loaded)
-    if (state.panelOpen) {
+    if (state.panelOpen && !editorOpen()) {
       renderPanel();
     }
+    debouncedRefreshSmartFacts();
+    debouncedAutoFile();
+    scheduleVisitCheck();
+    // Highlight the open chat in expanded pinned folders
+    if (state.pinnedOpen.size > 0) renderPinnedFolders();
   },
 };
@@ -0,0 +1,76 @@
+/**
+ * Keeping filed conversations in step with claude.ai.
+ *
+ * A conversation's title is captured when it is filed; these helpers bring
+ * it up to date from fresher sources (sidebar links, the open chat) and
+ * track chats that turned out to be deleted. They
+ * mutate the folders passed in and report what changed; persisting is up
+ * to the caller.
+ */
+
+import type { Folder } from '@core/types';
+
+// ─── Titles ─────────────────────────────────────────────────────
+
+/** Whether a title is worth keeping: not empty and not just the id */
+function isRealTitle(id: string, title: string | undefined): title is string {
+  return !!title && title !== id;
+}
+
+/** Update filed titles from `titles` (id → title); returns how many entries changed */
+export function applyConversationTitles(folders: Folder[], titles: Map<string, string>): number {
+  let changed = 0;
+  for (const folder of folders) {
+    for (const conv of folder.conversations) {
+      const title = titles.get(conv.id)?.trim();
+      if (isRealTitle(conv.id, title) && title !== conv.title) {
+        conv.title = title;
+        changed++;
+      }
+    }
+  }
+  return changed;
+}
+
+// ─── Missing Conversations ──────────────────────────────────────
+
+/** Flag or unflag every filed entry of a conversation; returns whether anything changed */
+export function setConversationMissing(folders: Folder[], id: string, missing: boolean): boolean {
+  let changed = false;
+  for (const folder of folders) {
+    for (const conv of folder.conversations) {
+      if (conv.id !== id || !!conv.missing === missing) continue;
+      if (missing) conv.missing = true;
+      else delete conv.missing;
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+/** Distinct conversations flagged as missing */
+export function countMissingConversations(folders: Folder[]): number {
+  const ids = new Set<string>();
+  for (const folder of folders) {
+    for (const conv of folder.conversations) {
+      if (conv.missing) ids.add(conv.id);
+    }
+  }
+  return ids.size;
+}
+
+/** Drop flagged entries from all folders; returns how many were removed */
+export function removeMissingConversations(folders: Folder[]): number {
+  let removed = 0;
+  for (const folder of folders) {
+    const kept = folder.conversations.filter((conv) => !conv.missing);
+    removed += folder.conversations.length - kept.length;
+    folder.conversations = kept;
+  }
+  return removed;
+}
+
+/** Whether a conversation is filed in any folder */
+export function isFiled(folders: Folder[], id: string): boolean {
+  return folders.some((folder) => folder.conversations.some((conv) => conv.id === id));
+}
@@ -97,6 +97,53 @@ export const FOLDER_CSS = `
     background: var(--bg-200, rgba(255, 255, 255, 0.06));
   }
 
+  /* Breadcrumb */
+  .voyager-folder-breadcrumb {
+    display: flex;
+    align-items: center;
+    gap: 4px;
+    padding: 4px 8px 4px 10px;
+    border-bottom: 0.5px solid var(--border-100, rgba(255, 255, 255, 0.06));
+  }
+
+  .voyager-folder-crumbs {
+    flex: 1;
+    min-width: 0;
+    display: flex;
+    align-items: center;
+    flex-wrap: wrap;
+    gap: 2px;
+  }
+
+  .voyager-folder-crumb {
+    max-width: 120px;
+    padding: 2px 4px;
+    border: none;
+    border-radius: 4px;
+    background: none;
+    color: var(--text-300, rgba(232, 228, 222, 0.5));
+    font-size: 11px;
+    cursor: pointer;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .voyager-folder-crumb:hover {
+    color: var(--text-100, rgba(232, 228, 222, 0.9));
+    background: var(--bg-200, rgba(255, 255, 255, 0.06));
+  }
+
+  .voyager-folder-crumb-current {
+    color: var(--text-100, rgba(232, 228, 222, 0.9));
+    font-weight: 500;
+  }
+
+  .voyager-folder-crumb-sep {
+    font-size: 11px;
+    color: var(--text-300, rgba(232, 228, 222, 0.3));
+  }
+
   /* Folder list */
   .voyager-folder-list {
     padding: 4px;
@@ -177,8 +224,12 @@ export const FOLDER_CSS = `
     flex-shrink: 0;
   }
 
-  /* Subfolder add button (hidden by default, visible on hover) */
-  .voyager-folder-add-sub {
+  /* Subfolder add / focus / appearance / smart folder and filing rules buttons (hidden by default, visible on hover) */
+  .voyager-folder-add-sub,
+  .voyager-folder-focus,
+  .voyager-folder-style,
+  .voyager-folder-edit-rules,
+  .voyager-folder-filing {
     display: none;
     background: none;
     border: none;
@@ -193,11 +244,24 @@ export const FOLDER_CSS = `
     transition: color 0.1s, background 0.1s;
   }
 
-  .voyager-folder-row:hover .voyager-folder-add-sub {
+  .voyager-folder-row:hover .voyager-folder-add-sub,
+  .voyager-folder-row:hover .voyager-folder-focus,
+  .voyager-folder-row:hover .voyager-folder-style,
+  .voyager-folder-row:hover .voyager-folder-edit-rules,
+  .voyager-folder-row:hover .voyager-folder-filing,
+  .voyager-folder-filing.voyager-folder-filing-active {
     display: inline-flex;
   }
 
-  .voyager-folder-add-sub:hover {
+  .voyager-folder-filing.voyager-folder-filing-active {
+    color: var(--accent-main, rgba(217, 170, 90, 0.8));
+  }
+
+  .voyager-folder-add-sub:hover,
+  .voyager-folder-focus:hover,
+  .voyager-folder-style:hover,
+  .voyager-folder-edit-rules:hover,
+  .voyager-folder-filing:hover {
     color: var(--text-100, rgba(232, 228, 222, 0.9));
     background: var(--bg-200, rgba(255, 255, 255, 0.06));
   }
@@ -343,6 +407,15 @@ export const FOLDER_CSS = `
     background: rgba(217, 170, 90, 0.06);
   }
 
+  /* Drop before / after a row: reorder among its siblings */
+  .voyager-folder-drop-before {
+    box-shadow: inset 0 2px 0 var(--accent-main, rgba(217, 170, 90, 0.7));
+  }
+
+  .voyager-folder-drop-after {
+    box-shadow: inset 0 -2px 0 var(--accent-main, rgba(217, 170, 90, 0.7));
+  }
+
   /* Drag reorder indicator line between folders */
   .voyager-folder-reorder-line {
     height: 2px;
@@ -363,5 +436,515 @@ export const FOLDER_CSS = `
   .voyager-folder-row.voyager-folder-dragging-row {
     opacity: 0.4;
   }
-`;
 
+  /* Folder export button (hidden by default, visible on hover) */
+  .voyager-folder-export {
+    display: none;
+    background: none;
+    border: none;
+    color: var(--text-300, rgba(232, 228, 222, 0.3));
+    cursor: pointer;
+    padding: 2px 4px;
+    border-radius: 4px;
+    font-size: 12px;
+    line-height: 1;
+    flex-shrink: 0;
+    transition: color 0.1s, background 0.1s;
+  }
+
+  .voyager-folder-row:hover .voyager-folder-export {
+    display: inline-flex;
+  }
+
+  .voyager-folder-export:hover {
+    color: var(--text-100, rgba(232, 228, 222, 0.9));
+    background: var(--bg-200, rgba(255, 255, 255, 0.06));
+  }
+
+  /* Small popover menu anchored to a row button */
+  .voyager-folder-menu {
+    position: fixed;
+    z-index: 50001;
+    min-width: 180px;
+    background: var(--bg-100, #2a2520);
+    border: 0.5px solid var(--border-200, rgba(255, 255, 255, 0.1));
+    border-radius: 10px;
+    box-shadow: 0 8px 32px rgba(0, 0, 0, 0.45);
+    padding: 4px;
+  }
+
+  .voyager-folder-menu-item {
+    padding: 7px 10px;
+    border-radius: 6px;
+    font-size: 12px;
+    cursor: pointer;
+    color: var(--text-200, rgba(232, 228, 222, 0.75));
+    transition: background 0.1s;
+  }
+
+  .voyager-folder-menu-item:hover {
+    background: var(--bg-200, rgba(255, 255, 255, 0.06));
+    color: var(--text-100, rgba(232, 228, 222, 0.95));
+  }
+
+  /* Folder export progress toast */
+  .voyager-folder-progress {
+    position: fixed;
+    left: 50%;
+    bottom: 24px;
+    transform: translateX(-50%);
+    z-index: 60000;
+    display: flex;
+    align-items: center;
+    gap: 10px;
+    min-width: 320px;
+    max-width: 560px;
+    padding: 10px 14px;
+    background: var(--bg-100, #2a2520);
+    border: 0.5px solid var(--border-200, rgba(255, 255, 255, 0.1));
+    border-radius: 10px;
+    box-shadow: 0 8px 32px rgba(0, 0, 0, 0.45);
+    color: var(--text-200, rgba(232, 228, 222, 0.75));
+    font-size: 12px;
+  }
+
+  .voyager-folder-progress-label {
+    flex: 1;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .voyager-folder-progress-bar {
+    width: 80px;
+    height: 4px;
+    border-radius: 2px;
+    background: rgba(255, 255, 255, 0.08);
+    overflow: hidden;
+    flex-shrink: 0;
+  }
+
+  .voyager-folder-progress-fill {
+    width: 0;
+    height: 100%;
+    background: var(--accent-main, rgba(217, 170, 90, 0.7));
+    transition: width 0.2s;
+  }
+
+  .voyager-folder-progress-cancel {
+    padding: 3px 10px;
+    border: 0.5px solid var(--border-200, rgba(255, 255, 255, 0.1));
+    border-radius: 6px;
+    background: transparent;
+    color: var(--text-300, rgba(232, 228, 222, 0.5));
+    font-size: 12px;
+    cursor: pointer;
+  }
+
+  .voyager-folder-progress-cancel:hover:not(:disabled) {
+    color: var(--text-100, rgba(232, 228, 222, 0.9));
+    background: var(--bg-200, rgba(255, 255, 255, 0.06));
+  }
+
+  /* Smart folders */
+  .voyager-folder-smart-icon {
+    margin-right: 4px;
+    font-size: 11px;
+    color: var(--accent-main, rgba(217, 170, 90, 0.8));
+  }
+
+  .voyager-folder-smart-editor {
+    display: flex;
+    flex-direction: column;
+    gap: 8px;
+    padding: 10px 12px;
+  }
+
+  .voyager-folder-smart-rules {
+    display: flex;
+    flex-direction: column;
+    gap: 6px;
+  }
+
+  .voyager-folder-smart-rule {
+    display: flex;
+    align-items: center;
+    gap: 6px;
+    padding: 2px;
+    border-radius: 6px;
+  }
+
+  .voyager-folder-smart-rule.voyager-folder-smart-invalid {
+    box-shadow: 0 0 0 1px rgba(220, 90, 70, 0.7);
+  }
+
+  .voyager-folder-smart-input,
+  .voyager-folder-smart-select {
+    min-width: 0;
+    background: var(--bg-000, rgba(20, 18, 15, 0.8));
+    border: 0.5px solid var(--border-200, rgba(255, 255, 255, 0.15));
+    border-radius: 6px;
+    color: var(--text-100, rgba(232, 228, 222, 0.9));
+    font-size: 12px;
+    padding: 3px 6px;
+    outline: none;
+  }
+
+  .voyager-folder-smart-rule .voyager-folder-smart-input {
+    flex: 1;
+  }
+
+  .voyager-folder-smart-rule .voyager-folder-smart-days {
+    flex: 0 0 56px;
+  }
+
+  .voyager-folder-smart-input:focus,
+  .voyager-folder-smart-select:focus {
+    border-color: var(--accent-main, rgba(217, 170, 90, 0.5));
+  }
+
+  .voyager-folder-smart-remove,
+  .voyager-folder-smart-add {
+    background: none;
+    border: none;
+    color: var(--text-300, rgba(232, 228, 222, 0.4));
+    cursor: pointer;
+    padding: 2px 4px;
+    border-radius: 4px;
+    font-size: 12px;
+  }
+
+  .voyager-folder-smart-add {
+    align-self: flex-start;
+  }
+
+  .voyager-folder-smart-remove:hover,
+  .voyager-folder-smart-add:hover {
+    color: var(--text-100, rgba(232, 228, 222, 0.9));
+    background: var(--bg-200, rgba(255, 255, 255, 0.06));
+  }
+
+  .voyager-folder-smart-hint,
+  .voyager-folder-smart-preview {
+    font-size: 11px;
+    color: var(--text-300, rgba(232, 228, 222, 0.45));
+  }
+
+  .voyager-folder-smart-preview {
+    color: var(--text-200, rgba(232, 228, 222, 0.7));
+  }
+
+  .voyager-folder-smart-btns {
+    display: flex;
+    justify-content: flex-end;
+    gap: 6px;
+  }
+
+  .voyager-folder-smart-cancel,
+  .voyager-folder-smart-save {
+    padding: 4px 12px;
+    border-radius: 6px;
+    font-size: 12px;
+    cursor: pointer;
+  }
+
+  .voyager-folder-smart-cancel {
+    border: 0.5px solid var(--border-200, rgba(255, 255, 255, 0.1));
+    background: transparent;
+    color: var(--text-200, rgba(232, 228, 222, 0.7));
+  }
+
+  .voyager-folder-smart-save {
+    border: none;
+    background: var(--accent-main, rgba(217, 170, 90, 0.7));
+    color: #1a1612;
+    font-weight: 500;
+  }
+
+  .voyager-folder-smart-save:disabled {
+    opacity: 0.45;
+    cursor: default;
+  }
+
+  /* Auto-filing rules editor and notice */
+  .voyager-folder-filing-heading {
+    font-size: 12px;
+    font-weight: 500;
+    color: var(--text-100, rgba(232, 228, 222, 0.9));
+  }
+
+  .voyager-folder-smart-input.voyager-folder-smart-invalid {
+    border-color: rgba(220, 90, 70, 0.7);
+  }
+
+  .voyager-folder-filing-notice {
+    bottom: 72px;
+    min-width: 0;
+  }
+
+  /* Conversation that showed the not-found view */
+  .voyager-folder-conv-missing .voyager-folder-conv-name {
+    text-decoration: line-through;
+    opacity: 0.55;
+  }
+
+  /* Conversation selection and bulk actions */
+  .voyager-folder-conv-check {
+    display: none;
+    margin: 0;
+    flex-shrink: 0;
+    accent-color: var(--accent-main, rgb(217, 170, 90));
+    cursor: pointer;
+  }
+
+  .voyager-folder-conv:hover .voyager-folder-conv-check,
+  .voyager-folder-selecting .voyager-folder-conv-check {
+    display: inline-block;
+  }
+
+  .voyager-folder-conv:hover .voyager-folder-conv-check + .voyager-folder-conv-icon,
+  .voyager-folder-selecting .voyager-folder-conv-check + .voyager-folder-conv-icon {
+    display: none;
+  }
+
+  .voyager-folder-conv.voyager-folder-conv-selected {
+    background: var(--bg-300, rgba(217, 170, 90, 0.12));
+    color: var(--text-100, rgba(232, 228, 222, 0.9));
+  }
+
+  .voyager-folder-bulk {
+    display: flex;
+    flex-wrap: wrap;
+    align-items: center;
+    gap: 4px;
+    padding: 6px 10px;
+    border-bottom: 0.5px solid var(--border-200, rgba(255, 255, 255, 0.08));
+  }
+
+  .voyager-folder-bulk-count {
+    margin-right: auto;
+    font-size: 11px;
+    color: var(--text-200, rgba(232, 228, 222, 0.7));
+  }
+
+  .voyager-folder-bulk-btn {
+    padding: 2px 8px;
+    border: 0.5px solid var(--border-200, rgba(255, 255, 255, 0.1));
+    border-radius: 6px;
+    background: transparent;
+    color: var(--text-200, rgba(232, 228, 222, 0.75));
+    font-size: 11px;
+    cursor: pointer;
+  }
+
+  .voyager-folder-bulk-btn:hover {
+    color: var(--text-100, rgba(232, 228, 222, 0.95));
+    background: var(--bg-200, rgba(255, 255, 255, 0.06));
+  }
+
+  /* Folder colors, icons and the appearance popup */
+  .voyager-folder-color-none { --voyager-folder-color: var(--text-300, rgba(232, 228, 222, 0.45)); }
+  .voyager-folder-color-red { --voyager-folder-color: rgba(220, 90, 70, 0.9); }
+  .voyager-folder-color-orange { --voyager-folder-color: rgba(230, 150, 60, 0.9); }
+  .voyager-folder-color-yellow { --voyager-folder-color: rgba(220, 195, 70, 0.9); }
+  .voyager-folder-color-green { --voyager-folder-color: rgba(100, 180, 110, 0.9); }
+  .voyager-folder-color-blue { --voyager-folder-color: rgba(90, 150, 230, 0.9); }
+  .voyager-folder-color-purple { --voyager-folder-color: rgba(165, 115, 220, 0.9); }
+
+  .voyager-folder-row.voyager-folder-colored {
+    box-shadow: inset 3px 0 0 var(--voyager-folder-color);
+  }
+
+  .voyager-folder-colored .voyager-folder-icon {
+    color: var(--voyager-folder-color);
+  }
+
+  .voyager-folder-emoji {
+    margin-right: 5px;
+  }
+
+  .voyager-folder-pin {
+    font-size: 10px;
+    flex-shrink: 0;
+  }
+
+  .voyager-folder-style-editor {
+    display: flex;
+    flex-direction: column;
+    gap: 8px;
+    padding: 10px;
+  }
+
+  .voyager-folder-swatches {
+    display: flex;
+    gap: 6px;
+  }
+
+  .voyager-folder-swatch {
+    width: 18px;
+    height: 18px;
+    padding: 0;
+    border-radius: 50%;
+    border: 2px solid transparent;
+    background: var(--voyager-folder-color);
+    cursor: pointer;
+  }
+
+  .voyager-folder-swatch.voyager-folder-color-none {
+    background: transparent;
+    border-color: var(--voyager-folder-color);
+    border-style: dashed;
+  }
+
+  .voyager-folder-swatch-selected {
+    box-shadow: 0 0 0 2px var(--bg-100, #2b2520), 0 0 0 3px var(--text-100, rgba(232, 228, 222, 0.95));
+  }
+
+  .voyager-folder-style-pin {
+    display: flex;
+    align-items: center;
+    gap: 6px;
+    font-size: 12px;
+    color: var(--text-200, rgba(232, 228, 222, 0.75));
+    cursor: pointer;
+  }
+
+  /* Pinned folders in the claude.ai sidebar */
+  .voyager-folder-pinned {
+    display: flex;
+    flex-direction: column;
+    gap: 1px;
+    padding: 0 8px 4px;
+  }
+
+  .voyager-folder-pinned.voyager-folder-pinned-collapsed {
+    display: none;
+  }
+
+  .voyager-folder-pinned-item,
+  .voyager-folder-pinned-conv {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    width: 100%;
+    min-width: 0;
+    padding: 5px 8px;
+    border: none;
+    border-radius: 8px;
+    background: transparent;
+    color: var(--text-200, rgba(232, 228, 222, 0.8));
+    font-size: 13px;
+    text-align: left;
+    cursor: pointer;
+  }
+
+  .voyager-folder-pinned-item[class*="voyager-folder-color-"] {
+    box-shadow: inset 3px 0 0 var(--voyager-folder-color);
+  }
+
+  .voyager-folder-pinned-item:hover,
+  .voyager-folder-pinned-conv:hover {
+    background: var(--bg-300, rgba(255, 255, 255, 0.06));
+    color: var(--text-100, rgba(232, 228, 222, 0.95));
+  }
+
+  .voyager-folder-pinned-icon {
+    width: 20px;
+    text-align: center;
+    flex-shrink: 0;
+  }
+
+  .voyager-folder-pinned-name,
+  .voyager-folder-pinned-conv {
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .voyager-folder-pinned-name {
+    flex: 1;
+  }
+
+  .voyager-folder-pinned-convs {
+    display: flex;
+    flex-direction: column;
+    padding-left: 28px;
+  }
+
+  .voyager-folder-pinned-conv {
+    display: block;
+    padding: 4px 8px;
+    font-size: 12px;
+    color: var(--text-300, rgba(232, 228, 222, 0.6));
+  }
+
+  .voyager-folder-pinned-conv.voyager-folder-pinned-current {
+    background: var(--bg-300, rgba(255, 255, 255, 0.06));
+    color: var(--text-100, rgba(232, 228, 222, 0.95));
+  }
+
+  .voyager-folder-pinned-empty {
+    padding: 4px 8px;
+    font-size: 11px;
+    color: var(--text-300, rgba(232, 228, 222, 0.45));
+  }
+
+  /* Folder badges next to claude.ai's sidebar chat links */
+  :has(> [data-voyager="folder-badges"]) {
+    position: relative;
+  }
+
+  .voyager-folder-badges {
+    position: absolute;
+    top: 50%;
+    right: 8px;
+    transform: translateY(-50%);
+    display: inline-flex;
+    align-items: center;
+    gap: 4px;
+    pointer-events: none;
+  }
+
+  /* Make room for claude.ai's own options button on hover */
+  :hover > .voyager-folder-badges {
+    right: 36px;
+  }
+
+  .voyager-folder-badge-dots {
+    display: inline-flex;
+    align-items: center;
+    gap: 3px;
+    pointer-events: auto;
+  }
+
+  .voyager-folder-badge {
+    width: 7px;
+    height: 7px;
+    border-radius: 50%;
+    background: var(--voyager-folder-color);
+  }
+
+  .voyager-folder-badge-add {
+    display: inline-flex;
+    align-items: center;
+    justify-content: center;
+    width: 18px;
+    height: 18px;
+    padding: 0;
+    border: none;
+    border-radius: 4px;
+    background: var(--bg-300, rgba(255, 255, 255, 0.08));
+    color: var(--text-200, rgba(232, 228, 222, 0.8));
+    font-size: 13px;
+    line-height: 1;
+    cursor: pointer;
+    opacity: 0;
+    pointer-events: auto;
+    transition: opacity 0.15s;
+  }
+
+  :hover > .voyager-folder-badges .voyager-folder-badge-add,
+  .voyager-folder-badge-add:focus-visible {
+    opacity: 1;
+  }
+`;
@@ -0,0 +1,122 @@
+/**
+ * Folder tree helpers.
+ *
+ * Folders nest to any depth through `parentId`. Everything that walks up
+ * the tree is cycle-safe, so a damaged or hand-edited import can't hang
+ * the panel; `normalizeFolderTree` repairs such trees.
+ */
+
+import type { Folder } from '@core/types';
+
+/** Ancestors of a folder, outermost first, excluding the folder itself */
+export function folderAncestors(folderId: string, folders: Folder[]): Folder[] {
+  const byId = new Map(folders.map((f) => [f.id, f]));
+  const ancestors: Folder[] = [];
+  const seen = new Set<string>([folderId]);
+  let parentId = byId.get(folderId)?.parentId ?? null;
+  while (parentId !== null && !seen.has(parentId)) {
+    const parent = byId.get(parentId);
+    if (!parent) break;
+    seen.add(parentId);
+    ancestors.unshift(parent);
+    parentId = parent.parentId;
+  }
+  return ancestors;
+}
+
+/** Whether `folderId` is `ancestorId` or nested somewhere below it */
+export function isWithinFolder(folderId: string, ancestorId: string, folders: Folder[]): boolean {
+  return folderId === ancestorId || folderAncestors(folderId, folders).some((f) => f.id === ancestorId);
+}
+
+/** Whether a folder may move into `parentId` (null = top level) without creating a cycle */
+export function canReparent(folderId: string, parentId: string | null, folders: Folder[]): boolean {
+  if (parentId === null) return true;
+  const parent = folders.find((f) => f.id === parentId);
+  return !!parent && !parent.smart && !isWithinFolder(parentId, folderId, folders);
+}
+
+/** Children of `parentId`, in display order */
+export function childFolders(parentId: string | null, folders: Folder[]): Folder[] {
+  return folders.filter((f) => f.parentId === parentId).sort((a, b) => a.order - b.order);
+}
+
+/** Every folder reachable from the top level with its depth, in panel order */
+export function flattenFolderTree(folders: Folder[]): Array<{ folder: Folder; depth: number }> {
+  const flat: Array<{ folder: Folder; depth: number }> = [];
+  const visit = (parentId: string | null, depth: number): void => {
+    for (const folder of childFolders(parentId, folders)) {
+      flat.push({ folder, depth });
+      visit(folder.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return flat;
+}
+
+/**
+ * Move a folder into `parentId` at position `index` among its new siblings,
+ * renumbering both sibling lists. Mutates the folders; callers keep a copy
+ * for rollback. Returns false if the move would create a cycle.
+ */
+export function moveFolder(folders: Folder[], folderId: string, parentId: string | null, index: number): boolean {
+  const folder = folders.find((f) => f.id === folderId);
+  if (!folder || !canReparent(folderId, parentId, folders)) return false;
+
+  const oldSiblings = childFolders(folder.parentId, folders).filter((f) => f.id !== folderId);
+  oldSiblings.forEach((f, i) => {
+    f.order = i;
+  });
+
+  const siblings = childFolders(parentId, folders).filter((f) => f.id !== folderId);
+  siblings.splice(Math.max(0, Math.min(index, siblings.length)), 0, folder);
+  folder.parentId = parentId;
+  siblings.forEach((f, i) => {
+    f.order = i;
+  });
+  return true;
+}
+
+/**
+ * Repair parent links at any depth: parents that don't exist, folders that
+ * are their own parent and cycles become top-level folders. Sibling order
+ * is renumbered from 0. Mutates and returns `folders`.
+ */
+export function normalizeFolderTree(folders: Folder[]): Folder[] {
+  const ids = new Set(folders.map((f) => f.id));
+  for (const folder of folders) {
+    if (folder.parentId !== null && (folder.parentId === folder.id || !ids.has(folder.parentId))) {
+      folder.parentId = null;
+    }
+  }
+
+  // A folder whose chain of parents loops back to itself is cut loose
+  const byId = new Map(folders.map((f) => [f.id, f]));
+  for (const folder of folders) {
+    const seen = new Set<string>([folder.id]);
+    let parentId = folder.parentId;
+    while (parentId !== null) {
+      if (seen.has(parentId)) {
+        folder.parentId = null;
+        break;
+      }
+      seen.add(parentId);
+      parentId = byId.get(parentId)?.parentId ?? null;
+    }
+  }
+
+  const byParent = new Map<string | null, Folder[]>();
+  for (const folder of folders) {
+    const siblings = byParent.get(folder.parentId) ?? [];
+    siblings.push(folder);
+    byParent.set(folder.parentId, siblings);
+  }
+  for (const siblings of byParent.values()) {
+    siblings
+      .sort((a, b) => a.order - b.order || a.createdAt - b.createdAt)
+      .forEach((folder, index) => {
+        folder.order = index;
+      });
+  }
+  return folders;
+}
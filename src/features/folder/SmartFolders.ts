@@ -0,0 +1,198 @@
+/**
+ * Smart folders: folders whose contents follow from rules instead of filing.
+ *
+ * Candidates are the conversations we know about — sidebar links and the
+ * snapshot cache — each described by `ConversationFacts`. A conversation's
+ * last opening is when its snapshot was last captured, or now for the open
+ * one. Everything here is pure; the folder feature gathers the facts and
+ * re-evaluates whenever the sidebar or the cached data changes.
+ */
+
+import type {
+  Folder,
+  FolderConversation,
+  MessageAnnotation,
+  SidebarConversation,
+  SmartFolderRule,
+  SmartFolderRuleKind,
+  SmartFolderRules,
+  SnapshotMeta,
+  StarredMessage,
+} from '@core/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SMART_RULE_KINDS: SmartFolderRuleKind[] = [
+  'titleRegex',
+  'starred',
+  'hasNotes',
+  'openedWithin',
+  'sidebarSection',
+];
+
+/** What the rules can test about one conversation */
+export interface ConversationFacts {
+  id: string;
+  title: string;
+  /** Sidebar sections the conversation is listed under */
+  sections: string[];
+  lastOpenedAt: number | null;
+  starred: boolean;
+  hasNotes: boolean;
+}
+
+/** Sources the facts are gathered from */
+export interface FactSources {
+  sidebar: SidebarConversation[];
+  snapshots: SnapshotMeta[];
+  starred: StarredMessage[];
+  annotations: MessageAnnotation[];
+  /** Filed conversations, for titles of chats neither listed nor cached */
+  folders: Folder[];
+  /** Conversation open right now */
+  currentId: string | null;
+  now: number;
+}
+
+/** One entry per known conversation; sidebar titles win over cached ones */
+export function collectConversationFacts(sources: FactSources): ConversationFacts[] {
+  const facts = new Map<string, ConversationFacts>();
+  const entry = (id: string, title: string): ConversationFacts => {
+    let fact = facts.get(id);
+    if (!fact) {
+      fact = { id, title, sections: [], lastOpenedAt: null, starred: false, hasNotes: false };
+      facts.set(id, fact);
+    }
+    return fact;
+  };
+
+  for (const link of sources.sidebar) {
+    const fact = entry(link.id, link.title);
+    fact.title = link.title;
+    if (link.section && !fact.sections.includes(link.section)) fact.sections.push(link.section);
+  }
+  for (const snapshot of sources.snapshots) {
+    entry(snapshot.conversationId, snapshot.title).lastOpenedAt = snapshot.capturedAt;
+  }
+  for (const folder of sources.folders) {
+    for (const conv of folder.conversations) entry(conv.id, conv.title);
+  }
+  for (const star of sources.starred) {
+    const fact = facts.get(star.conversationId);
+    if (fact) fact.starred = true;
+  }
+  for (const annotation of sources.annotations) {
+    const fact = facts.get(annotation.conversationId);
+    if (fact) fact.hasNotes = true;
+  }
+  if (sources.currentId) {
+    const fact = facts.get(sources.currentId);
+    if (fact) fact.lastOpenedAt = sources.now;
+  }
+  return [...facts.values()];
+}
+
+/** Compiled title pattern (case-insensitive), or null if it is not a valid regex */
+export function compileTitlePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+/** A rule with nothing to test against (empty pattern, invalid regex, no section) */
+export function isRuleIncomplete(rule: SmartFolderRule): boolean {
+  switch (rule.kind) {
+    case 'titleRegex':
+      return !rule.pattern || compileTitlePattern(rule.pattern) === null;
+    case 'openedWithin':
+      return !(rule.days > 0);
+    case 'sidebarSection':
+      return !rule.section.trim();
+    default:
+      return false;
+  }
+}
+
+export function matchesRule(rule: SmartFolderRule, fact: ConversationFacts, now: number): boolean {
+  switch (rule.kind) {
+    case 'titleRegex':
+      return compileTitlePattern(rule.pattern)?.test(fact.title) ?? false;
+    case 'starred':
+      return fact.starred;
+    case 'hasNotes':
+      return fact.hasNotes;
+    case 'openedWithin':
+      return fact.lastOpenedAt !== null && now - fact.lastOpenedAt <= rule.days * DAY_MS;
+    case 'sidebarSection': {
+      const section = rule.section.trim().toLowerCase();
+      return fact.sections.some((s) => s.toLowerCase() === section);
+    }
+  }
+}
+
+/** Whether a conversation belongs in a smart folder; a folder without rules matches nothing */
+export function matchesSmartFolder(rules: SmartFolderRules, fact: ConversationFacts, now: number): boolean {
+  if (rules.rules.length === 0) return false;
+  return rules.match === 'all'
+    ? rules.rules.every((rule) => matchesRule(rule, fact, now))
+    : rules.rules.some((rule) => matchesRule(rule, fact, now));
+}
+
+/** Contents of a smart folder, most recently opened first */
+export function evaluateSmartFolder(
+  rules: SmartFolderRules,
+  facts: ConversationFacts[],
+  now: number,
+): FolderConversation[] {
+  return facts
+    .filter((fact) => matchesSmartFolder(rules, fact, now))
+    .sort((a, b) => (b.lastOpenedAt ?? 0) - (a.lastOpenedAt ?? 0) || a.title.localeCompare(b.title))
+    .map((fact) => ({ id: fact.id, title: fact.title }));
+}
+
+/** A new rule of `kind` with an empty value */
+export function createRule(kind: SmartFolderRuleKind): SmartFolderRule {
+  switch (kind) {
+    case 'titleRegex':
+      return { kind, pattern: '' };
+    case 'openedWithin':
+      return { kind, days: 7 };
+    case 'sidebarSection':
+      return { kind, section: '' };
+    default:
+      return { kind };
+  }
+}
+
+/** Rules read from an import, or null if `value` holds none that are usable */
+export function normalizeSmartRules(value: unknown): SmartFolderRules | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const data = value as Record<string, unknown>;
+  if (!Array.isArray(data.rules)) return null;
+
+  const rules: SmartFolderRule[] = [];
+  for (const raw of data.rules) {
+    if (typeof raw !== 'object' || raw === null) continue;
+    const rule = raw as Record<string, unknown>;
+    switch (rule.kind) {
+      case 'titleRegex':
+        if (typeof rule.pattern === 'string') rules.push({ kind: 'titleRegex', pattern: rule.pattern });
+        break;
+      case 'starred':
+      case 'hasNotes':
+        rules.push({ kind: rule.kind });
+        break;
+      case 'openedWithin':
+        if (typeof rule.days === 'number' && rule.days > 0) {
+          rules.push({ kind: 'openedWithin', days: Math.round(rule.days) });
+        }
+        break;
+      case 'sidebarSection':
+        if (typeof rule.section === 'string') rules.push({ kind: 'sidebarSection', section: rule.section });
+        break;
+    }
+  }
+  return { match: data.match === 'any' ? 'any' : 'all', rules };
+}
@@ -0,0 +1,240 @@
+/**
+ * Prompt chain runner.
+ *
+ * Runs a chain one step per assistant reply. The first step is inserted
+ * right away. A reply counts as finished once a new assistant message is
+ * there, nothing is streaming (no stop button, no message marked streaming)
+ * and the page has been quiet for a moment. The next step is then offered
+ * in the progress bar, or inserted straight away when the chain
+ * auto-inserts. Sending stays with the user. Opening another conversation
+ * aborts the run.
+ */
+
+import type { Locale, PromptChain, SavedPrompt } from '@core/types';
+import { DOM } from '@core/services/DOMService';
+import { Logger } from '@core/services/LoggerService';
+import { t } from '@i18n/index';
+
+const TAG = 'PromptChain';
+/** Quiet time after the last change before a reply counts as finished */
+const SETTLE_MS = 1200;
+/** How long the bar stays up after the last reply */
+const DONE_HIDE_MS = 4000;
+
+/** Waiting for the reply to the step just inserted, offering the next step, or finished */
+type ChainPhase = 'awaitingReply' | 'ready' | 'done';
+
+export interface ChainRunOptions {
+  locale: Locale;
+  chain: PromptChain;
+  /** Resolved steps, in order */
+  steps: SavedPrompt[];
+  /** Put a step into the chat input; templated steps may ask for variables first */
+  insert: (prompt: SavedPrompt) => void;
+}
+
+interface RunnerState {
+  options: ChainRunOptions | null;
+  phase: ChainPhase;
+  /** Steps whose reply has finished (or that were skipped) */
+  completed: number;
+  /** Assistant messages on the page before the current step's reply */
+  baseline: number;
+  /** Conversation the chain runs in; null until a new chat gets its id */
+  conversationId: string | null;
+  bar: HTMLElement | null;
+  settleTimer: ReturnType<typeof setTimeout> | null;
+  hideTimer: ReturnType<typeof setTimeout> | null;
+}
+
+function createState(): RunnerState {
+  return {
+    options: null,
+    phase: 'awaitingReply',
+    completed: 0,
+    baseline: 0,
+    conversationId: null,
+    bar: null,
+    settleTimer: null,
+    hideTimer: null,
+  };
+}
+
+let state: RunnerState = createState();
+
+// ─── Run Control ────────────────────────────────────────────────
+
+function countReplies(): number {
+  return DOM.getChatMessages().filter((msg) => msg.role === 'assistant').length;
+}
+
+/** Start `chain` from its first step, replacing any running chain */
+export function startChain(options: ChainRunOptions): void {
+  abortChain();
+  if (options.steps.length === 0) return;
+  state.options = options;
+  Logger.info(TAG, `Starting chain "${options.chain.title}" (${options.steps.length} steps)`);
+  insertStep();
+}
+
+/** Insert the step after the completed ones and wait for its reply */
+function insertStep(): void {
+  const step = state.options?.steps[state.completed];
+  if (!state.options || !step) return;
+  state.phase = 'awaitingReply';
+  state.baseline = countReplies();
+  state.conversationId ??= DOM.getConversationId();
+  render();
+  state.options.insert(step);
+}
+
+/** A step is done; insert or offer the next one */
+function completeStep(autoInsert: boolean): void {
+  const options = state.options;
+  if (!options) return;
+  state.completed++;
+  if (state.completed >= options.steps.length) {
+    finish();
+  } else if (autoInsert) {
+    insertStep();
+  } else {
+    state.phase = 'ready';
+    render();
+  }
+}
+
+function finish(): void {
+  state.phase = 'done';
+  clearSettleTimer();
+  render();
+  Logger.info(TAG, `Chain "${state.options?.chain.title ?? ''}" finished`);
+  state.hideTimer = setTimeout(() => abortChain(), DONE_HIDE_MS);
+}
+
+/** Skip the current step: stop waiting for its reply, or pass over the offered one */
+function skipStep(): void {
+  clearSettleTimer();
+  completeStep(false);
+}
+
+/** Stop the running chain and remove its progress bar */
+export function abortChain(): void {
+  clearSettleTimer();
+  if (state.hideTimer) clearTimeout(state.hideTimer);
+  state.bar?.remove();
+  state = createState();
+}
+
+export function isChainRunning(): boolean {
+  return state.options !== null;
+}
+
+// ─── Reply Detection ────────────────────────────────────────────
+
+function clearSettleTimer(): void {
+  if (state.settleTimer) clearTimeout(state.settleTimer);
+  state.settleTimer = null;
+}
+
+function scheduleSettleCheck(): void {
+  clearSettleTimer();
+  state.settleTimer = setTimeout(checkReply, SETTLE_MS);
+}
+
+function checkReply(): void {
+  state.settleTimer = null;
+  if (state.phase !== 'awaitingReply') return;
+  // The stop button can vanish without a message mutation, so keep polling while streaming
+  if (DOM.isResponseStreaming()) {
+    scheduleSettleCheck();
+    return;
+  }
+  if (countReplies() > state.baseline) {
+    completeStep(state.options?.chain.autoInsert ?? false);
+  }
+}
+
+/** Call on every message mutation */
+export function notifyChainMessagesChanged(): void {
+  if (state.options && state.phase === 'awaitingReply') scheduleSettleCheck();
+}
+
+/** Call on navigation; a new chat getting its id is fine, another conversation aborts */
+export function notifyChainNavigate(conversationId: string | null): void {
+  if (!state.options) return;
+  if (state.conversationId === null) {
+    state.conversationId = conversationId;
+  } else if (conversationId !== state.conversationId) {
+    Logger.info(TAG, 'Conversation changed, aborting chain');
+    abortChain();
+  }
+}
+
+// ─── Progress Bar ───────────────────────────────────────────────
+
+function render(): void {
+  const options = state.options;
+  if (!options) return;
+  const tr = t(options.locale);
+  const total = options.steps.length;
+
+  const bar = state.bar ?? DOM.createElement('div', {
+    'data-voyager': 'prompt-chain',
+    class: 'voyager-chain-bar',
+    role: 'status',
+  });
+  bar.replaceChildren();
+
+  const head = DOM.createElement('div', { class: 'voyager-chain-head' }, [
+    DOM.createElement('span', { class: 'voyager-chain-title' }, [`\u26D3 ${options.chain.title}`]),
+    DOM.createElement('span', { class: 'voyager-chain-count' }, [
+      `${tr.chainStep} ${Math.min(state.completed + 1, total)}/${total}`,
+    ]),
+  ]);
+
+  const progress = DOM.createElement('div', { class: 'voyager-chain-progress' });
+  options.steps.forEach((step, index) => {
+    let cls = 'voyager-chain-dot';
+    if (index < state.completed) cls += ' voyager-chain-dot-done';
+    else if (index === state.completed && state.phase === 'awaitingReply') cls += ' voyager-chain-dot-current';
+    progress.appendChild(DOM.createElement('span', { class: cls, title: `${index + 1}. ${step.title}` }));
+  });
+
+  const next = options.steps[state.completed];
+  let status: string;
+  if (state.phase === 'done') status = tr.chainDone;
+  else if (state.phase === 'ready') status = `${tr.chainNextStep}: ${next?.title ?? ''}`;
+  else status = `${next?.title ?? ''} \u2014 ${tr.chainWaitingForReply}`;
+
+  const actions = DOM.createElement('div', { class: 'voyager-chain-actions' });
+  if (state.phase === 'ready') {
+    const insertBtn = DOM.createElement('button', { class: 'voyager-chain-btn voyager-chain-btn-primary' }, [
+      tr.chainInsertNext,
+    ]);
+    insertBtn.addEventListener('click', () => insertStep());
+    actions.appendChild(insertBtn);
+  }
+  if (state.phase !== 'done') {
+    const skipBtn = DOM.createElement('button', { class: 'voyager-chain-btn' }, [tr.chainSkipStep]);
+    skipBtn.addEventListener('click', skipStep);
+    actions.appendChild(skipBtn);
+  }
+  const abortBtn = DOM.createElement('button', {
+    class: 'voyager-chain-btn',
+    title: state.phase === 'done' ? tr.closeBtn : tr.chainAbort,
+  }, [state.phase === 'done' ? tr.closeBtn : tr.chainAbort]);
+  abortBtn.addEventListener('click', () => abortChain());
+  actions.appendChild(abortBtn);
+
+  bar.append(
+    head,
+    progress,
+    DOM.createElement('div', { class: 'voyager-chain-status' }, [status]),
+    actions,
+  );
+
+  if (!state.bar) {
+    document.body.appendChild(bar);
+    state.bar = bar;
+  }
+}
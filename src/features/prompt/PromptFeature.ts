@@ -3,32 +3,160 @@
  *
  * Floating button + panel for managing prompt templates.
  * - Save prompts with title, content, tags, category
- * - Tag-based search and filtering
+ * - Nested categories (`Code/Review`) in a sidebar tree: click to filter,
+ *   drag prompts or categories onto a node to move them
+ * - Tag manager: rename, merge, delete across all prompts; colored tag chips
+ * - Fuzzy search over all fields with `tag:`/`cat:` filters and negation,
+ *   matched terms highlighted
  * - One-click insertion into claude.ai input field
- * - Import/Export as JSON
+ * - Slash-command autocomplete (`/name`) inside the chat input
+ * - Bounded version history per prompt with line diff and restore
+ * - Usage tracking with most used / recently used / A-Z sorting and a
+ *   statistics view
+ * - Template variables ({{name}}, {{name:default}}, built-ins) filled in
+ *   through a small form before insertion
+ * - Prompt chains: ordered steps inserted one per assistant reply, offered
+ *   or inserted automatically, with a progress bar and abort
+ * - Saving a chat message as a prompt from a button shown over the hovered
+ *   user message (or the timeline context menu), remembering the
+ *   conversation it came from
+ * - Import/Export as JSON; import of Markdown prompt packs (files or ZIP)
+ *   with a preview and per-prompt conflict resolution
  */
 
 import type { FeatureModule } from '@pages/content/index';
-import type { VoyagerSettings, SavedPrompt, Locale } from '@core/types';
-import { DOM } from '@core/services/DOMService';
+import type {
+  VoyagerSettings,
+  SavedPrompt,
+  PromptRevision,
+  PromptUsage,
+  PromptUse,
+  PromptChain,
+  PromptSource,
+  Locale,
+  TagColor,
+} from '@core/types';
+import { ANNOTATION_LABELS, PROMPT_HISTORY_LIMIT, PROMPT_USAGE_LOG_LIMIT } from '@core/types';
+import { DOM, Selectors } from '@core/services/DOMService';
 import { Storage } from '@core/services/StorageService';
 import { Logger } from '@core/services/LoggerService';
-import { uuid } from '@core/utils';
+import { buildSnippet, diffLines, uuid } from '@core/utils';
 import { t } from '@i18n/index';
 import { PROMPT_CSS } from './PromptStyles';
+import {
+  type BuiltinVariable,
+  type TemplateField,
+  SELECTION_VARIABLE,
+  hasPlaceholders,
+  parseTemplateFields,
+  renderTemplate,
+} from './PromptTemplate';
+import { destroySlashCommands, initSlashCommands } from './SlashCommands';
+import { type PromptMatch, searchPrompts } from './PromptSearch';
+import {
+  type CategoryNode,
+  type TagSummary,
+  type TaxonomyEdit,
+  buildCategoryTree,
+  canMoveCategory,
+  canonicalCategory,
+  canonicalTags,
+  categoryPaths,
+  collectTags,
+  deleteCategory,
+  deleteTag,
+  isInCategory,
+  moveCategory,
+  movedCategoryPath,
+  normalizeCategory,
+  parentCategory,
+  pruneTagColors,
+  renameCategory,
+  renameTag,
+  renameTagColor,
+  setCategory,
+  tagColor,
+  tagColorKey,
+} from './PromptTaxonomy';
+import { type PackPrompt, dedupePackPrompts, readPromptPack } from './PromptPack';
+import { abortChain, notifyChainMessagesChanged, notifyChainNavigate, startChain } from './ChainRunner';
+import { labelName } from '@features/timeline/AnnotationEditor';
 
 let locale: Locale = 'en';
+/** Set while the feature is initialized; other features check it before handing over messages */
+let active = false;
 
 const TAG = 'Prompts';
+const STATS_TOP_COUNT = 5;
+const STATS_WINDOW_DAYS = 7;
+const PREVIEW_LENGTH = 80;
+const DRAFT_TITLE_LENGTH = 60;
+/** Distance of the save button from the hovered message's top right corner */
+const SAVE_BUTTON_INSET = 4;
+
+/** Order of the prompt list */
+type PromptSortMode = 'created' | 'mostUsed' | 'recent' | 'alphabetical';
+
+/** What to do with a pack prompt that matches one in the library */
+type ConflictResolution = 'skip' | 'overwrite' | 'keepBoth';
+
+/** A prompt of an imported pack in the preview */
+interface PackEntry {
+  prompt: PackPrompt;
+  /** Library prompt with the same id or title */
+  conflictId: string | null;
+  include: boolean;
+  resolution: ConflictResolution;
+}
+
+/** A new prompt taken from a chat message, shown in the add form */
+interface PromptDraft {
+  title: string;
+  content: string;
+  source: PromptSource;
+}
 
 interface PromptState {
   prompts: SavedPrompt[];
   searchQuery: string;
+  sortMode: PromptSortMode;
+  showStats: boolean;
+  showTags: boolean;
+  /** Category sidebar visible */
+  showCategories: boolean;
+  /** Category path the list is limited to; '' = uncategorized, null = all */
+  categoryFilter: string | null;
+  collapsedCategories: Set<string>;
+  renamingCategory: string | null;
+  renamingTag: string | null;
+  /** Prompt or category being dragged onto the category tree */
+  dragging: { kind: 'prompt' | 'category'; value: string } | null;
+  /** Chosen tag colors, keyed by lower-cased tag */
+  tagColors: Record<string, TagColor>;
+  /** Prompt pack shown for review before it is merged */
+  pack: PackEntry[] | null;
+  chains: PromptChain[];
+  showChains: boolean;
+  /** Chain being created or edited (a copy until saved) */
+  chainDraft: PromptChain | null;
+  /** Pre-fill of the add form when saving a chat message */
+  draft: PromptDraft | null;
   panelOpen: boolean;
   showForm: boolean;
   editingId: string | null;
+  /** Templated prompt whose variables are being filled in */
+  filling: SavedPrompt | null;
+  /** Last text selected on the page, for {{selection}} */
+  lastSelection: string;
+  /** Prompt whose version history is shown */
+  historyId: string | null;
+  /** Index into that prompt's history of the version being compared */
+  historyIndex: number;
   trigger: HTMLElement | null;
   panel: HTMLElement | null;
+  /** Floating "save as prompt" button and the user message it is shown over */
+  saveButton: HTMLElement | null;
+  saveTarget: Element | null;
   cleanups: (() => void)[];
 }
 
@@ -36,11 +164,32 @@ function createState(): PromptState {
   return {
     prompts: [],
     searchQuery: '',
+    sortMode: 'created',
+    showStats: false,
+    showTags: false,
+    showCategories: false,
+    categoryFilter: null,
+    collapsedCategories: new Set(),
+    renamingCategory: null,
+    renamingTag: null,
+    dragging: null,
+    tagColors: {},
+    pack: null,
+    chains: [],
+    showChains: false,
+    chainDraft: null,
+    draft: null,
     panelOpen: false,
     showForm: false,
     editingId: null,
+    filling: null,
+    lastSelection: '',
+    historyId: null,
+    historyIndex: -1,
     trigger: null,
     panel: null,
+    saveButton: null,
+    saveTarget: null,
     cleanups: [],
   };
 }
@@ -134,6 +283,9 @@ function togglePanel(): void {
   if (state.panelOpen) {
     renderPanel();
   } else {
+    state.filling = null;
+    state.historyId = null;
+    state.pack = null;
     removePanel();
   }
 }
@@ -143,7 +295,7 @@ function renderPanel(): void {
 
   const panel = DOM.createElement('div', {
     'data-voyager': 'prompt-panel',
-    class: 'voyager-prompt-panel',
+    class: 'voyager-prompt-panel' + (state.showCategories ? ' voyager-prompt-panel-wide' : ''),
   });
 
   // Header
@@ -158,12 +310,13 @@ function renderPanel(): void {
   addBtn.addEventListener('click', () => {
     state.showForm = true;
     state.editingId = null;
+    state.draft = null;
     renderPanel();
   });
 
   const importBtn = DOM.createElement('button', {
     class: 'voyager-prompt-panel-btn',
-    title: t(locale).importBtn,
+    title: t(locale).importPromptsHint,
   }, ['\u2B07']);
   importBtn.addEventListener('click', handleImport);
 
@@ -173,16 +326,69 @@ function renderPanel(): void {
   }, ['\u2B06']);
   exportBtn.addEventListener('click', handleExport);
 
+  const statsBtn = DOM.createElement('button', {
+    class: 'voyager-prompt-panel-btn' + (state.showStats ? ' voyager-prompt-panel-btn-active' : ''),
+    title: t(locale).promptStats,
+    'aria-pressed': String(state.showStats),
+  }, ['\u{1F4CA}']);
+  statsBtn.addEventListener('click', () => {
+    state.showStats = !state.showStats;
+    state.showTags = false;
+    state.showChains = false;
+    renderPanel();
+  });
+
+  const categoriesBtn = DOM.createElement('button', {
+    class: 'voyager-prompt-panel-btn' + (state.showCategories ? ' voyager-prompt-panel-btn-active' : ''),
+    title: t(locale).promptCategories,
+    'aria-pressed': String(state.showCategories),
+  }, ['\u{1F5C2}']);
+  categoriesBtn.addEventListener('click', () => {
+    state.showCategories = !state.showCategories;
+    // A hidden filter would silently hide prompts
+    if (!state.showCategories) state.categoryFilter = null;
+    renderPanel();
+  });
+
+  const tagsBtn = DOM.createElement('button', {
+    class: 'voyager-prompt-panel-btn' + (state.showTags ? ' voyager-prompt-panel-btn-active' : ''),
+    title: t(locale).manageTags,
+    'aria-pressed': String(state.showTags),
+  }, ['\u{1F3F7}']);
+  tagsBtn.addEventListener('click', () => {
+    state.showTags = !state.showTags;
+    state.showStats = false;
+    state.showChains = false;
+    state.renamingTag = null;
+    renderPanel();
+  });
+
+  const chainsBtn = DOM.createElement('button', {
+    class: 'voyager-prompt-panel-btn' + (state.showChains ? ' voyager-prompt-panel-btn-active' : ''),
+    title: t(locale).promptChains,
+    'aria-pressed': String(state.showChains),
+  }, ['\u26D3']);
+  chainsBtn.addEventListener('click', () => {
+    state.showChains = !state.showChains;
+    state.showStats = false;
+    state.showTags = false;
+    state.chainDraft = null;
+    renderPanel();
+  });
+
   const closeBtn = DOM.createElement('button', {
     class: 'voyager-prompt-panel-btn',
     title: t(locale).closeBtn,
   }, ['\u2715']);
   closeBtn.addEventListener('click', () => {
     state.panelOpen = false;
+    state.filling = null;
+    state.historyId = null;
+    state.pack = null;
     removePanel();
   });
 
-  actions.append(addBtn, importBtn, exportBtn, closeBtn);
+  actions.append(addBtn, categoriesBtn, tagsBtn, chainsBtn, statsBtn, importBtn, exportBtn, closeBtn);
   header.append(title, actions);
   panel.appendChild(header);
 
@@ -191,23 +397,63 @@ function renderPanel(): void {
   const searchInput = DOM.createElement('input', {
     type: 'text',
     placeholder: t(locale).searchPrompts,
+    title: t(locale).searchPromptsHint,
     value: state.searchQuery,
   });
   searchInput.addEventListener('input', (e) => {
     state.searchQuery = (e.target as HTMLInputElement).value;
     renderPromptList(listEl);
   });
-  searchWrap.appendChild(searchInput);
+  const sortSelect = DOM.createElement('select', {
+    class: 'voyager-prompt-sort',
+    'aria-label': t(locale).sortPrompts,
+    title: t(locale).sortPrompts,
+  });
+  const sortOptions: [PromptSortMode, string][] = [
+    ['created', t(locale).sortCreated],
+    ['mostUsed', t(locale).sortMostUsed],
+    ['recent', t(locale).sortRecentlyUsed],
+    ['alphabetical', t(locale).sortAlphabetical],
+  ];
+  for (const [mode, label] of sortOptions) {
+    const option = DOM.createElement('option', { value: mode }, [label]);
+    option.selected = mode === state.sortMode;
+    sortSelect.appendChild(option);
+  }
+  sortSelect.addEventListener('change', () => {
+    state.sortMode = sortSelect.value as PromptSortMode;
+    renderPromptList(listEl);
+  });
+
+  searchWrap.append(searchInput, sortSelect);
   panel.appendChild(searchWrap);
 
-  // List
+  // Category sidebar + list
+  const body = DOM.createElement('div', { class: 'voyager-prompt-body' });
+  if (state.showCategories) body.appendChild(renderCategorySidebar());
   const listEl = DOM.createElement('div', { class: 'voyager-prompt-list' });
   renderPromptList(listEl);
-  panel.appendChild(listEl);
-
-  // Add/Edit form
-  if (state.showForm) {
+  body.appendChild(listEl);
+  panel.appendChild(body);
+
+  // Variable form takes precedence over a pack preview, history, the add/edit form, chains, tags and stats
+  const historyPrompt = state.prompts.find((p) => p.id === state.historyId);
+  if (state.filling) {
+    panel.appendChild(renderFillForm(state.filling));
+  } else if (state.pack) {
+    panel.appendChild(renderPackPreview(state.pack));
+  } else if (historyPrompt) {
+    panel.appendChild(renderHistory(historyPrompt));
+  } else if (state.showForm) {
     panel.appendChild(renderForm());
+  } else if (state.chainDraft) {
+    panel.appendChild(renderChainEditor(state.chainDraft));
+  } else if (state.showChains) {
+    panel.appendChild(renderChains());
+  } else if (state.showTags) {
+    panel.appendChild(renderTagManager());
+  } else if (state.showStats) {
+    panel.appendChild(renderStats());
   }
 
   document.body.appendChild(panel);
@@ -220,29 +466,49 @@ function renderPromptList(listEl: HTMLElement): void {
   const filtered = filterPrompts();
   if (filtered.length === 0) {
     const empty = DOM.createElement('div', { class: 'voyager-prompt-empty' }, [
-      state.searchQuery ? t(locale).noPromptsFound : t(locale).noPromptsSaved,
+      state.searchQuery || state.categoryFilter !== null ? t(locale).noPromptsFound : t(locale).noPromptsSaved,
     ]);
     listEl.appendChild(empty);
     return;
   }
 
-  for (const prompt of filtered) {
+  for (const { prompt, highlights } of filtered) {
     const item = DOM.createElement('div', {
       class: 'voyager-prompt-item',
       'data-voyager-id': prompt.id,
     });
+    if (state.showCategories) makePromptDraggable(item, prompt);
 
-    const titleEl = DOM.createElement('div', { class: 'voyager-prompt-item-title' }, [prompt.title]);
+    const titleEl = DOM.createElement('div', { class: 'voyager-prompt-item-title' }, [
+      ...DOM.highlightMatches(prompt.title, highlights),
+    ]);
     const preview = DOM.createElement('div', { class: 'voyager-prompt-item-preview' }, [
-      prompt.content.slice(0, 80) + (prompt.content.length > 80 ? '...' : ''),
+      ...DOM.highlightMatches(previewText(prompt, highlights), highlights),
     ]);
 
+    if (hasPlaceholders(prompt.content)) {
+      titleEl.appendChild(DOM.createElement('span', {
+        class: 'voyager-prompt-template-badge',
+        title: t(locale).promptTemplateBadgeHint,
+      }, ['{{ }}']));
+    }
+
+    const uses = prompt.usage?.count ?? 0;
+    if (uses > 0) {
+      titleEl.appendChild(DOM.createElement('span', {
+        class: 'voyager-prompt-usage-badge',
+        title: `${t(locale).statsUses}: ${uses}`,
+      }, [`\u00D7${uses}`]));
+    }
+
     item.append(titleEl, preview);
 
     if (prompt.tags.length > 0) {
       const tagsEl = DOM.createElement('div', { class: 'voyager-prompt-item-tags' });
       for (const tag of prompt.tags) {
-        tagsEl.appendChild(DOM.createElement('span', { class: 'voyager-prompt-tag' }, [tag]));
+        tagsEl.appendChild(DOM.createElement('span', { class: tagChipClass(tag) }, [
+          ...DOM.highlightMatches(tag, highlights),
+        ]));
       }
       item.appendChild(tagsEl);
     }
@@ -270,7 +536,23 @@ function renderPromptList(listEl: HTMLElement): void {
       deletePrompt(prompt.id);
     });
 
-    actionsEl.append(insertBtn, editBtn, delBtn);
+    actionsEl.append(insertBtn, editBtn);
+    const history = prompt.history ?? [];
+    if (history.length > 0) {
+      const historyBtn = DOM.createElement('button', {
+        class: 'voyager-prompt-item-btn',
+        title: t(locale).promptHistory,
+      }, [`${t(locale).historyBtn} (${history.length})`]);
+      historyBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        state.historyId = prompt.id;
+        state.historyIndex = history.length - 1;
+        state.showForm = false;
+        renderPanel();
+      });
+      actionsEl.appendChild(historyBtn);
+    }
+    actionsEl.append(delBtn);
     item.appendChild(actionsEl);
 
     // Click on item also inserts
@@ -287,18 +569,19 @@ function renderForm(): HTMLElement {
     ? state.prompts.find((p) => p.id === state.editingId)
     : undefined;
 
+  const draft = editing ? null : state.draft;
   const form = DOM.createElement('div', { class: 'voyager-prompt-form' });
 
   const titleInput = DOM.createElement('input', {
     type: 'text',
     placeholder: t(locale).promptTitle,
-    value: editing?.title ?? '',
+    value: editing?.title ?? draft?.title ?? '',
   });
 
   const contentInput = DOM.createElement('textarea', {
     placeholder: t(locale).promptContent,
   });
-  (contentInput as HTMLTextAreaElement).value = editing?.content ?? '';
+  (contentInput as HTMLTextAreaElement).value = editing?.content ?? draft?.content ?? '';
 
   const tagsInput = DOM.createElement('input', {
     type: 'text',
@@ -308,15 +591,22 @@ function renderForm(): HTMLElement {
 
   const categoryInput = DOM.createElement('input', {
     type: 'text',
-    placeholder: t(locale).categoryLabel,
+    placeholder: t(locale).categoryNestingHint,
+    'aria-label': t(locale).categoryLabel,
     value: editing?.category ?? '',
+    list: 'voyager-prompt-category-options',
   });
+  const categoryOptions = DOM.createElement('datalist', { id: 'voyager-prompt-category-options' });
+  for (const path of categoryPaths(state.prompts)) {
+    categoryOptions.appendChild(DOM.createElement('option', { value: path }));
+  }
 
   const btns = DOM.createElement('div', { class: 'voyager-prompt-form-btns' });
   const cancelBtn = DOM.createElement('button', { class: 'voyager-prompt-form-cancel' }, [t(locale).cancel]);
   cancelBtn.addEventListener('click', () => {
     state.showForm = false;
     state.editingId = null;
+    state.draft = null;
     renderPanel();
   });
 
@@ -324,11 +614,15 @@ function renderForm(): HTMLElement {
   saveBtn.addEventListener('click', async () => {
     const title = (titleInput as HTMLInputElement).value.trim();
     const content = (contentInput as HTMLTextAreaElement).value.trim();
-    const tags = (tagsInput as HTMLInputElement).value
-      .split(',')
-      .map((tag) => tag.trim())
-      .filter(Boolean);
-    const category = (categoryInput as HTMLInputElement).value.trim();
+    // Adopt existing spellings so "review" doesn't split off from "Review"
+    const tags = canonicalTags(
+      (tagsInput as HTMLInputElement).value
+        .split(',')
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+      state.prompts,
+    );
+    const category = canonicalCategory((categoryInput as HTMLInputElement).value, state.prompts);
 
     if (!title || !content) return;
 
@@ -341,6 +635,10 @@ function renderForm(): HTMLElement {
       const existing = nextPrompts[index];
       if (!existing) return;
 
+      const changed = existing.title !== title ||
+        existing.content !== content ||
+        existing.category !== category ||
+        existing.tags.join('\n') !== tags.join('\n');
       nextPrompts[index] = {
         ...existing,
         title,
@@ -348,6 +646,7 @@ function renderForm(): HTMLElement {
         tags,
         category,
         updatedAt: Date.now(),
+        ...(changed ? { history: historyWith(existing) } : {}),
       };
     } else {
       const newPrompt: SavedPrompt = {
@@ -358,6 +657,7 @@ function renderForm(): HTMLElement {
         category,
         createdAt: Date.now(),
         updatedAt: Date.now(),
+        ...(draft ? { source: draft.source } : {}),
       };
       nextPrompts.push(newPrompt);
     }
@@ -374,26 +674,979 @@ function renderForm(): HTMLElement {
 
     state.showForm = false;
     state.editingId = null;
+    state.draft = null;
     renderPanel();
   });
 
+  const templateHint = DOM.createElement('div', { class: 'voyager-prompt-form-hint' }, [
+    t(locale).promptTemplateHint,
+  ]);
+
   btns.append(cancelBtn, saveBtn);
-  form.append(titleInput, contentInput, tagsInput, categoryInput, btns);
+  form.append(titleInput, contentInput, templateHint, tagsInput, categoryInput, categoryOptions);
+  const source = editing?.source ?? draft?.source;
+  if (source) form.appendChild(renderSourceHint(source));
+  form.appendChild(btns);
   return form;
 }
 
-// ─── Logic ──────────────────────────────────────────────────────
+/** Where a prompt saved from a message came from; links back when the chat is known */
+function renderSourceHint(source: PromptSource): HTMLElement {
+  const tr = t(locale);
+  const title = source.conversationTitle ?? tr.untitledConversation;
+  const hint = DOM.createElement('div', { class: 'voyager-prompt-form-hint voyager-prompt-form-source' }, [
+    `${tr.promptSource}: `,
+  ]);
+  const conversationId = source.conversationId;
+  if (!conversationId) {
+    hint.append(title);
+    return hint;
+  }
+  const link = DOM.createElement('button', { class: 'voyager-prompt-source-link', title }, [title]);
+  link.addEventListener('click', () => DOM.navigateToConversation(conversationId));
+  hint.appendChild(link);
+  return hint;
+}
+
+/** Version list with a diff of the selected version against the current one */
+function renderHistory(prompt: SavedPrompt): HTMLElement {
+  const history = prompt.history ?? [];
+  const selected = history[state.historyIndex] ?? history[history.length - 1];
+  const view = DOM.createElement('div', { class: 'voyager-prompt-form voyager-prompt-history' });
+  view.appendChild(DOM.createElement('div', { class: 'voyager-prompt-fill-title' }, [
+    `${t(locale).promptHistory}: ${prompt.title}`,
+  ]));
+
+  // Versions, newest first
+  const versions = DOM.createElement('div', { class: 'voyager-prompt-history-versions' });
+  versions.appendChild(DOM.createElement('div', {
+    class: 'voyager-prompt-history-version voyager-prompt-history-current',
+  }, [`${t(locale).currentVersion} \u00B7 ${new Date(prompt.updatedAt).toLocaleString()}`]));
+  for (let i = history.length - 1; i >= 0; i--) {
+    const revision = history[i];
+    if (!revision) continue;
+    const row = DOM.createElement('div', {
+      class: 'voyager-prompt-history-version' + (revision === selected ? ' voyager-prompt-history-selected' : ''),
+    }, [`v${i + 1} \u00B7 ${new Date(revision.savedAt).toLocaleString()}`]);
+    row.addEventListener('click', () => {
+      state.historyIndex = i;
+      renderPanel();
+    });
+    versions.appendChild(row);
+  }
+  view.appendChild(versions);
+
+  if (selected) {
+    view.appendChild(DOM.createElement('div', { class: 'voyager-prompt-form-hint' }, [
+      t(locale).historyDiffHint,
+    ]));
+    view.appendChild(renderDiff(selected, prompt));
+  }
+
+  const btns = DOM.createElement('div', { class: 'voyager-prompt-form-btns' });
+  const closeBtn = DOM.createElement('button', { class: 'voyager-prompt-form-cancel' }, [t(locale).closeBtn]);
+  closeBtn.addEventListener('click', () => {
+    state.historyId = null;
+    renderPanel();
+  });
+  btns.appendChild(closeBtn);
+  if (selected) {
+    const restoreBtn = DOM.createElement('button', { class: 'voyager-prompt-form-save' }, [
+      t(locale).restoreVersion,
+    ]);
+    restoreBtn.addEventListener('click', () => void restoreRevision(prompt.id, selected));
+    btns.appendChild(restoreBtn);
+  }
+  view.appendChild(btns);
+  return view;
+}
+
+/** Field changes plus a line diff of the content, from `before` to `after` */
+function renderDiff(before: PromptRevision, after: SavedPrompt): HTMLElement {
+  const diff = DOM.createElement('div', { class: 'voyager-prompt-diff' });
+
+  const fields: [string, string, string][] = [
+    [t(locale).promptTitle, before.title, after.title],
+    [t(locale).tagsSeparated, before.tags.join(', '), after.tags.join(', ')],
+    [t(locale).categoryLabel, before.category, after.category],
+  ];
+  for (const [label, from, to] of fields) {
+    if (from === to) continue;
+    diff.appendChild(DOM.createElement('div', { class: 'voyager-prompt-diff-field' }, [
+      `${label}: ${from || '\u2014'} \u2192 ${to || '\u2014'}`,
+    ]));
+  }
+
+  const lines = diffLines(before.content, after.content);
+  if (lines.every((line) => line.op === 'same') && diff.childElementCount === 0) {
+    diff.appendChild(DOM.createElement('div', { class: 'voyager-prompt-diff-field' }, [
+      t(locale).noDifferences,
+    ]));
+    return diff;
+  }
+
+  const prefix = { same: ' ', added: '+', removed: '-' } as const;
+  for (const line of lines) {
+    diff.appendChild(DOM.createElement('div', {
+      class: `voyager-prompt-diff-line voyager-prompt-diff-${line.op}`,
+    }, [`${prefix[line.op]} ${line.text}`]));
+  }
+  return diff;
+}
+
+/** Make an older version current; the replaced version goes into the history */
+async function restoreRevision(id: string, revision: PromptRevision): Promise<void> {
+  const previousPrompts = clonePrompts(state.prompts);
+  state.prompts = state.prompts.map((p) => (p.id === id
+    ? {
+        ...p,
+        title: revision.title,
+        content: revision.content,
+        tags: [...revision.tags],
+        category: revision.category,
+        updatedAt: Date.now(),
+        history: historyWith(p),
+      }
+    : p));
+
+  try {
+    await savePrompts();
+  } catch (err) {
+    state.prompts = previousPrompts;
+    Logger.error(TAG, 'Failed to restore prompt version', err);
+    window.alert(t(locale).failedSavePrompt);
+    return;
+  }
+
+  state.historyId = null;
+  renderPanel();
+}
+
+/** The prompt's history with its current version appended, capped */
+function historyWith(prompt: SavedPrompt): PromptRevision[] {
+  const current: PromptRevision = {
+    title: prompt.title,
+    content: prompt.content,
+    tags: [...prompt.tags],
+    category: prompt.category,
+    savedAt: prompt.updatedAt,
+  };
+  return [...(prompt.history ?? []), current].slice(-PROMPT_HISTORY_LIMIT);
+}
+
+/** Form asking for a templated prompt's variables, with a live preview */
+function renderFillForm(prompt: SavedPrompt): HTMLElement {
+  const form = DOM.createElement('div', { class: 'voyager-prompt-form voyager-prompt-fill' });
+  form.appendChild(DOM.createElement('div', { class: 'voyager-prompt-fill-title' }, [
+    `${t(locale).fillVariables}: ${prompt.title}`,
+  ]));
+
+  const builtins = builtinValues();
+  const values: Record<string, string> = {};
+  const preview = DOM.createElement('div', { class: 'voyager-prompt-fill-preview' });
+  const updatePreview = () => {
+    preview.textContent = renderTemplate(prompt.content, { ...builtins, ...values });
+  };
+
+  const submit = async () => {
+    const text = renderTemplate(prompt.content, { ...builtins, ...values });
+    state.filling = null;
+    await insertText(prompt, text);
+    if (state.panelOpen) renderPanel();
+  };
+  const cancel = () => {
+    state.filling = null;
+    renderPanel();
+  };
+
+  let first: HTMLInputElement | HTMLTextAreaElement | null = null;
+  for (const field of parseTemplateFields(prompt.content)) {
+    values[field.name] = initialFieldValue(field);
+
+    const input = field.name === SELECTION_VARIABLE
+      ? DOM.createElement('textarea', { 'aria-label': field.name })
+      : DOM.createElement('input', { type: 'text', 'aria-label': field.name });
+    input.value = values[field.name] ?? '';
+    input.addEventListener('input', () => {
+      values[field.name] = input.value;
+      updatePreview();
+    });
+    input.addEventListener('keydown', (e) => {
+      e.stopPropagation();
+      const ke = e as KeyboardEvent;
+      if (ke.key === 'Escape') {
+        cancel();
+      } else if (ke.key === 'Enter' && (input instanceof HTMLInputElement || ke.ctrlKey || ke.metaKey)) {
+        ke.preventDefault();
+        void submit();
+      }
+    });
+    first ??= input;
+
+    const label = DOM.createElement('label', { class: 'voyager-prompt-fill-field' }, [
+      DOM.createElement('span', { class: 'voyager-prompt-fill-label' }, [field.name]),
+      input,
+    ]);
+    form.appendChild(label);
+  }
+  updatePreview();
+  form.appendChild(preview);
+
+  const btns = DOM.createElement('div', { class: 'voyager-prompt-form-btns' });
+  const cancelBtn = DOM.createElement('button', { class: 'voyager-prompt-form-cancel' }, [t(locale).cancel]);
+  cancelBtn.addEventListener('click', cancel);
+  const insertBtn = DOM.createElement('button', { class: 'voyager-prompt-form-save' }, [t(locale).insertBtn]);
+  insertBtn.addEventListener('click', () => void submit());
+  btns.append(cancelBtn, insertBtn);
+  form.appendChild(btns);
+
+  const focusTarget = first;
+  if (focusTarget) setTimeout(() => focusTarget.focus(), 0);
+  return form;
+}
+
+function initialFieldValue(field: TemplateField): string {
+  if (field.name === SELECTION_VARIABLE && state.lastSelection) return state.lastSelection;
+  return field.defaultValue;
+}
+
+/** Values of the placeholders resolved without asking */
+function builtinValues(): Record<BuiltinVariable, string> {
+  const now = new Date();
+  return {
+    date: now.toLocaleDateString(locale),
+    time: now.toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' }),
+    title: DOM.getConversationTitle() ?? '',
+    user: DOM.getUserName() ?? '',
+  };
+}
+
+/** Remember the page selection — clicking into the panel collapses it */
+function trackSelection(): void {
+  const selection = window.getSelection();
+  const text = selection?.toString().trim() ?? '';
+  const anchor = selection?.anchorNode;
+  const anchorEl = anchor instanceof Element ? anchor : anchor?.parentElement;
+  if (!anchorEl || anchorEl.closest('[data-voyager]')) return;
+  state.lastSelection = text;
+}
+
+// ─── Categories & Tags ──────────────────────────────────────────
+
+/** Class list of a tag chip in the tag's color */
+function tagChipClass(tag: string): string {
+  return `voyager-prompt-tag voyager-tag-${tagColor(tag, state.tagColors)}`;
+}
+
+/** Category tree next to the list: a click filters, prompts and categories can be dropped on a node */
+function renderCategorySidebar(): HTMLElement {
+  const tr = t(locale);
+  const sidebar = DOM.createElement('div', {
+    class: 'voyager-prompt-categories',
+    role: 'tree',
+    'aria-label': tr.promptCategories,
+  });
+
+  sidebar.appendChild(renderCategoryRow(tr.allPrompts, null, state.prompts.length, 0));
+  const appendNodes = (nodes: CategoryNode[], depth: number) => {
+    for (const node of nodes) {
+      sidebar.appendChild(renderCategoryRow(node.name, node.path, node.count, depth, node));
+      if (!state.collapsedCategories.has(node.path)) appendNodes(node.children, depth + 1);
+    }
+  };
+  appendNodes(buildCategoryTree(state.prompts), 0);
+  const uncategorized = state.prompts.filter((p) => !normalizeCategory(p.category)).length;
+  sidebar.appendChild(renderCategoryRow(tr.uncategorized, '', uncategorized, 0));
+
+  sidebar.appendChild(DOM.createElement('div', { class: 'voyager-prompt-categories-hint' }, [
+    tr.categoryTreeHint,
+  ]));
+  return sidebar;
+}
+
+/**
+ * One row of the category tree. `path` is null for "All prompts" and '' for
+ * "Uncategorized"; only real categories (`node` set) can be dragged, renamed
+ * or removed.
+ */
+function renderCategoryRow(
+  label: string,
+  path: string | null,
+  count: number,
+  depth: number,
+  node?: CategoryNode,
+): HTMLElement {
+  const tr = t(locale);
+  const selected = state.categoryFilter === path;
+  const row = DOM.createElement('div', {
+    class: 'voyager-prompt-category' + (selected ? ' voyager-prompt-category-selected' : ''),
+    role: 'treeitem',
+    'aria-selected': String(selected),
+  });
+  row.style.paddingLeft = `${6 + depth * 12}px`;
+
+  const hasChildren = (node?.children.length ?? 0) > 0;
+  const collapsed = node ? state.collapsedCategories.has(node.path) : false;
+  if (hasChildren) row.setAttribute('aria-expanded', String(!collapsed));
+  const toggle = DOM.createElement('span', { class: 'voyager-prompt-category-toggle' }, [
+    hasChildren ? (collapsed ? '\u25B6' : '\u25BC') : '',
+  ]);
+  toggle.addEventListener('click', (e) => {
+    if (!node || !hasChildren) return;
+    e.stopPropagation();
+    if (collapsed) state.collapsedCategories.delete(node.path);
+    else state.collapsedCategories.add(node.path);
+    renderPanel();
+  });
+  row.appendChild(toggle);
 
-function filterPrompts(): SavedPrompt[] {
-  const q = state.searchQuery.toLowerCase();
-  if (!q) return state.prompts;
+  if (node && state.renamingCategory === node.path) {
+    row.appendChild(renderCategoryRenameInput(node.path));
+    return row;
+  }
 
-  return state.prompts.filter(
-    (p) =>
-      p.title.toLowerCase().includes(q) ||
-      p.tags.some((t) => t.toLowerCase().includes(q)) ||
-      p.category.toLowerCase().includes(q),
+  row.append(
+    DOM.createElement('span', { class: 'voyager-prompt-category-name', title: path || label }, [label]),
+    DOM.createElement('span', { class: 'voyager-prompt-category-count' }, [String(count)]),
   );
+  row.addEventListener('click', () => {
+    state.categoryFilter = path;
+    renderPanel();
+  });
+
+  if (node) {
+    const delBtn = DOM.createElement('button', {
+      class: 'voyager-prompt-category-del',
+      title: tr.deleteCategory,
+      'aria-label': tr.deleteCategory,
+    }, ['\u2715']);
+    delBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      if (!window.confirm(tr.deleteCategoryConfirm)) return;
+      const parent = parentCategory(node.path);
+      void applyCategoryRename(node.path, parent, deleteCategory(state.prompts, node.path), 'Failed to remove category');
+    });
+    row.appendChild(delBtn);
+
+    row.addEventListener('dblclick', (e) => {
+      e.stopPropagation();
+      state.renamingCategory = node.path;
+      renderPanel();
+    });
+
+    row.draggable = true;
+    row.addEventListener('dragstart', (e) => {
+      e.stopPropagation();
+      state.dragging = { kind: 'category', value: node.path };
+      e.dataTransfer?.setData('text/plain', node.path);
+      if (e.dataTransfer) e.dataTransfer.effectAllowed = 'move';
+    });
+    row.addEventListener('dragend', endDrag);
+  }
+
+  setupCategoryDropTarget(row, path);
+  return row;
+}
+
+/** Inline rename; the full path is editable, so typing `Code/Review` also moves the category */
+function renderCategoryRenameInput(path: string): HTMLElement {
+  const input = DOM.createElement('input', {
+    class: 'voyager-prompt-category-input',
+    type: 'text',
+    value: path,
+    'aria-label': t(locale).rename,
+  }) as HTMLInputElement;
+
+  setTimeout(() => {
+    input.focus();
+    input.select();
+  }, 0);
+
+  let finished = false;
+  const finish = (commit: boolean) => {
+    if (finished) return;
+    finished = true;
+    state.renamingCategory = null;
+    const to = normalizeCategory(input.value);
+    if (!commit || !to || to === path) {
+      renderPanel();
+      return;
+    }
+    void applyCategoryRename(path, to, renameCategory(state.prompts, path, to), 'Failed to rename category');
+  };
+
+  input.addEventListener('blur', () => finish(true));
+  input.addEventListener('click', (e) => e.stopPropagation());
+  input.addEventListener('keydown', (e) => {
+    e.stopPropagation();
+    if (e.key === 'Enter') finish(true);
+    if (e.key === 'Escape') finish(false);
+  });
+  return input;
+}
+
+/** Let a list item be dropped onto the category tree */
+function makePromptDraggable(item: HTMLElement, prompt: SavedPrompt): void {
+  item.draggable = true;
+  item.addEventListener('dragstart', (e) => {
+    state.dragging = { kind: 'prompt', value: prompt.id };
+    e.dataTransfer?.setData('text/plain', prompt.title);
+    if (e.dataTransfer) e.dataTransfer.effectAllowed = 'move';
+    item.classList.add('voyager-prompt-item-dragging');
+  });
+  item.addEventListener('dragend', () => {
+    item.classList.remove('voyager-prompt-item-dragging');
+    endDrag();
+  });
+}
+
+function endDrag(): void {
+  state.dragging = null;
+  state.panel?.querySelectorAll('.voyager-prompt-category-drop-target')
+    .forEach((el) => el.classList.remove('voyager-prompt-category-drop-target'));
+}
+
+/**
+ * Prompts go into any category or "Uncategorized"; categories go into another
+ * category (not their own subtree) or to the top level via "All prompts".
+ */
+function canDropOnCategory(path: string | null): boolean {
+  const dragging = state.dragging;
+  if (!dragging) return false;
+  if (dragging.kind === 'prompt') {
+    const prompt = state.prompts.find((p) => p.id === dragging.value);
+    return path !== null && !!prompt && normalizeCategory(prompt.category) !== path;
+  }
+  return path !== '' && canMoveCategory(dragging.value, path ?? '');
+}
+
+function setupCategoryDropTarget(row: HTMLElement, path: string | null): void {
+  row.addEventListener('dragover', (e) => {
+    if (!canDropOnCategory(path)) return;
+    e.preventDefault();
+    if (e.dataTransfer) e.dataTransfer.dropEffect = 'move';
+    row.classList.add('voyager-prompt-category-drop-target');
+  });
+  row.addEventListener('dragleave', () => {
+    row.classList.remove('voyager-prompt-category-drop-target');
+  });
+  row.addEventListener('drop', (e) => {
+    e.preventDefault();
+    const dragging = state.dragging;
+    const allowed = canDropOnCategory(path);
+    endDrag();
+    if (!dragging || !allowed) return;
+
+    if (dragging.kind === 'prompt') {
+      void commitTaxonomyEdit(
+        setCategory(state.prompts, dragging.value, path ?? ''),
+        'Failed to recategorize prompt',
+      ).then(() => renderPanel());
+      return;
+    }
+    const parent = path ?? '';
+    const from = dragging.value;
+    void applyCategoryRename(from, movedCategoryPath(from, parent), moveCategory(state.prompts, from, parent), 'Failed to move category');
+  });
+}
+
+/** Every tag with its usage count: recolor, rename (onto an existing name = merge), delete */
+function renderTagManager(): HTMLElement {
+  const tr = t(locale);
+  const view = DOM.createElement('div', { class: 'voyager-prompt-form voyager-prompt-tags' });
+  view.appendChild(DOM.createElement('div', { class: 'voyager-prompt-fill-title' }, [tr.manageTags]));
+
+  const tags = collectTags(state.prompts);
+  if (tags.length === 0) {
+    view.appendChild(DOM.createElement('div', { class: 'voyager-prompt-form-hint' }, [tr.noTags]));
+    return view;
+  }
+  view.appendChild(DOM.createElement('div', { class: 'voyager-prompt-form-hint' }, [tr.tagManagerHint]));
+
+  const list = DOM.createElement('div', { class: 'voyager-prompt-tag-list' });
+  for (const summary of tags) list.appendChild(renderTagRow(summary));
+  view.appendChild(list);
+  return view;
+}
+
+function renderTagRow({ tag, count, variants }: TagSummary): HTMLElement {
+  const tr = t(locale);
+  const row = DOM.createElement('div', { class: 'voyager-prompt-tag-row' });
+
+  const color = tagColor(tag, state.tagColors);
+  const swatch = DOM.createElement('button', {
+    type: 'button',
+    class: `voyager-prompt-tag-swatch voyager-tag-${color}`,
+    title: `${tr.changeTagColor} (${labelName(locale, color)})`,
+    'aria-label': tr.changeTagColor,
+  });
+  swatch.addEventListener('click', () => {
+    void cycleTagColor(tag);
+  });
+  row.appendChild(swatch);
+
+  if (state.renamingTag === tag) {
+    row.appendChild(renderTagRenameInput(tag));
+    return row;
+  }
+
+  row.append(
+    DOM.createElement('span', { class: tagChipClass(tag) }, [tag]),
+    DOM.createElement('span', { class: 'voyager-prompt-tag-count' }, [`\u00D7${count}`]),
+  );
+
+  if (variants.length > 0) {
+    const mergeBtn = DOM.createElement('button', {
+      class: 'voyager-prompt-item-btn',
+      title: variants.join(', '),
+    }, [tr.mergeVariants]);
+    mergeBtn.addEventListener('click', () => {
+      void mergeTagVariants(tag, variants);
+    });
+    row.appendChild(mergeBtn);
+  }
+
+  const renameBtn = DOM.createElement('button', {
+    class: 'voyager-prompt-item-btn',
+    title: tr.renameTag,
+    'aria-label': tr.renameTag,
+  }, ['\u270E']);
+  renameBtn.addEventListener('click', () => {
+    state.renamingTag = tag;
+    renderPanel();
+  });
+
+  const delBtn = DOM.createElement('button', {
+    class: 'voyager-prompt-item-btn voyager-delete-btn',
+    title: tr.deleteTag,
+    'aria-label': tr.deleteTag,
+  }, ['\u2715']);
+  delBtn.addEventListener('click', () => {
+    if (!window.confirm(tr.deleteTagConfirm)) return;
+    void applyTagEdit(deleteTag(state.prompts, tag), state.tagColors, 'Failed to delete tag');
+  });
+
+  row.append(renameBtn, delBtn);
+  return row;
+}
+
+function renderTagRenameInput(tag: string): HTMLElement {
+  const input = DOM.createElement('input', {
+    class: 'voyager-prompt-tag-input',
+    type: 'text',
+    value: tag,
+    'aria-label': t(locale).renameTag,
+  }) as HTMLInputElement;
+
+  setTimeout(() => {
+    input.focus();
+    input.select();
+  }, 0);
+
+  let finished = false;
+  const finish = (commit: boolean) => {
+    if (finished) return;
+    finished = true;
+    state.renamingTag = null;
+    // Commas separate tags in the prompt form
+    const to = input.value.replace(/,/g, ' ').trim();
+    if (!commit || !to || to === tag) {
+      renderPanel();
+      return;
+    }
+    void applyTagEdit(
+      renameTag(state.prompts, tag, to),
+      renameTagColor(state.tagColors, tag, to),
+      'Failed to rename tag',
+    );
+  };
+
+  input.addEventListener('blur', () => finish(true));
+  input.addEventListener('keydown', (e) => {
+    e.stopPropagation();
+    if (e.key === 'Enter') finish(true);
+    if (e.key === 'Escape') finish(false);
+  });
+  return input;
+}
+
+/** Parsed pack awaiting confirmation: what to import and how to settle conflicts */
+function renderPackPreview(entries: PackEntry[]): HTMLElement {
+  const tr = t(locale);
+  const view = DOM.createElement('div', { class: 'voyager-prompt-form voyager-prompt-pack' });
+  view.appendChild(DOM.createElement('div', { class: 'voyager-prompt-fill-title' }, [
+    `${tr.importPack} (${entries.length})`,
+  ]));
+
+  const conflicts = entries.filter((entry) => entry.conflictId !== null);
+  if (conflicts.length > 0) {
+    const allSelect = renderResolutionSelect(
+      conflicts.every((entry) => entry.resolution === conflicts[0]?.resolution) ? conflicts[0]?.resolution ?? null : null,
+      (resolution) => {
+        for (const entry of conflicts) entry.resolution = resolution;
+        renderPanel();
+      },
+    );
+    view.appendChild(DOM.createElement('label', { class: 'voyager-prompt-pack-all' }, [
+      `${tr.packConflictsAll} (${conflicts.length})`,
+      allSelect,
+    ]));
+  }
+
+  const list = DOM.createElement('div', { class: 'voyager-prompt-pack-list' });
+  for (const entry of entries) {
+    const { prompt } = entry;
+    const row = DOM.createElement('div', {
+      class: 'voyager-prompt-pack-row' + (entry.include ? '' : ' voyager-prompt-pack-excluded'),
+    });
+
+    const checkbox = DOM.createElement('input', { type: 'checkbox', 'aria-label': prompt.title }) as HTMLInputElement;
+    checkbox.checked = entry.include;
+    checkbox.addEventListener('change', () => {
+      entry.include = checkbox.checked;
+      renderPanel();
+    });
+
+    const info = DOM.createElement('div', { class: 'voyager-prompt-pack-info' }, [
+      DOM.createElement('div', { class: 'voyager-prompt-pack-title', title: prompt.content }, [prompt.title]),
+    ]);
+    const meta = DOM.createElement('div', { class: 'voyager-prompt-item-tags' });
+    const category = normalizeCategory(prompt.category);
+    if (category) meta.appendChild(DOM.createElement('span', { class: 'voyager-prompt-pack-category' }, [category]));
+    for (const tag of prompt.tags) meta.appendChild(DOM.createElement('span', { class: tagChipClass(tag) }, [tag]));
+    meta.appendChild(DOM.createElement('span', { class: 'voyager-prompt-pack-source' }, [prompt.source]));
+    info.appendChild(meta);
+
+    row.append(checkbox, info);
+    if (entry.conflictId !== null) {
+      const conflict = DOM.createElement('div', { class: 'voyager-prompt-pack-conflict' }, [
+        DOM.createElement('span', { class: 'voyager-prompt-pack-conflict-label' }, [tr.packConflict]),
+        renderResolutionSelect(entry.resolution, (resolution) => {
+          entry.resolution = resolution;
+          renderPanel();
+        }),
+      ]);
+      row.appendChild(conflict);
+    }
+    list.appendChild(row);
+  }
+  view.appendChild(list);
+
+  const count = entries.filter((entry) => entry.include).length;
+  const btns = DOM.createElement('div', { class: 'voyager-prompt-form-btns' });
+  const cancelBtn = DOM.createElement('button', { class: 'voyager-prompt-form-cancel' }, [tr.cancel]);
+  cancelBtn.addEventListener('click', () => {
+    state.pack = null;
+    renderPanel();
+  });
+  const importBtn = DOM.createElement('button', { class: 'voyager-prompt-form-save' }, [
+    `${tr.importBtn} (${count})`,
+  ]);
+  importBtn.addEventListener('click', () => {
+    void importPack(entries);
+  });
+  btns.append(cancelBtn, importBtn);
+  view.appendChild(btns);
+  return view;
+}
+
+/** Conflict choice; `current` null shows an empty entry (mixed choices) */
+function renderResolutionSelect(
+  current: ConflictResolution | null,
+  onChange: (resolution: ConflictResolution) => void,
+): HTMLSelectElement {
+  const tr = t(locale);
+  const select = DOM.createElement('select', { class: 'voyager-prompt-sort' }) as HTMLSelectElement;
+  if (current === null) select.appendChild(DOM.createElement('option', { value: '' }, ['\u2014']));
+  const options: [ConflictResolution, string][] = [
+    ['skip', tr.conflictSkip],
+    ['overwrite', tr.conflictOverwrite],
+    ['keepBoth', tr.conflictKeepBoth],
+  ];
+  for (const [value, label] of options) {
+    const option = DOM.createElement('option', { value }, [label]);
+    option.selected = value === current;
+    select.appendChild(option);
+  }
+  select.addEventListener('change', () => {
+    if (select.value) onChange(select.value as ConflictResolution);
+  });
+  return select;
+}
+
+/** Saved chains with run / edit / delete */
+function renderChains(): HTMLElement {
+  const tr = t(locale);
+  const view = DOM.createElement('div', { class: 'voyager-prompt-form voyager-prompt-chains' });
+  view.appendChild(DOM.createElement('div', { class: 'voyager-prompt-fill-title' }, [tr.promptChains]));
+
+  if (state.chains.length === 0) {
+    view.appendChild(DOM.createElement('div', { class: 'voyager-prompt-form-hint' }, [tr.noChains]));
+  }
+
+  const list = DOM.createElement('div', { class: 'voyager-prompt-chain-list' });
+  for (const chain of state.chains) {
+    const steps = chainSteps(chain);
+    const row = DOM.createElement('div', { class: 'voyager-prompt-chain-row' });
+    const name = DOM.createElement('span', {
+      class: 'voyager-prompt-chain-name',
+      title: steps.map((step, i) => `${i + 1}. ${step.title}`).join('\n'),
+    }, [chain.title]);
+    const meta = DOM.createElement('span', { class: 'voyager-prompt-chain-meta' }, [
+      `${steps.length} ${tr.chainSteps}` + (chain.autoInsert ? ` · ${tr.chainAutoBadge}` : ''),
+    ]);
+
+    const runBtn = DOM.createElement('button', { class: 'voyager-prompt-item-btn' }, [tr.chainRun]);
+    runBtn.addEventListener('click', () => runChain(chain));
+    const editBtn = DOM.createElement('button', { class: 'voyager-prompt-item-btn' }, [tr.editBtn]);
+    editBtn.addEventListener('click', () => {
+      state.chainDraft = { ...chain, steps: [...chain.steps] };
+      renderPanel();
+    });
+    const delBtn = DOM.createElement('button', { class: 'voyager-prompt-item-btn voyager-delete-btn' }, [tr.deleteBtn]);
+    delBtn.addEventListener('click', () => {
+      void saveChains(state.chains.filter((c) => c.id !== chain.id), 'Failed to delete chain').then(() => renderPanel());
+    });
+
+    row.append(name, meta, runBtn, editBtn, delBtn);
+    list.appendChild(row);
+  }
+  view.appendChild(list);
+
+  const btns = DOM.createElement('div', { class: 'voyager-prompt-form-btns' });
+  const newBtn = DOM.createElement('button', { class: 'voyager-prompt-form-save' }, [`+ ${tr.newChain}`]);
+  newBtn.addEventListener('click', () => {
+    state.chainDraft = {
+      id: uuid(),
+      title: '',
+      steps: [],
+      autoInsert: false,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+    renderPanel();
+  });
+  btns.appendChild(newBtn);
+  view.appendChild(btns);
+  return view;
+}
+
+/** Editor for a new or existing chain; works on a copy until saved */
+function renderChainEditor(draft: PromptChain): HTMLElement {
+  const tr = t(locale);
+  const form = DOM.createElement('div', { class: 'voyager-prompt-form voyager-prompt-chain-editor' });
+
+  const titleInput = DOM.createElement('input', {
+    type: 'text',
+    placeholder: tr.chainTitle,
+    value: draft.title,
+  }) as HTMLInputElement;
+  titleInput.addEventListener('input', () => {
+    draft.title = titleInput.value;
+  });
+  form.appendChild(titleInput);
+
+  const stepsEl = DOM.createElement('div', { class: 'voyager-prompt-chain-steps' });
+  draft.steps.forEach((id, index) => {
+    const prompt = state.prompts.find((p) => p.id === id);
+    if (!prompt) return;
+    const row = DOM.createElement('div', { class: 'voyager-prompt-chain-step' }, [
+      DOM.createElement('span', { class: 'voyager-prompt-chain-step-title' }, [`${index + 1}. ${prompt.title}`]),
+    ]);
+    const move = (offset: number) => {
+      const target = index + offset;
+      const other = draft.steps[target];
+      if (other === undefined) return;
+      draft.steps[target] = id;
+      draft.steps[index] = other;
+      renderPanel();
+    };
+    const upBtn = DOM.createElement('button', {
+      class: 'voyager-prompt-item-btn',
+      title: tr.moveStepUp,
+      'aria-label': tr.moveStepUp,
+    }, ['\u2191']);
+    upBtn.addEventListener('click', () => move(-1));
+    const downBtn = DOM.createElement('button', {
+      class: 'voyager-prompt-item-btn',
+      title: tr.moveStepDown,
+      'aria-label': tr.moveStepDown,
+    }, ['\u2193']);
+    downBtn.addEventListener('click', () => move(1));
+    const removeBtn = DOM.createElement('button', {
+      class: 'voyager-prompt-item-btn voyager-delete-btn',
+      title: tr.removeStep,
+      'aria-label': tr.removeStep,
+    }, ['\u2715']);
+    removeBtn.addEventListener('click', () => {
+      draft.steps.splice(index, 1);
+      renderPanel();
+    });
+    row.append(upBtn, downBtn, removeBtn);
+    stepsEl.appendChild(row);
+  });
+  form.appendChild(stepsEl);
+
+  const addSelect = DOM.createElement('select', {
+    class: 'voyager-prompt-sort voyager-prompt-chain-add',
+    'aria-label': tr.chainAddStep,
+  }) as HTMLSelectElement;
+  addSelect.appendChild(DOM.createElement('option', { value: '' }, [tr.chainAddStep]));
+  for (const prompt of sortPrompts(state.prompts, 'alphabetical')) {
+    addSelect.appendChild(DOM.createElement('option', { value: prompt.id }, [prompt.title]));
+  }
+  addSelect.addEventListener('change', () => {
+    if (!addSelect.value) return;
+    draft.steps.push(addSelect.value);
+    renderPanel();
+  });
+  form.appendChild(addSelect);
+
+  const autoInput = DOM.createElement('input', { type: 'checkbox' }) as HTMLInputElement;
+  autoInput.checked = draft.autoInsert;
+  autoInput.addEventListener('change', () => {
+    draft.autoInsert = autoInput.checked;
+  });
+  form.appendChild(DOM.createElement('label', { class: 'voyager-prompt-chain-auto' }, [autoInput, tr.chainAutoInsert]));
+
+  const btns = DOM.createElement('div', { class: 'voyager-prompt-form-btns' });
+  const cancelBtn = DOM.createElement('button', { class: 'voyager-prompt-form-cancel' }, [tr.cancel]);
+  cancelBtn.addEventListener('click', () => {
+    state.chainDraft = null;
+    renderPanel();
+  });
+  const saveBtn = DOM.createElement('button', { class: 'voyager-prompt-form-save' }, [tr.save]);
+  saveBtn.addEventListener('click', async () => {
+    const title = draft.title.trim();
+    const steps = draft.steps.filter((id) => state.prompts.some((p) => p.id === id));
+    if (!title || steps.length === 0) return;
+
+    const chain: PromptChain = { ...draft, title, steps, updatedAt: Date.now() };
+    const exists = state.chains.some((c) => c.id === chain.id);
+    const next = exists
+      ? state.chains.map((c) => (c.id === chain.id ? chain : c))
+      : [...state.chains, chain];
+    if (!(await saveChains(next, 'Failed to save chain'))) return;
+    state.chainDraft = null;
+    renderPanel();
+  });
+  btns.append(cancelBtn, saveBtn);
+  form.appendChild(btns);
+  return form;
+}
+
+// ─── Logic ──────────────────────────────────────────────────────
+
+/** Prompts matching the search box, by relevance and then the chosen sort mode */
+function filterPrompts(): PromptMatch[] {
+  const filter = state.categoryFilter;
+  const inCategory = filter === null
+    ? state.prompts
+    : state.prompts.filter((p) => {
+      const category = normalizeCategory(p.category);
+      return filter === '' ? category === '' : isInCategory(category, filter);
+    });
+  const ordered = sortPrompts(inCategory, state.sortMode);
+  if (!state.searchQuery.trim()) {
+    return ordered.map((prompt) => ({ prompt, score: 0, highlights: [] }));
+  }
+  return searchPrompts(ordered, state.searchQuery);
+}
+
+/** Start of the content, or an excerpt around the first hit if the content matched */
+function previewText(prompt: SavedPrompt, highlights: string[]): string {
+  const lower = prompt.content.toLowerCase();
+  if (highlights.some((h) => lower.includes(h))) {
+    return buildSnippet(prompt.content, highlights, PREVIEW_LENGTH / 2);
+  }
+  return prompt.content.slice(0, PREVIEW_LENGTH) + (prompt.content.length > PREVIEW_LENGTH ? '...' : '');
+}
+
+/** Sorted copy; ties (and 'created') keep the stored order */
+function sortPrompts(prompts: SavedPrompt[], mode: PromptSortMode): SavedPrompt[] {
+  const sorted = [...prompts];
+  switch (mode) {
+    case 'mostUsed':
+      return sorted.sort((a, b) => (b.usage?.count ?? 0) - (a.usage?.count ?? 0));
+    case 'recent':
+      return sorted.sort((a, b) => (b.lastUsedAt ?? 0) - (a.lastUsedAt ?? 0));
+    case 'alphabetical':
+      return sorted.sort((a, b) => a.title.localeCompare(b.title, locale, { sensitivity: 'base' }));
+    default:
+      return sorted;
+  }
+}
+
+/** Library-wide usage numbers, top prompts and top chats */
+function renderStats(): HTMLElement {
+  const tr = t(locale);
+  const view = DOM.createElement('div', { class: 'voyager-prompt-form voyager-prompt-stats' });
+  view.appendChild(DOM.createElement('div', { class: 'voyager-prompt-fill-title' }, [tr.promptStats]));
+
+  const since = Date.now() - STATS_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  let total = 0;
+  let recent = 0;
+  let unused = 0;
+  const chats = new Map<string, { title: string; count: number }>();
+  for (const prompt of state.prompts) {
+    const usage = prompt.usage;
+    if (!usage || usage.count === 0) {
+      unused++;
+      continue;
+    }
+    total += usage.count;
+    for (const use of usage.log) {
+      if (use.at >= since) recent++;
+      if (!use.conversationId) continue;
+      const chat = chats.get(use.conversationId) ?? { title: '', count: 0 };
+      chat.count++;
+      chat.title = use.conversationTitle ?? chat.title;
+      chats.set(use.conversationId, chat);
+    }
+  }
+
+  const summary = DOM.createElement('div', { class: 'voyager-prompt-stats-summary' });
+  const figures: [string, number][] = [
+    [tr.statsUses, total],
+    [tr.statsLastWeek, recent],
+    [tr.statsNeverUsed, unused],
+  ];
+  for (const [label, value] of figures) {
+    summary.appendChild(DOM.createElement('div', { class: 'voyager-prompt-stats-figure' }, [
+      DOM.createElement('span', { class: 'voyager-prompt-stats-value' }, [String(value)]),
+      DOM.createElement('span', { class: 'voyager-prompt-stats-label' }, [label]),
+    ]));
+  }
+  view.appendChild(summary);
+
+  const topPrompts = sortPrompts(state.prompts, 'mostUsed')
+    .filter((p) => (p.usage?.count ?? 0) > 0)
+    .slice(0, STATS_TOP_COUNT);
+  if (topPrompts.length > 0) {
+    view.appendChild(DOM.createElement('div', { class: 'voyager-prompt-form-hint' }, [tr.statsTopPrompts]));
+    for (const prompt of topPrompts) {
+      const last = prompt.lastUsedAt ? new Date(prompt.lastUsedAt).toLocaleDateString(locale) : '';
+      view.appendChild(statsRow(prompt.title, `\u00D7${prompt.usage?.count ?? 0}`, last));
+    }
+  }
+
+  const topChats = [...chats.values()].sort((a, b) => b.count - a.count).slice(0, STATS_TOP_COUNT);
+  if (topChats.length > 0) {
+    view.appendChild(DOM.createElement('div', { class: 'voyager-prompt-form-hint' }, [tr.statsTopChats]));
+    for (const chat of topChats) {
+      view.appendChild(statsRow(chat.title || tr.untitledConversation, `\u00D7${chat.count}`, ''));
+    }
+  }
+
+  return view;
+}
+
+function statsRow(label: string, value: string, detail: string): HTMLElement {
+  return DOM.createElement('div', { class: 'voyager-prompt-stats-row' }, [
+    DOM.createElement('span', { class: 'voyager-prompt-stats-row-label' }, [label]),
+    DOM.createElement('span', { class: 'voyager-prompt-stats-row-detail' }, [detail]),
+    DOM.createElement('span', { class: 'voyager-prompt-stats-row-value' }, [value]),
+  ]);
 }
 
 /**
@@ -458,16 +1711,34 @@ async function copyToClipboard(text: string): Promise<boolean> {
   }
 }
 
-async function insertPrompt(prompt: SavedPrompt): Promise<void> {
+/**
+ * Insert a prompt into the chat input — also used by the search overlay.
+ * Prompts with variables open the fill-in form first. Does nothing while
+ * the prompt library is off: its panel and styles are not set up then.
+ */
+export async function insertPrompt(prompt: SavedPrompt): Promise<void> {
+  if (!active) return;
+  if (parseTemplateFields(prompt.content).length > 0) {
+    state.filling = prompt;
+    state.showForm = false;
+    state.panelOpen = true;
+    renderPanel();
+    return;
+  }
+  await insertText(prompt, renderTemplate(prompt.content, builtinValues()));
+}
+
+/** Insert resolved prompt text, falling back to the clipboard */
+async function insertText(prompt: SavedPrompt, text: string): Promise<void> {
   const inputEl = DOM.query('inputField') as HTMLElement | null;
   if (!inputEl) {
     Logger.warn(TAG, 'Input field not found');
     return;
   }
 
-  const inserted = tryInsertText(inputEl, prompt.content);
+  const inserted = tryInsertText(inputEl, text);
   if (!inserted) {
-    const copied = await copyToClipboard(prompt.content);
+    const copied = await copyToClipboard(text);
     window.alert(
       copied
         ? t(locale).promptCopiedFallback
@@ -477,12 +1748,44 @@ async function insertPrompt(prompt: SavedPrompt): Promise<void> {
   }
 
   Logger.info(TAG, `Prompt "${prompt.title}" inserted`);
+  void recordUse(prompt.id);
 
   // Close panel after insertion
   state.panelOpen = false;
   removePanel();
 }
 
+/** Replace the selected slash-command trigger with the picked prompt */
+function insertFromSlashCommand(prompt: SavedPrompt): void {
+  // The variable form takes focus, so drop the trigger text right away
+  if (parseTemplateFields(prompt.content).length > 0) {
+    document.execCommand('delete');
+  }
+  void insertPrompt(prompt);
+}
+
+/** Count an insertion and log when and where it happened; a failed save only affects stats */
+async function recordUse(id: string): Promise<void> {
+  const prompt = state.prompts.find((p) => p.id === id);
+  if (!prompt) return;
+  const conversationId = DOM.getConversationId();
+  const use: PromptUse = {
+    at: Date.now(),
+    conversationId,
+    conversationTitle: conversationId ? DOM.getConversationTitle() : null,
+  };
+  prompt.lastUsedAt = use.at;
+  prompt.usage = {
+    count: (prompt.usage?.count ?? 0) + 1,
+    log: [...(prompt.usage?.log ?? []), use].slice(-PROMPT_USAGE_LOG_LIMIT),
+  };
+  try {
+    await savePrompts();
+  } catch (err) {
+    Logger.warn(TAG, 'Failed to record prompt use', err);
+  }
+}
+
 async function deletePrompt(id: string): Promise<void> {
   const previousPrompts = clonePrompts(state.prompts);
   state.prompts = state.prompts.filter((p) => p.id !== id);
@@ -500,6 +1803,12 @@ function clonePrompts(prompts: SavedPrompt[]): SavedPrompt[] {
   return prompts.map((prompt) => ({
     ...prompt,
     tags: [...prompt.tags],
+    ...(prompt.history
+      ? { history: prompt.history.map((revision) => ({ ...revision, tags: [...revision.tags] })) }
+      : {}),
+    ...(prompt.usage
+      ? { usage: { count: prompt.usage.count, log: prompt.usage.log.map((use) => ({ ...use })) } }
+      : {}),
   }));
 }
 
@@ -507,6 +1816,215 @@ async function savePrompts(): Promise<void> {
   await Storage.setPrompts(state.prompts);
 }
 
+/**
+ * Replace the library with an edited copy; restores it and alerts if saving
+ * fails. Edits copy the prompts they change, so the old array stays intact.
+ */
+async function commitTaxonomyEdit(edit: TaxonomyEdit, context: string): Promise<boolean> {
+  if (edit.changed === 0) return true;
+  const previousPrompts = state.prompts;
+  state.prompts = edit.prompts;
+  try {
+    await savePrompts();
+    return true;
+  } catch (err) {
+    state.prompts = previousPrompts;
+    Logger.error(TAG, context, err);
+    window.alert(t(locale).failedSavePrompt);
+    return false;
+  }
+}
+
+/** Commit a category rename, move or removal; the filter and collapsed nodes follow the category */
+async function applyCategoryRename(from: string, to: string, edit: TaxonomyEdit, context: string): Promise<void> {
+  if (await commitTaxonomyEdit(edit, context)) {
+    const follow = (path: string) =>
+      isInCategory(path, from) ? normalizeCategory(to + path.slice(from.length)) : path;
+    if (state.categoryFilter) state.categoryFilter = follow(state.categoryFilter) || null;
+    state.collapsedCategories = new Set([...state.collapsedCategories].map(follow));
+  }
+  renderPanel();
+}
+
+/** Commit a tag rename, merge or deletion, then drop colors of tags no longer in use */
+async function applyTagEdit(edit: TaxonomyEdit, colors: Record<string, TagColor>, context: string): Promise<void> {
+  if (await commitTaxonomyEdit(edit, context)) {
+    // Leftover colors are harmless, so a failure here is only logged
+    await saveTagColors(pruneTagColors(colors, state.prompts));
+  }
+  renderPanel();
+}
+
+/** Fold spellings that differ only in case into `tag` */
+async function mergeTagVariants(tag: string, variants: string[]): Promise<void> {
+  let edit: TaxonomyEdit = { prompts: state.prompts, changed: 0 };
+  let colors = state.tagColors;
+  for (const variant of variants) {
+    const next = renameTag(edit.prompts, variant, tag);
+    edit = { prompts: next.prompts, changed: edit.changed + next.changed };
+    colors = renameTagColor(colors, variant, tag);
+  }
+  await applyTagEdit(edit, colors, 'Failed to merge tags');
+}
+
+/** Switch a tag to the next color of the palette */
+async function cycleTagColor(tag: string): Promise<void> {
+  const current = ANNOTATION_LABELS.indexOf(tagColor(tag, state.tagColors));
+  const next = ANNOTATION_LABELS[(current + 1) % ANNOTATION_LABELS.length] ?? 'blue';
+  if (!(await saveTagColors({ ...state.tagColors, [tagColorKey(tag)]: next }))) {
+    window.alert(t(locale).failedSaveTagColor);
+  }
+  renderPanel();
+}
+
+/** Persist tag colors, keeping the previous ones if saving fails */
+async function saveTagColors(colors: Record<string, TagColor>): Promise<boolean> {
+  const previous = state.tagColors;
+  state.tagColors = colors;
+  try {
+    await Storage.setPromptTagColors(colors);
+    return true;
+  } catch (err) {
+    state.tagColors = previous;
+    Logger.warn(TAG, 'Failed to save tag colors', err);
+    return false;
+  }
+}
+
+/** A chain's prompts in order, leaving out deleted ones */
+function chainSteps(chain: PromptChain): SavedPrompt[] {
+  return chain.steps.flatMap((id) => state.prompts.filter((p) => p.id === id));
+}
+
+function runChain(chain: PromptChain): void {
+  const steps = chainSteps(chain);
+  if (steps.length === 0) {
+    window.alert(t(locale).chainNoSteps);
+    return;
+  }
+  state.panelOpen = false;
+  removePanel();
+  startChain({
+    locale,
+    chain,
+    steps,
+    insert: (prompt) => {
+      void insertPrompt(prompt);
+    },
+  });
+}
+
+/** Persist chains; restores the previous ones and alerts if saving fails */
+async function saveChains(next: PromptChain[], context: string): Promise<boolean> {
+  const previous = state.chains;
+  state.chains = next;
+  try {
+    await Storage.setPromptChains(next);
+    return true;
+  } catch (err) {
+    state.chains = previous;
+    Logger.error(TAG, context, err);
+    window.alert(t(locale).failedSaveChains);
+    return false;
+  }
+}
+
+// ─── Save From Chat ─────────────────────────────────────────────
+
+/** First line of a message, without Markdown markers, as a prompt title */
+function draftTitle(content: string): string {
+  const line = content.split('\n').map((l) => l.replace(/^[\s#>*-]+/, '').trim()).find(Boolean) ?? '';
+  return line.length > DRAFT_TITLE_LENGTH ? line.slice(0, DRAFT_TITLE_LENGTH - 1).trimEnd() + '\u2026' : line;
+}
+
+/**
+ * Open the add form pre-filled with a chat message, remembering the
+ * conversation as its source. Returns false while the prompt library is off.
+ */
+export function savePromptFromMessage(text: string): boolean {
+  if (!active) return false;
+  const content = text.trim();
+  if (!content) return true;
+
+  state.draft = {
+    title: draftTitle(content),
+    content,
+    source: {
+      conversationId: DOM.getConversationId(),
+      conversationTitle: DOM.getConversationTitle(),
+    },
+  };
+  state.editingId = null;
+  state.filling = null;
+  state.historyId = null;
+  state.pack = null;
+  state.showForm = true;
+  state.panelOpen = true;
+  renderPanel();
+  return true;
+}
+
+/** Whether the prompt library is enabled and can take messages */
+export function isPromptLibraryActive(): boolean {
+  return active;
+}
+
+/**
+ * Show the save button over the user message under the pointer. The
+ * message DOM belongs to claude.ai's React tree, so there is one button on
+ * the body, placed from the message's rect, instead of one per message.
+ */
+function handleMessageHover(e: MouseEvent): void {
+  if (!(e.target instanceof Element) || state.saveButton?.contains(e.target)) return;
+  const message = e.target.closest(Selectors.humanMessageMarker);
+  if (message === state.saveTarget) return;
+  state.saveTarget = message;
+  positionSaveButton();
+}
+
+/** Move the save button to its message, or hide it when there is none */
+function positionSaveButton(): void {
+  const message = state.saveTarget;
+  if (!message?.isConnected) {
+    state.saveTarget = null;
+    state.saveButton?.classList.add('voyager-hidden');
+    return;
+  }
+
+  let btn = state.saveButton;
+  if (!btn) {
+    btn = DOM.createElement('button', {
+      'data-voyager': 'prompt-save-message',
+      class: 'voyager-prompt-save-msg',
+      title: t(locale).saveAsPrompt,
+      'aria-label': t(locale).saveAsPrompt,
+    });
+    btn.addEventListener('click', (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (state.saveTarget) savePromptFromMessage(DOM.getMessageText(state.saveTarget));
+    });
+    document.body.appendChild(btn);
+    state.saveButton = btn;
+  }
+  const rect = message.getBoundingClientRect();
+  btn.style.top = `${rect.top + SAVE_BUTTON_INSET}px`;
+  btn.style.right = `${document.documentElement.clientWidth - rect.right + SAVE_BUTTON_INSET}px`;
+  btn.classList.remove('voyager-hidden');
+}
+
+/** Keep the save button on its message while the chat scrolls */
+function handleChatScroll(): void {
+  if (state.saveTarget) positionSaveButton();
+}
+
+function removeSaveButton(): void {
+  state.saveButton?.remove();
+  state.saveButton = null;
+  state.saveTarget = null;
+  for (const btn of document.querySelectorAll('[data-voyager="prompt-save-message"]')) btn.remove();
+}
+
 // ─── Import / Export ────────────────────────────────────────────
 
 function handleExport(): void {
@@ -545,6 +2063,57 @@ function normalizeTimestamp(value: unknown, fallback: number): number {
   return fallback;
 }
 
+function normalizeImportedHistory(value: unknown): PromptRevision[] {
+  if (!Array.isArray(value)) return [];
+  const history: PromptRevision[] = [];
+  for (const raw of value) {
+    if (typeof raw !== 'object' || raw === null) continue;
+    const data = raw as Record<string, unknown>;
+    const content = normalizeNonEmptyString(data.content);
+    if (!content) continue;
+    history.push({
+      title: normalizeNonEmptyString(data.title) ?? '',
+      content,
+      tags: normalizeTagList(data.tags),
+      category: normalizeNonEmptyString(data.category) ?? '',
+      savedAt: normalizeTimestamp(data.savedAt, 0),
+    });
+  }
+  return history.sort((a, b) => a.savedAt - b.savedAt).slice(-PROMPT_HISTORY_LIMIT);
+}
+
+function normalizeImportedUsage(value: unknown): PromptUsage | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const data = value as Record<string, unknown>;
+  const log: PromptUse[] = [];
+  if (Array.isArray(data.log)) {
+    for (const raw of data.log) {
+      if (typeof raw !== 'object' || raw === null) continue;
+      const use = raw as Record<string, unknown>;
+      const at = normalizeTimestamp(use.at, 0);
+      if (at === 0) continue;
+      log.push({
+        at,
+        conversationId: normalizeNonEmptyString(use.conversationId),
+        conversationTitle: normalizeNonEmptyString(use.conversationTitle),
+      });
+    }
+  }
+  log.sort((a, b) => a.at - b.at);
+  const count = typeof data.count === 'number' && Number.isInteger(data.count) ? data.count : 0;
+  if (count <= 0 && log.length === 0) return null;
+  return { count: Math.max(count, log.length), log: log.slice(-PROMPT_USAGE_LOG_LIMIT) };
+}
+
+function normalizeImportedSource(value: unknown): PromptSource | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const data = value as Record<string, unknown>;
+  const conversationId = normalizeNonEmptyString(data.conversationId);
+  const conversationTitle = normalizeNonEmptyString(data.conversationTitle);
+  if (!conversationId && !conversationTitle) return null;
+  return { conversationId, conversationTitle };
+}
+
 function normalizeImportedPrompt(raw: unknown): SavedPrompt | null {
   if (typeof raw !== 'object' || raw === null) return null;
   const data = raw as Record<string, unknown>;
@@ -556,24 +2125,44 @@ function normalizeImportedPrompt(raw: unknown): SavedPrompt | null {
   const now = Date.now();
   const createdAt = normalizeTimestamp(data.createdAt, now);
   const updatedAt = normalizeTimestamp(data.updatedAt, createdAt);
+  const history = normalizeImportedHistory(data.history);
+  const usage = normalizeImportedUsage(data.usage);
+  const source = normalizeImportedSource(data.source);
 
   return {
     id: normalizeNonEmptyString(data.id) ?? uuid(),
     title,
     content,
     tags: normalizeTagList(data.tags),
-    category: normalizeNonEmptyString(data.category) ?? '',
+    category: normalizeCategory(normalizeNonEmptyString(data.category) ?? ''),
     createdAt,
     updatedAt,
+    ...(typeof data.lastUsedAt === 'number' ? { lastUsedAt: normalizeTimestamp(data.lastUsedAt, updatedAt) } : {}),
+    ...(history.length > 0 ? { history } : {}),
+    ...(usage ? { usage } : {}),
+    ...(source ? { source } : {}),
   };
 }
 
 function handleImport(): void {
   const input = document.createElement('input');
   input.type = 'file';
-  input.accept = '.json';
+  input.accept = '.json,.md,.markdown,.zip';
+  input.multiple = true;
   input.addEventListener('change', () => {
-    const file = input.files?.[0];
+    const files = [...(input.files ?? [])];
+    // Markdown and ZIP files are a prompt pack; JSON is our own export
+    const jsonFiles = files.filter((f) => /\.json$/i.test(f.name));
+    const packFiles = files.filter((f) => !/\.json$/i.test(f.name));
+    if (jsonFiles.length > 1 || (jsonFiles.length > 0 && packFiles.length > 0)) {
+      window.alert(t(locale).importMixedFiles);
+      return;
+    }
+    if (packFiles.length > 0) {
+      void openPackPreview(packFiles);
+      return;
+    }
+    const file = jsonFiles[0];
     if (!file) return;
 
     const reader = new FileReader();
@@ -634,6 +2223,109 @@ function handleImport(): void {
   input.click();
 }
 
+/** Existing prompt a pack prompt would collide with: same id, else same title */
+function findPackConflict(prompt: PackPrompt): SavedPrompt | undefined {
+  const title = prompt.title.trim().toLowerCase();
+  return (prompt.id ? state.prompts.find((p) => p.id === prompt.id) : undefined) ??
+    state.prompts.find((p) => p.title.trim().toLowerCase() === title);
+}
+
+/** Read Markdown/ZIP files and show what they contain before merging */
+async function openPackPreview(files: File[]): Promise<void> {
+  let prompts: PackPrompt[];
+  let duplicates: number;
+  try {
+    ({ prompts, duplicates } = dedupePackPrompts(await readPromptPack(files)));
+  } catch (err) {
+    Logger.error(TAG, 'Failed to read prompt pack', err);
+    window.alert(t(locale).packReadFailed);
+    return;
+  }
+  if (prompts.length === 0) {
+    window.alert(t(locale).packEmpty);
+    return;
+  }
+  if (duplicates > 0) window.alert(`${t(locale).packDuplicates}: ${duplicates}`);
+
+  state.pack = prompts.map((prompt) => ({
+    prompt,
+    conflictId: findPackConflict(prompt)?.id ?? null,
+    include: true,
+    resolution: 'skip',
+  }));
+  state.panelOpen = true;
+  renderPanel();
+}
+
+/** Merge the checked pack entries, settling conflicts as chosen */
+async function importPack(entries: PackEntry[]): Promise<void> {
+  const tr = t(locale);
+  const previousPrompts = clonePrompts(state.prompts);
+  const nextPrompts = clonePrompts(state.prompts);
+  const now = Date.now();
+  let added = 0;
+  let overwritten = 0;
+  let skipped = 0;
+
+  for (const entry of entries) {
+    const index = entry.conflictId ? nextPrompts.findIndex((p) => p.id === entry.conflictId) : -1;
+    const existing = nextPrompts[index];
+    if (!entry.include || (existing && entry.resolution === 'skip')) {
+      skipped++;
+      continue;
+    }
+
+    const { prompt } = entry;
+    const fields = {
+      title: prompt.title,
+      content: prompt.content,
+      tags: canonicalTags(prompt.tags, nextPrompts),
+      category: canonicalCategory(prompt.category, nextPrompts),
+    };
+
+    if (existing && entry.resolution === 'overwrite') {
+      const changed = existing.title !== fields.title ||
+        existing.content !== fields.content ||
+        existing.category !== fields.category ||
+        existing.tags.join('\n') !== fields.tags.join('\n');
+      nextPrompts[index] = {
+        ...existing,
+        ...fields,
+        updatedAt: now,
+        ...(changed ? { history: historyWith(existing) } : {}),
+      };
+      overwritten++;
+      continue;
+    }
+
+    const idTaken = !prompt.id || nextPrompts.some((p) => p.id === prompt.id);
+    nextPrompts.push({
+      id: idTaken ? uuid() : prompt.id ?? uuid(),
+      ...fields,
+      createdAt: now,
+      updatedAt: now,
+    });
+    added++;
+  }
+
+  state.prompts = nextPrompts;
+  try {
+    await savePrompts();
+  } catch (err) {
+    state.prompts = previousPrompts;
+    Logger.error(TAG, 'Failed to persist prompt pack', err);
+    window.alert(tr.failedPersistPrompts);
+    return;
+  }
+
+  state.pack = null;
+  renderPanel();
+  window.alert(
+    `${tr.promptImportFinished}\n${tr.packAdded}: ${added}\n${tr.packOverwritten}: ${overwritten}\n${tr.packSkipped}: ${skipped}`,
+  );
+  Logger.info(TAG, `Prompt pack import: added=${added}, overwritten=${overwritten}, skipped=${skipped}`);
+}
+
 // ─── Cleanup ────────────────────────────────────────────────────
 
 function removePanel(): void {
@@ -662,8 +2354,23 @@ export const PromptFeature: FeatureModule = {
     Logger.info(TAG, 'Initializing prompt library');
     locale = _settings.locale ?? 'en';
     state = createState();
+    active = true;
     DOM.injectStyles('voyager-prompts', PROMPT_CSS);
 
+    document.addEventListener('selectionchange', trackSelection);
+    state.cleanups.push(() => document.removeEventListener('selectionchange', trackSelection));
+    document.addEventListener('mouseover', handleMessageHover);
+    state.cleanups.push(() => document.removeEventListener('mouseover', handleMessageHover));
+    document.addEventListener('scroll', handleChatScroll, { capture: true, passive: true });
+    state.cleanups.push(() => document.removeEventListener('scroll', handleChatScroll, { capture: true }));
+
+    initSlashCommands({
+      locale,
+      getPrompts: () => state.prompts,
+      tagClass: tagChipClass,
+      onPick: insertFromSlashCommand,
+    });
+
     // Delay initial render to let chat input load
     const tryInject = (attempts: number) => {
       if (state.trigger) return;
@@ -680,16 +2387,34 @@ export const PromptFeature: FeatureModule = {
     }).catch((err) => {
       Logger.error(TAG, 'Failed to load prompts', err);
     });
+    Storage.getPromptChains().then((chains) => {
+      state.chains = chains;
+    }).catch((err) => {
+      Logger.error(TAG, 'Failed to load prompt chains', err);
+    });
+    Storage.getPromptTagColors().then((colors) => {
+      state.tagColors = colors;
+    }).catch((err) => {
+      Logger.warn(TAG, 'Failed to load tag colors', err);
+    });
   },
 
   destroy() {
     Logger.info(TAG, 'Destroying prompt library');
     fullCleanup();
+    destroySlashCommands();
+    abortChain();
+    removeSaveButton();
+    active = false;
     DOM.removeStyles('voyager-prompts');
     state = createState();
   },
 
-  onNavigate() {
+  onNavigate(conversationId: string | null) {
+    notifyChainNavigate(conversationId);
+    state.saveTarget = null;
+    positionSaveButton();
+
     // Re-inject trigger if it was removed (SPA navigation rebuilds chat input)
     if (!document.querySelector('[data-voyager="prompt-trigger"]')) {
       removeTrigger();
@@ -703,4 +2428,9 @@ export const PromptFeature: FeatureModule = {
       setTimeout(() => tryInject(10), 300);
     }
   },
+
+  onMessagesChanged() {
+    notifyChainMessagesChanged();
+    positionSaveButton();
+  },
 };
@@ -0,0 +1,258 @@
+/**
+ * Prompt packs: prompts kept as Markdown files, e.g. in a git repository.
+ *
+ * Accepted input:
+ * - a `.md` file holding one prompt, or several split by headings
+ * - a `.zip` of such files; folders become categories (`code/review.md` →
+ *   `code`). A single folder wrapping the whole archive is ignored, and so
+ *   are README files and hidden paths.
+ *
+ * Front-matter between `---` lines sets `title`, `tags`, `category` and
+ * `id` (an id lets a re-import find the prompt it created). At the top of a
+ * file it applies to the whole file; right below a heading of a split file
+ * it applies to that section only. Tags can be written `a, b`, `[a, b]` or
+ * as `- a` list items.
+ *
+ * A file is split when its shallowest heading level occurs more than once:
+ * each of those headings starts a prompt titled by it, and text before the
+ * first one is ignored. Otherwise the file is one prompt, titled by its
+ * front-matter, its heading or its file name.
+ */
+
+import JSZip from 'jszip';
+
+/** A prompt read from a pack, not yet in the library */
+export interface PackPrompt {
+  title: string;
+  content: string;
+  tags: string[];
+  category: string;
+  id?: string;
+  /** File, and heading for split files, the prompt came from */
+  source: string;
+}
+
+interface FrontMatter {
+  title?: string;
+  tags?: string[];
+  category?: string;
+  id?: string;
+}
+
+interface Heading {
+  level: number;
+  title: string;
+  /** Line index */
+  line: number;
+}
+
+const MARKDOWN_RE = /\.(md|markdown)$/i;
+const README_RE = /^readme\.(md|markdown)$/i;
+const HEADING_RE = /^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/;
+const FENCE_RE = /^\s*(```|~~~)/;
+const PAIR_RE = /^([\w-]+)\s*:\s*(.*)$/;
+const LIST_ITEM_RE = /^\s*-\s+(.*)$/;
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  const quote = trimmed.charAt(0);
+  if (trimmed.length >= 2 && (quote === '"' || quote === "'") && trimmed.endsWith(quote)) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
+
+function parseList(value: string): string[] {
+  const inner = value.trim().replace(/^\[(.*)\]$/, '$1');
+  return inner.split(',').map(unquote).filter(Boolean);
+}
+
+/**
+ * Front-matter block starting at `start` (blank lines before it allowed).
+ * Anything but `key: value` lines, list items and blank lines inside means
+ * the `---` was a horizontal rule, not front-matter.
+ */
+function readFrontMatter(lines: string[], start: number): { meta: FrontMatter; end: number } | null {
+  let i = start;
+  while (i < lines.length && !lines[i]?.trim()) i++;
+  if (lines[i]?.trim() !== '---') return null;
+
+  const meta: FrontMatter = {};
+  let inTagList = false;
+  for (let j = i + 1; j < lines.length; j++) {
+    const line = lines[j] ?? '';
+    if (line.trim() === '---') return { meta, end: j + 1 };
+    if (!line.trim()) continue;
+
+    const item = LIST_ITEM_RE.exec(line);
+    if (item) {
+      if (!inTagList) return null;
+      const tag = unquote(item[1] ?? '');
+      if (tag) meta.tags = [...(meta.tags ?? []), tag];
+      continue;
+    }
+
+    const pair = PAIR_RE.exec(line);
+    if (!pair) return null;
+    const value = pair[2] ?? '';
+    inTagList = false;
+    switch ((pair[1] ?? '').toLowerCase()) {
+      case 'title':
+        meta.title = unquote(value);
+        break;
+      case 'category':
+        meta.category = unquote(value);
+        break;
+      case 'id':
+        meta.id = unquote(value);
+        break;
+      case 'tags':
+        meta.tags = parseList(value);
+        inTagList = true;
+        break;
+    }
+  }
+  return null;
+}
+
+/** Headings from `start` on, ignoring lines inside code fences */
+function findHeadings(lines: string[], start: number): Heading[] {
+  const headings: Heading[] = [];
+  let fence: string | null = null;
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i] ?? '';
+    const marker = FENCE_RE.exec(line)?.[1];
+    if (marker) {
+      if (fence === null) fence = marker;
+      else if (fence === marker) fence = null;
+      continue;
+    }
+    if (fence !== null) continue;
+    const match = HEADING_RE.exec(line);
+    if (match) headings.push({ level: match[1]?.length ?? 1, title: match[2] ?? '', line: i });
+  }
+  return headings;
+}
+
+function isBlank(lines: string[], from: number, to: number): boolean {
+  return lines.slice(from, to).every((line) => !line.trim());
+}
+
+/** `code/code-review.md` → `code review` */
+function fileTitle(path: string): string {
+  const name = path.slice(path.lastIndexOf('/') + 1).replace(MARKDOWN_RE, '');
+  return name.replace(/[-_]+/g, ' ').trim() || name;
+}
+
+function joinContent(lines: string[], from: number, to: number): string {
+  return lines.slice(from, to).join('\n').trim();
+}
+
+/** Prompts in one Markdown file; `folderCategory` applies unless front-matter sets one */
+export function parseMarkdownPrompts(text: string, path: string, folderCategory = ''): PackPrompt[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  // File front-matter must open the file
+  const fileMatter = lines[0]?.trim() === '---' ? readFrontMatter(lines, 0) : null;
+  const fileMeta = fileMatter?.meta ?? {};
+  const bodyStart = fileMatter?.end ?? 0;
+  const tags = fileMeta.tags ?? [];
+  const category = fileMeta.category ?? folderCategory;
+
+  const headings = findHeadings(lines, bodyStart);
+  const topLevel = Math.min(...headings.map((h) => h.level));
+  const sections = headings.filter((h) => h.level === topLevel);
+
+  if (fileMeta.title !== undefined || sections.length < 2) {
+    let title = fileMeta.title;
+    let start = bodyStart;
+    // A heading opening the file is its title, not part of the prompt
+    const first = sections[0];
+    if (first && isBlank(lines, bodyStart, first.line) && (!title || title === first.title)) {
+      title = first.title;
+      start = first.line + 1;
+    }
+    const content = joinContent(lines, start, lines.length);
+    if (!content) return [];
+    return [{
+      title: title || fileTitle(path),
+      content,
+      tags,
+      category,
+      ...(fileMeta.id ? { id: fileMeta.id } : {}),
+      source: path,
+    }];
+  }
+
+  const prompts: PackPrompt[] = [];
+  sections.forEach((heading, index) => {
+    const end = sections[index + 1]?.line ?? lines.length;
+    const matter = readFrontMatter(lines.slice(0, end), heading.line + 1);
+    const meta = matter?.meta ?? {};
+    const content = joinContent(lines, matter?.end ?? heading.line + 1, end);
+    if (!content) return;
+    prompts.push({
+      title: meta.title || heading.title,
+      content,
+      tags: meta.tags ?? tags,
+      category: meta.category ?? category,
+      ...(meta.id ? { id: meta.id } : {}),
+      source: `${path} \u203A ${heading.title}`,
+    });
+  });
+  return prompts;
+}
+
+async function readZip(file: File): Promise<PackPrompt[]> {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const entries = Object.values(zip.files)
+    .filter((entry) => {
+      if (entry.dir || !MARKDOWN_RE.test(entry.name)) return false;
+      const segments = entry.name.split('/');
+      const name = segments[segments.length - 1] ?? '';
+      return !README_RE.test(name) && !segments.some((s) => s.startsWith('.') || s === '__MACOSX');
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const folders = entries.map((entry) => entry.name.split('/').slice(0, -1));
+  // Zipping a repository folder wraps everything in it; that folder is no category
+  const wrapper = folders[0]?.[0];
+  const skip = wrapper !== undefined && folders.every((f) => f[0] === wrapper) ? 1 : 0;
+
+  const prompts: PackPrompt[] = [];
+  for (const [index, entry] of entries.entries()) {
+    const category = (folders[index] ?? []).slice(skip).join('/');
+    prompts.push(...parseMarkdownPrompts(await entry.async('string'), entry.name, category));
+  }
+  return prompts;
+}
+
+/**
+ * Drop prompts that repeat an earlier one of the same pack — same id, else
+ * same title, as a library conflict is found — keeping the first.
+ */
+export function dedupePackPrompts(prompts: PackPrompt[]): { prompts: PackPrompt[]; duplicates: number } {
+  const ids = new Set<string>();
+  const titles = new Set<string>();
+  const unique: PackPrompt[] = [];
+  for (const prompt of prompts) {
+    const title = prompt.title.trim().toLowerCase();
+    if ((prompt.id && ids.has(prompt.id)) || titles.has(title)) continue;
+    if (prompt.id) ids.add(prompt.id);
+    titles.add(title);
+    unique.push(prompt);
+  }
+  return { prompts: unique, duplicates: prompts.length - unique.length };
+}
+
+/** Prompts in the chosen `.md` and `.zip` files, in file order */
+export async function readPromptPack(files: File[]): Promise<PackPrompt[]> {
+  const prompts: PackPrompt[] = [];
+  for (const file of files) {
+    if (/\.zip$/i.test(file.name)) {
+      prompts.push(...(await readZip(file)));
+    } else if (MARKDOWN_RE.test(file.name)) {
+      prompts.push(...parseMarkdownPrompts(await file.text(), file.name));
+    }
+  }
+  return prompts;
+}
@@ -0,0 +1,166 @@
+/**
+ * Prompt library search.
+ *
+ * Query syntax:
+ * - `word` — fuzzy match in title, tags, category or content
+ * - `"exact phrase"` — substring match, no typo tolerance
+ * - `tag:review` / `cat:code` (`category:` works too) — field filters
+ * - `-word`, `-tag:old`, `-cat:draft` — exclude matching prompts
+ *
+ * Every free term must match somewhere. Hits are ranked by where they
+ * occur (title > tags > category > content) and how close they are: exact
+ * substrings beat word-start matches, which beat typo-tolerant ones.
+ */
+
+import type { SavedPrompt } from '@core/types';
+import { editDistance } from '@core/utils';
+
+type ClauseField = 'any' | 'tag' | 'cat';
+
+interface QueryClause {
+  field: ClauseField;
+  /** Lower-cased */
+  value: string;
+  negated: boolean;
+  /** Quoted — no fuzzy matching */
+  exact: boolean;
+}
+
+/** A prompt that passed the query, with the text to highlight */
+export interface PromptMatch {
+  prompt: SavedPrompt;
+  score: number;
+  /** Lower-cased strings found in the prompt's fields */
+  highlights: string[];
+}
+
+const FIELD_WEIGHTS = { title: 3, tags: 2, category: 1.5, content: 1 } as const;
+
+type Field = keyof typeof FIELD_WEIGHTS;
+
+const FIELD_PREFIXES: Record<string, ClauseField> = {
+  tag: 'tag',
+  cat: 'cat',
+  category: 'cat',
+};
+
+const TOKEN_RE = /(-?)(?:(\w+):)?(?:"([^"]*)"?|(\S+))/g;
+
+/** Split a query into clauses; unknown `prefix:` stays part of a free term */
+function parseQuery(query: string): QueryClause[] {
+  const clauses: QueryClause[] = [];
+  for (const match of query.matchAll(TOKEN_RE)) {
+    const [, minus, prefix, quoted, bare] = match;
+    const field = prefix ? FIELD_PREFIXES[prefix.toLowerCase()] : 'any';
+    let value = (quoted ?? bare ?? '').toLowerCase().trim();
+    if (prefix && !field) value = `${prefix.toLowerCase()}:${value}`;
+    if (!value) continue;
+    clauses.push({ field: field ?? 'any', value, negated: minus === '-', exact: quoted !== undefined });
+  }
+  return clauses;
+}
+
+function maxEdits(term: string): number {
+  if (term.length >= 8) return 2;
+  if (term.length >= 4) return 1;
+  return 0;
+}
+
+/**
+ * Best match quality of `term` in `text` (0 = none) and the text that matched.
+ * Fuzzy matches compare against whole words and word prefixes, so a typo in
+ * a partially typed word still finds it.
+ */
+function matchTerm(term: string, text: string, exact: boolean): { quality: number; token: string } {
+  const pos = text.indexOf(term);
+  if (pos !== -1) {
+    const wordStart = pos === 0 || !/[\p{L}\p{N}]/u.test(text.charAt(pos - 1));
+    return { quality: wordStart ? 1 : 0.8, token: term };
+  }
+  const edits = maxEdits(term);
+  if (exact || edits === 0) return { quality: 0, token: '' };
+
+  let best = { quality: 0, token: '' };
+  for (const word of text.split(/[^\p{L}\p{N}]+/u)) {
+    if (word.length < term.length - edits) continue;
+    const distance = Math.min(
+      editDistance(term, word, edits),
+      editDistance(term, word.slice(0, term.length), edits),
+    );
+    if (distance > edits) continue;
+    const quality = 0.6 - 0.2 * (distance - 1);
+    if (quality > best.quality) best = { quality, token: word };
+  }
+  return best;
+}
+
+function fieldTexts(prompt: SavedPrompt): Record<Field, string> {
+  return {
+    title: prompt.title.toLowerCase(),
+    tags: prompt.tags.join(' ').toLowerCase(),
+    category: prompt.category.toLowerCase(),
+    content: prompt.content.toLowerCase(),
+  };
+}
+
+/** Whether a field filter (tag:/cat:) holds for a prompt */
+function matchesFilter(prompt: SavedPrompt, clause: QueryClause): boolean {
+  if (clause.field === 'tag') {
+    return prompt.tags.some((tag) => tag.toLowerCase().includes(clause.value));
+  }
+  return prompt.category.toLowerCase().includes(clause.value);
+}
+
+/**
+ * Prompts matching `query`, best first. Prompts with equal scores keep their
+ * order in `prompts`, so a query made only of filters leaves it untouched.
+ */
+export function searchPrompts(prompts: SavedPrompt[], query: string): PromptMatch[] {
+  const clauses = parseQuery(query);
+  const matches: PromptMatch[] = [];
+
+  for (const prompt of prompts) {
+    const fields = fieldTexts(prompt);
+    const highlights = new Set<string>();
+    let score = 0;
+    let rejected = false;
+
+    for (const clause of clauses) {
+      if (clause.field !== 'any') {
+        const holds = matchesFilter(prompt, clause);
+        if (holds === clause.negated) {
+          rejected = true;
+          break;
+        }
+        if (holds) highlights.add(clause.value);
+        continue;
+      }
+
+      if (clause.negated) {
+        if (Object.values(fields).some((text) => text.includes(clause.value))) {
+          rejected = true;
+          break;
+        }
+        continue;
+      }
+
+      let best = 0;
+      for (const field of Object.keys(FIELD_WEIGHTS) as Field[]) {
+        const { quality, token } = matchTerm(clause.value, fields[field], clause.exact);
+        if (quality === 0) continue;
+        highlights.add(token);
+        best = Math.max(best, quality * FIELD_WEIGHTS[field]);
+      }
+      if (best === 0) {
+        rejected = true;
+        break;
+      }
+      score += best;
+    }
+
+    if (!rejected) matches.push({ prompt, score, highlights: [...highlights] });
+  }
+
+  // Array.prototype.sort is stable
+  return matches.sort((a, b) => b.score - a.score);
+}
@@ -115,12 +115,32 @@ export const PROMPT_CSS = `
     background: var(--bg-200, rgba(255, 255, 255, 0.06));
   }
 
+  .voyager-prompt-panel-btn-active {
+    color: var(--accent-main, rgba(217, 170, 90, 0.9));
+    background: var(--bg-200, rgba(255, 255, 255, 0.06));
+  }
+
   /* ─── Search ──────────────────────────────────────────── */
   .voyager-prompt-search {
+    display: flex;
+    gap: 6px;
     padding: 8px 12px;
     border-bottom: 0.5px solid var(--border-100, rgba(255, 255, 255, 0.04));
   }
 
+  .voyager-prompt-sort {
+    flex-shrink: 0;
+    max-width: 110px;
+    padding: 4px 6px;
+    border: 0.5px solid var(--border-200, rgba(255, 255, 255, 0.1));
+    border-radius: 6px;
+    background: var(--bg-000, rgba(20, 18, 15, 0.8));
+    color: var(--text-200, rgba(232, 228, 222, 0.7));
+    font-size: 11px;
+    outline: none;
+    cursor: pointer;
+  }
+
   .voyager-prompt-search input {
     width: 100%;
     padding: 6px 10px;
@@ -233,6 +253,12 @@ export const PROMPT_CSS = `
     background: rgba(220, 90, 70, 0.1);
   }
 
+  .voyager-prompt-item mark {
+    background: rgba(217, 170, 90, 0.3);
+    color: inherit;
+    border-radius: 2px;
+  }
+
   /* ─── Add Form ────────────────────────────────────────── */
   .voyager-prompt-form {
     padding: 10px 12px;
@@ -303,6 +329,658 @@ export const PROMPT_CSS = `
     background: var(--bg-200, rgba(255, 255, 255, 0.06));
   }
 
+  .voyager-prompt-form-hint {
+    font-size: 10px;
+    line-height: 1.4;
+    color: var(--text-300, rgba(232, 228, 222, 0.4));
+  }
+
+  /* ─── Template Variables ──────────────────────────────── */
+  .voyager-prompt-template-badge {
+    margin-left: 6px;
+    padding: 0 4px;
+    border-radius: 4px;
+    background: var(--bg-300, rgba(255, 255, 255, 0.06));
+    font-size: 9px;
+    font-weight: 400;
+    color: var(--accent-main, rgba(217, 170, 90, 0.8));
+    vertical-align: middle;
+  }
+
+  .voyager-prompt-fill-title {
+    font-size: 12px;
+    font-weight: 500;
+    color: var(--text-100, rgba(232, 228, 222, 0.9));
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .voyager-prompt-fill-field {
+    display: flex;
+    flex-direction: column;
+    gap: 2px;
+  }
+
+  .voyager-prompt-fill-label {
+    font-size: 11px;
+    font-family: 'SF Mono', Consolas, monospace;
+    color: var(--text-300, rgba(232, 228, 222, 0.55));
+  }
+
+  .voyager-prompt-fill-preview {
+    max-height: 120px;
+    overflow-y: auto;
+    padding: 6px 8px;
+    border-radius: 6px;
+    background: var(--bg-300, rgba(255, 255, 255, 0.04));
+    font-size: 11px;
+    line-height: 1.45;
+    white-space: pre-wrap;
+    color: var(--text-200, rgba(232, 228, 222, 0.65));
+  }
+
+  /* ─── Usage Statistics ────────────────────────────────── */
+  .voyager-prompt-usage-badge {
+    margin-left: 6px;
+    font-size: 10px;
+    font-weight: 400;
+    color: var(--text-300, rgba(232, 228, 222, 0.4));
+  }
+
+  .voyager-prompt-stats-summary {
+    display: flex;
+    gap: 6px;
+  }
+
+  .voyager-prompt-stats-figure {
+    flex: 1;
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    padding: 6px 4px;
+    border-radius: 6px;
+    background: var(--bg-300, rgba(255, 255, 255, 0.04));
+  }
+
+  .voyager-prompt-stats-value {
+    font-size: 16px;
+    font-weight: 500;
+    color: var(--text-100, rgba(232, 228, 222, 0.9));
+  }
+
+  .voyager-prompt-stats-label {
+    font-size: 10px;
+    color: var(--text-300, rgba(232, 228, 222, 0.45));
+  }
+
+  .voyager-prompt-stats-row {
+    display: flex;
+    align-items: baseline;
+    gap: 8px;
+    font-size: 11px;
+  }
+
+  .voyager-prompt-stats-row-label {
+    flex: 1;
+    min-width: 0;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+    color: var(--text-200, rgba(232, 228, 222, 0.7));
+  }
+
+  .voyager-prompt-stats-row-detail {
+    color: var(--text-300, rgba(232, 228, 222, 0.35));
+  }
+
+  .voyager-prompt-stats-row-value {
+    color: var(--accent-main, rgba(217, 170, 90, 0.9));
+  }
+
+  /* ─── Version History ─────────────────────────────────── */
+  .voyager-prompt-history-versions {
+    max-height: 110px;
+    overflow-y: auto;
+    display: flex;
+    flex-direction: column;
+    gap: 1px;
+  }
+
+  .voyager-prompt-history-version {
+    padding: 3px 8px;
+    border-radius: 6px;
+    font-size: 11px;
+    color: var(--text-200, rgba(232, 228, 222, 0.65));
+    cursor: pointer;
+  }
+
+  .voyager-prompt-history-version:hover {
+    background: var(--bg-300, rgba(255, 255, 255, 0.04));
+  }
+
+  .voyager-prompt-history-current {
+    cursor: default;
+    color: var(--text-300, rgba(232, 228, 222, 0.4));
+  }
+
+  .voyager-prompt-history-current:hover {
+    background: none;
+  }
+
+  .voyager-prompt-history-selected,
+  .voyager-prompt-history-selected:hover {
+    background: var(--bg-300, rgba(255, 255, 255, 0.08));
+    color: var(--text-100, rgba(232, 228, 222, 0.9));
+  }
+
+  .voyager-prompt-diff {
+    max-height: 200px;
+    overflow: auto;
+    padding: 4px 0;
+    border-radius: 6px;
+    background: var(--bg-000, rgba(20, 18, 15, 0.8));
+    font-family: 'SF Mono', Consolas, monospace;
+    font-size: 11px;
+    line-height: 1.5;
+  }
+
+  .voyager-prompt-diff-field {
+    padding: 0 8px 4px;
+    color: var(--text-300, rgba(232, 228, 222, 0.55));
+  }
+
+  .voyager-prompt-diff-line {
+    padding: 0 8px;
+    white-space: pre-wrap;
+    word-break: break-word;
+    color: var(--text-200, rgba(232, 228, 222, 0.65));
+  }
+
+  .voyager-prompt-diff-added {
+    background: rgba(100, 180, 110, 0.15);
+    color: rgba(150, 210, 155, 0.95);
+  }
+
+  .voyager-prompt-diff-removed {
+    background: rgba(220, 90, 70, 0.15);
+    color: rgba(235, 140, 125, 0.95);
+  }
+
+  /* ─── Slash Commands ──────────────────────────────────── */
+  .voyager-slash-popup {
+    position: fixed;
+    z-index: 50001;
+    width: 320px;
+    max-height: 300px;
+    overflow-y: auto;
+    padding: 4px;
+    background-color: #2b2520;
+    background-color: var(--bg-100, #2b2520);
+    border: 0.5px solid var(--border-200, rgba(255, 255, 255, 0.1));
+    border-radius: 12px;
+    box-shadow: 0 8px 32px rgba(0, 0, 0, 0.45);
+  }
+
+  .voyager-slash-item {
+    padding: 6px 10px;
+    border-radius: 8px;
+    cursor: pointer;
+  }
+
+  .voyager-slash-item-active {
+    background: var(--bg-300, rgba(255, 255, 255, 0.06));
+  }
+
+  .voyager-slash-item-head {
+    display: flex;
+    align-items: center;
+    gap: 4px;
+    min-width: 0;
+  }
+
+  .voyager-slash-item-title {
+    flex: 1;
+    min-width: 0;
+    font-size: 12px;
+    font-weight: 500;
+    color: var(--text-100, rgba(232, 228, 222, 0.9));
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .voyager-slash-item-preview {
+    font-size: 11px;
+    color: var(--text-300, rgba(232, 228, 222, 0.45));
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .voyager-slash-footer {
+    padding: 4px 10px 2px;
+    font-size: 10px;
+    color: var(--text-300, rgba(232, 228, 222, 0.35));
+  }
+
+  /* ─── Category Sidebar ────────────────────────────────── */
+  .voyager-prompt-panel-wide {
+    width: 520px;
+  }
+
+  .voyager-prompt-body {
+    flex: 1;
+    min-height: 0;
+    display: flex;
+  }
+
+  .voyager-prompt-body .voyager-prompt-list {
+    min-width: 0;
+  }
+
+  .voyager-prompt-categories {
+    width: 170px;
+    flex-shrink: 0;
+    overflow-y: auto;
+    padding: 4px;
+    border-right: 0.5px solid var(--border-100, rgba(255, 255, 255, 0.06));
+    scrollbar-width: thin;
+    scrollbar-color: rgba(255, 255, 255, 0.08) transparent;
+  }
+
+  .voyager-prompt-category {
+    display: flex;
+    align-items: center;
+    gap: 4px;
+    padding: 3px 6px;
+    border-radius: 6px;
+    font-size: 12px;
+    color: var(--text-200, rgba(232, 228, 222, 0.7));
+    cursor: pointer;
+    user-select: none;
+  }
+
+  .voyager-prompt-category:hover {
+    background: var(--bg-300, rgba(255, 255, 255, 0.04));
+  }
+
+  .voyager-prompt-category-selected {
+    color: var(--text-100, rgba(232, 228, 222, 0.95));
+    background: var(--bg-300, rgba(255, 255, 255, 0.06));
+  }
+
+  .voyager-prompt-category-drop-target {
+    outline: 1px dashed var(--accent-main, rgba(217, 170, 90, 0.7));
+    background: rgba(217, 170, 90, 0.08);
+  }
+
+  .voyager-prompt-category-toggle {
+    width: 10px;
+    flex-shrink: 0;
+    font-size: 8px;
+    color: var(--text-300, rgba(232, 228, 222, 0.4));
+  }
+
+  .voyager-prompt-category-name {
+    flex: 1;
+    min-width: 0;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .voyager-prompt-category-count {
+    font-size: 10px;
+    color: var(--text-300, rgba(232, 228, 222, 0.35));
+  }
+
+  .voyager-prompt-category-del {
+    display: none;
+    background: none;
+    border: none;
+    padding: 0 2px;
+    font-size: 10px;
+    color: var(--text-300, rgba(232, 228, 222, 0.4));
+    cursor: pointer;
+  }
+
+  .voyager-prompt-category:hover .voyager-prompt-category-del {
+    display: inline;
+  }
+
+  .voyager-prompt-category-del:hover {
+    color: rgba(220, 90, 70, 0.9);
+  }
+
+  .voyager-prompt-category-input,
+  .voyager-prompt-tag-input {
+    flex: 1;
+    min-width: 0;
+    padding: 2px 6px;
+    border: 0.5px solid var(--accent-main, rgba(217, 170, 90, 0.5));
+    border-radius: 4px;
+    background: var(--bg-000, rgba(20, 18, 15, 0.8));
+    color: var(--text-100, rgba(232, 228, 222, 0.9));
+    font-size: 12px;
+    outline: none;
+  }
+
+  .voyager-prompt-categories-hint {
+    padding: 8px 6px 4px;
+    font-size: 10px;
+    line-height: 1.4;
+    color: var(--text-300, rgba(232, 228, 222, 0.3));
+  }
+
+  .voyager-prompt-item-dragging {
+    opacity: 0.5;
+  }
+
+  /* ─── Tag Manager ─────────────────────────────────────── */
+  .voyager-prompt-tag-list {
+    max-height: 150px;
+    overflow-y: auto;
+    display: flex;
+    flex-direction: column;
+    gap: 2px;
+  }
+
+  .voyager-prompt-tag-row {
+    display: flex;
+    align-items: center;
+    gap: 6px;
+  }
+
+  .voyager-prompt-tag-row .voyager-prompt-tag {
+    min-width: 0;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .voyager-prompt-tag-count {
+    flex: 1;
+    font-size: 10px;
+    color: var(--text-300, rgba(232, 228, 222, 0.4));
+  }
+
+  .voyager-prompt-tag-swatch {
+    width: 12px;
+    height: 12px;
+    flex-shrink: 0;
+    padding: 0;
+    border: none;
+    border-radius: 50%;
+    background: var(--voyager-tag-fg);
+    cursor: pointer;
+  }
+
+  /* ─── Tag Colors ──────────────────────────────────────── */
+  .voyager-tag-red { --voyager-tag-fg: rgba(220, 90, 70, 0.9); --voyager-tag-bg: rgba(220, 90, 70, 0.14); }
+  .voyager-tag-orange { --voyager-tag-fg: rgba(230, 150, 60, 0.9); --voyager-tag-bg: rgba(230, 150, 60, 0.14); }
+  .voyager-tag-yellow { --voyager-tag-fg: rgba(220, 195, 70, 0.9); --voyager-tag-bg: rgba(220, 195, 70, 0.14); }
+  .voyager-tag-green { --voyager-tag-fg: rgba(100, 180, 110, 0.9); --voyager-tag-bg: rgba(100, 180, 110, 0.14); }
+  .voyager-tag-blue { --voyager-tag-fg: rgba(90, 150, 230, 0.9); --voyager-tag-bg: rgba(90, 150, 230, 0.14); }
+  .voyager-tag-purple { --voyager-tag-fg: rgba(165, 115, 220, 0.9); --voyager-tag-bg: rgba(165, 115, 220, 0.14); }
+
+  .voyager-prompt-tag[class*="voyager-tag-"] {
+    background: var(--voyager-tag-bg);
+    color: var(--voyager-tag-fg);
+  }
+
+  /* ─── Prompt Pack Preview ─────────────────────────────── */
+  .voyager-prompt-pack-all {
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    gap: 8px;
+    font-size: 11px;
+    color: var(--text-200, rgba(232, 228, 222, 0.7));
+  }
+
+  .voyager-prompt-pack-list {
+    max-height: 180px;
+    overflow-y: auto;
+    display: flex;
+    flex-direction: column;
+    gap: 2px;
+  }
+
+  .voyager-prompt-pack-row {
+    display: flex;
+    align-items: flex-start;
+    gap: 6px;
+    padding: 4px 2px;
+  }
+
+  .voyager-prompt-form .voyager-prompt-pack-row input[type="checkbox"] {
+    width: auto;
+    margin-top: 2px;
+    flex-shrink: 0;
+  }
+
+  .voyager-prompt-pack-excluded .voyager-prompt-pack-info {
+    opacity: 0.45;
+  }
+
+  .voyager-prompt-pack-info {
+    flex: 1;
+    min-width: 0;
+  }
+
+  .voyager-prompt-pack-title {
+    font-size: 12px;
+    color: var(--text-100, rgba(232, 228, 222, 0.9));
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .voyager-prompt-pack-category {
+    font-size: 10px;
+    color: var(--text-200, rgba(232, 228, 222, 0.6));
+  }
+
+  .voyager-prompt-pack-source {
+    font-size: 10px;
+    color: var(--text-300, rgba(232, 228, 222, 0.3));
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .voyager-prompt-pack-conflict {
+    display: flex;
+    flex-direction: column;
+    align-items: flex-end;
+    gap: 2px;
+    flex-shrink: 0;
+  }
+
+  .voyager-prompt-pack-conflict-label {
+    font-size: 10px;
+    color: rgba(230, 150, 60, 0.9);
+  }
+
+  /* ─── Save From Chat ──────────────────────────────────── */
+  .voyager-prompt-save-msg {
+    position: fixed;
+    width: 22px;
+    height: 22px;
+    padding: 0;
+    border: 0.5px solid var(--border-200, rgba(255, 255, 255, 0.1));
+    border-radius: 6px;
+    background: var(--bg-100, #2b2520);
+    font-size: 12px;
+    line-height: 1;
+    cursor: pointer;
+    z-index: 9997;
+  }
+
+  .voyager-prompt-save-msg::before {
+    content: '\\1F4DD';
+  }
+
+  .voyager-prompt-source-link {
+    padding: 0;
+    border: none;
+    background: none;
+    color: var(--text-100, rgba(232, 228, 222, 0.9));
+    font: inherit;
+    text-decoration: underline;
+    cursor: pointer;
+  }
+
+  /* ─── Prompt Chains ───────────────────────────────────── */
+  .voyager-prompt-chain-list,
+  .voyager-prompt-chain-steps {
+    max-height: 180px;
+    overflow-y: auto;
+    display: flex;
+    flex-direction: column;
+    gap: 2px;
+  }
+
+  .voyager-prompt-chain-row,
+  .voyager-prompt-chain-step {
+    display: flex;
+    align-items: center;
+    gap: 6px;
+    padding: 4px 2px;
+  }
+
+  .voyager-prompt-chain-name,
+  .voyager-prompt-chain-step-title {
+    flex: 1;
+    min-width: 0;
+    font-size: 12px;
+    color: var(--text-100, rgba(232, 228, 222, 0.9));
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .voyager-prompt-chain-meta {
+    font-size: 10px;
+    color: var(--text-300, rgba(232, 228, 222, 0.4));
+    white-space: nowrap;
+  }
+
+  .voyager-prompt-chain-auto {
+    display: flex;
+    align-items: center;
+    gap: 6px;
+    font-size: 11px;
+    color: var(--text-200, rgba(232, 228, 222, 0.7));
+  }
+
+  .voyager-prompt-form .voyager-prompt-chain-auto input[type="checkbox"] {
+    width: auto;
+    flex-shrink: 0;
+  }
+
+  .voyager-chain-bar {
+    position: fixed;
+    bottom: 24px;
+    left: 50%;
+    transform: translateX(-50%);
+    z-index: 50000;
+    width: 360px;
+    max-width: calc(100vw - 32px);
+    padding: 10px 12px;
+    background-color: #2b2520;
+    background-color: var(--bg-100, #2b2520);
+    border: 0.5px solid var(--border-200, rgba(255, 255, 255, 0.1));
+    border-radius: 12px;
+    box-shadow: 0 8px 32px rgba(0, 0, 0, 0.45);
+    display: flex;
+    flex-direction: column;
+    gap: 6px;
+    font-size: 12px;
+    color: var(--text-100, rgba(232, 228, 222, 0.9));
+  }
+
+  .voyager-chain-head {
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    gap: 8px;
+  }
+
+  .voyager-chain-title {
+    font-weight: 500;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .voyager-chain-count {
+    flex-shrink: 0;
+    font-size: 10px;
+    color: var(--text-300, rgba(232, 228, 222, 0.4));
+  }
+
+  .voyager-chain-progress {
+    display: flex;
+    gap: 4px;
+  }
+
+  .voyager-chain-dot {
+    flex: 1;
+    height: 4px;
+    border-radius: 2px;
+    background: var(--border-200, rgba(255, 255, 255, 0.1));
+  }
+
+  .voyager-chain-dot-done {
+    background: var(--accent-main, rgba(217, 170, 90, 0.7));
+  }
+
+  .voyager-chain-dot-current {
+    background: var(--accent-main, rgba(217, 170, 90, 0.7));
+    opacity: 0.45;
+  }
+
+  .voyager-chain-status {
+    font-size: 11px;
+    color: var(--text-200, rgba(232, 228, 222, 0.7));
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .voyager-chain-actions {
+    display: flex;
+    justify-content: flex-end;
+    gap: 6px;
+  }
+
+  .voyager-chain-btn {
+    padding: 3px 10px;
+    border: 0.5px solid var(--border-200, rgba(255, 255, 255, 0.1));
+    border-radius: 6px;
+    background: transparent;
+    color: var(--text-200, rgba(232, 228, 222, 0.7));
+    font-size: 11px;
+    cursor: pointer;
+  }
+
+  .voyager-chain-btn:hover {
+    background: var(--bg-300, rgba(255, 255, 255, 0.06));
+  }
+
+  .voyager-chain-btn-primary {
+    border: none;
+    background: var(--accent-main, rgba(217, 170, 90, 0.7));
+    color: #1a1612;
+    font-weight: 500;
+  }
+
+  .voyager-chain-btn-primary:hover {
+    background: var(--accent-main, rgba(217, 170, 90, 0.9));
+  }
+
   /* ─── Empty ───────────────────────────────────────────── */
   .voyager-prompt-empty {
     text-align: center;
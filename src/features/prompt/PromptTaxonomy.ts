@@ -0,0 +1,261 @@
+/**
+ * Prompt categories and tags.
+ *
+ * Categories nest with `/` — `Code/Review` sits under `Code`. They stay plain
+ * strings on each prompt, so the tree is derived from the library: a
+ * category exists as long as a prompt uses it. Tags are flat. A tag's chip
+ * color is the one chosen for it, or else picked from a hash of its name so
+ * it looks the same everywhere.
+ *
+ * Edits never mutate their input; changed prompts are copied.
+ */
+
+import type { SavedPrompt, TagColor } from '@core/types';
+import { ANNOTATION_LABELS } from '@core/types';
+
+export const CATEGORY_SEPARATOR = '/';
+
+/** A category in the tree, with the number of prompts in it and below it */
+export interface CategoryNode {
+  name: string;
+  path: string;
+  count: number;
+  children: CategoryNode[];
+}
+
+/** A tag in use, with other spellings that differ only in case */
+export interface TagSummary {
+  tag: string;
+  count: number;
+  variants: string[];
+}
+
+/** Result of a bulk edit */
+export interface TaxonomyEdit {
+  prompts: SavedPrompt[];
+  /** Number of prompts that changed */
+  changed: number;
+}
+
+// ─── Categories ─────────────────────────────────────────────────
+
+/** Trim every segment and drop empty ones: ` Code / /Review ` → `Code/Review` */
+export function normalizeCategory(category: string): string {
+  return category
+    .split(CATEGORY_SEPARATOR)
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+    .join(CATEGORY_SEPARATOR);
+}
+
+/** Last segment of a category path */
+export function categoryName(path: string): string {
+  return path.slice(path.lastIndexOf(CATEGORY_SEPARATOR) + 1);
+}
+
+/** Path of the enclosing category, '' at the top level */
+export function parentCategory(path: string): string {
+  const index = path.lastIndexOf(CATEGORY_SEPARATOR);
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+/** Whether `category` is `path` or nested below it */
+export function isInCategory(category: string, path: string): boolean {
+  return category === path || category.startsWith(path + CATEGORY_SEPARATOR);
+}
+
+/** Category tree of the library, siblings sorted by name */
+export function buildCategoryTree(prompts: SavedPrompt[]): CategoryNode[] {
+  const root: CategoryNode = { name: '', path: '', count: 0, children: [] };
+  for (const prompt of prompts) {
+    const path = normalizeCategory(prompt.category);
+    if (!path) continue;
+    let node = root;
+    for (const name of path.split(CATEGORY_SEPARATOR)) {
+      let child = node.children.find((c) => c.name === name);
+      if (!child) {
+        const childPath = node.path ? node.path + CATEGORY_SEPARATOR + name : name;
+        child = { name, path: childPath, count: 0, children: [] };
+        node.children.push(child);
+      }
+      child.count++;
+      node = child;
+    }
+  }
+
+  const sort = (nodes: CategoryNode[]) => {
+    nodes.sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+    for (const node of nodes) sort(node.children);
+  };
+  sort(root.children);
+  return root.children;
+}
+
+/** Every category path in use, including the enclosing ones */
+export function categoryPaths(prompts: SavedPrompt[]): string[] {
+  const paths: string[] = [];
+  const walk = (nodes: CategoryNode[]) => {
+    for (const node of nodes) {
+      paths.push(node.path);
+      walk(node.children);
+    }
+  };
+  walk(buildCategoryTree(prompts));
+  return paths;
+}
+
+/**
+ * Normalized category, spelled like an existing one that differs only in
+ * case — so typing "review" files the prompt under the existing "Review".
+ */
+export function canonicalCategory(category: string, prompts: SavedPrompt[]): string {
+  const path = normalizeCategory(category);
+  const lower = path.toLowerCase();
+  return categoryPaths(prompts).find((existing) => existing.toLowerCase() === lower) ?? path;
+}
+
+function editPrompts(
+  prompts: SavedPrompt[],
+  edit: (prompt: SavedPrompt) => Partial<SavedPrompt> | null,
+): TaxonomyEdit {
+  let changed = 0;
+  const next = prompts.map((prompt) => {
+    const patch = edit(prompt);
+    if (!patch) return prompt;
+    changed++;
+    return { ...prompt, ...patch };
+  });
+  return { prompts: next, changed };
+}
+
+/** Put one prompt into `path` ('' = uncategorized) */
+export function setCategory(prompts: SavedPrompt[], id: string, path: string): TaxonomyEdit {
+  const category = normalizeCategory(path);
+  return editPrompts(prompts, (prompt) =>
+    prompt.id === id && normalizeCategory(prompt.category) !== category ? { category } : null,
+  );
+}
+
+/**
+ * Rename category `from` to `to`, subcategories included. Renaming onto an
+ * existing category merges the two; an empty `to` moves the contents up to
+ * the top level.
+ */
+export function renameCategory(prompts: SavedPrompt[], from: string, to: string): TaxonomyEdit {
+  const target = normalizeCategory(to);
+  return editPrompts(prompts, (prompt) => {
+    const category = normalizeCategory(prompt.category);
+    if (!isInCategory(category, from)) return null;
+    const next = normalizeCategory(target + category.slice(from.length));
+    return next !== prompt.category ? { category: next } : null;
+  });
+}
+
+/** Whether category `from` may be moved into `parent` ('' = top level) */
+export function canMoveCategory(from: string, parent: string): boolean {
+  return parent !== parentCategory(from) && !isInCategory(parent, from);
+}
+
+/** Path category `from` gets when moved into `parent` */
+export function movedCategoryPath(from: string, parent: string): string {
+  const name = categoryName(from);
+  return parent ? parent + CATEGORY_SEPARATOR + name : name;
+}
+
+/** Move category `from` with everything below it into `parent` ('' = top level) */
+export function moveCategory(prompts: SavedPrompt[], from: string, parent: string): TaxonomyEdit {
+  if (!canMoveCategory(from, parent)) return { prompts, changed: 0 };
+  return renameCategory(prompts, from, movedCategoryPath(from, parent));
+}
+
+/** Remove a category level; its prompts and subcategories move up one level */
+export function deleteCategory(prompts: SavedPrompt[], path: string): TaxonomyEdit {
+  return renameCategory(prompts, path, parentCategory(path));
+}
+
+// ─── Tags ───────────────────────────────────────────────────────
+
+/** Tags in use, most used first; spellings differing in case are grouped */
+export function collectTags(prompts: SavedPrompt[]): TagSummary[] {
+  const counts = new Map<string, number>();
+  for (const prompt of prompts) {
+    for (const tag of new Set(prompt.tags)) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+
+  const summaries = [...counts].map(([tag, count]) => ({ tag, count, variants: [] as string[] }));
+  for (const summary of summaries) {
+    const key = summary.tag.toLowerCase();
+    summary.variants = summaries
+      .filter((other) => other !== summary && other.tag.toLowerCase() === key)
+      .map((other) => other.tag);
+  }
+  return summaries.sort((a, b) =>
+    b.count - a.count || a.tag.localeCompare(b.tag, undefined, { sensitivity: 'base' }),
+  );
+}
+
+/**
+ * Tags spelled like existing ones that differ only in case, duplicates
+ * dropped — the most used spelling wins.
+ */
+export function canonicalTags(tags: string[], prompts: SavedPrompt[]): string[] {
+  const known = new Map<string, string>();
+  for (const { tag } of collectTags(prompts)) {
+    const key = tag.toLowerCase();
+    if (!known.has(key)) known.set(key, tag);
+  }
+  const result: string[] = [];
+  for (const tag of tags) {
+    const canonical = known.get(tag.toLowerCase()) ?? tag;
+    if (!result.includes(canonical)) result.push(canonical);
+  }
+  return result;
+}
+
+/** Rename a tag on every prompt; renaming onto an existing tag merges them */
+export function renameTag(prompts: SavedPrompt[], from: string, to: string): TaxonomyEdit {
+  const target = to.trim();
+  if (!target || target === from) return { prompts, changed: 0 };
+  return editPrompts(prompts, (prompt) => {
+    if (!prompt.tags.includes(from)) return null;
+    const tags = [...new Set(prompt.tags.map((tag) => (tag === from ? target : tag)))];
+    return { tags };
+  });
+}
+
+/** Remove a tag from every prompt */
+export function deleteTag(prompts: SavedPrompt[], tag: string): TaxonomyEdit {
+  return editPrompts(prompts, (prompt) =>
+    prompt.tags.includes(tag) ? { tags: prompt.tags.filter((t) => t !== tag) } : null,
+  );
+}
+
+// ─── Tag Colors ─────────────────────────────────────────────────
+
+export function tagColorKey(tag: string): string {
+  return tag.toLowerCase();
+}
+
+/** Chosen color of a tag, or a stable one derived from its name */
+export function tagColor(tag: string, colors: Record<string, TagColor>): TagColor {
+  const key = tagColorKey(tag);
+  const chosen = colors[key];
+  if (chosen) return chosen;
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) hash = (hash * 31 + key.charCodeAt(i)) >>> 0;
+  return ANNOTATION_LABELS[hash % ANNOTATION_LABELS.length] ?? 'blue';
+}
+
+/** Colors after a rename: `to` keeps its own color, else inherits the one of `from` */
+export function renameTagColor(colors: Record<string, TagColor>, from: string, to: string): Record<string, TagColor> {
+  const inherited = colors[tagColorKey(from)];
+  const toKey = tagColorKey(to.trim());
+  if (!inherited || colors[toKey]) return colors;
+  return { ...colors, [toKey]: inherited };
+}
+
+/** Drop colors of tags no prompt uses anymore */
+export function pruneTagColors(colors: Record<string, TagColor>, prompts: SavedPrompt[]): Record<string, TagColor> {
+  const used = new Set(prompts.flatMap((prompt) => prompt.tags.map(tagColorKey)));
+  return Object.fromEntries(Object.entries(colors).filter(([key]) => used.has(key)));
+}
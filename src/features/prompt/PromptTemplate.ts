@@ -0,0 +1,59 @@
+/**
+ * Prompt template variables.
+ *
+ * Placeholders use double braces:
+ * - `{{name}}` — asked for in the fill-in form
+ * - `{{name:default}}` — same, pre-filled with `default`
+ * - `{{selection}}` — pre-filled with the text selected on the page
+ * - `{{date}}`, `{{time}}`, `{{title}}`, `{{user}}` — resolved automatically
+ *
+ * Placeholder names are case-sensitive; the same name used twice is asked once.
+ */
+
+/** Placeholders resolved without asking */
+export const BUILTIN_VARIABLES = ['date', 'time', 'title', 'user'] as const;
+
+export type BuiltinVariable = (typeof BUILTIN_VARIABLES)[number];
+
+/** Placeholder pre-filled from the page selection */
+export const SELECTION_VARIABLE = 'selection';
+
+/** A placeholder shown in the fill-in form */
+export interface TemplateField {
+  name: string;
+  defaultValue: string;
+}
+
+const PLACEHOLDER_RE = /\{\{\s*([\p{L}\p{N}_-]+)\s*(?::([^}]*))?\}\}/gu;
+
+function isBuiltin(name: string): name is BuiltinVariable {
+  return (BUILTIN_VARIABLES as readonly string[]).includes(name);
+}
+
+/** Fields to ask for, in order of first appearance (built-ins excluded) */
+export function parseTemplateFields(content: string): TemplateField[] {
+  const fields = new Map<string, TemplateField>();
+  for (const match of content.matchAll(PLACEHOLDER_RE)) {
+    const name = match[1];
+    if (!name || isBuiltin(name) || fields.has(name)) continue;
+    fields.set(name, { name, defaultValue: match[2]?.trim() ?? '' });
+  }
+  return [...fields.values()];
+}
+
+/** Whether the content contains any placeholder */
+export function hasPlaceholders(content: string): boolean {
+  return content.search(PLACEHOLDER_RE) !== -1;
+}
+
+/**
+ * Replace every placeholder with its value. Names missing from `values`
+ * fall back to the placeholder's default, or an empty string.
+ */
+export function renderTemplate(content: string, values: Record<string, string>): string {
+  return content.replace(PLACEHOLDER_RE, (_match, name: string, fallback: string | undefined) => {
+    const value = values[name];
+    if (value !== undefined && (value !== '' || !isBuiltin(name))) return value;
+    return fallback?.trim() ?? '';
+  });
+}
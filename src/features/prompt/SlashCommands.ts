@@ -0,0 +1,300 @@
+/**
+ * Slash-command autocomplete for the chat input.
+ *
+ * Typing `/` at the start of a line or after a space, optionally followed by
+ * letters, opens a popup above the caret listing matching prompts — ranked
+ * by title, tags and recent use. Arrow keys move the selection, Enter or Tab
+ * picks, Escape closes. On pick the typed trigger is selected in the editor
+ * and handed to `onPick`, which replaces it through the regular insert path.
+ */
+
+import type { Locale, SavedPrompt } from '@core/types';
+import { DOM } from '@core/services/DOMService';
+import { t } from '@i18n/index';
+
+const MAX_SUGGESTIONS = 8;
+const PREVIEW_LENGTH = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** `/query` directly before the caret, at line start or after whitespace */
+const TRIGGER_RE = /(?:^|\s)\/([\p{L}\p{N}_-]*)$/u;
+
+export interface SlashCommandOptions {
+  locale: Locale;
+  getPrompts: () => SavedPrompt[];
+  /** Class list of a tag chip, for its color */
+  tagClass: (tag: string) => string;
+  /** Called with the typed trigger selected in the chat input */
+  onPick: (prompt: SavedPrompt) => void;
+}
+
+interface SlashState {
+  options: SlashCommandOptions | null;
+  popup: HTMLElement | null;
+  /** Text node and offsets of the typed trigger, including the slash */
+  trigger: { node: Text; start: number; end: number } | null;
+  suggestions: SavedPrompt[];
+  activeIndex: number;
+  cleanups: (() => void)[];
+}
+
+function createState(): SlashState {
+  return {
+    options: null,
+    popup: null,
+    trigger: null,
+    suggestions: [],
+    activeIndex: 0,
+    cleanups: [],
+  };
+}
+
+let state: SlashState = createState();
+
+// ─── Ranking ────────────────────────────────────────────────────
+
+/** 0 = no match; prefix beats word start beats substring */
+function matchScore(text: string, query: string): number {
+  const lower = text.toLowerCase();
+  const pos = lower.indexOf(query);
+  if (pos === -1) return 0;
+  if (pos === 0) return 3;
+  return /[\p{L}\p{N}]/u.test(lower.charAt(pos - 1)) ? 1 : 2;
+}
+
+/** Recently used prompts get up to +2, fading over a few days */
+function recencyBoost(prompt: SavedPrompt, now: number): number {
+  if (!prompt.lastUsedAt) return 0;
+  return 2 / (1 + (now - prompt.lastUsedAt) / DAY_MS);
+}
+
+/** Prompts matching `query` by title or tag, best first */
+function rankPrompts(prompts: SavedPrompt[], query: string, now = Date.now()): SavedPrompt[] {
+  const q = query.toLowerCase();
+  const scored: { prompt: SavedPrompt; score: number }[] = [];
+
+  for (const prompt of prompts) {
+    let score = 0;
+    if (q) {
+      const title = matchScore(prompt.title, q);
+      const tag = Math.max(0, ...prompt.tags.map((tag) => matchScore(tag, q)));
+      if (title === 0 && tag === 0) continue;
+      score = title * 2 + tag;
+    }
+    scored.push({ prompt, score: score + recencyBoost(prompt, now) });
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.prompt.title.localeCompare(b.prompt.title))
+    .slice(0, MAX_SUGGESTIONS)
+    .map((s) => s.prompt);
+}
+
+// ─── Trigger Detection ──────────────────────────────────────────
+
+/** The chat input containing `node`, if any */
+function inputFieldOf(node: Node | null): HTMLElement | null {
+  const input = DOM.query('inputField') as HTMLElement | null;
+  return input && node && input.contains(node) ? input : null;
+}
+
+/** Locate a `/query` trigger right before the collapsed caret */
+function findTrigger(): { node: Text; start: number; end: number; query: string } | null {
+  const selection = window.getSelection();
+  if (!selection || !selection.isCollapsed || selection.rangeCount === 0) return null;
+  const node = selection.anchorNode;
+  if (!(node instanceof Text) || !inputFieldOf(node)) return null;
+
+  const before = node.data.slice(0, selection.anchorOffset);
+  const match = TRIGGER_RE.exec(before);
+  if (!match) return null;
+  const query = match[1] ?? '';
+  return { node, start: before.length - query.length - 1, end: before.length, query };
+}
+
+function onInput(): void {
+  const found = findTrigger();
+  if (!found || !state.options) {
+    closePopup();
+    return;
+  }
+
+  const suggestions = rankPrompts(state.options.getPrompts(), found.query);
+  if (suggestions.length === 0) {
+    closePopup();
+    return;
+  }
+
+  state.trigger = { node: found.node, start: found.start, end: found.end };
+  state.suggestions = suggestions;
+  state.activeIndex = 0;
+  renderPopup();
+}
+
+/** Caret moved away from the trigger (click, Home/End, ...) */
+function onSelectionChange(): void {
+  if (state.popup && !findTrigger()) closePopup();
+}
+
+function onKeydown(e: KeyboardEvent): void {
+  if (!state.popup) return;
+
+  const total = state.suggestions.length;
+  switch (e.key) {
+    case 'ArrowDown':
+      state.activeIndex = (state.activeIndex + 1) % total;
+      break;
+    case 'ArrowUp':
+      state.activeIndex = (state.activeIndex - 1 + total) % total;
+      break;
+    case 'Enter':
+    case 'Tab':
+      if (e.shiftKey) return;
+      pick(state.activeIndex);
+      break;
+    case 'Escape':
+      closePopup();
+      break;
+    default:
+      return;
+  }
+
+  // Keep the editor from sending the message or moving the caret
+  e.preventDefault();
+  e.stopPropagation();
+  if (state.popup) updateActive();
+}
+
+// ─── Popup ──────────────────────────────────────────────────────
+
+function renderPopup(): void {
+  const trigger = state.trigger;
+  if (!trigger) return;
+
+  const popup = state.popup ?? DOM.createElement('div', {
+    'data-voyager': 'slash-commands',
+    class: 'voyager-slash-popup',
+    role: 'listbox',
+  });
+  popup.replaceChildren();
+
+  state.suggestions.forEach((prompt, index) => {
+    const item = DOM.createElement('div', {
+      class: 'voyager-slash-item',
+      role: 'option',
+    });
+    const head = DOM.createElement('div', { class: 'voyager-slash-item-head' }, [
+      DOM.createElement('span', { class: 'voyager-slash-item-title' }, [prompt.title]),
+    ]);
+    for (const tag of prompt.tags.slice(0, 3)) {
+      head.appendChild(DOM.createElement('span', {
+        class: state.options?.tagClass(tag) ?? 'voyager-prompt-tag',
+      }, [tag]));
+    }
+    const preview = prompt.content.replace(/\s+/g, ' ').slice(0, PREVIEW_LENGTH);
+    item.append(
+      head,
+      DOM.createElement('div', { class: 'voyager-slash-item-preview' }, [
+        preview + (prompt.content.length > PREVIEW_LENGTH ? '…' : ''),
+      ]),
+    );
+
+    // mousedown would move focus (and the caret) out of the editor
+    item.addEventListener('mousedown', (e) => {
+      e.preventDefault();
+      pick(index);
+    });
+    item.addEventListener('mousemove', () => {
+      if (state.activeIndex === index) return;
+      state.activeIndex = index;
+      updateActive();
+    });
+    popup.appendChild(item);
+  });
+
+  popup.appendChild(DOM.createElement('div', { class: 'voyager-slash-footer' }, [
+    t(state.options?.locale ?? 'en').slashCommandHint,
+  ]));
+
+  if (!state.popup) {
+    document.body.appendChild(popup);
+    state.popup = popup;
+  }
+  updateActive();
+  positionPopup(trigger);
+}
+
+/** Open above the trigger — the chat input sits at the bottom of the page */
+function positionPopup(trigger: { node: Text; start: number; end: number }): void {
+  if (!state.popup) return;
+  const range = document.createRange();
+  range.setStart(trigger.node, trigger.start);
+  range.setEnd(trigger.node, trigger.end);
+  const rect = range.getBoundingClientRect();
+
+  const width = state.popup.offsetWidth;
+  const left = Math.max(8, Math.min(rect.left, window.innerWidth - width - 8));
+  state.popup.style.left = `${left}px`;
+  state.popup.style.bottom = `${window.innerHeight - rect.top + 6}px`;
+}
+
+function updateActive(): void {
+  const items = state.popup?.querySelectorAll('.voyager-slash-item') ?? [];
+  items.forEach((item, i) => {
+    const active = i === state.activeIndex;
+    item.classList.toggle('voyager-slash-item-active', active);
+    item.setAttribute('aria-selected', String(active));
+    if (active) (item as HTMLElement).scrollIntoView({ block: 'nearest' });
+  });
+}
+
+/** Select the typed trigger in the editor and hand the prompt over */
+function pick(index: number): void {
+  const prompt = state.suggestions[index];
+  const trigger = state.trigger;
+  const onPick = state.options?.onPick;
+  closePopup();
+  if (!prompt || !trigger || !onPick || !trigger.node.isConnected) return;
+
+  const selection = window.getSelection();
+  const end = Math.min(trigger.end, trigger.node.length);
+  selection?.setBaseAndExtent(trigger.node, trigger.start, trigger.node, end);
+  onPick(prompt);
+}
+
+function closePopup(): void {
+  state.popup?.remove();
+  state.popup = null;
+  state.trigger = null;
+  state.suggestions = [];
+  state.activeIndex = 0;
+}
+
+// ─── Lifecycle ──────────────────────────────────────────────────
+
+export function initSlashCommands(options: SlashCommandOptions): void {
+  destroySlashCommands();
+  state.options = options;
+
+  // Capture phase: the editor handles Enter before it bubbles
+  document.addEventListener('input', onInput, true);
+  document.addEventListener('keydown', onKeydown, true);
+  document.addEventListener('selectionchange', onSelectionChange);
+  const onBlur = (e: FocusEvent) => {
+    if (inputFieldOf(e.target as Node)) closePopup();
+  };
+  document.addEventListener('focusout', onBlur, true);
+
+  state.cleanups.push(
+    () => document.removeEventListener('input', onInput, true),
+    () => document.removeEventListener('keydown', onKeydown, true),
+    () => document.removeEventListener('selectionchange', onSelectionChange),
+    () => document.removeEventListener('focusout', onBlur, true),
+  );
+}
+
+export function destroySlashCommands(): void {
+  for (const cleanup of state.cleanups) cleanup();
+  closePopup();
+  state = createState();
+}
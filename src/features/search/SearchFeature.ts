@@ -0,0 +1,443 @@
+/**
+ * Search feature module — command-style overlay for local full-text search.
+ *
+ * Opens with Ctrl/Cmd+Shift+F and ranks, in one list:
+ * - message text of locally cached conversations (SnapshotService)
+ * - conversation titles
+ * - folder names (smart folders with their rule-matched conversations)
+ * - prompt titles (while the prompt library is enabled)
+ * - starred message previews
+ *
+ * Picking a result navigates to the conversation and scrolls to the matching
+ * message; prompt results are inserted into the chat input.
+ */
+
+import type { FeatureModule } from '@pages/content/index';
+import type {
+  VoyagerSettings,
+  Folder,
+  MessageAnnotation,
+  SavedPrompt,
+  SnapshotMeta,
+  StarredMessage,
+  Locale,
+} from '@core/types';
+import { DOM } from '@core/services/DOMService';
+import { Storage } from '@core/services/StorageService';
+import { Snapshots } from '@core/services/SnapshotService';
+import { Logger } from '@core/services/LoggerService';
+import { buildSnippet, debounce, scoreText, tokenizeQuery } from '@core/utils';
+import { t } from '@i18n/index';
+import { insertPrompt, isPromptLibraryActive } from '@features/prompt/PromptFeature';
+import { folderPath } from '@features/export/ZipBundle';
+import { collectConversationFacts, evaluateSmartFolder } from '@features/folder/SmartFolders';
+import { SEARCH_CSS } from './SearchStyles';
+
+let locale: Locale = 'en';
+
+const TAG = 'Search';
+const MAX_RESULTS = 30;
+const SNAPSHOT_HIT_LIMIT = 60;
+
+/** Relative weights of the local sources against message text (1) */
+const FOLDER_WEIGHT = 2;
+const PROMPT_WEIGHT = 2;
+const STAR_WEIGHT = 1.5;
+
+type SearchResultKind = 'message' | 'conversation' | 'folder' | 'prompt' | 'star';
+
+interface SearchResult {
+  kind: SearchResultKind;
+  score: number;
+  title: string;
+  snippet: string;
+  conversationId?: string;
+  messageIndex?: number;
+  prompt?: SavedPrompt;
+}
+
+/** Storage-backed sources, loaded each time the overlay opens */
+interface SearchSources {
+  folders: Folder[];
+  prompts: SavedPrompt[];
+  starred: StarredMessage[];
+  titles: Map<string, string>;
+}
+
+interface SearchState {
+  backdrop: HTMLElement | null;
+  input: HTMLInputElement | null;
+  listEl: HTMLElement | null;
+  results: SearchResult[];
+  terms: string[];
+  selected: number;
+  sources: SearchSources | null;
+  /** Incremented per query — late responses for older queries are dropped */
+  querySeq: number;
+  cleanups: (() => void)[];
+}
+
+function createState(): SearchState {
+  return {
+    backdrop: null,
+    input: null,
+    listEl: null,
+    results: [],
+    terms: [],
+    selected: 0,
+    sources: null,
+    querySeq: 0,
+    cleanups: [],
+  };
+}
+
+let state: SearchState = createState();
+
+// ─── Overlay ────────────────────────────────────────────────────
+
+function isSearchShortcut(e: KeyboardEvent): boolean {
+  return (e.ctrlKey || e.metaKey) && e.shiftKey && !e.altKey && e.key.toLowerCase() === 'f';
+}
+
+function openOverlay(): void {
+  if (state.backdrop) {
+    state.input?.focus();
+    return;
+  }
+
+  const backdrop = DOM.createElement('div', {
+    'data-voyager': 'search-overlay',
+    class: 'voyager-search-backdrop',
+  });
+  const dialog = DOM.createElement('div', {
+    class: 'voyager-search-dialog',
+    role: 'dialog',
+    'aria-label': t(locale).featureSearch,
+  });
+
+  const input = DOM.createElement('input', {
+    type: 'text',
+    class: 'voyager-search-input',
+    placeholder: t(locale).searchPlaceholder,
+    'aria-label': t(locale).search,
+  }) as HTMLInputElement;
+  const list = DOM.createElement('div', { class: 'voyager-search-results', role: 'listbox' });
+  const footer = DOM.createElement('div', { class: 'voyager-search-footer' }, [t(locale).searchKeyboardHint]);
+
+  dialog.append(input, list, footer);
+  backdrop.appendChild(dialog);
+
+  backdrop.addEventListener('mousedown', (e) => {
+    if (e.target === backdrop) closeOverlay();
+  });
+  input.addEventListener('input', () => debouncedSearch(input.value));
+  input.addEventListener('keydown', handleInputKeydown);
+  list.addEventListener('click', (e) => {
+    const row = (e.target as Element).closest('.voyager-search-result');
+    const result = state.results[Number(row?.getAttribute('data-voyager-id'))];
+    if (result) void selectResult(result);
+  });
+
+  document.body.appendChild(backdrop);
+  state.backdrop = backdrop;
+  state.input = input;
+  state.listEl = list;
+  state.results = [];
+  state.terms = [];
+  state.selected = 0;
+  renderResults();
+  input.focus();
+
+  loadSources().then((sources) => {
+    state.sources = sources;
+    if (state.input?.value) void runSearch(state.input.value);
+  }).catch((err) => {
+    Logger.error(TAG, 'Failed to load search sources', err);
+  });
+}
+
+function closeOverlay(): void {
+  state.querySeq++;
+  state.backdrop?.remove();
+  state.backdrop = null;
+  state.input = null;
+  state.listEl = null;
+  state.results = [];
+}
+
+function handleInputKeydown(e: KeyboardEvent): void {
+  if (e.key === 'Escape') {
+    e.preventDefault();
+    closeOverlay();
+  } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+    e.preventDefault();
+    if (state.results.length === 0) return;
+    const step = e.key === 'ArrowDown' ? 1 : -1;
+    state.selected = (state.selected + step + state.results.length) % state.results.length;
+    updateSelection();
+  } else if (e.key === 'Enter') {
+    e.preventDefault();
+    const result = state.results[state.selected];
+    if (result) void selectResult(result);
+  }
+}
+
+// ─── Searching ──────────────────────────────────────────────────
+
+async function loadSources(): Promise<SearchSources> {
+  const [folders, prompts, starred, metas] = await Promise.all([
+    Storage.getFolders(),
+    // Prompts are inserted through the prompt library, so only while it runs
+    isPromptLibraryActive() ? Storage.getPrompts() : Promise.resolve([]),
+    Storage.getStarred(),
+    Snapshots.list(),
+  ]);
+  const resolved = await resolveSmartFolders(folders, starred, metas);
+
+  const titles = new Map<string, string>();
+  for (const folder of resolved) {
+    for (const conv of folder.conversations) titles.set(conv.id, conv.title);
+  }
+  // Snapshot titles are captured from the page and are the most current
+  for (const meta of metas) titles.set(meta.conversationId, meta.title);
+
+  return { folders: resolved, prompts, starred, titles };
+}
+
+/**
+ * Smart folders store no conversations; fill in what their rules match
+ * right now, the same way the folder panel does.
+ */
+async function resolveSmartFolders(
+  folders: Folder[],
+  starred: StarredMessage[],
+  snapshots: SnapshotMeta[],
+): Promise<Folder[]> {
+  if (!folders.some((folder) => folder.smart)) return folders;
+  const annotations = await Storage.getAnnotations().catch((): MessageAnnotation[] => []);
+  const now = Date.now();
+  const facts = collectConversationFacts({
+    sidebar: DOM.getSidebarConversations(),
+    snapshots,
+    starred,
+    annotations,
+    folders,
+    currentId: DOM.getConversationId(),
+    now,
+  });
+  return folders.map((folder) =>
+    folder.smart ? { ...folder, conversations: evaluateSmartFolder(folder.smart, facts, now) } : folder,
+  );
+}
+
+/** Rank folder, prompt and star matches from storage */
+function searchLocalSources(sources: SearchSources, terms: string[]): SearchResult[] {
+  const results: SearchResult[] = [];
+
+  for (const folder of sources.folders) {
+    const score = scoreText(folder.name, terms);
+    if (score === 0) continue;
+    const path = folderPath(folder, sources.folders).join(' / ');
+    // One result per conversation, so a folder hit leads somewhere directly
+    for (const conv of folder.conversations) {
+      results.push({
+        kind: 'folder',
+        score: score * FOLDER_WEIGHT,
+        title: conv.title,
+        snippet: path,
+        conversationId: conv.id,
+      });
+    }
+  }
+
+  for (const prompt of sources.prompts) {
+    const score = scoreText(prompt.title, terms);
+    if (score === 0) continue;
+    results.push({
+      kind: 'prompt',
+      score: score * PROMPT_WEIGHT,
+      title: prompt.title,
+      snippet: buildSnippet(prompt.content, terms),
+      prompt,
+    });
+  }
+
+  for (const star of sources.starred) {
+    const score = scoreText(star.preview, terms);
+    if (score === 0) continue;
+    results.push({
+      kind: 'star',
+      score: score * STAR_WEIGHT,
+      title: sources.titles.get(star.conversationId) ?? t(locale).untitledConversation,
+      snippet: buildSnippet(star.preview, terms),
+      conversationId: star.conversationId,
+      messageIndex: star.messageIndex,
+    });
+  }
+
+  return results;
+}
+
+/** Keep the best-scoring result per target (message, conversation or prompt) */
+function dedupeResults(results: SearchResult[]): SearchResult[] {
+  const best = new Map<string, SearchResult>();
+  for (const result of results) {
+    const key = result.prompt
+      ? `prompt:${result.prompt.id}`
+      : `${result.conversationId}:${result.messageIndex ?? ''}`;
+    const existing = best.get(key);
+    if (!existing || result.score > existing.score) best.set(key, result);
+  }
+  return [...best.values()];
+}
+
+async function runSearch(query: string): Promise<void> {
+  const seq = ++state.querySeq;
+  const terms = tokenizeQuery(query);
+  if (terms.length === 0) {
+    state.results = [];
+    state.terms = [];
+    renderResults();
+    return;
+  }
+
+  let snapshotResults: SearchResult[] = [];
+  try {
+    const hits = await Snapshots.search(query, SNAPSHOT_HIT_LIMIT);
+    snapshotResults = hits.map((hit) => ({
+      kind: hit.messageIndex === null ? 'conversation' : 'message',
+      score: hit.score,
+      title: hit.title,
+      snippet: hit.messageIndex === null ? '' : hit.snippet,
+      conversationId: hit.conversationId,
+      messageIndex: hit.messageIndex ?? undefined,
+    }));
+  } catch (err) {
+    Logger.warn(TAG, 'Snapshot search failed', err);
+  }
+  if (seq !== state.querySeq) return;
+
+  const localResults = state.sources ? searchLocalSources(state.sources, terms) : [];
+  state.results = dedupeResults([...snapshotResults, ...localResults])
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RESULTS);
+  state.terms = terms;
+  state.selected = 0;
+  renderResults();
+}
+
+const debouncedSearch = debounce((query: string) => void runSearch(query), 150);
+
+// ─── Rendering ──────────────────────────────────────────────────
+
+const KIND_LABELS: Record<SearchResultKind, () => string> = {
+  message: () => t(locale).searchKindMessage,
+  conversation: () => t(locale).searchKindConversation,
+  folder: () => t(locale).searchKindFolder,
+  prompt: () => t(locale).searchKindPrompt,
+  star: () => t(locale).searchKindStar,
+};
+
+function renderResults(): void {
+  const list = state.listEl;
+  if (!list) return;
+  list.replaceChildren();
+
+  if (state.results.length === 0) {
+    const hasQuery = state.terms.length > 0;
+    list.appendChild(DOM.createElement('div', { class: 'voyager-search-empty' }, [
+      hasQuery ? t(locale).searchNoResults : t(locale).searchEmptyHint,
+    ]));
+    return;
+  }
+
+  state.results.forEach((result, i) => {
+    const row = DOM.createElement('div', {
+      class: 'voyager-search-result' + (i === state.selected ? ' voyager-search-result-active' : ''),
+      role: 'option',
+      'data-voyager-id': String(i),
+    });
+
+    const head = DOM.createElement('div', { class: 'voyager-search-result-head' });
+    head.appendChild(DOM.createElement('span', { class: 'voyager-search-result-kind' }, [
+      KIND_LABELS[result.kind](),
+    ]));
+    const title = DOM.createElement('span', { class: 'voyager-search-result-title' });
+    title.append(...DOM.highlightMatches(result.title, state.terms));
+    head.appendChild(title);
+    row.appendChild(head);
+
+    if (result.snippet) {
+      const snippet = DOM.createElement('div', { class: 'voyager-search-result-snippet' });
+      snippet.append(...DOM.highlightMatches(result.snippet, state.terms));
+      row.appendChild(snippet);
+    }
+
+    row.addEventListener('mousemove', () => {
+      if (state.selected === i) return;
+      state.selected = i;
+      updateSelection();
+    });
+    list.appendChild(row);
+  });
+}
+
+function updateSelection(): void {
+  const rows = state.listEl?.querySelectorAll('.voyager-search-result') ?? [];
+  rows.forEach((row, i) => {
+    row.classList.toggle('voyager-search-result-active', i === state.selected);
+  });
+  (rows[state.selected] as HTMLElement | undefined)?.scrollIntoView({ block: 'nearest' });
+}
+
+// ─── Navigation ─────────────────────────────────────────────────
+
+async function selectResult(result: SearchResult): Promise<void> {
+  closeOverlay();
+
+  if (result.prompt) {
+    await insertPrompt(result.prompt);
+    return;
+  }
+  if (!result.conversationId) return;
+  if (result.messageIndex === undefined) {
+    DOM.navigateToConversation(result.conversationId);
+  } else {
+    await DOM.revealMessage(result.conversationId, result.messageIndex);
+  }
+}
+
+// ─── Feature Module Export ──────────────────────────────────────
+
+export const SearchFeature: FeatureModule = {
+  key: 'search',
+
+  init(settings: VoyagerSettings) {
+    Logger.info(TAG, 'Initializing search overlay');
+    locale = settings.locale ?? 'en';
+    state = createState();
+    DOM.injectStyles('voyager-search', SEARCH_CSS);
+
+    // Capture phase so claude.ai's own handlers cannot swallow the shortcut
+    const onKeydown = (e: KeyboardEvent) => {
+      if (!isSearchShortcut(e)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      if (state.backdrop) {
+        closeOverlay();
+      } else {
+        openOverlay();
+      }
+    };
+    document.addEventListener('keydown', onKeydown, true);
+    state.cleanups.push(() => document.removeEventListener('keydown', onKeydown, true));
+  },
+
+  destroy() {
+    Logger.info(TAG, 'Destroying search overlay');
+    for (const cleanup of state.cleanups) cleanup();
+    closeOverlay();
+    DOM.removeStyles('voyager-search');
+    state = createState();
+  },
+};
@@ -0,0 +1,122 @@
+/**
+ * CSS styles for the Search overlay.
+ * Uses claude.ai CSS variables for native integration.
+ */
+
+export const SEARCH_CSS = `
+  /* ─── Overlay ────────────────────────────────────────── */
+  .voyager-search-backdrop {
+    position: fixed;
+    inset: 0;
+    z-index: 60000;
+    background: rgba(0, 0, 0, 0.45);
+    display: flex;
+    justify-content: center;
+    align-items: flex-start;
+    padding-top: 12vh;
+  }
+
+  .voyager-search-dialog {
+    width: min(640px, calc(100vw - 32px));
+    max-height: 70vh;
+    background-color: #2b2520;
+    background-color: var(--bg-100, #2b2520);
+    border: 0.5px solid var(--border-200, rgba(255, 255, 255, 0.1));
+    border-radius: 12px;
+    box-shadow: 0 16px 48px rgba(0, 0, 0, 0.55);
+    display: flex;
+    flex-direction: column;
+    overflow: hidden;
+  }
+
+  .voyager-search-input {
+    width: 100%;
+    padding: 14px 16px;
+    border: none;
+    border-bottom: 0.5px solid var(--border-200, rgba(255, 255, 255, 0.1));
+    background: transparent;
+    color: var(--text-100, rgba(232, 228, 222, 0.95));
+    font-size: 15px;
+    outline: none;
+  }
+
+  .voyager-search-input::placeholder {
+    color: var(--text-300, rgba(232, 228, 222, 0.3));
+  }
+
+  /* ─── Results ────────────────────────────────────────── */
+  .voyager-search-results {
+    flex: 1;
+    overflow-y: auto;
+    padding: 4px;
+    scrollbar-width: thin;
+    scrollbar-color: rgba(255, 255, 255, 0.08) transparent;
+  }
+
+  .voyager-search-result {
+    display: flex;
+    flex-direction: column;
+    gap: 2px;
+    padding: 8px 12px;
+    border-radius: 8px;
+    cursor: pointer;
+  }
+
+  .voyager-search-result-active {
+    background: var(--bg-300, rgba(255, 255, 255, 0.06));
+  }
+
+  .voyager-search-result-head {
+    display: flex;
+    align-items: baseline;
+    gap: 8px;
+    min-width: 0;
+  }
+
+  .voyager-search-result-kind {
+    flex-shrink: 0;
+    font-size: 10px;
+    text-transform: uppercase;
+    letter-spacing: 0.04em;
+    color: var(--accent-main, rgba(217, 170, 90, 0.9));
+  }
+
+  .voyager-search-result-title {
+    font-size: 13px;
+    font-weight: 500;
+    color: var(--text-100, rgba(232, 228, 222, 0.95));
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .voyager-search-result-snippet {
+    font-size: 12px;
+    line-height: 1.45;
+    color: var(--text-300, rgba(232, 228, 222, 0.55));
+    overflow: hidden;
+    display: -webkit-box;
+    -webkit-line-clamp: 2;
+    -webkit-box-orient: vertical;
+  }
+
+  .voyager-search-result mark {
+    background: rgba(217, 170, 90, 0.3);
+    color: inherit;
+    border-radius: 2px;
+  }
+
+  .voyager-search-empty {
+    padding: 20px 16px;
+    text-align: center;
+    font-size: 12px;
+    color: var(--text-300, rgba(232, 228, 222, 0.4));
+  }
+
+  .voyager-search-footer {
+    padding: 6px 12px;
+    border-top: 0.5px solid var(--border-200, rgba(255, 255, 255, 0.1));
+    font-size: 11px;
+    color: var(--text-300, rgba(232, 228, 222, 0.35));
+  }
+`;
@@ -0,0 +1,9 @@
+/**
+ * Search feature.
+ *
+ * Command-style overlay (Ctrl/Cmd+Shift+F) with ranked full-text search over
+ * cached conversations, folder names, prompt titles and starred messages.
+ * Results jump straight to the matching message.
+ */
+
+export { SearchFeature } from './SearchFeature';
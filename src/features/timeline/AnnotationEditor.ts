@@ -0,0 +1,169 @@
+/**
+ * Annotation editor popover.
+ *
+ * Small floating form for a message's private note and color label, opened
+ * from the timeline context menu or from the marker next to the message.
+ * Ctrl/Cmd+Enter saves, Escape or a click outside cancels. Persistence is
+ * left to the caller.
+ */
+
+import type { AnnotationLabel, Locale } from '@core/types';
+import { ANNOTATION_LABELS } from '@core/types';
+import { DOM } from '@core/services/DOMService';
+import { t } from '@i18n/index';
+
+/** Editable part of an annotation */
+export interface AnnotationDraft {
+  note: string;
+  label: AnnotationLabel | null;
+}
+
+export interface AnnotationEditorOptions {
+  locale: Locale;
+  initial: AnnotationDraft | null;
+  /** Viewport position the popover opens at */
+  x: number;
+  y: number;
+  onSave: (draft: AnnotationDraft) => void;
+  /** Shows a remove button when set */
+  onRemove?: () => void;
+}
+
+const LABEL_KEYS = {
+  red: 'labelRed',
+  orange: 'labelOrange',
+  yellow: 'labelYellow',
+  green: 'labelGreen',
+  blue: 'labelBlue',
+  purple: 'labelPurple',
+} as const satisfies Record<AnnotationLabel, string>;
+
+/** Localized name of a label color */
+export function labelName(locale: Locale, label: AnnotationLabel): string {
+  return t(locale)[LABEL_KEYS[label]];
+}
+
+let popover: HTMLElement | null = null;
+let cleanups: (() => void)[] = [];
+
+export function openAnnotationEditor(options: AnnotationEditorOptions): void {
+  closeAnnotationEditor();
+  const tr = t(options.locale);
+  let label = options.initial?.label ?? null;
+
+  const root = DOM.createElement('div', {
+    'data-voyager': 'annotation-editor',
+    class: 'voyager-annotation-editor',
+    role: 'dialog',
+  });
+
+  const input = DOM.createElement('textarea', {
+    class: 'voyager-annotation-input',
+    rows: '3',
+    placeholder: tr.annotationPlaceholder,
+    'aria-label': tr.annotationPlaceholder,
+  });
+  input.value = options.initial?.note ?? '';
+
+  // ── Label swatches ──
+  const swatches = DOM.createElement('div', { class: 'voyager-annotation-swatches' });
+  const choices: (AnnotationLabel | null)[] = [null, ...ANNOTATION_LABELS];
+  const swatchEls: HTMLElement[] = [];
+  const syncSwatches = () => {
+    choices.forEach((choice, i) => {
+      const selected = choice === label;
+      swatchEls[i]?.classList.toggle('voyager-annotation-swatch-selected', selected);
+      swatchEls[i]?.setAttribute('aria-pressed', String(selected));
+    });
+  };
+  for (const choice of choices) {
+    const name = choice ? labelName(options.locale, choice) : tr.annotationNoLabel;
+    const swatch = DOM.createElement('button', {
+      type: 'button',
+      class: `voyager-annotation-swatch voyager-label-${choice ?? 'none'}`,
+      title: name,
+      'aria-label': name,
+    });
+    swatch.addEventListener('click', () => {
+      label = choice;
+      syncSwatches();
+    });
+    swatchEls.push(swatch);
+    swatches.appendChild(swatch);
+  }
+  syncSwatches();
+
+  // ── Actions ──
+  const save = () => {
+    const draft = { note: input.value.trim(), label };
+    closeAnnotationEditor();
+    options.onSave(draft);
+  };
+
+  const actions = DOM.createElement('div', { class: 'voyager-annotation-actions' });
+  if (options.onRemove) {
+    const onRemove = options.onRemove;
+    const removeBtn = DOM.createElement('button', {
+      type: 'button',
+      class: 'voyager-annotation-btn voyager-annotation-remove',
+    }, [tr.removeAnnotation]);
+    removeBtn.addEventListener('click', () => {
+      closeAnnotationEditor();
+      onRemove();
+    });
+    actions.appendChild(removeBtn);
+  }
+  const cancelBtn = DOM.createElement('button', {
+    type: 'button',
+    class: 'voyager-annotation-btn',
+  }, [tr.cancel]);
+  cancelBtn.addEventListener('click', () => closeAnnotationEditor());
+  const saveBtn = DOM.createElement('button', {
+    type: 'button',
+    class: 'voyager-annotation-btn voyager-annotation-save',
+  }, [tr.save]);
+  saveBtn.addEventListener('click', save);
+  actions.append(cancelBtn, saveBtn);
+
+  root.append(input, swatches, actions);
+
+  root.addEventListener('keydown', (e) => {
+    // Keep claude.ai's global shortcuts out of the editor
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      closeAnnotationEditor();
+    } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      save();
+    }
+  });
+
+  const outside = (e: MouseEvent) => {
+    if (!root.contains(e.target as Node)) closeAnnotationEditor();
+  };
+  document.addEventListener('mousedown', outside);
+  cleanups.push(() => document.removeEventListener('mousedown', outside));
+
+  document.body.appendChild(root);
+  popover = root;
+  place(root, options.x, options.y);
+  input.focus();
+}
+
+/** Keep the popover inside the viewport */
+function place(el: HTMLElement, x: number, y: number): void {
+  const margin = 4;
+  const rect = el.getBoundingClientRect();
+  const left = Math.max(margin, Math.min(x, window.innerWidth - rect.width - margin));
+  const top = Math.max(margin, Math.min(y, window.innerHeight - rect.height - margin));
+  el.style.left = `${left}px`;
+  el.style.top = `${top}px`;
+}
+
+export function closeAnnotationEditor(): void {
+  for (const cleanup of cleanups) cleanup();
+  cleanups = [];
+  popover?.remove();
+  popover = null;
+}
@@ -0,0 +1,115 @@
+/**
+ * Message anchoring — keeps stars and annotations attached to the right message.
+ *
+ * Message indexes shift when a prompt is edited, a response is regenerated
+ * or hidden blocks are detected differently. Each timeline render runs
+ * `resolveAnchors`, which:
+ * - moves an item to the message carrying its fingerprint (the one nearest
+ *   to the stored index if several messages share it)
+ * - fingerprints legacy items from the message at their stored index
+ * - flags items whose fingerprint is missing from the thread as orphaned,
+ *   but only once the thread has settled (fully loaded, nothing streaming),
+ *   and clears the flag once the message reappears (e.g. switching branches)
+ */
+
+import type { ChatMessage, StarredMessage } from '@core/types';
+import { textFingerprint } from '@core/utils';
+
+/** Anything pinned to a message of a conversation */
+export interface MessageAnchor {
+  conversationId: string;
+  messageIndex: number;
+  fingerprint?: string;
+  orphaned?: boolean;
+}
+
+/** Anchor for a message, fingerprinted from its text */
+export function anchorMessage(
+  conversationId: string,
+  msg: Pick<ChatMessage, 'contentText' | 'index'>,
+): Required<Pick<MessageAnchor, 'conversationId' | 'messageIndex' | 'fingerprint'>> {
+  return {
+    conversationId,
+    messageIndex: msg.index,
+    fingerprint: textFingerprint(msg.contentText),
+  };
+}
+
+/** Star for a message, fingerprinted from its text */
+export function anchorStar(
+  conversationId: string,
+  msg: Pick<ChatMessage, 'contentText' | 'index'>,
+  preview: string,
+): Pick<StarredMessage, 'conversationId' | 'messageIndex' | 'preview' | 'fingerprint'> {
+  return { ...anchorMessage(conversationId, msg), preview };
+}
+
+function nearest(candidates: number[], target: number): number {
+  let best = candidates[0] ?? target;
+  for (const candidate of candidates) {
+    if (Math.abs(candidate - target) < Math.abs(best - target)) best = candidate;
+  }
+  return best;
+}
+
+function withoutOrphanFlag<T extends MessageAnchor>(item: T): T {
+  const { orphaned: _orphaned, ...rest } = item;
+  return rest as T;
+}
+
+/**
+ * Re-resolve the anchored items of one conversation against its rendered
+ * messages. Items are only flagged as orphaned when `settled`: a thread
+ * that is still loading or streaming lacks messages that do exist. Returns
+ * the full item list; `changed` is true if anything needs persisting.
+ */
+export function resolveAnchors<T extends MessageAnchor>(
+  items: T[],
+  conversationId: string,
+  messages: Pick<ChatMessage, 'contentText'>[],
+  settled: boolean,
+): { items: T[]; changed: boolean } {
+  if (messages.length === 0) return { items, changed: false };
+
+  const fingerprints = messages.map((m) => textFingerprint(m.contentText));
+  const byFingerprint = new Map<string, number[]>();
+  fingerprints.forEach((fingerprint, index) => {
+    const indexes = byFingerprint.get(fingerprint) ?? [];
+    indexes.push(index);
+    byFingerprint.set(fingerprint, indexes);
+  });
+
+  // Two items on identical messages must not collapse onto the same one
+  const claimed = new Set<number>();
+  let changed = false;
+
+  const resolved = items.map((item) => {
+    if (item.conversationId !== conversationId) return item;
+
+    let next = item;
+    if (item.fingerprint) {
+      const candidates = (byFingerprint.get(item.fingerprint) ?? []).filter((i) => !claimed.has(i));
+      if (candidates.length > 0) {
+        const index = nearest(candidates, item.messageIndex);
+        claimed.add(index);
+        if (index !== item.messageIndex || item.orphaned) {
+          next = { ...withoutOrphanFlag(item), messageIndex: index };
+        }
+      } else if (settled && !item.orphaned) {
+        next = { ...item, orphaned: true };
+      }
+    } else {
+      // Legacy item: trust the index once and adopt that message's fingerprint
+      const fingerprint = fingerprints[item.messageIndex];
+      if (fingerprint !== undefined) {
+        claimed.add(item.messageIndex);
+        next = { ...item, fingerprint };
+      }
+    }
+
+    if (next !== item) changed = true;
+    return next;
+  });
+
+  return { items: resolved, changed };
+}
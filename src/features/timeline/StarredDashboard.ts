@@ -0,0 +1,401 @@
+/**
+ * Starred messages dashboard.
+ *
+ * Overlay listing every star across all conversations:
+ * - Grouped by conversation or by level
+ * - Filter by level and by text (preview, note, conversation title)
+ * - Sorted by starredAt, newest or oldest first
+ * - Inline note per star, remove button
+ * - Orphaned stars (message no longer found) are flagged
+ * - Click opens the conversation and scrolls to the message
+ *
+ * Opened from the timeline panel header. Changes are written to storage and
+ * reported back through `onChange` so the timeline stays in sync.
+ */
+
+import type { Locale, StarredMessage } from '@core/types';
+import { DOM } from '@core/services/DOMService';
+import { Storage } from '@core/services/StorageService';
+import { Snapshots } from '@core/services/SnapshotService';
+import { Logger } from '@core/services/LoggerService';
+import { t } from '@i18n/index';
+
+const TAG = 'StarredDashboard';
+
+type GroupMode = 'conversation' | 'level';
+type SortOrder = 'newest' | 'oldest';
+
+interface DashboardState {
+  locale: Locale;
+  backdrop: HTMLElement | null;
+  listEl: HTMLElement | null;
+  starred: StarredMessage[];
+  titles: Map<string, string>;
+  group: GroupMode;
+  sort: SortOrder;
+  /** 0 = all levels */
+  levelFilter: 0 | 1 | 2 | 3;
+  query: string;
+  onChange: ((starred: StarredMessage[]) => void) | null;
+  cleanups: (() => void)[];
+}
+
+function createState(): DashboardState {
+  return {
+    locale: 'en',
+    backdrop: null,
+    listEl: null,
+    starred: [],
+    titles: new Map(),
+    group: 'conversation',
+    sort: 'newest',
+    levelFilter: 0,
+    query: '',
+    onChange: null,
+    cleanups: [],
+  };
+}
+
+let state: DashboardState = createState();
+
+/**
+ * Identity of a star. Not its index: re-anchoring moves it, and an orphaned
+ * star can share it with a newer one.
+ */
+function starKey(star: StarredMessage): string {
+  return `${star.conversationId}:${star.starredAt}`;
+}
+
+function conversationTitle(conversationId: string): string {
+  return state.titles.get(conversationId) ?? t(state.locale).untitledConversation;
+}
+
+// ─── Open / Close ───────────────────────────────────────────────
+
+/** Open the dashboard; `onChange` receives the new star list after every edit */
+export function openStarredDashboard(
+  locale: Locale,
+  onChange: (starred: StarredMessage[]) => void,
+): void {
+  closeStarredDashboard();
+  state.locale = locale;
+  state.onChange = onChange;
+
+  const backdrop = DOM.createElement('div', {
+    'data-voyager': 'starred-dashboard',
+    class: 'voyager-starred-backdrop',
+  });
+  const dialog = DOM.createElement('div', {
+    class: 'voyager-starred-dialog',
+    role: 'dialog',
+    'aria-label': t(locale).starredDashboard,
+  });
+
+  dialog.append(buildHeader(), buildToolbar());
+  const list = DOM.createElement('div', { class: 'voyager-starred-list' });
+  dialog.appendChild(list);
+  backdrop.appendChild(dialog);
+
+  backdrop.addEventListener('mousedown', (e) => {
+    if (e.target === backdrop) closeStarredDashboard();
+  });
+  const onKeydown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') closeStarredDashboard();
+  };
+  document.addEventListener('keydown', onKeydown);
+  state.cleanups.push(() => document.removeEventListener('keydown', onKeydown));
+
+  document.body.appendChild(backdrop);
+  state.backdrop = backdrop;
+  state.listEl = list;
+  list.appendChild(DOM.createElement('div', { class: 'voyager-starred-empty' }, [t(locale).loading]));
+
+  loadData().then(() => renderList()).catch((err) => {
+    Logger.error(TAG, 'Failed to load starred messages', err);
+  });
+}
+
+export function closeStarredDashboard(): void {
+  for (const cleanup of state.cleanups) cleanup();
+  state.cleanups = [];
+  state.backdrop?.remove();
+  state.backdrop = null;
+  state.listEl = null;
+}
+
+async function loadData(): Promise<void> {
+  const [starred, folders, metas] = await Promise.all([
+    Storage.getStarred(),
+    Storage.getFolders(),
+    Snapshots.list(),
+  ]);
+
+  const titles = new Map<string, string>();
+  for (const folder of folders) {
+    for (const conv of folder.conversations) titles.set(conv.id, conv.title);
+  }
+  for (const meta of metas) titles.set(meta.conversationId, meta.title);
+
+  state.starred = starred;
+  state.titles = titles;
+}
+
+// ─── Rendering ──────────────────────────────────────────────────
+
+function buildHeader(): HTMLElement {
+  const header = DOM.createElement('div', { class: 'voyager-starred-header' });
+  const title = DOM.createElement('span', { class: 'voyager-starred-title' }, [
+    t(state.locale).starredDashboard,
+  ]);
+  const closeBtn = DOM.createElement('button', {
+    class: 'voyager-timeline-close',
+    title: t(state.locale).closeBtn,
+    'aria-label': t(state.locale).closeBtn,
+  }, ['×']);
+  closeBtn.addEventListener('click', () => closeStarredDashboard());
+  header.append(title, closeBtn);
+  return header;
+}
+
+function buildToolbar(): HTMLElement {
+  const tr = t(state.locale);
+  const toolbar = DOM.createElement('div', { class: 'voyager-starred-toolbar' });
+
+  const search = DOM.createElement('input', {
+    type: 'text',
+    class: 'voyager-starred-search',
+    placeholder: tr.filterStarred,
+    'aria-label': tr.filterStarred,
+  });
+  search.value = state.query;
+  search.addEventListener('input', () => {
+    state.query = search.value.trim().toLowerCase();
+    renderList();
+  });
+  search.addEventListener('keydown', (e) => e.stopPropagation());
+
+  const group = buildSelect(
+    [
+      ['conversation', tr.groupByConversation],
+      ['level', tr.groupByLevel],
+    ],
+    state.group,
+    (value) => {
+      state.group = value as GroupMode;
+      renderList();
+    },
+  );
+
+  const level = buildSelect(
+    [
+      ['0', tr.allLevels],
+      ['1', tr.starLevel1],
+      ['2', tr.starLevel2],
+      ['3', tr.starLevel3],
+    ],
+    String(state.levelFilter),
+    (value) => {
+      state.levelFilter = Number(value) as 0 | 1 | 2 | 3;
+      renderList();
+    },
+  );
+
+  const sort = buildSelect(
+    [
+      ['newest', tr.sortNewestFirst],
+      ['oldest', tr.sortOldestFirst],
+    ],
+    state.sort,
+    (value) => {
+      state.sort = value as SortOrder;
+      renderList();
+    },
+  );
+
+  toolbar.append(search, group, level, sort);
+  return toolbar;
+}
+
+function buildSelect(
+  options: [string, string][],
+  selected: string,
+  onSelect: (value: string) => void,
+): HTMLSelectElement {
+  const select = DOM.createElement('select', { class: 'voyager-starred-select' });
+  for (const [value, label] of options) {
+    const option = DOM.createElement('option', { value }, [label]);
+    option.selected = value === selected;
+    select.appendChild(option);
+  }
+  select.addEventListener('change', () => onSelect(select.value));
+  return select;
+}
+
+/** Stars passing the level and text filters, in the chosen order */
+function visibleStars(): StarredMessage[] {
+  const filtered = state.starred.filter((star) => {
+    if (state.levelFilter !== 0 && star.level !== state.levelFilter) return false;
+    if (!state.query) return true;
+    const haystack = `${star.preview}\n${star.note ?? ''}\n${conversationTitle(star.conversationId)}`;
+    return haystack.toLowerCase().includes(state.query);
+  });
+  const direction = state.sort === 'newest' ? -1 : 1;
+  return filtered.sort((a, b) => (a.starredAt - b.starredAt) * direction);
+}
+
+/** Group stars, keeping the order of first appearance */
+function groupStars(stars: StarredMessage[]): { label: string; stars: StarredMessage[] }[] {
+  const groups = new Map<string, { label: string; stars: StarredMessage[] }>();
+
+  if (state.group === 'level') {
+    // Highest level first, independent of sort order
+    for (const level of [3, 2, 1] as const) {
+      groups.set(String(level), { label: t(state.locale)[`starLevel${level}`], stars: [] });
+    }
+  }
+
+  for (const star of stars) {
+    const key = state.group === 'level' ? String(star.level) : star.conversationId;
+    let group = groups.get(key);
+    if (!group) {
+      group = { label: conversationTitle(star.conversationId), stars: [] };
+      groups.set(key, group);
+    }
+    group.stars.push(star);
+  }
+
+  return [...groups.values()].filter((g) => g.stars.length > 0);
+}
+
+function renderList(): void {
+  const list = state.listEl;
+  if (!list) return;
+  list.replaceChildren();
+
+  if (state.starred.length === 0) {
+    list.appendChild(DOM.createElement('div', { class: 'voyager-starred-empty' }, [
+      t(state.locale).noStarredMessages,
+    ]));
+    return;
+  }
+
+  const groups = groupStars(visibleStars());
+  if (groups.length === 0) {
+    list.appendChild(DOM.createElement('div', { class: 'voyager-starred-empty' }, [
+      t(state.locale).noStarsMatch,
+    ]));
+    return;
+  }
+
+  for (const group of groups) {
+    const section = DOM.createElement('div', { class: 'voyager-starred-group' });
+    section.appendChild(DOM.createElement('div', { class: 'voyager-starred-group-head' }, [
+      DOM.createElement('span', { class: 'voyager-starred-group-label' }, [group.label]),
+      DOM.createElement('span', { class: 'voyager-timeline-count' }, [String(group.stars.length)]),
+    ]));
+    for (const star of group.stars) {
+      section.appendChild(buildStarItem(star));
+    }
+    list.appendChild(section);
+  }
+}
+
+function buildStarItem(star: StarredMessage): HTMLElement {
+  const tr = t(state.locale);
+  const item = DOM.createElement('div', {
+    class: 'voyager-starred-item' + (star.orphaned ? ' voyager-starred-orphaned' : ''),
+  });
+
+  const icon = DOM.createElement('span', {
+    class: `voyager-star-icon voyager-star-level-${star.level}`,
+  }, ['★']);
+
+  const body = DOM.createElement('div', { class: 'voyager-starred-body' });
+  const meta = state.group === 'level'
+    ? `${conversationTitle(star.conversationId)} · #${star.messageIndex + 1}`
+    : `#${star.messageIndex + 1}`;
+  const metaEl = DOM.createElement('div', { class: 'voyager-starred-meta' }, [
+    `${meta} · ${new Date(star.starredAt).toLocaleString()}`,
+  ]);
+  if (star.orphaned) {
+    metaEl.appendChild(DOM.createElement('span', {
+      class: 'voyager-starred-orphan-badge',
+      title: tr.starOrphanedHint,
+    }, [tr.starOrphaned]));
+  }
+  body.appendChild(metaEl);
+  body.appendChild(DOM.createElement('div', { class: 'voyager-starred-preview' }, [star.preview]));
+
+  const note = DOM.createElement('input', {
+    type: 'text',
+    class: 'voyager-starred-note',
+    placeholder: tr.addNote,
+    'aria-label': tr.addNote,
+  });
+  note.value = star.note ?? '';
+  note.addEventListener('click', (e) => e.stopPropagation());
+  note.addEventListener('keydown', (e) => {
+    e.stopPropagation();
+    if (e.key === 'Enter') note.blur();
+  });
+  note.addEventListener('change', () => {
+    void updateStar(star, (s) => ({ ...s, note: note.value.trim() || undefined }));
+  });
+  body.appendChild(note);
+
+  const removeBtn = DOM.createElement('button', {
+    class: 'voyager-starred-remove',
+    title: tr.removeStar,
+    'aria-label': tr.removeStar,
+  }, ['✕']);
+  removeBtn.addEventListener('click', (e) => {
+    e.stopPropagation();
+    void updateStar(star, () => null);
+  });
+
+  item.append(icon, body, removeBtn);
+  item.addEventListener('click', () => {
+    closeStarredDashboard();
+    void DOM.revealMessage(star.conversationId, star.messageIndex);
+  });
+  return item;
+}
+
+// ─── Persistence ────────────────────────────────────────────────
+
+/**
+ * Replace (or with `null`, remove) a star and persist, rolling back on
+ * failure. The change is applied to a fresh read of storage, so whatever
+ * the timeline changed since the dashboard opened is kept.
+ */
+async function updateStar(
+  target: StarredMessage,
+  update: (star: StarredMessage) => StarredMessage | null,
+): Promise<void> {
+  const previous = state.starred;
+  const key = starKey(target);
+  const apply = (starred: StarredMessage[]) => starred.flatMap((star) => {
+    if (starKey(star) !== key) return [star];
+    const next = update(star);
+    return next ? [next] : [];
+  });
+
+  try {
+    const starred = apply(await Storage.getStarred());
+    await Storage.setStarred(starred);
+    state.starred = starred;
+  } catch (err) {
+    state.starred = previous;
+    Logger.error(TAG, 'Failed to save starred messages', err);
+    window.alert(t(state.locale).failedSaveStarred);
+  }
+
+  renderList();
+  state.onChange?.(state.starred);
+}
+
+/** Tear down the dashboard and reset its state (feature destroy) */
+export function destroyStarredDashboard(): void {
+  closeStarredDashboard();
+  state = createState();
+}
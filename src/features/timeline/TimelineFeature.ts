@@ -7,32 +7,70 @@
  * - Click to scroll to message
  * - Long-press to star a message
  * - Right-click context menu for assigning star levels (1-3)
+ * - Private notes and color labels per message, marked in the row and
+ *   beside the message in the chat by an overlay
+ * - Starred dashboard listing stars across all conversations
+ * - Stars and notes anchored by content fingerprint, re-resolved on every render
  * - Scroll synchronization (active row highlighted as user scrolls)
+ * - Filter box searching the full message text, with per-row hit counts and
+ *   next/previous navigation that highlights each hit inside the message
  * - Toggle tab on the right edge to show/hide the panel
  */
 
 import type { FeatureModule } from '@pages/content/index';
-import type { VoyagerSettings, ChatMessage, StarredMessage, Locale } from '@core/types';
+import type {
+  VoyagerSettings,
+  ChatMessage,
+  StarredMessage,
+  MessageAnnotation,
+  Locale,
+} from '@core/types';
+import { STAR_PREVIEW_LENGTH } from '@core/types';
 import { DOM } from '@core/services/DOMService';
 import { Storage } from '@core/services/StorageService';
 import { Logger } from '@core/services/LoggerService';
-import { debounce, throttle } from '@core/utils';
+import { debounce, matchRanges, throttle } from '@core/utils';
 import { t } from '@i18n/index';
+import { isPromptLibraryActive, savePromptFromMessage } from '@features/prompt/PromptFeature';
 import { TIMELINE_CSS } from './TimelineStyles';
+import { destroyStarredDashboard, openStarredDashboard } from './StarredDashboard';
+import { anchorMessage, anchorStar, resolveAnchors } from './MessageAnchors';
+import {
+  type AnnotationDraft,
+  closeAnnotationEditor,
+  labelName,
+  openAnnotationEditor,
+} from './AnnotationEditor';
 
 let locale: Locale = 'en';
 
 const TAG = 'Timeline';
 const PREVIEW_LENGTH = 40;
 const LONG_PRESS_MS = 600;
+const FILTER_DEBOUNCE_MS = 150;
+/** CSS highlight names for filter hits, styled via ::highlight() */
+const HIT_HIGHLIGHT = 'voyager-timeline-hit';
+const CURRENT_HIT_HIGHLIGHT = 'voyager-timeline-hit-current';
+/** Gap between a note marker and the left edge of its message */
+const MARKER_GAP = 8;
+/** Narrowest gutter left of a message that still fits a marker */
+const MARKER_MIN_GUTTER = 32;
+const MARKER_MAX_WIDTH = 240;
 
 /** Cached user display name (fetched once per render cycle) */
 let cachedUserName: string | null = null;
 
+/** One occurrence of the filter query — the `occurrence`-th match within a message */
+interface FilterHit {
+  messageIndex: number;
+  occurrence: number;
+}
+
 /** State for the timeline panel */
 interface TimelineState {
   messages: ChatMessage[];
   starred: StarredMessage[];
+  annotations: MessageAnnotation[];
   activeIndex: number;
   panelOpen: boolean;
   toggleBtn: HTMLElement | null;
@@ -42,12 +80,29 @@ interface TimelineState {
   cleanups: (() => void)[];
   longPressTimer: ReturnType<typeof setTimeout> | null;
   conversationId: string | null;
+  /** Message count of the previous render in this conversation; 0 after navigating */
+  lastMessageCount: number;
+  /** Lower-cased, trimmed filter query ('' = no filter) */
+  filterQuery: string;
+  /** All hits in document order */
+  filterHits: FilterHit[];
+  /** Index into filterHits of the hit shown last, -1 before navigating */
+  hitCursor: number;
+  filterInput: HTMLInputElement | null;
+  filterCounter: HTMLElement | null;
+  /** Occurrences of the query in the message shown last, highlighted via CSS.highlights */
+  hitRanges: Range[];
+  /** Container of the in-chat note markers, outside claude.ai's message tree */
+  markerLayer: HTMLElement | null;
+  /** Pending animation frame of a marker re-layout */
+  markerFrame: number | null;
 }
 
 function createInitialState(): TimelineState {
   return {
     messages: [],
     starred: [],
+    annotations: [],
     activeIndex: -1,
     panelOpen: false,
     toggleBtn: null,
@@ -57,6 +112,15 @@ function createInitialState(): TimelineState {
     cleanups: [],
     longPressTimer: null,
     conversationId: null,
+    lastMessageCount: 0,
+    filterQuery: '',
+    filterHits: [],
+    hitCursor: -1,
+    filterInput: null,
+    filterCounter: null,
+    hitRanges: [],
+    markerLayer: null,
+    markerFrame: null,
   };
 }
 
@@ -66,12 +130,20 @@ let state: TimelineState = createInitialState();
 
 /** Render the full timeline panel and toggle tab into the DOM */
 function renderTimeline(): void {
+  const filterFocused = state.filterInput !== null && document.activeElement === state.filterInput;
+  const filterText = state.filterInput?.value ?? state.filterQuery;
   removeTimeline();
 
-  if (!DOM.isChatPage()) return;
-
-  state.messages = DOM.getChatMessages();
-  if (state.messages.length === 0) return;
+  state.messages = DOM.isChatPage() ? DOM.getChatMessages() : [];
+  if (state.messages.length === 0) {
+    removeChatMarkers();
+    return;
+  }
+  // Settled: nothing streams and the previous render saw as many messages
+  const settled = !DOM.isResponseStreaming() && state.messages.length === state.lastMessageCount;
+  state.lastMessageCount = state.messages.length;
+  reanchorStars(settled);
+  reanchorAnnotations(settled);
 
   // ── Toggle tab (drawer handle) ──
   const toggleBtn = DOM.createElement('div', {
@@ -110,23 +182,26 @@ function renderTimeline(): void {
     'aria-label': t(locale).closeTimeline,
   }, ['\u00D7']);
 
+  const starredBtn = DOM.createElement('button', {
+    class: 'voyager-timeline-header-btn voyager-timeline-starred-btn',
+    title: t(locale).starredDashboard,
+    'aria-label': t(locale).starredDashboard,
+  }, ['\u2606']);
+
+  const headerRight = DOM.createElement('div', { class: 'voyager-timeline-header-right' });
+  headerRight.append(starredBtn, closeBtn);
   header.appendChild(headerLeft);
-  header.appendChild(closeBtn);
+  header.appendChild(headerRight);
   panel.appendChild(header);
+  panel.appendChild(buildFilterBar(filterText));
 
   // Message list
   const list = DOM.createElement('div', { class: 'voyager-timeline-list' });
-
-  for (let i = 0; i < state.messages.length; i++) {
-    const msg = state.messages[i];
-    if (!msg) continue;
-
-    const starred = getStarredInfo(i);
-    const row = buildMessageRow(msg, i, starred);
-    list.appendChild(row);
-  }
-
   panel.appendChild(list);
+  state.listEl = list;
+  state.filterHits = computeFilterHits();
+  renderRows();
+  updateFilterCounter();
 
   // ── Context menu (hidden) ──
   const contextMenu = DOM.createElement('div', {
@@ -146,6 +221,18 @@ function renderTimeline(): void {
     }, [item.label]);
     contextMenu.appendChild(el);
   }
+  contextMenu.appendChild(DOM.createElement('div', {
+    class: 'voyager-ctx-item voyager-ctx-annotate',
+    'data-action': 'annotate',
+  }, [t(locale).addAnnotation]));
+  contextMenu.appendChild(DOM.createElement('div', {
+    class: 'voyager-ctx-item voyager-ctx-unannotate',
+    'data-action': 'remove-annotation',
+  }, [t(locale).removeAnnotation]));
+  contextMenu.appendChild(DOM.createElement('div', {
+    class: 'voyager-ctx-item voyager-ctx-save-prompt',
+    'data-action': 'save-prompt',
+  }, [t(locale).saveAsPrompt]));
 
   // Append to DOM
   document.body.appendChild(toggleBtn);
@@ -154,20 +241,50 @@ function renderTimeline(): void {
 
   state.toggleBtn = toggleBtn;
   state.panel = panel;
-  state.listEl = list;
   state.contextMenu = contextMenu;
 
   setupEventHandlers();
   updateActiveRow();
+  syncChatMarkers();
+
+  // Re-renders on new messages must not steal focus from the filter box
+  if (filterFocused && state.filterInput) {
+    state.filterInput.focus();
+    const end = state.filterInput.value.length;
+    state.filterInput.setSelectionRange(end, end);
+  }
 
   Logger.debug(TAG, `Timeline rendered with ${state.messages.length} rows`);
 }
 
+/** (Re)build all rows of the message list */
+function renderRows(): void {
+  const list = state.listEl;
+  if (!list) return;
+  list.replaceChildren();
+
+  const hitCounts = new Map<number, number>();
+  for (const hit of state.filterHits) {
+    hitCounts.set(hit.messageIndex, (hitCounts.get(hit.messageIndex) ?? 0) + 1);
+  }
+
+  for (let i = 0; i < state.messages.length; i++) {
+    const msg = state.messages[i];
+    if (!msg) continue;
+
+    const starred = getStarredInfo(i);
+    const row = buildMessageRow(msg, i, starred, getAnnotation(i), hitCounts.get(i) ?? 0);
+    list.appendChild(row);
+  }
+}
+
 /** Build a single message row element */
 function buildMessageRow(
   msg: ChatMessage,
   index: number,
   starred: StarredMessage | undefined,
+  annotation: MessageAnnotation | undefined,
+  hitCount: number,
 ): HTMLElement {
   const roleLabel = msg.role === 'human' ? (cachedUserName ?? t(locale).you) : t(locale).claudeRole;
   const preview = msg.contentText.slice(0, PREVIEW_LENGTH).replace(/\n/g, ' ') +
@@ -179,6 +296,9 @@ function buildMessageRow(
   if (starred) {
     rowClass += ` voyager-row-starred voyager-row-level-${starred.level}`;
   }
+  if (state.filterQuery) {
+    rowClass += hitCount > 0 ? ' voyager-row-match' : ' voyager-row-filtered-out';
+  }
 
   const row = DOM.createElement('div', {
     class: rowClass,
@@ -205,6 +325,22 @@ function buildMessageRow(
   row.appendChild(numEl);
   row.appendChild(body);
 
+  // Filter hit count
+  if (hitCount > 0) {
+    row.appendChild(DOM.createElement('span', {
+      class: 'voyager-row-hits',
+      title: t(locale).filterMatches,
+    }, [String(hitCount)]));
+  }
+
+  // Annotation marker
+  if (annotation) {
+    row.appendChild(DOM.createElement('span', {
+      class: `voyager-row-annotation voyager-label-${annotation.label ?? 'none'}`,
+      title: annotationTitle(annotation),
+    }, ['\u270E']));
+  }
+
   // Star indicator (if starred)
   if (starred) {
     const starWrap = DOM.createElement('span', { class: 'voyager-row-star' });
@@ -239,6 +375,19 @@ function setupEventHandlers(): void {
     state.cleanups.push(() => toggleBtn.removeEventListener('click', toggleHandler));
   }
 
+  // Starred dashboard button inside panel header
+  const starredBtn = panel?.querySelector('.voyager-timeline-starred-btn');
+  if (starredBtn) {
+    const starredHandler = () => {
+      openStarredDashboard(locale, (starred) => {
+        state.starred = starred;
+        renderTimeline();
+      });
+    };
+    starredBtn.addEventListener('click', starredHandler);
+    state.cleanups.push(() => starredBtn.removeEventListener('click', starredHandler));
+  }
+
   // Close button inside panel header
   const closeBtn = panel?.querySelector('.voyager-timeline-close');
   if (closeBtn && toggleBtn) {
@@ -309,9 +458,26 @@ function setupEventHandlers(): void {
       contextMenu,
       '.voyager-ctx-item',
       'click',
-      (target) => {
-        const level = Number(target.getAttribute('data-level')) as 0 | 1 | 2 | 3;
+      (target, evt) => {
         const idx = Number(contextMenu.getAttribute('data-target-idx'));
+        const action = target.getAttribute('data-action');
+        if (action === 'annotate') {
+          hideContextMenu();
+          editAnnotation(idx, evt.clientX, evt.clientY);
+          return;
+        }
+        if (action === 'remove-annotation') {
+          void removeAnnotation(idx);
+          hideContextMenu();
+          return;
+        }
+        if (action === 'save-prompt') {
+          const message = state.messages[idx];
+          if (message) savePromptFromMessage(DOM.getMessageText(message.element));
+          hideContextMenu();
+          return;
+        }
+        const level = Number(target.getAttribute('data-level')) as 0 | 1 | 2 | 3;
         if (level === 0) {
           removeStar(idx);
         } else {
@@ -323,6 +489,20 @@ function setupEventHandlers(): void {
     state.cleanups.push(ctxItemCleanup);
   }
 
+  // Click the in-chat marker: edit the note
+  const markerCleanup = DOM.delegate<MouseEvent>(
+    document.body,
+    '.voyager-annotation-marker',
+    'click',
+    (target, evt) => {
+      evt.preventDefault();
+      evt.stopPropagation();
+      const rect = target.getBoundingClientRect();
+      editAnnotation(Number(target.getAttribute('data-voyager-id')), rect.left, rect.bottom + 4);
+    },
+  );
+  state.cleanups.push(markerCleanup);
+
   // Close context menu on outside click
   const outsideClick = (evt: Event) => {
     if (contextMenu && !contextMenu.contains(evt.target as Node)) {
@@ -334,7 +514,12 @@ function setupEventHandlers(): void {
 
   // Scroll sync: update active row as user scrolls the chat
   // claude.ai uses multiple scrollable containers — listen on all of them
-  const scrollHandler = throttle(() => updateActiveRow(), 100);
+  const activeRowHandler = throttle(() => updateActiveRow(), 100);
+  // Note markers follow their messages every frame, not at the throttled rate
+  const scrollHandler = () => {
+    activeRowHandler();
+    scheduleChatMarkerLayout();
+  };
 
   // The main content area
   const mainContent = DOM.query('mainContent');
@@ -365,6 +550,8 @@ function setupEventHandlers(): void {
   // Always listen on window as fallback
   window.addEventListener('scroll', scrollHandler, { passive: true });
   state.cleanups.push(() => window.removeEventListener('scroll', scrollHandler));
+  window.addEventListener('resize', scheduleChatMarkerLayout);
+  state.cleanups.push(() => window.removeEventListener('resize', scheduleChatMarkerLayout));
 }
 
 // ─── Scroll & Navigation ────────────────────────────────────────
@@ -374,7 +561,7 @@ function scrollToMessage(index: number): void {
   const msg = state.messages[index];
   if (!msg) return;
 
-  msg.element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  DOM.scrollMessageIntoView(msg.element);
   state.activeIndex = index;
   highlightActiveRow(index);
 }
@@ -388,6 +575,186 @@ function scrollActiveRowIntoView(): void {
   }
 }
 
+// ─── Filter ─────────────────────────────────────────────────────
+
+/** Filter input with hit counter and previous/next buttons */
+function buildFilterBar(value: string): HTMLElement {
+  const bar = DOM.createElement('div', { class: 'voyager-timeline-filter' });
+
+  const input = DOM.createElement('input', {
+    type: 'text',
+    class: 'voyager-timeline-filter-input',
+    placeholder: t(locale).filterMessages,
+    'aria-label': t(locale).filterMessages,
+  }) as HTMLInputElement;
+  input.value = value;
+
+  const counter = DOM.createElement('span', { class: 'voyager-timeline-filter-count' });
+  const prevBtn = DOM.createElement('button', {
+    class: 'voyager-timeline-filter-btn',
+    title: t(locale).previousMatch,
+    'aria-label': t(locale).previousMatch,
+  }, ['\u2191']);
+  const nextBtn = DOM.createElement('button', {
+    class: 'voyager-timeline-filter-btn',
+    title: t(locale).nextMatch,
+    'aria-label': t(locale).nextMatch,
+  }, ['\u2193']);
+
+  const onInput = debounce(() => applyFilter(input.value), FILTER_DEBOUNCE_MS);
+  input.addEventListener('input', onInput);
+  input.addEventListener('keydown', (e) => {
+    // Keep claude.ai's global shortcuts out of the filter box
+    e.stopPropagation();
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      applyFilter(input.value);
+      stepHit(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      input.value = '';
+      applyFilter('');
+    }
+  });
+  prevBtn.addEventListener('click', () => stepHit(-1));
+  nextBtn.addEventListener('click', () => stepHit(1));
+
+  bar.append(input, counter, prevBtn, nextBtn);
+  state.filterInput = input;
+  state.filterCounter = counter;
+  return bar;
+}
+
+/** Every occurrence of the filter query in the full message text */
+function computeFilterHits(): FilterHit[] {
+  if (!state.filterQuery) return [];
+  const hits: FilterHit[] = [];
+  state.messages.forEach((msg, messageIndex) => {
+    const count = matchRanges(msg.contentText, [state.filterQuery]).length;
+    for (let occurrence = 0; occurrence < count; occurrence++) {
+      hits.push({ messageIndex, occurrence });
+    }
+  });
+  return hits;
+}
+
+/** Apply a new filter query — no-op if it did not change */
+function applyFilter(raw: string): void {
+  const query = raw.trim().toLowerCase();
+  if (query === state.filterQuery) return;
+
+  state.filterQuery = query;
+  state.hitCursor = -1;
+  clearHitHighlights();
+  state.filterHits = computeFilterHits();
+  renderRows();
+  highlightActiveRow(state.activeIndex);
+  updateFilterCounter();
+}
+
+function updateFilterCounter(): void {
+  if (!state.filterCounter) return;
+  const total = state.filterHits.length;
+  state.filterCounter.textContent = state.filterQuery
+    ? `${state.hitCursor >= 0 ? state.hitCursor + 1 : 0}/${total}`
+    : '';
+  state.filterCounter.classList.toggle('voyager-filter-no-hits', !!state.filterQuery && total === 0);
+}
+
+/** Move to the next (1) or previous (-1) hit, wrapping around */
+function stepHit(direction: 1 | -1): void {
+  const total = state.filterHits.length;
+  if (total === 0) return;
+
+  if (state.hitCursor < 0) {
+    state.hitCursor = direction === 1 ? 0 : total - 1;
+  } else {
+    state.hitCursor = (state.hitCursor + direction + total) % total;
+  }
+
+  const hit = state.filterHits[state.hitCursor];
+  if (hit) showHit(hit);
+  updateFilterCounter();
+}
+
+/** Highlight the query inside the hit's message and scroll to the current occurrence */
+function showHit(hit: FilterHit): void {
+  const msg = state.messages[hit.messageIndex];
+  if (!msg) return;
+
+  clearHitHighlights();
+  state.hitRanges = findMatchRanges(msg.element, state.filterQuery);
+
+  // DOM text can differ slightly from contentText (e.g. hidden MathML) — clamp
+  const current = state.hitRanges[Math.min(hit.occurrence, state.hitRanges.length - 1)];
+  const target = current?.startContainer.parentElement;
+  if (!current || !target) {
+    scrollToMessage(hit.messageIndex);
+    return;
+  }
+
+  CSS.highlights.set(HIT_HIGHLIGHT, new Highlight(...state.hitRanges.filter((range) => range !== current)));
+  CSS.highlights.set(CURRENT_HIT_HIGHLIGHT, new Highlight(current));
+  DOM.scrollMessageIntoView(target);
+  state.activeIndex = hit.messageIndex;
+  highlightActiveRow(hit.messageIndex);
+}
+
+/**
+ * A range per occurrence of `query` inside `root`. Matches may span several
+ * text nodes (e.g. across inline formatting). The message DOM belongs to
+ * claude.ai's React tree, so it is only read, never split or wrapped.
+ */
+function findMatchRanges(root: Element, query: string): Range[] {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) =>
+      node.parentElement?.closest('.katex-mathml, [data-voyager], script, style')
+        ? NodeFilter.FILTER_REJECT
+        : NodeFilter.FILTER_ACCEPT,
+  });
+
+  const nodes: Text[] = [];
+  const starts: number[] = [];
+  let text = '';
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const textNode = node as Text;
+    nodes.push(textNode);
+    starts.push(text.length);
+    text += textNode.data;
+  }
+
+  /** Text node and offset of character `offset`; `end` prefers the node it closes */
+  const locate = (offset: number, end: boolean): [Text, number] | null => {
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i];
+      const nodeStart = starts[i];
+      if (!node || nodeStart === undefined) continue;
+      const nodeEnd = nodeStart + node.data.length;
+      if (end ? offset <= nodeEnd : offset < nodeEnd) return [node, offset - nodeStart];
+    }
+    return null;
+  };
+
+  const ranges: Range[] = [];
+  for (const [start, end] of matchRanges(text, [query])) {
+    const from = locate(start, false);
+    const to = locate(end, true);
+    if (!from || !to) continue;
+    const range = document.createRange();
+    range.setStart(...from);
+    range.setEnd(...to);
+    ranges.push(range);
+  }
+  return ranges;
+}
+
+/** Remove the hit highlights; the message DOM itself was never touched */
+function clearHitHighlights(): void {
+  CSS.highlights.delete(HIT_HIGHLIGHT);
+  CSS.highlights.delete(CURRENT_HIT_HIGHLIGHT);
+  state.hitRanges = [];
+}
+
 // ─── Active Row Tracking ────────────────────────────────────────
 
 /** Determine which message is closest to the viewport center and highlight it */
@@ -440,6 +807,15 @@ function showContextMenu(index: number, evt: MouseEvent): void {
   state.contextMenu.setAttribute('data-target-idx', String(index));
   state.contextMenu.classList.remove('voyager-hidden');
 
+  const annotated = !!getAnnotation(index);
+  const annotateItem = state.contextMenu.querySelector('.voyager-ctx-annotate');
+  if (annotateItem) {
+    annotateItem.textContent = annotated ? t(locale).editAnnotation : t(locale).addAnnotation;
+  }
+  state.contextMenu.querySelector('.voyager-ctx-unannotate')?.classList.toggle('voyager-hidden', !annotated);
+  state.contextMenu.querySelector('.voyager-ctx-save-prompt')
+    ?.classList.toggle('voyager-hidden', !isPromptLibraryActive());
+
   // First place off-screen to measure actual size
   state.contextMenu.style.top = '-9999px';
   state.contextMenu.style.left = '-9999px';
@@ -477,10 +853,25 @@ function hideContextMenu(): void {
 
 // ─── Star Management ────────────────────────────────────────────
 
+/** Whether a (non-orphaned) star of the current conversation sits on `index` */
+function isStarAt(star: StarredMessage, index: number): boolean {
+  return star.conversationId === state.conversationId && star.messageIndex === index && !star.orphaned;
+}
+
 function getStarredInfo(index: number): StarredMessage | undefined {
-  return state.starred.find(
-    (s) => s.conversationId === state.conversationId && s.messageIndex === index,
-  );
+  return state.starred.find((s) => isStarAt(s, index));
+}
+
+/** Re-attach this conversation's stars to their messages and persist any change */
+function reanchorStars(settled: boolean): void {
+  if (!state.conversationId) return;
+  const { items: starred, changed } = resolveAnchors(state.starred, state.conversationId, state.messages, settled);
+  if (!changed) return;
+
+  state.starred = starred;
+  Storage.setStarred(starred).catch((err) => {
+    Logger.warn(TAG, 'Failed to persist re-anchored stars', err);
+  });
 }
 
 async function toggleStar(index: number): Promise<void> {
@@ -497,27 +888,23 @@ async function addStar(index: number, level: 1 | 2 | 3): Promise<void> {
   const msg = state.messages[index];
   if (!msg) return;
 
+  const existing = getStarredInfo(index);
   const star: StarredMessage = {
-    conversationId: state.conversationId,
-    messageIndex: index,
-    preview: msg.contentText.slice(0, 100),
-    starredAt: Date.now(),
+    ...anchorStar(state.conversationId, msg, msg.contentText.slice(0, STAR_PREVIEW_LENGTH)),
+    starredAt: existing?.starredAt ?? Date.now(),
     level,
+    ...(existing?.note ? { note: existing.note } : {}),
   };
 
   // Replace any existing star for this index
-  state.starred = state.starred.filter(
-    (s) => !(s.conversationId === state.conversationId && s.messageIndex === index),
-  );
+  state.starred = state.starred.filter((s) => !isStarAt(s, index));
   state.starred.push(star);
   await Storage.setStarred(state.starred);
   renderTimeline();
 }
 
 async function removeStar(index: number): Promise<void> {
-  state.starred = state.starred.filter(
-    (s) => !(s.conversationId === state.conversationId && s.messageIndex === index),
-  );
+  state.starred = state.starred.filter((s) => !isStarAt(s, index));
   await Storage.setStarred(state.starred);
   renderTimeline();
 }
@@ -526,6 +913,203 @@ async function setStarLevel(index: number, level: 1 | 2 | 3): Promise<void> {
   await addStar(index, level);
 }
 
+// ─── Annotations ────────────────────────────────────────────────
+
+function isAnnotationAt(annotation: MessageAnnotation, index: number): boolean {
+  return annotation.conversationId === state.conversationId &&
+    annotation.messageIndex === index &&
+    !annotation.orphaned;
+}
+
+function getAnnotation(index: number): MessageAnnotation | undefined {
+  return state.annotations.find((a) => isAnnotationAt(a, index));
+}
+
+/** Tooltip text: label name and note */
+function annotationTitle(annotation: MessageAnnotation): string {
+  const label = annotation.label ? labelName(locale, annotation.label) : '';
+  return [label, annotation.note].filter(Boolean).join(' \u00B7 ');
+}
+
+/** Re-attach this conversation's annotations to their messages and persist any change */
+function reanchorAnnotations(settled: boolean): void {
+  if (!state.conversationId) return;
+  const { items, changed } = resolveAnchors(state.annotations, state.conversationId, state.messages, settled);
+  if (!changed) return;
+
+  state.annotations = items;
+  Storage.setAnnotations(items).catch((err) => {
+    Logger.warn(TAG, 'Failed to persist re-anchored annotations', err);
+  });
+}
+
+/** Open the note editor for a message */
+function editAnnotation(index: number, x: number, y: number): void {
+  const existing = getAnnotation(index);
+  openAnnotationEditor({
+    locale,
+    initial: existing ? { note: existing.note, label: existing.label } : null,
+    x,
+    y,
+    onSave: (draft) => void saveAnnotation(index, draft),
+    ...(existing ? { onRemove: () => void removeAnnotation(index) } : {}),
+  });
+}
+
+async function saveAnnotation(index: number, draft: AnnotationDraft): Promise<void> {
+  if (!draft.note && !draft.label) {
+    await removeAnnotation(index);
+    return;
+  }
+  if (!state.conversationId) return;
+  const msg = state.messages[index];
+  if (!msg) return;
+
+  const existing = getAnnotation(index);
+  const now = Date.now();
+  const annotation: MessageAnnotation = {
+    ...anchorMessage(state.conversationId, msg),
+    note: draft.note,
+    label: draft.label,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  await persistAnnotations([
+    ...state.annotations.filter((a) => !isAnnotationAt(a, index)),
+    annotation,
+  ]);
+}
+
+async function removeAnnotation(index: number): Promise<void> {
+  await persistAnnotations(state.annotations.filter((a) => !isAnnotationAt(a, index)));
+}
+
+/** Save the annotation list, rolling back on failure */
+async function persistAnnotations(next: MessageAnnotation[]): Promise<void> {
+  const previous = state.annotations;
+  state.annotations = next;
+  try {
+    await Storage.setAnnotations(next);
+  } catch (err) {
+    state.annotations = previous;
+    Logger.error(TAG, 'Failed to save annotations', err);
+    window.alert(t(locale).failedSaveAnnotations);
+  }
+  renderTimeline();
+}
+
+/**
+ * Bring the note markers in the chat in line with the annotations. The
+ * message DOM belongs to claude.ai's React tree, so the markers live in a
+ * layer of our own on the body and are positioned from each message's
+ * rect instead of being inserted into it.
+ */
+function syncChatMarkers(): void {
+  let layer = state.markerLayer;
+  if (!layer?.isConnected) {
+    layer = DOM.createElement('div', {
+      'data-voyager': 'annotation-markers',
+      class: 'voyager-annotation-markers',
+    });
+    document.body.appendChild(layer);
+    state.markerLayer = layer;
+  }
+
+  const existing = new Map<string, Element>();
+  for (const marker of layer.children) existing.set(marker.getAttribute('data-voyager-id') ?? '', marker);
+
+  for (let index = 0; index < state.messages.length; index++) {
+    const annotation = getAnnotation(index);
+    const id = String(index);
+    let marker = existing.get(id);
+    existing.delete(id);
+    if (!annotation) {
+      marker?.remove();
+      continue;
+    }
+
+    if (!marker) {
+      marker = DOM.createElement('span', {
+        'data-voyager': 'annotation-marker',
+        'data-voyager-id': id,
+      });
+      layer.appendChild(marker);
+    }
+    const className = `voyager-annotation-marker voyager-label-${annotation.label ?? 'none'}`;
+    const title = annotationTitle(annotation);
+    if (marker.className !== className) marker.className = className;
+    if (marker.getAttribute('title') !== title) marker.setAttribute('title', title);
+    if (marker.getAttribute('data-note') !== annotation.note) marker.setAttribute('data-note', annotation.note);
+  }
+  // Markers of messages that are gone
+  for (const marker of existing.values()) marker.remove();
+
+  layoutChatMarkers();
+}
+
+/** Re-position the note markers on the next frame */
+function scheduleChatMarkerLayout(): void {
+  if (state.markerFrame !== null || !state.markerLayer) return;
+  state.markerFrame = requestAnimationFrame(() => {
+    state.markerFrame = null;
+    layoutChatMarkers();
+  });
+}
+
+/**
+ * Place each marker in the gutter between the chat's scroll container and
+ * its message, level with the message's top; where that gutter is too
+ * narrow, over the message's top right corner. Markers whose message is
+ * scrolled out of its container are hidden.
+ */
+function layoutChatMarkers(): void {
+  const layer = state.markerLayer;
+  if (!layer) return;
+  const first = state.messages[0]?.element;
+  const bounds = (first && findScrollContainer(first)?.getBoundingClientRect())
+    ?? new DOMRect(0, 0, window.innerWidth, window.innerHeight);
+  const viewportWidth = document.documentElement.clientWidth;
+
+  for (const marker of layer.children) {
+    if (!(marker instanceof HTMLElement)) continue;
+    const element = state.messages[Number(marker.getAttribute('data-voyager-id'))]?.element;
+    const rect = element?.isConnected ? element.getBoundingClientRect() : null;
+    const visible = !!rect && rect.height > 0
+      && rect.top >= Math.max(bounds.top, 0) && rect.top < Math.min(bounds.bottom, window.innerHeight);
+    marker.classList.toggle('voyager-hidden', !visible);
+    if (!rect || !visible) continue;
+
+    const gutter = rect.left - Math.max(bounds.left, 0) - 2 * MARKER_GAP;
+    marker.style.top = `${rect.top}px`;
+    if (gutter >= MARKER_MIN_GUTTER) {
+      marker.style.right = `${viewportWidth - rect.left + MARKER_GAP}px`;
+      marker.style.maxWidth = `${Math.min(gutter, MARKER_MAX_WIDTH)}px`;
+    } else {
+      marker.style.right = `${viewportWidth - rect.right}px`;
+      marker.style.maxWidth = `${Math.min(rect.width, MARKER_MAX_WIDTH)}px`;
+    }
+  }
+}
+
+/** Nearest ancestor of an element that scrolls vertically */
+function findScrollContainer(element: Element): Element | null {
+  for (let el = element.parentElement; el && el !== document.body; el = el.parentElement) {
+    const style = window.getComputedStyle(el);
+    const overflow = style.overflow + style.overflowY;
+    if (overflow.includes('auto') || overflow.includes('scroll')) return el;
+  }
+  return null;
+}
+
+function removeChatMarkers(): void {
+  if (state.markerFrame !== null) cancelAnimationFrame(state.markerFrame);
+  state.markerFrame = null;
+  state.markerLayer?.remove();
+  state.markerLayer = null;
+  for (const layer of document.querySelectorAll('[data-voyager="annotation-markers"]')) layer.remove();
+}
+
 // ─── Teardown ───────────────────────────────────────────────────
 
 function removeTimeline(): void {
@@ -540,6 +1124,8 @@ function removeTimeline(): void {
   state.panel = null;
   state.listEl = null;
   state.contextMenu = null;
+  state.filterInput = null;
+  state.filterCounter = null;
   state.cleanups = [];
 }
 
@@ -567,10 +1153,21 @@ export const TimelineFeature: FeatureModule = {
     }).catch((err) => {
       Logger.error(TAG, 'Failed to load starred messages', err);
     });
+
+    Storage.getAnnotations().then((annotations) => {
+      state.annotations = annotations;
+      renderTimeline();
+    }).catch((err) => {
+      Logger.error(TAG, 'Failed to load annotations', err);
+    });
   },
 
   destroy() {
     Logger.info(TAG, 'Destroying timeline feature');
+    clearHitHighlights();
+    destroyStarredDashboard();
+    closeAnnotationEditor();
+    removeChatMarkers();
     removeTimeline();
     DOM.removeStyles('voyager-timeline');
     state = createInitialState();
@@ -578,6 +1175,11 @@ export const TimelineFeature: FeatureModule = {
 
   onNavigate(conversationId: string | null) {
     state.conversationId = conversationId;
+    state.lastMessageCount = 0;
+    // Hits belong to the previous thread; the query itself is kept
+    clearHitHighlights();
+    closeAnnotationEditor();
+    state.hitCursor = -1;
     if (conversationId) {
       renderTimeline();
       // Conversation DOM can hydrate after route change; refresh once more.
@@ -587,6 +1189,7 @@ export const TimelineFeature: FeatureModule = {
         }
       }, 400);
     } else {
+      removeChatMarkers();
       removeTimeline();
     }
   },
@@ -94,7 +94,8 @@ export const TIMELINE_CSS = `
     letter-spacing: 0.05em;
   }
 
-  .voyager-timeline-header-left {
+  .voyager-timeline-header-left,
+  .voyager-timeline-header-right {
     display: flex;
     align-items: center;
     gap: 8px;
@@ -106,7 +107,8 @@ export const TIMELINE_CSS = `
     font-variant-numeric: tabular-nums;
   }
 
-  .voyager-timeline-close {
+  .voyager-timeline-close,
+  .voyager-timeline-header-btn {
     background: none;
     border: none;
     color: var(--text-300, rgba(232, 228, 222, 0.4));
@@ -118,7 +120,8 @@ export const TIMELINE_CSS = `
     transition: color 0.15s, background 0.15s;
   }
 
-  .voyager-timeline-close:hover {
+  .voyager-timeline-close:hover,
+  .voyager-timeline-header-btn:hover {
     color: var(--text-100, rgba(232, 228, 222, 0.9));
     background: var(--bg-200, rgba(255, 255, 255, 0.08));
   }
@@ -288,6 +291,93 @@ export const TIMELINE_CSS = `
     border-left-color: var(--accent-main, rgba(217, 170, 90, 0.6));
   }
 
+  /* ─── Filter ───────────────────────────────────────────── */
+  .voyager-timeline-filter {
+    display: flex;
+    align-items: center;
+    gap: 4px;
+    padding: 6px 10px;
+    border-bottom: 0.5px solid var(--border-100, rgba(255, 255, 255, 0.06));
+    flex-shrink: 0;
+  }
+
+  .voyager-timeline-filter-input {
+    flex: 1;
+    min-width: 0;
+    padding: 4px 8px;
+    border: 0.5px solid var(--border-200, rgba(255, 255, 255, 0.1));
+    border-radius: 6px;
+    background: var(--bg-000, rgba(20, 18, 15, 0.8));
+    color: var(--text-100, rgba(232, 228, 222, 0.9));
+    font-size: 12px;
+    outline: none;
+    transition: border-color 0.15s;
+  }
+
+  .voyager-timeline-filter-input:focus {
+    border-color: var(--accent-main, rgba(217, 170, 90, 0.5));
+  }
+
+  .voyager-timeline-filter-input::placeholder {
+    color: var(--text-300, rgba(232, 228, 222, 0.3));
+  }
+
+  .voyager-timeline-filter-count {
+    font-size: 10px;
+    color: var(--text-300, rgba(232, 228, 222, 0.4));
+    font-variant-numeric: tabular-nums;
+    white-space: nowrap;
+  }
+
+  .voyager-timeline-filter-count.voyager-filter-no-hits {
+    color: rgba(220, 90, 70, 0.8);
+  }
+
+  .voyager-timeline-filter-btn {
+    background: none;
+    border: none;
+    color: var(--text-300, rgba(232, 228, 222, 0.4));
+    cursor: pointer;
+    font-size: 12px;
+    line-height: 1;
+    padding: 3px 4px;
+    border-radius: 4px;
+    transition: color 0.15s, background 0.15s;
+  }
+
+  .voyager-timeline-filter-btn:hover {
+    color: var(--text-100, rgba(232, 228, 222, 0.9));
+    background: var(--bg-200, rgba(255, 255, 255, 0.08));
+  }
+
+  /* Rows without hits fade out while a filter is active */
+  .voyager-row-filtered-out {
+    opacity: 0.35;
+  }
+
+  .voyager-row-hits {
+    flex-shrink: 0;
+    align-self: center;
+    min-width: 16px;
+    padding: 1px 5px;
+    border-radius: 8px;
+    background: rgba(217, 170, 90, 0.2);
+    color: rgba(217, 170, 90, 0.95);
+    font-size: 10px;
+    text-align: center;
+    font-variant-numeric: tabular-nums;
+  }
+
+  /* Hit highlight inside the chat message (CSS Custom Highlight API) */
+  ::highlight(voyager-timeline-hit) {
+    background-color: rgba(217, 170, 90, 0.3);
+  }
+
+  ::highlight(voyager-timeline-hit-current) {
+    background-color: rgba(217, 170, 90, 0.75);
+    color: #1a1714;
+  }
+
   /* ─── Context Menu ─────────────────────────────────────── */
   .voyager-timeline-context {
     position: fixed;
@@ -321,11 +411,322 @@ export const TIMELINE_CSS = `
     color: rgba(220, 90, 70, 0.8);
   }
 
-  .voyager-ctx-unstar:hover {
+  .voyager-ctx-unstar:hover,
+  .voyager-ctx-unannotate:hover {
     background: rgba(220, 90, 70, 0.1);
     color: rgba(220, 90, 70, 1);
   }
 
+  .voyager-ctx-annotate {
+    border-top: 0.5px solid var(--border-100, rgba(255, 255, 255, 0.06));
+  }
+
+  .voyager-ctx-unannotate {
+    color: rgba(220, 90, 70, 0.8);
+  }
+
+  /* ─── Annotations ──────────────────────────────────────── */
+  .voyager-label-none { --voyager-label: var(--text-300, rgba(232, 228, 222, 0.45)); }
+  .voyager-label-red { --voyager-label: rgba(220, 90, 70, 0.9); }
+  .voyager-label-orange { --voyager-label: rgba(230, 150, 60, 0.9); }
+  .voyager-label-yellow { --voyager-label: rgba(220, 195, 70, 0.9); }
+  .voyager-label-green { --voyager-label: rgba(100, 180, 110, 0.9); }
+  .voyager-label-blue { --voyager-label: rgba(90, 150, 230, 0.9); }
+  .voyager-label-purple { --voyager-label: rgba(165, 115, 220, 0.9); }
+
+  .voyager-row-annotation {
+    flex-shrink: 0;
+    padding-top: 1px;
+    font-size: 10px;
+    line-height: 1;
+    color: var(--voyager-label);
+  }
+
+  .voyager-annotation-markers {
+    position: fixed;
+    inset: 0;
+    z-index: 9997;
+    pointer-events: none;
+  }
+
+  .voyager-annotation-marker {
+    position: fixed;
+    display: inline-flex;
+    align-items: center;
+    gap: 6px;
+    box-sizing: border-box;
+    padding: 2px 8px;
+    border-radius: 6px;
+    border-left: 3px solid var(--voyager-label);
+    background: var(--bg-300, rgba(255, 255, 255, 0.05));
+    font-size: 12px;
+    line-height: 1.5;
+    color: var(--text-200, rgba(232, 228, 222, 0.75));
+    cursor: pointer;
+    user-select: none;
+    pointer-events: auto;
+  }
+
+  .voyager-annotation-marker::before {
+    content: '\\270E';
+    color: var(--voyager-label);
+  }
+
+  .voyager-annotation-marker::after {
+    content: attr(data-note);
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .voyager-annotation-editor {
+    position: fixed;
+    z-index: 50002;
+    width: 280px;
+    padding: 10px;
+    display: flex;
+    flex-direction: column;
+    gap: 8px;
+    background-color: #2b2520;
+    background-color: var(--bg-100, #2b2520);
+    border: 0.5px solid var(--border-200, rgba(255, 255, 255, 0.1));
+    border-radius: 12px;
+    box-shadow: 0 8px 32px rgba(0, 0, 0, 0.45);
+  }
+
+  .voyager-annotation-input {
+    width: 100%;
+    resize: vertical;
+    padding: 6px 8px;
+    border: 0.5px solid var(--border-200, rgba(255, 255, 255, 0.1));
+    border-radius: 8px;
+    background: var(--bg-000, rgba(0, 0, 0, 0.2));
+    color: var(--text-100, rgba(232, 228, 222, 0.95));
+    font: inherit;
+    font-size: 12px;
+    outline: none;
+  }
+
+  .voyager-annotation-swatches {
+    display: flex;
+    gap: 6px;
+  }
+
+  .voyager-annotation-swatch {
+    width: 18px;
+    height: 18px;
+    padding: 0;
+    border-radius: 50%;
+    border: 2px solid transparent;
+    background: var(--voyager-label);
+    cursor: pointer;
+  }
+
+  .voyager-annotation-swatch.voyager-label-none {
+    background: transparent;
+    border-color: var(--voyager-label);
+    border-style: dashed;
+  }
+
+  .voyager-annotation-swatch-selected {
+    box-shadow: 0 0 0 2px var(--bg-100, #2b2520), 0 0 0 3px var(--text-100, rgba(232, 228, 222, 0.95));
+  }
+
+  .voyager-annotation-actions {
+    display: flex;
+    justify-content: flex-end;
+    gap: 6px;
+  }
+
+  .voyager-annotation-btn {
+    padding: 4px 10px;
+    border: 0.5px solid var(--border-200, rgba(255, 255, 255, 0.1));
+    border-radius: 6px;
+    background: none;
+    color: var(--text-200, rgba(232, 228, 222, 0.75));
+    font-size: 12px;
+    cursor: pointer;
+  }
+
+  .voyager-annotation-save {
+    background: var(--accent-main, rgba(217, 170, 90, 0.9));
+    border-color: transparent;
+    color: #1a1714;
+  }
+
+  .voyager-annotation-remove {
+    margin-right: auto;
+    color: rgba(220, 90, 70, 0.9);
+  }
+
+  /* ─── Starred Dashboard ────────────────────────────────── */
+  .voyager-starred-backdrop {
+    position: fixed;
+    inset: 0;
+    z-index: 60000;
+    background: rgba(0, 0, 0, 0.45);
+    display: flex;
+    justify-content: center;
+    align-items: flex-start;
+    padding-top: 8vh;
+  }
+
+  .voyager-starred-dialog {
+    width: min(720px, calc(100vw - 32px));
+    max-height: 80vh;
+    background-color: #2b2520;
+    background-color: var(--bg-100, #2b2520);
+    border: 0.5px solid var(--border-200, rgba(255, 255, 255, 0.1));
+    border-radius: 12px;
+    box-shadow: 0 16px 48px rgba(0, 0, 0, 0.55);
+    display: flex;
+    flex-direction: column;
+    overflow: hidden;
+  }
+
+  .voyager-starred-header {
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    padding: 12px 16px 8px;
+  }
+
+  .voyager-starred-title {
+    font-size: 13px;
+    font-weight: 600;
+    color: var(--text-100, rgba(232, 228, 222, 0.95));
+  }
+
+  .voyager-starred-toolbar {
+    display: flex;
+    gap: 6px;
+    padding: 0 16px 10px;
+    border-bottom: 0.5px solid var(--border-100, rgba(255, 255, 255, 0.06));
+  }
+
+  .voyager-starred-search,
+  .voyager-starred-select,
+  .voyager-starred-note {
+    padding: 5px 8px;
+    border: 0.5px solid var(--border-200, rgba(255, 255, 255, 0.1));
+    border-radius: 6px;
+    background: var(--bg-000, rgba(20, 18, 15, 0.8));
+    color: var(--text-100, rgba(232, 228, 222, 0.9));
+    font-size: 12px;
+    outline: none;
+  }
+
+  .voyager-starred-search {
+    flex: 1;
+    min-width: 0;
+  }
+
+  .voyager-starred-search:focus,
+  .voyager-starred-note:focus {
+    border-color: var(--accent-main, rgba(217, 170, 90, 0.5));
+  }
+
+  .voyager-starred-list {
+    flex: 1;
+    overflow-y: auto;
+    padding: 6px 8px 10px;
+    scrollbar-width: thin;
+    scrollbar-color: rgba(255, 255, 255, 0.1) transparent;
+  }
+
+  .voyager-starred-group-head {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    padding: 10px 8px 4px;
+  }
+
+  .voyager-starred-group-label {
+    font-size: 11px;
+    font-weight: 600;
+    color: var(--text-300, rgba(232, 228, 222, 0.5));
+    text-transform: uppercase;
+    letter-spacing: 0.05em;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .voyager-starred-item {
+    display: flex;
+    align-items: flex-start;
+    gap: 10px;
+    padding: 8px;
+    border-radius: 8px;
+    cursor: pointer;
+    transition: background 0.12s;
+  }
+
+  .voyager-starred-item:hover {
+    background: var(--bg-200, rgba(255, 255, 255, 0.04));
+  }
+
+  .voyager-starred-body {
+    flex: 1;
+    min-width: 0;
+    display: flex;
+    flex-direction: column;
+    gap: 4px;
+  }
+
+  .voyager-starred-meta {
+    font-size: 10px;
+    color: var(--text-300, rgba(232, 228, 222, 0.4));
+  }
+
+  .voyager-starred-orphan-badge {
+    margin-left: 6px;
+    padding: 0 5px;
+    border-radius: 6px;
+    background: rgba(220, 90, 70, 0.15);
+    color: rgba(220, 90, 70, 0.9);
+  }
+
+  .voyager-starred-orphaned .voyager-starred-preview {
+    opacity: 0.6;
+  }
+
+  .voyager-starred-preview {
+    font-size: 12px;
+    line-height: 1.45;
+    color: var(--text-200, rgba(232, 228, 222, 0.8));
+    overflow: hidden;
+    display: -webkit-box;
+    -webkit-line-clamp: 2;
+    -webkit-box-orient: vertical;
+  }
+
+  .voyager-starred-note::placeholder {
+    color: var(--text-300, rgba(232, 228, 222, 0.3));
+  }
+
+  .voyager-starred-remove {
+    background: none;
+    border: none;
+    color: var(--text-300, rgba(232, 228, 222, 0.35));
+    cursor: pointer;
+    font-size: 12px;
+    padding: 2px 4px;
+    border-radius: 4px;
+  }
+
+  .voyager-starred-remove:hover {
+    color: rgba(220, 90, 70, 1);
+    background: rgba(220, 90, 70, 0.1);
+  }
+
+  .voyager-starred-empty {
+    padding: 24px 16px;
+    text-align: center;
+    font-size: 12px;
+    color: var(--text-300, rgba(232, 228, 222, 0.4));
+  }
+
   /* ─── Utility ──────────────────────────────────────────── */
   .voyager-hidden {
     display: none !important;
@@ -4,7 +4,8 @@
  * Renders a vertical timeline sidebar on the right edge of the chat.
  * Each message gets a visual node — clicking scrolls to the message,
  * hovering shows a preview tooltip.
- * Messages can be starred and assigned levels (1-3).
+ * Messages can be starred and assigned levels (1-3); the starred dashboard
+ * lists stars across all conversations.
  */
 
 export { TimelineFeature } from './TimelineFeature';
@@ -33,6 +33,7 @@ export interface Translations {
   featureWidthAdjust: string;
   featureTabTitleSync: string;
   featureFormulaCopy: string;
+  featureSearch: string;
 
   // Feature descriptions
   featureTimelineDesc: string;
@@ -42,6 +43,7 @@ export interface Translations {
   featureWidthAdjustDesc: string;
   featureTabTitleSyncDesc: string;
   featureFormulaCopyDesc: string;
+  featureSearchDesc: string;
 
   // Settings
   chatWidth: string;
@@ -52,6 +54,11 @@ export interface Translations {
   popupSubtitle: string;
   allOn: string;
   allOff: string;
+  snapshotCache: string;
+  snapshotCacheDesc: string;
+  snapshotCacheCount: string;
+  clearSnapshotCache: string;
+  clearSnapshotCacheConfirm: string;
   enableAll: string;
   disableAll: string;
 
@@ -69,11 +76,81 @@ export interface Translations {
   importFailedJson: string;
   importFinished: string;
   failedSaveFolders: string;
+  exportFolder: string;
+  exportFolderZip: string;
+  exportFolderMarkdown: string;
+  exportFolderEmpty: string;
+  exportFolderRunning: string;
+  exportFolderCancelling: string;
+  exportFolderDone: string;
+  exportFolderExported: string;
+  exportFolderFailedCount: string;
+  exportFolderFailed: string;
+  newSmartFolder: string;
+  editSmartFolder: string;
+  smartFolderName: string;
+  smartFolderHint: string;
+  smartFolderEmpty: string;
+  smartMatchAll: string;
+  smartMatchAny: string;
+  smartAddRule: string;
+  smartRemoveRule: string;
+  smartRuleTitleRegex: string;
+  smartRuleStarred: string;
+  smartRuleHasNotes: string;
+  smartRuleOpenedWithin: string;
+  smartRuleSidebarSection: string;
+  smartRulePatternPlaceholder: string;
+  smartRuleSectionPlaceholder: string;
+  smartMatches: string;
+  smartRulesIncomplete: string;
+  allFolders: string;
+  focusFolder: string;
+  collapseAll: string;
+  breadcrumbHint: string;
+  filingRules: string;
+  filingHint: string;
+  filingKeywordsPlaceholder: string;
+  filingProjectPlaceholder: string;
+  filingInvalidPattern: string;
+  filingRemoveRules: string;
+  autoFiledInto: string;
+  autoFiledCount: string;
+  undoFiling: string;
+  refreshTitles: string;
+  titlesRefreshed: string;
+  cleanUpMissing: string;
+  missingConversations: string;
+  cleanUpMissingConfirm: string;
+  noMissingConversations: string;
+  conversationMissing: string;
+  selectConversation: string;
+  selectionHint: string;
+  selectedCount: string;
+  bulkMove: string;
+  bulkCopy: string;
+  bulkRemove: string;
+  bulkRemoveConfirm: string;
+  bulkExport: string;
+  bulkOpenTabs: string;
+  openTabsConfirm: string;
+  clearSelection: string;
+  selectedConversations: string;
+  folderAppearance: string;
+  folderNoColor: string;
+  folderIconPlaceholder: string;
+  pinFolder: string;
+  pinnedFolder: string;
+  pinnedFolders: string;
+  folderEmpty: string;
+  inFolders: string;
+  addToFolder: string;
 
   // Prompt feature
   promptLibrary: string;
   newPrompt: string;
   searchPrompts: string;
+  searchPromptsHint: string;
   noPromptsFound: string;
   noPromptsSaved: string;
   insertBtn: string;
@@ -91,11 +168,89 @@ export interface Translations {
   promptImportFinished: string;
   promptCopiedFallback: string;
   promptInsertFailed: string;
+  promptTemplateHint: string;
+  promptTemplateBadgeHint: string;
+  fillVariables: string;
+  slashCommandHint: string;
+  historyBtn: string;
+  sortPrompts: string;
+  sortCreated: string;
+  sortMostUsed: string;
+  sortRecentlyUsed: string;
+  sortAlphabetical: string;
+  promptStats: string;
+  statsUses: string;
+  statsLastWeek: string;
+  statsNeverUsed: string;
+  statsTopPrompts: string;
+  statsTopChats: string;
+  promptCategories: string;
+  allPrompts: string;
+  uncategorized: string;
+  categoryTreeHint: string;
+  categoryNestingHint: string;
+  deleteCategory: string;
+  deleteCategoryConfirm: string;
+  manageTags: string;
+  noTags: string;
+  tagManagerHint: string;
+  renameTag: string;
+  deleteTag: string;
+  deleteTagConfirm: string;
+  changeTagColor: string;
+  mergeVariants: string;
+  failedSaveTagColor: string;
+  promptChains: string;
+  newChain: string;
+  noChains: string;
+  chainTitle: string;
+  chainSteps: string;
+  chainAddStep: string;
+  chainAutoInsert: string;
+  chainAutoBadge: string;
+  chainRun: string;
+  chainNoSteps: string;
+  failedSaveChains: string;
+  saveAsPrompt: string;
+  promptSource: string;
+  chainStep: string;
+  chainNextStep: string;
+  chainWaitingForReply: string;
+  chainInsertNext: string;
+  chainSkipStep: string;
+  chainAbort: string;
+  chainDone: string;
+  moveStepUp: string;
+  moveStepDown: string;
+  removeStep: string;
+  importPromptsHint: string;
+  importPack: string;
+  packConflict: string;
+  packConflictsAll: string;
+  conflictSkip: string;
+  conflictOverwrite: string;
+  conflictKeepBoth: string;
+  packEmpty: string;
+  packReadFailed: string;
+  packDuplicates: string;
+  importMixedFiles: string;
+  packAdded: string;
+  packOverwritten: string;
+  packSkipped: string;
+  promptHistory: string;
+  currentVersion: string;
+  restoreVersion: string;
+  historyDiffHint: string;
+  noDifferences: string;
 
   // Export feature
   exportAsJson: string;
   exportAsMarkdown: string;
   exportAsPdf: string;
+  exportAsZip: string;
+  exportZipFailed: string;
+  conversations: string;
+  tableOfContents: string;
   untitledConversation: string;
 
   // Timeline feature
@@ -107,10 +262,51 @@ export interface Translations {
   starLevel2: string;
   starLevel3: string;
   removeStar: string;
+  filterMessages: string;
+  filterMatches: string;
+  previousMatch: string;
+  nextMatch: string;
+  starredDashboard: string;
+  filterStarred: string;
+  groupByConversation: string;
+  groupByLevel: string;
+  allLevels: string;
+  sortNewestFirst: string;
+  sortOldestFirst: string;
+  noStarredMessages: string;
+  noStarsMatch: string;
+  addNote: string;
+  failedSaveStarred: string;
+  starOrphaned: string;
+  starOrphanedHint: string;
+  addAnnotation: string;
+  editAnnotation: string;
+  removeAnnotation: string;
+  annotationPlaceholder: string;
+  annotationNoLabel: string;
+  labelRed: string;
+  labelOrange: string;
+  labelYellow: string;
+  labelGreen: string;
+  labelBlue: string;
+  labelPurple: string;
+  failedSaveAnnotations: string;
+  annotationExportHeading: string;
 
   // Formula copy
   copyLatex: string;
   copyLatexSource: string;
+
+  // Search feature
+  searchPlaceholder: string;
+  searchNoResults: string;
+  searchEmptyHint: string;
+  searchKeyboardHint: string;
+  searchKindMessage: string;
+  searchKindConversation: string;
+  searchKindFolder: string;
+  searchKindPrompt: string;
+  searchKindStar: string;
 }
 
 const en: Translations = {
@@ -138,14 +334,16 @@ const en: Translations = {
   featureWidthAdjust: 'Adjustable Chat Width',
   featureTabTitleSync: 'Tab Title Sync',
   featureFormulaCopy: 'Formula Copy',
+  featureSearch: 'Search',
 
   featureTimelineDesc: 'Adds a vertical dot-timeline on the right side. Click a dot to jump to that message. Long-press to star.',
   featureFoldersDesc: 'Folder icon in top-left opens an overlay panel to organize chats into folders. Drag conversations from the sidebar into folders.',
   featurePromptsDesc: 'Floating button (bottom-right) opens a prompt library. Save, search, and one-click insert reusable prompt templates.',
-  featureExportDesc: 'Floating "Export" button (top-right) on chat pages. Download conversations as JSON, Markdown, or print as PDF.',
+  featureExportDesc: 'Floating "Export" button (top-right) on chat pages. Download conversations as JSON, Markdown, ZIP bundle, or print as PDF.',
   featureWidthAdjustDesc: 'Uses the width slider above to override the chat area max-width, making conversations wider or narrower.',
   featureTabTitleSyncDesc: 'Keeps the browser tab title in sync with the current conversation title instead of showing "Claude".',
   featureFormulaCopyDesc: 'Hover over a rendered LaTeX formula to see a copy button. Click it to copy the original LaTeX source to clipboard.',
+  featureSearchDesc: 'Press Ctrl/Cmd+Shift+F to search the full text of previously opened chats, plus folders, prompts and starred messages. Results jump to the matching message.',
 
   chatWidth: 'Chat Width',
   language: 'Language',
@@ -154,6 +352,11 @@ const en: Translations = {
   popupSubtitle: 'Productivity features for claude.ai',
   allOn: 'All on',
   allOff: 'All off',
+  snapshotCache: 'Local conversation cache',
+  snapshotCacheDesc: 'Copies of opened chats kept on this device for search and exporting chats that are not open. Only recorded while Search, Export or Folders is on.',
+  snapshotCacheCount: 'Cached conversations',
+  clearSnapshotCache: 'Clear cache',
+  clearSnapshotCacheConfirm: 'Delete all cached conversation copies from this device?',
   enableAll: 'Enable all',
   disableAll: 'Disable all',
 
@@ -170,10 +373,80 @@ const en: Translations = {
   importFailedJson: 'Import failed: file is not valid JSON.',
   importFinished: 'Folder import finished.',
   failedSaveFolders: 'Failed to save folders.',
+  exportFolder: 'Export folder',
+  exportFolderZip: 'Export folder as ZIP',
+  exportFolderMarkdown: 'Export folder as Markdown',
+  exportFolderEmpty: 'This folder and its subfolders contain no conversations.',
+  exportFolderRunning: 'Exporting folder...',
+  exportFolderCancelling: 'Cancelling export...',
+  exportFolderDone: 'Folder export finished.',
+  exportFolderExported: 'Exported',
+  exportFolderFailedCount: 'Failed',
+  exportFolderFailed: 'Folder export failed.',
+  newSmartFolder: 'New smart folder',
+  editSmartFolder: 'Edit rules',
+  smartFolderName: 'Folder name',
+  smartFolderHint: 'Smart folder: its contents follow from the rules and update on their own.',
+  smartFolderEmpty: 'No matching conversations.',
+  smartMatchAll: 'Match all rules',
+  smartMatchAny: 'Match any rule',
+  smartAddRule: 'Add rule',
+  smartRemoveRule: 'Remove rule',
+  smartRuleTitleRegex: 'Title matches regex',
+  smartRuleStarred: 'Has a starred message',
+  smartRuleHasNotes: 'Has notes',
+  smartRuleOpenedWithin: 'Opened within days',
+  smartRuleSidebarSection: 'In sidebar section',
+  smartRulePatternPlaceholder: 'e.g. ^Review|bug',
+  smartRuleSectionPlaceholder: 'e.g. Starred',
+  smartMatches: 'conversations match',
+  smartRulesIncomplete: 'Complete or remove the highlighted rules.',
+  allFolders: 'All folders',
+  focusFolder: 'Show only this folder',
+  collapseAll: 'Collapse all',
+  breadcrumbHint: 'Click a level to show it; drop a folder on it to move the folder there.',
+  filingRules: 'Auto-filing rules',
+  filingHint: 'New conversations whose title contains a keyword or matches the pattern are added to this folder. With a project set, only chats started in that project are.',
+  filingKeywordsPlaceholder: 'Title keywords, comma-separated',
+  filingProjectPlaceholder: 'Project (any)',
+  filingInvalidPattern: 'The title pattern is not a valid regular expression.',
+  filingRemoveRules: 'Remove rules',
+  autoFiledInto: 'Filed into',
+  autoFiledCount: 'new conversations filed',
+  undoFiling: 'Undo',
+  refreshTitles: 'Refresh titles',
+  titlesRefreshed: 'Titles updated',
+  cleanUpMissing: 'Clean up missing',
+  missingConversations: 'conversations no longer exist on claude.ai.',
+  cleanUpMissingConfirm: 'Remove them from all folders?',
+  noMissingConversations: 'No missing conversations found. Chats are checked when you open them.',
+  conversationMissing: 'This chat no longer exists on claude.ai',
+  selectConversation: 'Select conversation',
+  selectionHint: 'Shift-click selects a range, Ctrl/Cmd-click adds a single conversation',
+  selectedCount: 'selected',
+  bulkMove: 'Move to...',
+  bulkCopy: 'Copy to...',
+  bulkRemove: 'Remove',
+  bulkRemoveConfirm: 'Remove the selected conversations from their folders?',
+  bulkExport: 'Export...',
+  bulkOpenTabs: 'Open in tabs',
+  openTabsConfirm: 'tabs will be opened. Continue?',
+  clearSelection: 'Clear selection',
+  selectedConversations: 'Selected conversations',
+  folderAppearance: 'Color, icon and pinning',
+  folderNoColor: 'No color',
+  folderIconPlaceholder: 'Emoji icon',
+  pinFolder: 'Pin to sidebar',
+  pinnedFolder: 'Pinned to the sidebar',
+  pinnedFolders: 'Pinned folders',
+  folderEmpty: 'No conversations yet.',
+  inFolders: 'In folders:',
+  addToFolder: 'Add to folder...',
 
   promptLibrary: 'Prompt Library',
   newPrompt: 'New Prompt',
-  searchPrompts: 'Search prompts by title or tag...',
+  searchPrompts: 'Search prompts (tag:, cat:, -exclude)...',
+  searchPromptsHint: 'Searches title, tags, category and content. Filters: tag:name, cat:name, "exact phrase", -exclude',
   noPromptsFound: 'No prompts found.',
   noPromptsSaved: 'No prompts saved yet.',
   insertBtn: 'Insert',
@@ -191,10 +464,88 @@ const en: Translations = {
   promptImportFinished: 'Prompt import finished.',
   promptCopiedFallback: 'Could not insert prompt automatically. Prompt was copied to clipboard.',
   promptInsertFailed: 'Could not insert prompt automatically.',
+  promptTemplateHint: 'Variables: {{name}} or {{name:default}}. Built-in: {{date}}, {{time}}, {{title}}, {{user}}, {{selection}}.',
+  promptTemplateBadgeHint: 'Template — asks for its variables before inserting',
+  fillVariables: 'Fill in',
+  historyBtn: 'History',
+  sortPrompts: 'Sort prompts',
+  sortCreated: 'Creation order',
+  sortMostUsed: 'Most used',
+  sortRecentlyUsed: 'Recently used',
+  sortAlphabetical: 'A\u2013Z',
+  promptStats: 'Usage statistics',
+  statsUses: 'Insertions',
+  statsLastWeek: 'Last 7 days',
+  statsNeverUsed: 'Never used',
+  statsTopPrompts: 'Most used prompts',
+  statsTopChats: 'Chats using the most prompts',
+  promptCategories: 'Categories',
+  allPrompts: 'All prompts',
+  uncategorized: 'Uncategorized',
+  categoryTreeHint: 'Drag prompts or categories onto a category to move them. Double-click to rename.',
+  categoryNestingHint: 'Category (nest with /, e.g. Code/Review)',
+  deleteCategory: 'Remove category',
+  deleteCategoryConfirm: 'Remove this category? Its prompts and subcategories move up one level.',
+  manageTags: 'Manage tags',
+  noTags: 'No tags yet.',
+  tagManagerHint: 'Renaming a tag to an existing name merges the two. Click the dot to change a color.',
+  renameTag: 'Rename tag',
+  deleteTag: 'Delete tag',
+  deleteTagConfirm: 'Remove this tag from all prompts?',
+  changeTagColor: 'Change color',
+  mergeVariants: 'Merge spellings',
+  failedSaveTagColor: 'Failed to save tag color.',
+  promptChains: 'Prompt chains',
+  newChain: 'New chain',
+  noChains: 'No chains yet. A chain inserts its prompts one after another, each after the previous reply.',
+  chainTitle: 'Chain name',
+  chainSteps: 'steps',
+  chainAddStep: 'Add step...',
+  chainAutoInsert: 'Insert the next step automatically after each reply',
+  chainAutoBadge: 'auto',
+  chainRun: 'Run',
+  chainNoSteps: 'None of the prompts in this chain exist anymore.',
+  failedSaveChains: 'Failed to save prompt chains.',
+  saveAsPrompt: 'Save as prompt',
+  promptSource: 'Saved from',
+  chainStep: 'Step',
+  chainNextStep: 'Next',
+  chainWaitingForReply: 'waiting for the reply',
+  chainInsertNext: 'Insert next',
+  chainSkipStep: 'Skip',
+  chainAbort: 'Abort',
+  chainDone: 'Chain finished.',
+  moveStepUp: 'Move up',
+  moveStepDown: 'Move down',
+  removeStep: 'Remove step',
+  importPromptsHint: 'Import prompts: JSON export, Markdown files or a ZIP of Markdown files',
+  importPack: 'Import prompt pack',
+  packConflict: 'Already in library',
+  packConflictsAll: 'All conflicts',
+  conflictSkip: 'Skip',
+  conflictOverwrite: 'Overwrite',
+  conflictKeepBoth: 'Keep both',
+  packEmpty: 'No prompts found in the selected files.',
+  packReadFailed: 'Could not read the prompt pack.',
+  packDuplicates: 'Prompts repeated within the pack were left out',
+  importMixedFiles: 'Choose either one JSON backup or Markdown/ZIP prompt packs, not both.',
+  packAdded: 'Added',
+  packOverwritten: 'Overwritten',
+  packSkipped: 'Skipped',
+  promptHistory: 'Version history',
+  currentVersion: 'Current',
+  restoreVersion: 'Restore this version',
+  historyDiffHint: 'Changes from the selected version to the current one:',
+  noDifferences: 'No differences.',
+  slashCommandHint: '\u2191\u2193 to select \u00B7 Enter to insert \u00B7 Esc to close',
 
   exportAsJson: 'Export as JSON',
   exportAsMarkdown: 'Export as Markdown',
   exportAsPdf: 'Export as PDF',
+  exportAsZip: 'Export as ZIP bundle',
+  exportZipFailed: 'ZIP export failed.',
+  conversations: 'conversations',
+  tableOfContents: 'Contents',
   untitledConversation: 'Untitled Conversation',
 
   messages: 'Messages',
@@ -205,9 +556,49 @@ const en: Translations = {
   starLevel2: '\u2605 Level 2',
   starLevel3: '\u2605 Level 3',
   removeStar: 'Remove Star',
+  filterMessages: 'Filter messages...',
+  filterMatches: 'Matches in this message',
+  previousMatch: 'Previous match (Shift+Enter)',
+  nextMatch: 'Next match (Enter)',
+  starredDashboard: 'Starred messages',
+  filterStarred: 'Filter by text, note or chat...',
+  groupByConversation: 'By chat',
+  groupByLevel: 'By level',
+  allLevels: 'All levels',
+  sortNewestFirst: 'Newest first',
+  sortOldestFirst: 'Oldest first',
+  noStarredMessages: 'No starred messages yet. Long-press a timeline row to star it.',
+  noStarsMatch: 'No starred messages match the filter.',
+  addNote: 'Add a note...',
+  failedSaveStarred: 'Failed to save starred messages.',
+  starOrphaned: 'Message not found',
+  starOrphanedHint: 'The starred message was edited, regenerated or is on another branch. The star re-attaches when the message shows up again.',
+  addAnnotation: 'Add note / label...',
+  editAnnotation: 'Edit note / label...',
+  removeAnnotation: 'Remove note',
+  annotationPlaceholder: 'Private note for this message...',
+  annotationNoLabel: 'No label',
+  labelRed: 'Red',
+  labelOrange: 'Orange',
+  labelYellow: 'Yellow',
+  labelGreen: 'Green',
+  labelBlue: 'Blue',
+  labelPurple: 'Purple',
+  failedSaveAnnotations: 'Failed to save the note.',
+  annotationExportHeading: 'Note',
 
   copyLatex: 'Copy LaTeX',
   copyLatexSource: 'Copy LaTeX source',
+
+  searchPlaceholder: 'Search chats, folders, prompts and stars...',
+  searchNoResults: 'No matches.',
+  searchEmptyHint: 'Searches every chat opened since the extension was installed.',
+  searchKeyboardHint: '\u2191\u2193 to select \u00B7 Enter to open \u00B7 Esc to close',
+  searchKindMessage: 'Message',
+  searchKindConversation: 'Chat',
+  searchKindFolder: 'Folder',
+  searchKindPrompt: 'Prompt',
+  searchKindStar: 'Starred',
 };
 
 const de: Translations = {
@@ -235,14 +626,16 @@ const de: Translations = {
   featureWidthAdjust: 'Chat-Breite anpassen',
   featureTabTitleSync: 'Tab-Titel-Synchronisierung',
   featureFormulaCopy: 'Formel kopieren',
+  featureSearch: 'Suche',
 
   featureTimelineDesc: 'Vertikale Punkt-Timeline rechts. Klick springt zur Nachricht. Langes Drücken markiert mit Stern.',
   featureFoldersDesc: 'Ordner-Symbol oben links öffnet ein Overlay-Panel. Chats per Drag-and-Drop aus der Seitenleiste in Ordner sortieren.',
   featurePromptsDesc: 'Schwebender Button (unten rechts) öffnet die Prompt-Bibliothek. Vorlagen speichern, suchen und per Klick einfügen.',
-  featureExportDesc: 'Schwebender "Export"-Button (oben rechts) auf Chat-Seiten. Konversationen als JSON, Markdown oder PDF herunterladen.',
+  featureExportDesc: 'Schwebender "Export"-Button (oben rechts) auf Chat-Seiten. Konversationen als JSON, Markdown, ZIP-Paket oder PDF herunterladen.',
   featureWidthAdjustDesc: 'Nutzt den Breite-Schieberegler oben, um die maximale Chat-Breite anzupassen - breiter oder schmaler.',
   featureTabTitleSyncDesc: 'Synchronisiert den Browser-Tab-Titel mit dem aktuellen Gesprächstitel statt "Claude" anzuzeigen.',
   featureFormulaCopyDesc: 'Beim Hovern über eine gerenderte LaTeX-Formel erscheint ein Kopier-Button für den LaTeX-Quellcode.',
+  featureSearchDesc: 'Strg/Cmd+Umschalt+F durchsucht den Volltext bereits geöffneter Chats sowie Ordner, Prompts und mit Stern markierte Nachrichten. Treffer springen direkt zur passenden Nachricht.',
 
   chatWidth: 'Chat-Breite',
   language: 'Sprache',
@@ -251,6 +644,11 @@ const de: Translations = {
   popupSubtitle: 'Produktivitäts-Features für claude.ai',
   allOn: 'Alle an',
   allOff: 'Alle aus',
+  snapshotCache: 'Lokaler Unterhaltungs-Cache',
+  snapshotCacheDesc: 'Kopien geöffneter Chats auf diesem Gerät, für die Suche und den Export nicht geöffneter Chats. Wird nur bei aktiver Suche, Export- oder Ordner-Funktion angelegt.',
+  snapshotCacheCount: 'Gespeicherte Unterhaltungen',
+  clearSnapshotCache: 'Cache leeren',
+  clearSnapshotCacheConfirm: 'Alle gespeicherten Kopien von Unterhaltungen auf diesem Gerät löschen?',
   enableAll: 'Alle aktivieren',
   disableAll: 'Alle deaktivieren',
 
@@ -267,10 +665,80 @@ const de: Translations = {
   importFailedJson: 'Import fehlgeschlagen: Datei ist kein gültiges JSON.',
   importFinished: 'Ordner-Import abgeschlossen.',
   failedSaveFolders: 'Ordner konnten nicht gespeichert werden.',
+  exportFolder: 'Ordner exportieren',
+  exportFolderZip: 'Ordner als ZIP exportieren',
+  exportFolderMarkdown: 'Ordner als Markdown exportieren',
+  exportFolderEmpty: 'Dieser Ordner und seine Unterordner enthalten keine Konversationen.',
+  exportFolderRunning: 'Ordner wird exportiert...',
+  exportFolderCancelling: 'Export wird abgebrochen...',
+  exportFolderDone: 'Ordner-Export abgeschlossen.',
+  exportFolderExported: 'Exportiert',
+  exportFolderFailedCount: 'Fehlgeschlagen',
+  exportFolderFailed: 'Ordner-Export fehlgeschlagen.',
+  newSmartFolder: 'Neuer intelligenter Ordner',
+  editSmartFolder: 'Regeln bearbeiten',
+  smartFolderName: 'Ordnername',
+  smartFolderHint: 'Intelligenter Ordner: Der Inhalt ergibt sich aus den Regeln und aktualisiert sich selbst.',
+  smartFolderEmpty: 'Keine passenden Konversationen.',
+  smartMatchAll: 'Alle Regeln müssen zutreffen',
+  smartMatchAny: 'Eine Regel muss zutreffen',
+  smartAddRule: 'Regel hinzufügen',
+  smartRemoveRule: 'Regel entfernen',
+  smartRuleTitleRegex: 'Titel passt auf Regex',
+  smartRuleStarred: 'Hat eine markierte Nachricht',
+  smartRuleHasNotes: 'Hat Notizen',
+  smartRuleOpenedWithin: 'Geöffnet innerhalb von Tagen',
+  smartRuleSidebarSection: 'In Seitenleisten-Bereich',
+  smartRulePatternPlaceholder: 'z. B. ^Review|Fehler',
+  smartRuleSectionPlaceholder: 'z. B. Starred',
+  smartMatches: 'Konversationen passen',
+  smartRulesIncomplete: 'Markierte Regeln vervollständigen oder entfernen.',
+  allFolders: 'Alle Ordner',
+  focusFolder: 'Nur diesen Ordner zeigen',
+  collapseAll: 'Alle einklappen',
+  breadcrumbHint: 'Ebene anklicken, um sie anzuzeigen; Ordner darauf ziehen, um ihn dorthin zu verschieben.',
+  filingRules: 'Regeln zum automatischen Einsortieren',
+  filingHint: 'Neue Unterhaltungen, deren Titel ein Stichwort enthält oder zum Muster passt, kommen in diesen Ordner. Ist ein Projekt gesetzt, nur Chats, die in diesem Projekt begonnen wurden.',
+  filingKeywordsPlaceholder: 'Stichwörter im Titel, durch Kommas getrennt',
+  filingProjectPlaceholder: 'Projekt (beliebig)',
+  filingInvalidPattern: 'Das Titelmuster ist kein gültiger regulärer Ausdruck.',
+  filingRemoveRules: 'Regeln entfernen',
+  autoFiledInto: 'Einsortiert in',
+  autoFiledCount: 'neue Unterhaltungen einsortiert',
+  undoFiling: 'Rückgängig',
+  refreshTitles: 'Titel aktualisieren',
+  titlesRefreshed: 'Aktualisierte Titel',
+  cleanUpMissing: 'Fehlende aufräumen',
+  missingConversations: 'Unterhaltungen gibt es auf claude.ai nicht mehr.',
+  cleanUpMissingConfirm: 'Aus allen Ordnern entfernen?',
+  noMissingConversations: 'Keine fehlenden Unterhaltungen gefunden. Chats werden beim Öffnen geprüft.',
+  conversationMissing: 'Diesen Chat gibt es auf claude.ai nicht mehr',
+  selectConversation: 'Unterhaltung auswählen',
+  selectionHint: 'Umschalt-Klick wählt einen Bereich, Strg/Cmd-Klick fügt eine einzelne Unterhaltung hinzu',
+  selectedCount: 'ausgewählt',
+  bulkMove: 'Verschieben nach...',
+  bulkCopy: 'Kopieren nach...',
+  bulkRemove: 'Entfernen',
+  bulkRemoveConfirm: 'Ausgewählte Unterhaltungen aus ihren Ordnern entfernen?',
+  bulkExport: 'Exportieren...',
+  bulkOpenTabs: 'In Tabs öffnen',
+  openTabsConfirm: 'Tabs werden geöffnet. Fortfahren?',
+  clearSelection: 'Auswahl aufheben',
+  selectedConversations: 'Ausgewählte Unterhaltungen',
+  folderAppearance: 'Farbe, Symbol und Anheften',
+  folderNoColor: 'Keine Farbe',
+  folderIconPlaceholder: 'Emoji-Symbol',
+  pinFolder: 'In der Seitenleiste anheften',
+  pinnedFolder: 'In der Seitenleiste angeheftet',
+  pinnedFolders: 'Angeheftete Ordner',
+  folderEmpty: 'Noch keine Unterhaltungen.',
+  inFolders: 'In Ordnern:',
+  addToFolder: 'Zu Ordner hinzufügen...',
 
   promptLibrary: 'Prompt-Bibliothek',
   newPrompt: 'Neuer Prompt',
-  searchPrompts: 'Prompts nach Titel oder Tag suchen...',
+  searchPrompts: 'Prompts durchsuchen (tag:, cat:, -ausschließen)...',
+  searchPromptsHint: 'Durchsucht Titel, Tags, Kategorie und Inhalt. Filter: tag:name, cat:name, "exakte Phrase", -ausschließen',
   noPromptsFound: 'Keine Prompts gefunden.',
   noPromptsSaved: 'Noch keine Prompts gespeichert.',
   insertBtn: 'Einfügen',
@@ -288,10 +756,88 @@ const de: Translations = {
   promptImportFinished: 'Prompt-Import abgeschlossen.',
   promptCopiedFallback: 'Prompt konnte nicht automatisch eingefügt werden. In Zwischenablage kopiert.',
   promptInsertFailed: 'Prompt konnte nicht automatisch eingefügt werden.',
+  promptTemplateHint: 'Variablen: {{name}} oder {{name:Standardwert}}. Eingebaut: {{date}}, {{time}}, {{title}}, {{user}}, {{selection}}.',
+  promptTemplateBadgeHint: 'Vorlage — fragt vor dem Einfügen nach ihren Variablen',
+  fillVariables: 'Ausfüllen',
+  historyBtn: 'Verlauf',
+  sortPrompts: 'Prompts sortieren',
+  sortCreated: 'Erstellungsreihenfolge',
+  sortMostUsed: 'Meistgenutzt',
+  sortRecentlyUsed: 'Zuletzt genutzt',
+  sortAlphabetical: 'A\u2013Z',
+  promptStats: 'Nutzungsstatistik',
+  statsUses: 'Einfügungen',
+  statsLastWeek: 'Letzte 7 Tage',
+  statsNeverUsed: 'Nie genutzt',
+  statsTopPrompts: 'Meistgenutzte Prompts',
+  statsTopChats: 'Chats mit den meisten Prompts',
+  promptCategories: 'Kategorien',
+  allPrompts: 'Alle Prompts',
+  uncategorized: 'Ohne Kategorie',
+  categoryTreeHint: 'Prompts oder Kategorien auf eine Kategorie ziehen, um sie zu verschieben. Doppelklick zum Umbenennen.',
+  categoryNestingHint: 'Kategorie (mit / verschachteln, z. B. Code/Review)',
+  deleteCategory: 'Kategorie entfernen',
+  deleteCategoryConfirm: 'Diese Kategorie entfernen? Ihre Prompts und Unterkategorien rücken eine Ebene nach oben.',
+  manageTags: 'Tags verwalten',
+  noTags: 'Noch keine Tags.',
+  tagManagerHint: 'Ein Tag auf einen vorhandenen Namen umzubenennen führt beide zusammen. Klick auf den Punkt ändert die Farbe.',
+  renameTag: 'Tag umbenennen',
+  deleteTag: 'Tag löschen',
+  deleteTagConfirm: 'Diesen Tag aus allen Prompts entfernen?',
+  changeTagColor: 'Farbe ändern',
+  mergeVariants: 'Schreibweisen zusammenführen',
+  failedSaveTagColor: 'Tag-Farbe konnte nicht gespeichert werden.',
+  promptChains: 'Prompt-Ketten',
+  newChain: 'Neue Kette',
+  noChains: 'Noch keine Ketten. Eine Kette fügt ihre Prompts nacheinander ein, jeweils nach der vorigen Antwort.',
+  chainTitle: 'Name der Kette',
+  chainSteps: 'Schritte',
+  chainAddStep: 'Schritt hinzufügen...',
+  chainAutoInsert: 'Nächsten Schritt nach jeder Antwort automatisch einfügen',
+  chainAutoBadge: 'automatisch',
+  chainRun: 'Starten',
+  chainNoSteps: 'Keiner der Prompts dieser Kette existiert noch.',
+  failedSaveChains: 'Prompt-Ketten konnten nicht gespeichert werden.',
+  saveAsPrompt: 'Als Prompt speichern',
+  promptSource: 'Gespeichert aus',
+  chainStep: 'Schritt',
+  chainNextStep: 'Als Nächstes',
+  chainWaitingForReply: 'warte auf die Antwort',
+  chainInsertNext: 'Nächsten einfügen',
+  chainSkipStep: 'Überspringen',
+  chainAbort: 'Abbrechen',
+  chainDone: 'Kette abgeschlossen.',
+  moveStepUp: 'Nach oben',
+  moveStepDown: 'Nach unten',
+  removeStep: 'Schritt entfernen',
+  importPromptsHint: 'Prompts importieren: JSON-Export, Markdown-Dateien oder ein ZIP mit Markdown-Dateien',
+  importPack: 'Prompt-Paket importieren',
+  packConflict: 'Schon in der Bibliothek',
+  packConflictsAll: 'Alle Konflikte',
+  conflictSkip: 'Überspringen',
+  conflictOverwrite: 'Überschreiben',
+  conflictKeepBoth: 'Beide behalten',
+  packEmpty: 'Keine Prompts in den gewählten Dateien gefunden.',
+  packReadFailed: 'Das Prompt-Paket konnte nicht gelesen werden.',
+  packDuplicates: 'Im Paket mehrfach enthaltene Prompts wurden ausgelassen',
+  importMixedFiles: 'Bitte entweder eine JSON-Sicherung oder Markdown/ZIP-Prompt-Pakete wählen, nicht beides.',
+  packAdded: 'Hinzugefügt',
+  packOverwritten: 'Überschrieben',
+  packSkipped: 'Übersprungen',
+  promptHistory: 'Versionsverlauf',
+  currentVersion: 'Aktuell',
+  restoreVersion: 'Diese Version wiederherstellen',
+  historyDiffHint: 'Änderungen von der gewählten zur aktuellen Version:',
+  noDifferences: 'Keine Unterschiede.',
+  slashCommandHint: '\u2191\u2193 auswählen \u00B7 Enter einfügen \u00B7 Esc schließen',
 
   exportAsJson: 'Als JSON exportieren',
   exportAsMarkdown: 'Als Markdown exportieren',
   exportAsPdf: 'Als PDF exportieren',
+  exportAsZip: 'Als ZIP-Paket exportieren',
+  exportZipFailed: 'ZIP-Export fehlgeschlagen.',
+  conversations: 'Konversationen',
+  tableOfContents: 'Inhalt',
   untitledConversation: 'Unbenannte Konversation',
 
   messages: 'Nachrichten',
@@ -302,9 +848,49 @@ const de: Translations = {
   starLevel2: '\u2605 Stufe 2',
   starLevel3: '\u2605 Stufe 3',
   removeStar: 'Stern entfernen',
+  filterMessages: 'Nachrichten filtern...',
+  filterMatches: 'Treffer in dieser Nachricht',
+  previousMatch: 'Vorheriger Treffer (Umschalt+Enter)',
+  nextMatch: 'Nächster Treffer (Enter)',
+  starredDashboard: 'Markierte Nachrichten',
+  filterStarred: 'Nach Text, Notiz oder Chat filtern...',
+  groupByConversation: 'Nach Chat',
+  groupByLevel: 'Nach Stufe',
+  allLevels: 'Alle Stufen',
+  sortNewestFirst: 'Neueste zuerst',
+  sortOldestFirst: 'Älteste zuerst',
+  noStarredMessages: 'Noch keine markierten Nachrichten. Timeline-Zeile lange drücken, um sie zu markieren.',
+  noStarsMatch: 'Keine markierten Nachrichten passen zum Filter.',
+  addNote: 'Notiz hinzufügen...',
+  failedSaveStarred: 'Markierte Nachrichten konnten nicht gespeichert werden.',
+  starOrphaned: 'Nachricht nicht gefunden',
+  starOrphanedHint: 'Die markierte Nachricht wurde bearbeitet, neu generiert oder liegt in einem anderen Zweig. Der Stern wird wieder zugeordnet, sobald die Nachricht erscheint.',
+  addAnnotation: 'Notiz / Label hinzufügen...',
+  editAnnotation: 'Notiz / Label bearbeiten...',
+  removeAnnotation: 'Notiz entfernen',
+  annotationPlaceholder: 'Private Notiz zu dieser Nachricht...',
+  annotationNoLabel: 'Kein Label',
+  labelRed: 'Rot',
+  labelOrange: 'Orange',
+  labelYellow: 'Gelb',
+  labelGreen: 'Grün',
+  labelBlue: 'Blau',
+  labelPurple: 'Lila',
+  failedSaveAnnotations: 'Die Notiz konnte nicht gespeichert werden.',
+  annotationExportHeading: 'Notiz',
 
   copyLatex: 'LaTeX kopieren',
   copyLatexSource: 'LaTeX-Quellcode kopieren',
+
+  searchPlaceholder: 'Chats, Ordner, Prompts und Sterne durchsuchen...',
+  searchNoResults: 'Keine Treffer.',
+  searchEmptyHint: 'Durchsucht alle Chats, die seit der Installation der Erweiterung geöffnet wurden.',
+  searchKeyboardHint: '\u2191\u2193 auswählen \u00B7 Enter öffnen \u00B7 Esc schließen',
+  searchKindMessage: 'Nachricht',
+  searchKindConversation: 'Chat',
+  searchKindFolder: 'Ordner',
+  searchKindPrompt: 'Prompt',
+  searchKindStar: 'Stern',
 };
 
 const translations: Record<Locale, Translations> = { en, de };
@@ -4,6 +4,7 @@
  * Responsibilities:
  * - Handle messages from popup and content scripts
  * - Manage storage operations
+ * - Own the IndexedDB conversation snapshot cache
  * - Broadcast settings changes to content scripts
  */
 
@@ -11,6 +12,7 @@ import browser from 'webextension-polyfill';
 import { Logger } from '@core/services/LoggerService';
 import { Storage } from '@core/services/StorageService';
 import { Messaging } from '@core/services/MessageService';
+import { SnapshotStore, type SnapshotInput } from '@core/services/SnapshotService';
 import type { VoyagerSettings, FeatureKey } from '@core/types';
 
 const TAG = 'Background';
@@ -66,6 +68,57 @@ function setupHandlers(): void {
     return { success: true };
   });
 
+  // ─── Snapshot cache ───────────────────────────────────────────
+
+  Messaging.on('SNAPSHOT_SAVE', async (message) => {
+    const input = message.payload as SnapshotInput;
+    if (!input?.conversationId || !Array.isArray(input.messages)) {
+      return { success: false, error: 'Invalid snapshot payload' };
+    }
+    const meta = await SnapshotStore.save(input);
+    return { success: true, data: meta };
+  });
+
+  Messaging.on('SNAPSHOT_GET', async (message) => {
+    const { conversationId } = message.payload as { conversationId: string };
+    return { success: true, data: await SnapshotStore.get(conversationId) };
+  });
+
+  Messaging.on('SNAPSHOT_LIST', async () => {
+    return { success: true, data: await SnapshotStore.list() };
+  });
+
+  Messaging.on('SNAPSHOT_SEARCH', async (message) => {
+    const { query, limit } = message.payload as { query: string; limit: number };
+    return { success: true, data: await SnapshotStore.search(query, limit) };
+  });
+
+  Messaging.on('SNAPSHOT_DELETE', async (message) => {
+    const { conversationId } = message.payload as { conversationId: string };
+    await SnapshotStore.delete(conversationId);
+    return { success: true };
+  });
+
+  Messaging.on('SNAPSHOT_CLEAR', async () => {
+    await SnapshotStore.clear();
+    return { success: true };
+  });
+
+  // ─── Tabs ─────────────────────────────────────────────────────
+
+  Messaging.on('OPEN_TABS', async (message, sender) => {
+    const { urls } = message.payload as { urls: string[] };
+    const chatUrls = Array.isArray(urls)
+      ? urls.filter((url) => typeof url === 'string' && url.startsWith('https://claude.ai/chat/'))
+      : [];
+    // Open in the background, right after the tab that asked
+    const start = sender.tab?.index;
+    for (const [i, url] of chatUrls.entries()) {
+      await browser.tabs.create({ url, active: false, ...(start != null ? { index: start + 1 + i } : {}) });
+    }
+    return { success: true, data: chatUrls.length };
+  });
+
   Messaging.listen();
 }
 
@@ -13,6 +13,7 @@ import { Logger } from '@core/services/LoggerService';
 import { Storage } from '@core/services/StorageService';
 import { DOM } from '@core/services/DOMService';
 import { Messaging } from '@core/services/MessageService';
+import { Snapshots } from '@core/services/SnapshotService';
 import { debounce } from '@core/utils';
 import type { VoyagerSettings, FeatureKey, Locale } from '@core/types';
 
@@ -24,6 +25,7 @@ import { ExportFeature } from '@features/export/ExportFeature';
 import { WidthAdjustFeature } from '@features/widthAdjust/WidthAdjustFeature';
 import { TabTitleSyncFeature } from '@features/tabTitleSync/TabTitleSyncFeature';
 import { FormulaCopyFeature } from '@features/formulaCopy/FormulaCopyFeature';
+import { SearchFeature } from '@features/search/SearchFeature';
 
 const TAG = 'Content';
 let currentLocale: Locale = 'en';
@@ -65,6 +67,12 @@ interface SidebarPromotedItem {
 const sidebarPromotedItems: SidebarPromotedItem[] = [];
 
 const MESSAGE_OBSERVER_MAX_RETRIES = 6;
+/** Quiet period before a changed conversation is written to the snapshot cache */
+const SNAPSHOT_DEBOUNCE_MS = 2000;
+/** Features that read the snapshot cache; nothing is captured while all are off */
+const SNAPSHOT_CONSUMERS: FeatureKey[] = ['search', 'export', 'folders'];
+/** Last captured state per conversation â€” skips redundant snapshot writes */
+let lastSnapshotSignature = '';
 
 // â”€â”€â”€ Feature Registration â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
 
@@ -214,7 +222,12 @@ function setupMessageObserver(retryCount = 0): void {
     }
   }, 150);
 
-  DOM.observe('messages', container, onMutation, {
+  const onSnapshot = debounce(() => void captureConversationSnapshot(), SNAPSHOT_DEBOUNCE_MS);
+
+  DOM.observe('messages', container, () => {
+    onMutation();
+    onSnapshot();
+  }, {
     childList: true,
     subtree: true,
   });
@@ -222,6 +235,38 @@ function setupMessageObserver(retryCount = 0): void {
   Logger.info(TAG, 'Message observer initialized');
 }
 
+/** Persist the open conversation's parsed messages to the snapshot cache */
+async function captureConversationSnapshot(): Promise<void> {
+  if (!SNAPSHOT_CONSUMERS.some((key) => activeFeatures.has(key))) return;
+  const conversationId = DOM.getConversationId();
+  if (!conversationId) return;
+
+  const messages = DOM.getChatMessages();
+  if (messages.length === 0) return;
+
+  const textLength = messages.reduce((sum, m) => sum + m.contentText.length, 0);
+  const signature = `${conversationId}:${messages.length}:${textLength}`;
+  if (signature === lastSnapshotSignature) return;
+  lastSnapshotSignature = signature;
+
+  try {
+    const saved = await Snapshots.save({
+      conversationId,
+      title: DOM.getConversationTitle() ?? conversationId,
+      messages: messages.map((m) => ({
+        role: m.role,
+        contentText: m.contentText,
+        contentHtml: DOM.sanitizeMessageHtml(m.contentHtml),
+        index: m.index,
+      })),
+    });
+    if (!saved) lastSnapshotSignature = '';
+  } catch (err) {
+    lastSnapshotSignature = '';
+    Logger.warn(TAG, 'Failed to save conversation snapshot', err);
+  }
+}
+
 // â”€â”€â”€ Message Handling â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
 
 function setupMessageHandlers(): void {
@@ -677,6 +722,7 @@ registerFeature(ExportFeature);
 registerFeature(WidthAdjustFeature);
 registerFeature(TabTitleSyncFeature);
 registerFeature(FormulaCopyFeature);
+registerFeature(SearchFeature);
 
 // â”€â”€â”€ Bootstrap â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€â”€
 
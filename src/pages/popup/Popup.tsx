@@ -17,12 +17,13 @@ const FEATURE_I18N: Record<FeatureKey, { name: keyof ReturnType<typeof t>; desc:
   widthAdjust: { name: 'featureWidthAdjust', desc: 'featureWidthAdjustDesc' },
   tabTitleSync: { name: 'featureTabTitleSync', desc: 'featureTabTitleSyncDesc' },
   formulaCopy: { name: 'featureFormulaCopy', desc: 'featureFormulaCopyDesc' },
+  search: { name: 'featureSearch', desc: 'featureSearchDesc' },
 };
 
 const FEATURE_ORDER: FeatureKey[] = [
   'timeline', 'folders', 'prompts', 'export',
   'widthAdjust', 'tabTitleSync',
-  'formulaCopy',
+  'formulaCopy', 'search',
 ];
 
 export function Popup() {
@@ -30,6 +31,9 @@ export function Popup() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  /** Conversations in the snapshot cache; null until counted */
+  const [cacheCount, setCacheCount] = useState<number | null>(null);
+  const [clearingCache, setClearingCache] = useState(false);
   const settingsRef = useRef(settings);
   const updateQueueRef = useRef<Promise<void>>(Promise.resolve());
 
@@ -65,6 +69,17 @@ export function Popup() {
     };
   }, []);
 
+  // Count cached conversations on mount
+  useEffect(() => {
+    let active = true;
+    Messaging.send({ type: 'SNAPSHOT_LIST' }).then((res) => {
+      if (active && res.success && Array.isArray(res.data)) setCacheCount(res.data.length);
+    }).catch(() => {});
+    return () => {
+      active = false;
+    };
+  }, []);
+
   const runQueued = useCallback(async (operation: () => Promise<void>) => {
     const run = updateQueueRef.current.then(operation, operation);
     updateQueueRef.current = run.then(() => undefined, () => undefined);
@@ -151,6 +166,25 @@ export function Popup() {
     await updateSettings({ locale: newLocale });
   }, [updateSettings]);
 
+  /** Delete every cached conversation copy */
+  const clearCache = useCallback(async () => {
+    if (!window.confirm(t(settingsRef.current.locale).clearSnapshotCacheConfirm)) return;
+    setError(null);
+    setClearingCache(true);
+    try {
+      const res = await Messaging.send({ type: 'SNAPSHOT_CLEAR' });
+      if (res.success) {
+        setCacheCount(0);
+      } else {
+        setError(res.error ?? 'Failed to clear the cache.');
+      }
+    } catch (err) {
+      setError(String(err));
+    } finally {
+      setClearingCache(false);
+    }
+  }, []);
+
   /** Change chat width */
   const changeChatWidth = useCallback(async (width: number) => {
     await updateSettings({ chatWidth: width });
@@ -300,6 +334,25 @@ export function Popup() {
         </div>
       </div>
 
+      {/* Snapshot cache */}
+      <div style={styles.section}>
+        <h2 style={styles.sectionTitle}>{tr.snapshotCache}</h2>
+        <span style={styles.featureDesc}>{tr.snapshotCacheDesc}</span>
+        <div style={styles.cacheRow}>
+          <span style={styles.sectionLabel}>
+            {tr.snapshotCacheCount}: {cacheCount ?? '-'}
+          </span>
+          <button
+            type="button"
+            style={styles.cacheButton}
+            disabled={clearingCache || cacheCount === 0}
+            onClick={() => void clearCache()}
+          >
+            {tr.clearSnapshotCache}
+          </button>
+        </div>
+      </div>
+
       {/* Footer */}
       <footer style={styles.footer}>
         <span>{saving ? tr.saving : `Claude Voyager v${DEFAULT_SETTINGS.schemaVersion}.0`}</span>
@@ -469,6 +522,21 @@ const styles: Record<string, React.CSSProperties> = {
     left: '2px',
     transition: 'transform 0.2s',
   },
+  cacheRow: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '8px',
+  },
+  cacheButton: {
+    padding: '5px 10px',
+    borderRadius: '6px',
+    border: '0.5px solid rgba(255, 255, 255, 0.1)',
+    background: 'rgba(20, 18, 15, 0.8)',
+    color: 'rgba(232, 228, 222, 0.9)',
+    fontSize: '12px',
+    cursor: 'pointer',
+  },
   footer: {
     textAlign: 'center',
     fontSize: '11px',